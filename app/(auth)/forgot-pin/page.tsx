@@ -1,10 +1,10 @@
 "use client";
 
-import { useState } from "react";
+import { Suspense, useMemo, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import {
@@ -16,85 +16,158 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { VerifyResetCodeForm } from "@/components/auth/verify-reset-code-form";
+import { NewPinForm } from "@/components/auth/new-pin-form";
 import { authApi } from "@/lib/api/endpoints";
+import { MessageKey, Translate } from "@/lib/i18n";
+import { useTranslation } from "@/hooks/use-translation";
 import { toast } from "sonner";
 
-const forgotPinSchema = z.object({
-  email_id: z.string().email("Invalid email address"),
-});
+// Used when the backend does not say
+const DEFAULT_RESEND_COOLDOWN_SECONDS = 60;
 
-type ForgotPinFormValues = z.infer<typeof forgotPinSchema>;
+const createForgotPinSchema = (t: Translate) =>
+  z.object({
+    email_id: z.string().email(t("validation.emailInvalid")),
+  });
 
-export default function ForgotPinPage() {
-  const [isLoading, setIsLoading] = useState(false);
+type ForgotPinFormValues = z.infer<ReturnType<typeof createForgotPinSchema>>;
+
+type ResetStep = "request" | "verify" | "new-pin";
+
+const STEP_DESCRIPTIONS: Record<ResetStep, MessageKey> = {
+  request: "forgotPin.step.request",
+  verify: "forgotPin.step.verify",
+  "new-pin": "forgotPin.step.newPin",
+};
+
+function ForgotPinFlow() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+
+  // The emailed reset link carries the email and token - go straight to verification
+  const linkEmail = searchParams.get("email") || "";
+  const linkToken = searchParams.get("token") || "";
+
+  const [step, setStep] = useState<ResetStep>(linkEmail && linkToken ? "verify" : "request");
+  const [email, setEmail] = useState(linkEmail);
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  const [resendAvailableAt, setResendAvailableAt] = useState<number | null>(null);
+  // Bumped for every code sent so the verify form starts with fresh attempts
+  const [codeVersion, setCodeVersion] = useState(0);
+  const [resetToken, setResetToken] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const { t } = useTranslation();
+  const forgotPinSchema = useMemo(() => createForgotPinSchema(t), [t]);
 
   const form = useForm<ForgotPinFormValues>({
     resolver: zodResolver(forgotPinSchema),
     defaultValues: {
-      email_id: "",
+      email_id: linkEmail,
     },
   });
 
-  const onSubmit = async (data: ForgotPinFormValues) => {
+  const requestCode = async (emailId: string) => {
     setIsLoading(true);
     try {
-      const response = await authApi.resetPin(data);
+      const response = await authApi.resetPin({ email_id: emailId });
       if (response.success) {
-        toast.success(response.message || "PIN reset instructions sent to your email");
-        router.push("/login");
+        const now = Date.now();
+        toast.success(response.message || t("forgotPin.codeSent"));
+        setEmail(emailId);
+        setExpiresAt(response.expires_in ? now + response.expires_in * 1000 : null);
+        setResendAvailableAt(now + (response.resend_after ?? DEFAULT_RESEND_COOLDOWN_SECONDS) * 1000);
+        setCodeVersion((version) => version + 1);
+        setStep("verify");
       } else {
-        toast.error(response.message || "Failed to reset PIN");
+        toast.error(response.message || t("forgotPin.sendFailed"));
       }
     } catch (error: any) {
-      toast.error(error.message || "An error occurred");
+      if (error.retry_after) {
+        setResendAvailableAt(Date.now() + error.retry_after * 1000);
+      }
+      toast.error(error.message || t("auth.error"));
     } finally {
       setIsLoading(false);
     }
   };
 
+  const startOver = () => {
+    setResetToken("");
+    setStep("request");
+  };
+
+  const handleVerified = (token: string) => {
+    setResetToken(token);
+    setStep("new-pin");
+  };
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-primary/10 via-background to-background p-4">
       <Card className="w-full max-w-md">
         <CardHeader className="text-center">
-          <CardTitle className="text-2xl font-bold">Forgot PIN</CardTitle>
-          <CardDescription>
-            Enter your email to receive PIN reset instructions
-          </CardDescription>
+          <CardTitle className="text-2xl font-bold">
+            {step === "new-pin" ? t("forgotPin.resetTitle") : t("forgotPin.title")}
+          </CardTitle>
+          <CardDescription>{t(STEP_DESCRIPTIONS[step])}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <Form {...form}>
-            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-              <FormField
-                control={form.control}
-                name="email_id"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Email</FormLabel>
-                    <FormControl>
-                      <Input
-                        type="email"
-                        placeholder="Enter your email"
-                        {...field}
-                        disabled={isLoading}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              <Button type="submit" className="w-full" disabled={isLoading}>
-                {isLoading ? "Sending..." : "Send Reset Instructions"}
-              </Button>
-            </form>
-          </Form>
+          {step === "request" && (
+            <Form {...form}>
+              <form
+                onSubmit={form.handleSubmit((data) => requestCode(data.email_id))}
+                className="space-y-4"
+              >
+                <FormField
+                  control={form.control}
+                  name="email_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t("auth.email")}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="email"
+                          placeholder={t("auth.emailPlaceholder")}
+                          {...field}
+                          disabled={isLoading}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading ? t("forgotPin.sending") : t("forgotPin.send")}
+                </Button>
+              </form>
+            </Form>
+          )}
+
+          {step === "verify" && (
+            <VerifyResetCodeForm
+              key={codeVersion}
+              email={email}
+              defaultCode={codeVersion === 0 ? linkToken : ""}
+              expiresAt={expiresAt}
+              resendAvailableAt={resendAvailableAt}
+              isResending={isLoading}
+              onResend={() => requestCode(email)}
+              onVerified={handleVerified}
+              onChangeEmail={startOver}
+            />
+          )}
+
+          {step === "new-pin" && (
+            <NewPinForm email={email} resetToken={resetToken} onExpired={startOver} />
+          )}
+
           <div className="text-center">
             <Button
               variant="link"
               className="text-sm"
               onClick={() => router.push("/login")}
             >
-              Back to Login
+              {t("forgotPin.backToLogin")}
             </Button>
           </div>
         </CardContent>
@@ -103,3 +176,11 @@ export default function ForgotPinPage() {
   );
 }
 
+export default function ForgotPinPage() {
+  // useSearchParams needs a Suspense boundary to prerender
+  return (
+    <Suspense>
+      <ForgotPinFlow />
+    </Suspense>
+  );
+}
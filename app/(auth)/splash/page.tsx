@@ -4,10 +4,12 @@ import { useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useAuthStore } from "@/store/auth-store";
 import { BrandIcon, Logo } from "@/components/icons";
+import { useTranslation } from "@/hooks/use-translation";
 
 export default function SplashPage() {
   const router = useRouter();
   const { isAuthenticated } = useAuthStore();
+  const { t } = useTranslation();
 
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -29,7 +31,7 @@ export default function SplashPage() {
             <BrandIcon size={80} color="current" className="text-white" />
             <Logo size="xl" variant="text" className="text-white" />
           </div>
-          <p className="text-primary-foreground/80">Feed Formulation System</p>
+          <p className="text-primary-foreground/80">{t("splash.tagline")}</p>
         </div>
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-white mx-auto"></div>
       </div>
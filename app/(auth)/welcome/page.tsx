@@ -4,9 +4,11 @@ import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Logo } from "@/components/icons";
+import { useTranslation } from "@/hooks/use-translation";
 
 export default function WelcomePage() {
   const router = useRouter();
+  const { t } = useTranslation();
 
   return (
     <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-primary/10 via-background to-background p-4">
@@ -15,22 +17,17 @@ export default function WelcomePage() {
           <div className="flex justify-center mb-4">
             <Logo size="lg" variant="full" />
           </div>
-          <CardDescription className="text-lg">
-            Dairy Cattle Nutrition Optimization System
-          </CardDescription>
+          <CardDescription className="text-lg">{t("welcome.subtitle")}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
-          <p className="text-center text-muted-foreground">
-            Create optimal feed formulations for your dairy cattle with our
-            advanced nutrition optimization system.
-          </p>
+          <p className="text-center text-muted-foreground">{t("welcome.description")}</p>
           <div className="space-y-2">
             <Button
               className="w-full"
               size="lg"
               onClick={() => router.push("/login")}
             >
-              Login
+              {t("login.submit")}
             </Button>
             <Button
               variant="outline"
@@ -38,7 +35,7 @@ export default function WelcomePage() {
               size="lg"
               onClick={() => router.push("/register")}
             >
-              Register
+              {t("register.submit")}
             </Button>
           </div>
         </CardContent>
@@ -0,0 +1,197 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { adminApi } from "@/lib/api/endpoints";
+import { clearBreedCatalogue, DEFAULT_BREEDS } from "@/lib/breeds";
+import { useAuthStore } from "@/store/auth-store";
+import { toast } from "sonner";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ApiError, Breed } from "@/lib/types";
+import { BreedDialog } from "@/components/admin/breed-dialog";
+import { Edit, Plus, Trash2 } from "lucide-react";
+
+export default function AdminBreedsPage() {
+  const { user } = useAuthStore();
+  const [breeds, setBreeds] = useState<Breed[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingBreed, setEditingBreed] = useState<Breed | null>(null);
+
+  const isAdmin = !!user?.is_admin;
+
+  const loadBreeds = useCallback(async () => {
+    if (!isAdmin) return;
+    try {
+      const data: Breed[] = await adminApi.listBreeds();
+      setBreeds(data);
+    } catch (error) {
+      toast.error((error as ApiError).message || "Failed to load breeds");
+    } finally {
+      setLoading(false);
+    }
+  }, [isAdmin]);
+
+  useEffect(() => {
+    loadBreeds();
+  }, [loadBreeds]);
+
+  const openDialog = (breed: Breed | null) => {
+    setEditingBreed(breed);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (breed: Breed) => {
+    if (!user?.is_admin || !confirm(`Are you sure you want to delete ${breed.name}?`)) {
+      return;
+    }
+
+    try {
+      await adminApi.deleteBreed(breed.id);
+      clearBreedCatalogue();
+      toast.success("Breed deleted successfully");
+      loadBreeds();
+    } catch (error) {
+      toast.error((error as ApiError).message || "Failed to delete breed");
+    }
+  };
+
+  // Until the catalogue has entries, users are offered the built-in breeds
+  const handleImportDefaults = async () => {
+    if (!user?.is_admin) return;
+    setImporting(true);
+    try {
+      for (const breed of DEFAULT_BREEDS) {
+        await adminApi.addBreed({ ...breed, is_active: true });
+      }
+      clearBreedCatalogue();
+      toast.success(`${DEFAULT_BREEDS.length} breeds added`);
+      loadBreeds();
+    } catch (error) {
+      toast.error((error as ApiError).message || "Failed to add built-in breeds");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (!user?.is_admin) {
+    return null;
+  }
+
+  return (
+    <div className="container mx-auto max-w-6xl py-6">
+      <BreedDialog
+        breed={editingBreed}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSuccess={loadBreeds}
+      />
+      <Card>
+        <CardHeader>
+          <CardTitle>Breed Catalogue</CardTitle>
+          <CardDescription>
+            Breeds offered per country, with the defaults and body weight bounds used in the cattle form
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex justify-end">
+            <Button onClick={() => openDialog(null)}>
+              <Plus className="me-2 h-4 w-4" />
+              Add Breed
+            </Button>
+          </div>
+
+          {loading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Breed</TableHead>
+                  <TableHead>Countries</TableHead>
+                  <TableHead>Group</TableHead>
+                  <TableHead className="text-end">Mature Weight (kg)</TableHead>
+                  <TableHead className="text-end">Weight Bounds (kg)</TableHead>
+                  <TableHead className="text-end">Fat / Protein (%)</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {breeds.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">
+                      <div className="space-y-2">
+                        <p>No breeds found. Users are offered the built-in breeds.</p>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={handleImportDefaults}
+                          disabled={importing}
+                          className="min-h-[44px]"
+                        >
+                          {importing ? "Adding..." : "Add Built-in Breeds"}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  breeds.map((breed) => (
+                    <TableRow key={breed.id}>
+                      <TableCell className="font-medium">{breed.name}</TableCell>
+                      <TableCell>
+                        {breed.country_codes.length > 0 ? breed.country_codes.join(", ") : "All"}
+                      </TableCell>
+                      <TableCell className="capitalize">{breed.breed_group || "—"}</TableCell>
+                      <TableCell className="text-end">{breed.mature_weight_kg}</TableCell>
+                      <TableCell className="text-end">
+                        {breed.min_body_weight_kg}-{breed.max_body_weight_kg}
+                      </TableCell>
+                      <TableCell className="text-end">
+                        {breed.fat_milk} / {breed.tp_milk}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => openDialog(breed)}
+                            aria-label={`Edit breed ${breed.name}`}
+                            className="min-h-[44px] min-w-[44px]"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDelete(breed)}
+                            aria-label={`Delete breed ${breed.name}`}
+                            className="min-h-[44px] min-w-[44px]"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -43,7 +43,7 @@ export default function AdminBulkUploadPage() {
 
     setUploading(true);
     try {
-      const result = await adminApi.bulkUploadFeeds(user.id, selectedFile);
+      const result = await adminApi.bulkUploadFeeds(selectedFile);
       setUploadResult(result);
       
       if (result.success) {
@@ -68,7 +68,7 @@ export default function AdminBulkUploadPage() {
 
     setExportingStandard(true);
     try {
-      const result = await adminApi.exportFeeds(user.id);
+      const result = await adminApi.exportFeeds();
       if (result.success && result.file_url) {
         window.open(result.file_url, "_blank");
         toast.success("Export started");
@@ -87,7 +87,7 @@ export default function AdminBulkUploadPage() {
 
     setExportingCustom(true);
     try {
-      const result = await adminApi.exportCustomFeeds(user.id);
+      const result = await adminApi.exportCustomFeeds();
       if (result.success && result.file_url) {
         window.open(result.file_url, "_blank");
         toast.success("Export started");
@@ -201,7 +201,7 @@ export default function AdminBulkUploadPage() {
                       <div key={idx} className="text-xs text-muted-foreground py-1 border-b last:border-b-0">
                         <span className="font-medium">Row {record.row}:</span> {record.reason}
                         {record.data && (
-                          <details className="mt-1 ml-4">
+                          <details className="mt-1 ms-4">
                             <summary className="cursor-pointer text-xs">View details</summary>
                             <pre className="text-xs mt-1 p-2 bg-muted rounded overflow-x-auto">
                               {JSON.stringify(record.data, null, 2)}
@@ -226,7 +226,7 @@ export default function AdminBulkUploadPage() {
                     size="sm"
                     onClick={() => window.open(uploadResult.bulk_import_log, "_blank")}
                   >
-                    <FileText className="mr-2 h-4 w-4" />
+                    <FileText className="me-2 h-4 w-4" />
                     View Import Log
                   </Button>
                 </div>
@@ -249,7 +249,7 @@ export default function AdminBulkUploadPage() {
               disabled={exportingStandard}
               className="min-h-[44px] w-full sm:w-auto"
             >
-              <Download className="mr-2 h-4 w-4" />
+              <Download className="me-2 h-4 w-4" />
               {exportingStandard ? "Exporting..." : "Export Standard Feeds"}
             </Button>
             <Button 
@@ -258,7 +258,7 @@ export default function AdminBulkUploadPage() {
               disabled={exportingCustom}
               className="min-h-[44px] w-full sm:w-auto"
             >
-              <Download className="mr-2 h-4 w-4" />
+              <Download className="me-2 h-4 w-4" />
               {exportingCustom ? "Exporting..." : "Export Custom Feeds"}
             </Button>
           </div>
@@ -99,7 +99,7 @@ export default function AdminFeedTypesPage() {
   const loadFeedTypes = async () => {
     if (!user?.is_admin) return;
     try {
-      const data = await adminApi.listFeedTypes(user.id);
+      const data = await adminApi.listFeedTypes();
       setFeedTypes(data);
     } catch (error: any) {
       toast.error(error.message || "Failed to load feed types");
@@ -111,7 +111,7 @@ export default function AdminFeedTypesPage() {
   const loadFeedCategories = async () => {
     if (!user?.is_admin) return;
     try {
-      const data = await adminApi.listFeedCategories(user.id);
+      const data = await adminApi.listFeedCategories();
       setFeedCategories(data);
     } catch (error: any) {
       toast.error(error.message || "Failed to load feed categories");
@@ -122,7 +122,7 @@ export default function AdminFeedTypesPage() {
     if (!user?.is_admin) return;
 
     try {
-      await adminApi.addFeedType(user.id, data);
+      await adminApi.addFeedType(data);
       toast.success("Feed type added successfully");
       typeForm.reset();
       setTypeDialogOpen(false);
@@ -138,7 +138,7 @@ export default function AdminFeedTypesPage() {
     }
 
     try {
-      await adminApi.deleteFeedType(user.id, typeId);
+      await adminApi.deleteFeedType(typeId);
       toast.success("Feed type deleted successfully");
       loadFeedTypes();
     } catch (error: any) {
@@ -150,7 +150,7 @@ export default function AdminFeedTypesPage() {
     if (!user?.is_admin) return;
 
     try {
-      await adminApi.addFeedCategory(user.id, data);
+      await adminApi.addFeedCategory(data);
       toast.success("Feed category added successfully");
       categoryForm.reset();
       setCategoryDialogOpen(false);
@@ -166,7 +166,7 @@ export default function AdminFeedTypesPage() {
     }
 
     try {
-      await adminApi.deleteFeedCategory(user.id, categoryId);
+      await adminApi.deleteFeedCategory(categoryId);
       toast.success("Feed category deleted successfully");
       loadFeedCategories();
     } catch (error: any) {
@@ -197,7 +197,7 @@ export default function AdminFeedTypesPage() {
                 <Dialog open={typeDialogOpen} onOpenChange={setTypeDialogOpen}>
                   <DialogTrigger asChild>
                     <Button>
-                      <Plus className="mr-2 h-4 w-4" />
+                      <Plus className="me-2 h-4 w-4" />
                       Add Feed Type
                     </Button>
                   </DialogTrigger>
@@ -340,7 +340,7 @@ export default function AdminFeedTypesPage() {
                 <Dialog open={categoryDialogOpen} onOpenChange={setCategoryDialogOpen}>
                   <DialogTrigger asChild>
                     <Button>
-                      <Plus className="mr-2 h-4 w-4" />
+                      <Plus className="me-2 h-4 w-4" />
                       Add Feed Category
                     </Button>
                   </DialogTrigger>
@@ -43,7 +43,7 @@ export default function AdminFeedbackPage() {
     setLoading(true);
     try {
       const offset = (page - 1) * pageSize;
-      const response = await adminApi.getAllFeedbacks(user.id, 100, 0); // Load more for filtering
+      const response = await adminApi.getAllFeedbacks(100, 0); // Load more for filtering
       let filteredFeedbacks: AdminFeedbackResponse[] = response.feedbacks || [];
 
       // Apply filters
@@ -79,7 +79,7 @@ export default function AdminFeedbackPage() {
   const loadStats = async () => {
     if (!user?.is_admin) return;
     try {
-      const data = await adminApi.getFeedbackStats(user.id);
+      const data = await adminApi.getFeedbackStats();
       setStats(data);
     } catch (error: any) {
       // Stats are optional, don't show error
@@ -215,7 +215,7 @@ export default function AdminFeedbackPage() {
                             }`}
                           />
                         ))}
-                        <span className="ml-2 text-sm text-muted-foreground">
+                        <span className="ms-2 text-sm text-muted-foreground">
                           {feedback.overall_rating}/5
                         </span>
                       </div>
@@ -48,8 +48,7 @@ export default function AdminFeedsPage() {
     setLoading(true);
     try {
       const response: AdminFeedListResponse = await adminApi.getFeeds(
-        user.id,
-        page,
+                page,
         20,
         undefined,
         undefined,
@@ -71,7 +70,7 @@ export default function AdminFeedsPage() {
     }
 
     try {
-      await adminApi.deleteFeed(user.id, feedId);
+      await adminApi.deleteFeed(feedId);
       toast.success("Feed deleted successfully");
       loadFeeds();
     } catch (error: any) {
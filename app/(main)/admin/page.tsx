@@ -3,7 +3,7 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useRouter } from "next/navigation";
-import { Users, Package, FileText, Upload, MessageSquare } from "lucide-react";
+import { Users, Package, FileText, Upload, MessageSquare, Beef } from "lucide-react";
 import { useAuthStore } from "@/store/auth-store";
 import { useEffect } from "react";
 
@@ -26,6 +26,12 @@ const adminMenuItems = [
     icon: Package,
     href: "/admin/feed-types",
   },
+  {
+    title: "Breed Catalogue",
+    description: "Manage breeds, defaults and weight bounds",
+    icon: Beef,
+    href: "/admin/breeds",
+  },
   {
     title: "Bulk Upload",
     description: "Upload feeds in bulk",
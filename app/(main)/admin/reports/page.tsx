@@ -52,8 +52,7 @@ export default function AdminReportsPage() {
     setLoading(true);
     try {
       const response: AdminGetAllReportsResponse = await adminApi.getAllReports(
-        user.id,
-        page,
+                page,
         20
       );
       let filteredReports = response.reports || [];
@@ -100,12 +99,12 @@ export default function AdminReportsPage() {
         <CardContent className="space-y-4">
           <div className="flex gap-2">
             <div className="relative flex-1 w-full sm:max-w-sm">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Search className="absolute start-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
                 placeholder="Search by user name, email, or simulation ID..."
                 value={search}
                 onChange={(e) => setSearch(e.target.value)}
-                className="pl-9 w-full"
+                className="ps-9 w-full"
               />
             </div>
           </div>
@@ -192,7 +191,7 @@ export default function AdminReportsPage() {
                                   }
                                   className="min-h-[44px]"
                                 >
-                                  <Download className="mr-2 h-4 w-4" />
+                                  <Download className="me-2 h-4 w-4" />
                                   Download
                                 </Button>
                               </span>
@@ -60,8 +60,7 @@ export default function AdminUsersPage() {
     setLoading(true);
     try {
       const response = await adminApi.getUsers(
-        user.id,
-        page,
+                page,
         10,
         undefined,
         undefined,
@@ -90,7 +89,7 @@ export default function AdminUsersPage() {
     if (!user?.is_admin) return;
 
     try {
-      await adminApi.toggleUserStatus(user.id, userId, { is_active: isActive });
+      await adminApi.toggleUserStatus(userId, { is_active: isActive });
       toast.success(`User ${isActive ? "activated" : "deactivated"} successfully`);
       setConfirmDialog({ open: false, userId: "", userName: "", isActive: false });
       loadUsers();
@@ -0,0 +1,186 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { BasketPricesDialog } from "@/components/feed-basket/basket-prices-dialog";
+import { useFeedBasketStore, withLastPrices } from "@/store/feed-basket-store";
+import { useFeedStore } from "@/store/feed-store";
+import { useCurrency } from "@/hooks/use-currency";
+import { useTranslation } from "@/hooks/use-translation";
+import { FeedBasket } from "@/lib/types";
+import { toast } from "sonner";
+import { ShoppingBasket, Tags, Trash2, Upload } from "lucide-react";
+
+export default function BasketsPage() {
+  const router = useRouter();
+  const { baskets, lastPrices, deleteBasket } = useFeedBasketStore();
+  const { selectedFeeds, loadFeeds } = useFeedStore();
+  const { symbol: currencySymbol, format: formatCurrency } = useCurrency();
+  const { t, formatDate } = useTranslation();
+
+  const [pricingBasket, setPricingBasket] = useState<FeedBasket | null>(null);
+  const [deletingBasket, setDeletingBasket] = useState<FeedBasket | null>(null);
+  // Basket waiting for confirmation before it replaces the current selection
+  const [loadingBasket, setLoadingBasket] = useState<FeedBasket | null>(null);
+
+  const loadBasket = (basket: FeedBasket) => {
+    loadFeeds(withLastPrices(basket, lastPrices), basket.feed_details);
+    toast.success(t("baskets.loaded", { name: basket.name }));
+    router.push("/feed-selection");
+  };
+
+  const handleLoad = (basket: FeedBasket) => {
+    if (selectedFeeds.length > 0) {
+      setLoadingBasket(basket);
+    } else {
+      loadBasket(basket);
+    }
+  };
+
+  const confirmLoad = () => {
+    if (loadingBasket) loadBasket(loadingBasket);
+    setLoadingBasket(null);
+  };
+
+  const handleDelete = () => {
+    if (!deletingBasket) return;
+    deleteBasket(deletingBasket.id);
+    toast.success(t("baskets.deleted", { name: deletingBasket.name }));
+    setDeletingBasket(null);
+  };
+
+  return (
+    <div className="container mx-auto max-w-4xl py-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("baskets.title")}</CardTitle>
+          <CardDescription>{t("baskets.description")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {baskets.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <ShoppingBasket className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>{t("baskets.empty")}</p>
+              <p className="text-sm mt-1">{t("baskets.emptyHint")}</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {baskets.map((basket) => (
+                <Card key={basket.id}>
+                  <CardContent className="pt-6">
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <h3 className="font-semibold truncate">{basket.name}</h3>
+                        <p className="text-sm text-muted-foreground truncate">
+                          {basket.feeds
+                            .map(
+                              (feed, index) =>
+                                `${basket.feed_details[feed.feed_id]?.fd_name || t("recommendation.feedFallback", { number: index + 1 })} ${formatCurrency(feed.price_per_kg)}`
+                            )
+                            .join(" · ")}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {t("baskets.pricesUpdatedOn", { date: formatDate(basket.updated_at) })}
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="default"
+                          size="icon"
+                          onClick={() => handleLoad(basket)}
+                          title={t("baskets.load")}
+                          className="min-h-[44px] min-w-[44px] touch-manipulation"
+                          aria-label={t("baskets.loadName", { name: basket.name })}
+                        >
+                          <Upload className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setPricingBasket(basket)}
+                          title={t("baskets.updatePrices")}
+                          className="min-h-[44px] min-w-[44px] touch-manipulation"
+                          aria-label={t("baskets.updatePricesFor", { name: basket.name })}
+                        >
+                          <Tags className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setDeletingBasket(basket)}
+                          title={t("baskets.delete")}
+                          className="min-h-[44px] min-w-[44px] touch-manipulation"
+                          aria-label={t("baskets.deleteName", { name: basket.name })}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Keyed so the price inputs reset for each basket */}
+      <BasketPricesDialog
+        key={pricingBasket?.id || "none"}
+        basket={pricingBasket}
+        currencySymbol={currencySymbol}
+        onOpenChange={(open) => !open && setPricingBasket(null)}
+      />
+
+      <AlertDialog open={!!deletingBasket} onOpenChange={(open) => !open && setDeletingBasket(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("baskets.deleteTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("baskets.deleteDescription", { name: deletingBasket?.name ?? "" })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {t("baskets.deleteConfirm")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!loadingBasket} onOpenChange={(open) => !open && setLoadingBasket(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("baskets.replaceTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("baskets.replaceDescription", {
+                name: loadingBasket?.name ?? "",
+                count: selectedFeeds.length,
+              })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmLoad}>{t("baskets.replaceConfirm")}</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,23 +1,57 @@
 "use client";
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
 import { CattleInfoForm } from "@/components/cattle-info/cattle-info-form";
+import { CattleInfoWizard } from "@/components/cattle-info/cattle-info-wizard";
+import { AnimalProfilePicker } from "@/components/herd/animal-profile-picker";
+import { useAnimalProfileStore } from "@/store/animal-profile-store";
+import { useCattleEntryStore } from "@/store/cattle-entry-store";
+import { useTranslation } from "@/hooks/use-translation";
+import { ListChecks, ListOrdered } from "lucide-react";
+
+const modes = [
+  { mode: "wizard", icon: ListOrdered, label: "cattleInfo.mode.wizard" },
+  { mode: "form", icon: ListChecks, label: "cattleInfo.mode.form" },
+] as const;
 
 export default function CattleInfoPage() {
+  const { activeProfileId } = useAnimalProfileStore();
+  const { mode, setMode } = useCattleEntryStore();
+  const { t } = useTranslation();
+
   return (
     <div className="container mx-auto max-w-4xl py-4 md:py-6 px-4">
       <Card>
         <CardHeader className="px-4 sm:px-6">
-          <CardTitle className="text-xl sm:text-2xl">Cattle Information</CardTitle>
-          <CardDescription className="text-sm">
-            Enter details about your cattle to generate feed recommendations
-          </CardDescription>
+          <CardTitle className="text-xl sm:text-2xl">{t("cattleInfo.title")}</CardTitle>
+          <CardDescription className="text-sm">{t("cattleInfo.description")}</CardDescription>
         </CardHeader>
-        <CardContent className="px-4 sm:px-6 pb-6">
-          <CattleInfoForm />
+        <CardContent className="px-4 sm:px-6 pb-6 space-y-4">
+          <div role="group" aria-label={t("cattleInfo.mode.label")} className="grid grid-cols-2 gap-2">
+            {modes.map(({ mode: option, icon: Icon, label }) => (
+              <Button
+                key={option}
+                type="button"
+                variant={mode === option ? "default" : "outline"}
+                aria-pressed={mode === option}
+                className="min-h-[44px] touch-manipulation"
+                onClick={() => setMode(option)}
+              >
+                <Icon className="me-2 h-4 w-4" />
+                {t(label)}
+              </Button>
+            ))}
+          </div>
+          <AnimalProfilePicker />
+          {/* Remount so the form or wizard prefills from the newly chosen animal */}
+          {mode === "wizard" ? (
+            <CattleInfoWizard key={activeProfileId || "none"} />
+          ) : (
+            <CattleInfoForm key={activeProfileId || "none"} />
+          )}
         </CardContent>
       </Card>
     </div>
   );
 }
-
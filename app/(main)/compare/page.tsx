@@ -0,0 +1,172 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ScenarioComparisonTable } from "@/components/scenarios/scenario-comparison-table";
+import { MAX_SCENARIOS, useScenarioStore } from "@/store/scenario-store";
+import { useCurrency } from "@/hooks/use-currency";
+import { useTranslation } from "@/hooks/use-translation";
+import { saveReportWithRetry } from "@/lib/reports";
+import { FormulationScenario } from "@/lib/types";
+import { toast } from "sonner";
+import { CheckCircle2, Columns3, Loader2, Save, Trash2 } from "lucide-react";
+
+export default function ComparePage() {
+  const router = useRouter();
+  const { scenarios, removeScenario, markScenarioSaved, clearScenarios } = useScenarioStore();
+  const { format: formatCurrency } = useCurrency(scenarios[0]?.evaluation?.currency);
+  const { t, formatDate } = useTranslation();
+
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  const handlePromote = async (scenario: FormulationScenario) => {
+    const reportId = scenario.recommendation.report_info?.report_id;
+    if (!reportId) {
+      toast.error(t("recommendation.unableToSave"));
+      return;
+    }
+
+    setSavingId(scenario.id);
+    const saved = await saveReportWithRetry(reportId, {
+      onRetry: (attempt, maxRetries) =>
+        toast.info(t("recommendation.waitingForReport", { attempt, max: maxRetries })),
+    });
+    if (saved) {
+      markScenarioSaved(scenario.id);
+      toast.success(t("compare.savedToReports", { name: scenario.name }));
+    } else {
+      toast.error(t("compare.saveFailed"));
+    }
+    setSavingId(null);
+  };
+
+  const handleClear = () => {
+    clearScenarios();
+    setConfirmClear(false);
+  };
+
+  if (scenarios.length === 0) {
+    return (
+      <div className="container mx-auto max-w-4xl py-6 px-4">
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Columns3 className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">{t("compare.emptyTitle")}</h3>
+            <p className="text-muted-foreground mb-4">
+              {t("compare.emptyDescription", { max: MAX_SCENARIOS })}
+            </p>
+            <Button onClick={() => router.push("/feed-selection")}>{t("compare.goToFeedSelection")}</Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto max-w-5xl py-6 px-4 space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle>{t("compare.title")}</CardTitle>
+              <CardDescription>{t("compare.description")}</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setConfirmClear(true)}>
+              {t("compare.clearAll")}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-3 sm:grid-cols-2">
+            {scenarios.map((scenario) => (
+              <div key={scenario.id} className="flex items-center justify-between gap-3 rounded-md border p-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium truncate">{scenario.name}</p>
+                    {scenario.saved_at && (
+                      <Badge variant="secondary" className="shrink-0">
+                        <CheckCircle2 className="h-3 w-3 me-1" />
+                        {t("compare.saved")}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {t("compare.scenarioSummary", {
+                      breed: scenario.cattle_info.breed || t("compare.unknownBreed"),
+                      count: scenario.feeds.length,
+                      date: formatDate(scenario.created_at),
+                    })}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => handlePromote(scenario)}
+                    disabled={!!scenario.saved_at || savingId !== null}
+                    title={t("compare.saveAsReport")}
+                    className="min-h-[44px] min-w-[44px] touch-manipulation"
+                    aria-label={t("compare.saveNameAsReport", { name: scenario.name })}
+                  >
+                    {savingId === scenario.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Save className="h-4 w-4" />
+                    )}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => removeScenario(scenario.id)}
+                    disabled={savingId === scenario.id}
+                    title={t("compare.remove")}
+                    className="min-h-[44px] min-w-[44px] touch-manipulation"
+                    aria-label={t("compare.removeName", { name: scenario.name })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <ScenarioComparisonTable scenarios={scenarios} formatCurrency={formatCurrency} />
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={confirmClear} onOpenChange={setConfirmClear}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("compare.clearTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("compare.clearDescription", { count: scenarios.length })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleClear}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {t("compare.clear")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { EvaluationPanel } from "@/components/evaluation/evaluation-panel";
+import { recommendationApi } from "@/lib/api/endpoints";
+import { CattleInfo, FeedEvaluationResponse } from "@/lib/types";
+import { useAuthStore } from "@/store/auth-store";
+import { useFeedStore } from "@/store/feed-store";
+import { useCattleInfoStore } from "@/store/cattle-info-store";
+import { toast } from "sonner";
+import { useCurrency } from "@/hooks/use-currency";
+import { useTranslation } from "@/hooks/use-translation";
+import { useUnits } from "@/hooks/use-units";
+import { roundConverted } from "@/lib/units";
+import { AlertCircle, ArrowLeft, ClipboardCheck, Loader2 } from "lucide-react";
+
+export default function EvaluationPage() {
+  const router = useRouter();
+  const { user } = useAuthStore();
+  const { cattleInfo } = useCattleInfoStore();
+  const { selectedFeeds, feedDetails, feedQuantities, setFeedQuantity } = useFeedStore();
+
+  const [evaluation, setEvaluation] = useState<FeedEvaluationResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { format: formatCurrency } = useCurrency(evaluation?.currency);
+  const { t } = useTranslation();
+  // Quantities are stored in kg, as the API expects them, and typed in the user's units
+  const units = useUnits();
+
+  const hasValidCattleInfo = !!cattleInfo?.breed;
+
+  const handleEvaluate = async () => {
+    if (!user || !hasValidCattleInfo || selectedFeeds.length === 0) {
+      toast.error(t("recommendation.completeInputs"));
+      router.push("/cattle-info");
+      return;
+    }
+
+    const missingQuantity = selectedFeeds.some((feed) => !(feedQuantities[feed.feed_id] > 0));
+    if (missingQuantity) {
+      toast.error(t("evaluation.quantitiesRequired"));
+      return;
+    }
+
+    setLoading(true);
+    setEvaluation(null);
+    try {
+      const result = await recommendationApi.getEvaluation({
+        cattle_info: cattleInfo as CattleInfo,
+        feed_selection: selectedFeeds.map((feed) => ({
+          ...feed,
+          quantity_as_fed: feedQuantities[feed.feed_id],
+        })),
+        simulation_id: `eval_${Date.now()}`,
+      });
+      setEvaluation(result);
+    } catch (error: any) {
+      toast.error(error.message || t("evaluation.failed"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!hasValidCattleInfo || selectedFeeds.length === 0) {
+    return (
+      <div className="container mx-auto max-w-4xl py-6 px-4">
+        <Card>
+          <CardContent className="py-12 text-center">
+            <AlertCircle className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">{t("evaluation.emptyTitle")}</h3>
+            <p className="text-muted-foreground mb-4">{t("evaluation.emptyDescription")}</p>
+            <Button onClick={() => router.push(hasValidCattleInfo ? "/feed-selection" : "/cattle-info")}>
+              {hasValidCattleInfo ? t("evaluation.goToFeedSelection") : t("recommendation.goToCattleInfo")}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto max-w-4xl py-6 px-4 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("evaluation.title")}</CardTitle>
+          <CardDescription>{t("evaluation.description", { unit: units.symbol("weight") })}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {selectedFeeds.map((feed, index) => (
+            <div
+              key={feed.feed_id}
+              className="flex flex-col sm:flex-row sm:items-center gap-2 p-3 border rounded"
+            >
+              <div className="flex-1">
+                <p className="font-medium">{feedDetails[feed.feed_id]?.fd_name || t("recommendation.feedFallback", { number: index + 1 })}</p>
+                <p className="text-sm text-muted-foreground">{formatCurrency(feed.price_per_kg)}/kg</p>
+              </div>
+              <div className="space-y-1 sm:w-40">
+                <Label htmlFor={`quantity-${feed.feed_id}`} className="text-xs">
+                  {t("evaluation.quantity", { unit: units.symbol("weight") })}
+                </Label>
+                <Input
+                  id={`quantity-${feed.feed_id}`}
+                  type="number"
+                  min={0}
+                  step="0.1"
+                  placeholder="0"
+                  value={feedQuantities[feed.feed_id] ? roundConverted(units.fromCanonical("weight", feedQuantities[feed.feed_id])) : ""}
+                  onChange={(e) => setFeedQuantity(feed.feed_id, units.toCanonical("weight", parseFloat(e.target.value) || 0))}
+                  disabled={loading}
+                />
+              </div>
+            </div>
+          ))}
+
+          <div className="flex gap-4 pt-4">
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => router.push("/feed-selection")}
+            >
+              <ArrowLeft className="h-4 w-4 me-2 rtl:-scale-x-100" />
+              {t("evaluation.editFeeds")}
+            </Button>
+            <Button onClick={handleEvaluate} disabled={loading} className="flex-1">
+              {loading ? (
+                <Loader2 className="h-4 w-4 me-2 animate-spin" />
+              ) : (
+                <ClipboardCheck className="h-4 w-4 me-2" />
+              )}
+              {t("evaluation.run")}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {loading && (
+        <div className="space-y-4">
+          <Skeleton className="h-32 w-full" />
+          <Skeleton className="h-48 w-full" />
+        </div>
+      )}
+
+      {evaluation && <EvaluationPanel evaluation={evaluation} />}
+    </div>
+  );
+}
@@ -13,18 +13,38 @@ import {
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { feedApi } from "@/lib/api/endpoints";
 import { useAuthStore } from "@/store/auth-store";
 import { useFeedStore } from "@/store/feed-store";
 import { useCattleInfoStore } from "@/store/cattle-info-store";
 import { toast } from "sonner";
+import { useCurrency } from "@/hooks/use-currency";
+import { useTranslation } from "@/hooks/use-translation";
 import { Skeleton } from "@/components/ui/skeleton";
+import { SelectedFeedCard } from "@/components/feed-selection/selected-feed-card";
+import { FeedSearch, FeedSearchSelection } from "@/components/feed-selection/feed-search";
+import { SaveBasketDialog } from "@/components/feed-basket/save-basket-dialog";
+import { useFeedBasketStore, withLastPrices } from "@/store/feed-basket-store";
+import { FeedBasket, FeedDetails } from "@/lib/types";
 
 export default function FeedSelectionPage() {
   const router = useRouter();
   const { user } = useAuthStore();
   const { cattleInfo } = useCattleInfoStore();
-  const { selectedFeeds, addFeed, removeFeed } = useFeedStore();
+  const { selectedFeeds, feedDetails, addFeed, loadFeeds, removeFeed, updateFeedPrice } = useFeedStore();
+  const { baskets, lastPrices, rememberPrices } = useFeedBasketStore();
+  const { symbol: currencySymbol } = useCurrency();
+  const { t } = useTranslation();
 
   const [feedTypes, setFeedTypes] = useState<string[]>([]);
   const [feedCategories, setFeedCategories] = useState<string[]>([]);
@@ -33,8 +53,10 @@ export default function FeedSelectionPage() {
   const [selectedType, setSelectedType] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("");
   const [selectedSubCategory, setSelectedSubCategory] = useState("");
-  const [selectedFeedDetails, setSelectedFeedDetails] = useState<any>(null);
+  const [selectedFeedDetails, setSelectedFeedDetails] = useState<FeedDetails | null>(null);
   const [pricePerKg, setPricePerKg] = useState(0);
+  // Basket waiting for confirmation before it replaces the current selection
+  const [pendingBasket, setPendingBasket] = useState<FeedBasket | null>(null);
   
   const [loadingTypes, setLoadingTypes] = useState(false);
   const [loadingCategories, setLoadingCategories] = useState(false);
@@ -50,10 +72,10 @@ export default function FeedSelectionPage() {
     if (!user?.country_id) return;
     setLoadingTypes(true);
     try {
-      const types = await feedApi.getFeedTypes(user.country_id, user.id);
+      const types = await feedApi.getFeedTypes(user.country_id);
       setFeedTypes(types);
     } catch (error: any) {
-      toast.error("Failed to load feed types");
+      toast.error(t("feedSelection.loadTypesFailed"));
     } finally {
       setLoadingTypes(false);
     }
@@ -65,12 +87,11 @@ export default function FeedSelectionPage() {
     try {
       const categories = await feedApi.getFeedCategories(
         feedType,
-        user.country_id,
-        user.id
+        user.country_id
       );
       setFeedCategories(categories.unique_feed_categories || []);
     } catch (error: any) {
-      toast.error("Failed to load feed categories");
+      toast.error(t("feedSelection.loadCategoriesFailed"));
     } finally {
       setLoadingCategories(false);
     }
@@ -83,12 +104,11 @@ export default function FeedSelectionPage() {
       const subCategories = await feedApi.getFeedSubCategories(
         feedType,
         feedCategory,
-        user.country_id,
-        user.id
+        user.country_id
       );
       setFeedSubCategories(subCategories);
     } catch (error: any) {
-      toast.error("Failed to load feed subcategories");
+      toast.error(t("feedSelection.loadSubCategoriesFailed"));
     } finally {
       setLoadingSubCategories(false);
     }
@@ -128,25 +148,33 @@ export default function FeedSelectionPage() {
         const response = await feedApi.getFeedDetails({
           feed_id: selectedFeed.feed_uuid,
           country_id: user.country_id,
-          user_id: user.id,
         });
         setSelectedFeedDetails(response.feed_details);
+        // Prefill the price the user last entered for this feed
+        setPricePerKg(lastPrices[response.feed_details.feed_id] || 0);
       } catch (error: any) {
-        toast.error("Failed to load feed details");
+        toast.error(t("feedSelection.loadDetailsFailed"));
       }
     }
   };
 
   const handleAddFeed = () => {
     if (!selectedFeedDetails || !pricePerKg) {
-      toast.error("Please select a feed and enter price");
+      toast.error(t("feedSelection.selectFeedAndPrice"));
       return;
     }
-    addFeed({
-      feed_id: selectedFeedDetails.feed_id,
-      price_per_kg: pricePerKg,
-    });
-    toast.success("Feed added");
+    if (selectedFeeds.some((f) => f.feed_id === selectedFeedDetails.feed_id)) {
+      toast.error(t("feedSelection.alreadySelected", { name: selectedFeedDetails.fd_name }));
+      return;
+    }
+    addFeed(
+      {
+        feed_id: selectedFeedDetails.feed_id,
+        price_per_kg: pricePerKg,
+      },
+      selectedFeedDetails
+    );
+    toast.success(t("feedSelection.feedsAdded", { count: 1 }));
     // Reset form
     setSelectedType("");
     setSelectedCategory("");
@@ -155,33 +183,147 @@ export default function FeedSelectionPage() {
     setPricePerKg(0);
   };
 
+  const handleAddFromSearch = async (selections: FeedSearchSelection[]) => {
+    if (!user?.country_id) return;
+    const countryId = user.country_id;
+    const results = await Promise.allSettled(
+      selections.map(({ feed }) =>
+        feedApi.getFeedDetails({
+          feed_id: feed.feed_uuid,
+          country_id: countryId,
+        })
+      )
+    );
+
+    let added = 0;
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") {
+        const details = result.value.feed_details;
+        addFeed(
+          {
+            feed_id: details.feed_id,
+            price_per_kg: selections[index].pricePerKg,
+          },
+          details
+        );
+        added++;
+      }
+    });
+
+    if (added > 0) {
+      toast.success(t("feedSelection.feedsAdded", { count: added }));
+    }
+    if (added < selections.length) {
+      toast.error(t("feedSelection.feedsFailed", { count: selections.length - added }));
+    }
+  };
+
+  const loadBasket = (basket: FeedBasket) => {
+    loadFeeds(withLastPrices(basket, lastPrices), basket.feed_details);
+    toast.success(t("feedSelection.basketLoaded", { name: basket.name }));
+  };
+
+  const handleLoadBasket = (basketId: string) => {
+    const basket = baskets.find((b) => b.id === basketId);
+    if (!basket) return;
+    if (selectedFeeds.length > 0) {
+      setPendingBasket(basket);
+    } else {
+      loadBasket(basket);
+    }
+  };
+
+  const confirmLoadBasket = () => {
+    if (pendingBasket) loadBasket(pendingBasket);
+    setPendingBasket(null);
+  };
+
   const handleContinue = () => {
     if (selectedFeeds.length === 0) {
-      toast.error("Please add at least one feed");
+      toast.error(t("feedSelection.addAtLeastOne"));
       return;
     }
+    rememberPrices(selectedFeeds);
     router.push("/recommendation");
   };
 
+  const handleEvaluate = () => {
+    if (selectedFeeds.length === 0) {
+      toast.error(t("feedSelection.addAtLeastOne"));
+      return;
+    }
+    rememberPrices(selectedFeeds);
+    router.push("/evaluation");
+  };
+
   return (
     <div className="container mx-auto max-w-4xl py-6">
+      <AlertDialog open={!!pendingBasket} onOpenChange={(open) => !open && setPendingBasket(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("feedSelection.replaceTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("feedSelection.replaceDescription", {
+                name: pendingBasket?.name ?? "",
+                count: selectedFeeds.length,
+              })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmLoadBasket}>
+              {t("feedSelection.replaceConfirm")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
       <Card>
         <CardHeader>
-          <CardTitle>Feed Selection</CardTitle>
-          <CardDescription>
-            Select feeds for your cattle feed formulation
-          </CardDescription>
+          <CardTitle>{t("feedSelection.title")}</CardTitle>
+          <CardDescription>{t("feedSelection.description")}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
+          <div className="flex flex-col sm:flex-row gap-2">
+            {baskets.length > 0 && (
+              <Select value="" onValueChange={handleLoadBasket}>
+                <SelectTrigger className="sm:flex-1">
+                  <SelectValue placeholder={t("feedSelection.loadBasket")} />
+                </SelectTrigger>
+                <SelectContent>
+                  {baskets.map((basket) => (
+                    <SelectItem key={basket.id} value={basket.id}>
+                      {t("feedSelection.basketOption", { name: basket.name, count: basket.feeds.length })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <SaveBasketDialog />
+          </div>
+
+          {user?.country_id && (
+            <div className="space-y-2">
+              <Label>{t("feedSelection.search")}</Label>
+              <FeedSearch
+                countryId={user.country_id}
+                selectedFeedIds={selectedFeeds.map((f) => f.feed_id)}
+                currencySymbol={currencySymbol}
+                rememberedPrices={lastPrices}
+                onAdd={handleAddFromSearch}
+              />
+            </div>
+          )}
+
           <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">{t("feedSelection.browse")}</p>
             <div className="space-y-2">
-              <Label>Feed Type</Label>
+              <Label>{t("feedSelection.feedType")}</Label>
               {loadingTypes ? (
                 <Skeleton className="h-10 w-full" />
               ) : (
                 <Select value={selectedType} onValueChange={handleTypeChange}>
                   <SelectTrigger>
-                    <SelectValue placeholder="Select feed type" />
+                    <SelectValue placeholder={t("feedSelection.selectFeedType")} />
                   </SelectTrigger>
                   <SelectContent>
                     {feedTypes.map((type) => (
@@ -196,7 +338,7 @@ export default function FeedSelectionPage() {
 
             {selectedType && (
               <div className="space-y-2">
-                <Label>Feed Category</Label>
+                <Label>{t("feedSelection.feedCategory")}</Label>
                 {loadingCategories ? (
                   <Skeleton className="h-10 w-full" />
                 ) : (
@@ -205,7 +347,7 @@ export default function FeedSelectionPage() {
                     onValueChange={handleCategoryChange}
                   >
                     <SelectTrigger>
-                      <SelectValue placeholder="Select feed category" />
+                      <SelectValue placeholder={t("feedSelection.selectFeedCategory")} />
                     </SelectTrigger>
                     <SelectContent>
                       {feedCategories.map((cat) => (
@@ -221,7 +363,7 @@ export default function FeedSelectionPage() {
 
             {selectedCategory && (
               <div className="space-y-2">
-                <Label>Feed Name</Label>
+                <Label>{t("feedSelection.feedName")}</Label>
                 {loadingSubCategories ? (
                   <Skeleton className="h-10 w-full" />
                 ) : (
@@ -230,7 +372,7 @@ export default function FeedSelectionPage() {
                     onValueChange={handleSubCategoryChange}
                   >
                     <SelectTrigger>
-                      <SelectValue placeholder="Select feed name" />
+                      <SelectValue placeholder={t("feedSelection.selectFeedName")} />
                     </SelectTrigger>
                     <SelectContent>
                       {feedSubCategories.map((subCat) => (
@@ -249,15 +391,15 @@ export default function FeedSelectionPage() {
 
             {selectedFeedDetails && (
               <div className="space-y-2">
-                <Label>Price per kg</Label>
+                <Label>{t("feedSelection.pricePerKg")}{currencySymbol ? ` (${currencySymbol})` : ""}</Label>
                 <Input
                   type="number"
-                  placeholder="Enter price"
+                  placeholder={t("feedSelection.enterPrice")}
                   value={pricePerKg || ""}
                   onChange={(e) => setPricePerKg(parseFloat(e.target.value) || 0)}
                 />
                 <Button onClick={handleAddFeed} className="w-full">
-                  Add Feed
+                  {t("feedSelection.addFeed")}
                 </Button>
               </div>
             )}
@@ -265,38 +407,36 @@ export default function FeedSelectionPage() {
 
           {selectedFeeds.length > 0 && (
             <div className="space-y-2">
-              <Label>Selected Feeds ({selectedFeeds.length})</Label>
-              <div className="space-y-2">
+              <Label>{t("feedSelection.selectedFeeds", { count: selectedFeeds.length })}</Label>
+              <div className="space-y-3">
                 {selectedFeeds.map((feed, index) => (
-                  <div
-                    key={index}
-                    className="flex items-center justify-between p-2 border rounded"
-                  >
-                    <span>Feed {index + 1}</span>
-                    <span>₹{feed.price_per_kg}/kg</span>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => removeFeed(feed.feed_id)}
-                    >
-                      Remove
-                    </Button>
-                  </div>
+                  <SelectedFeedCard
+                    key={feed.feed_id}
+                    feed={feed}
+                    details={feedDetails[feed.feed_id]}
+                    index={index}
+                    currencySymbol={currencySymbol}
+                    onPriceChange={updateFeedPrice}
+                    onRemove={removeFeed}
+                  />
                 ))}
               </div>
             </div>
           )}
 
-          <div className="flex gap-4 pt-4">
+          <div className="flex flex-col sm:flex-row gap-4 pt-4">
             <Button
               variant="outline"
               className="flex-1"
               onClick={() => router.back()}
             >
-              Back
+              {t("common.back")}
+            </Button>
+            <Button variant="secondary" onClick={handleEvaluate} className="flex-1">
+              {t("feedSelection.evaluate")}
             </Button>
             <Button onClick={handleContinue} className="flex-1">
-              Continue to Recommendation
+              {t("feedSelection.continue")}
             </Button>
           </div>
         </CardContent>
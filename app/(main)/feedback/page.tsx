@@ -7,6 +7,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { feedbackApi } from "@/lib/api/endpoints";
 import { useAuthStore } from "@/store/auth-store";
+import { useTranslation } from "@/hooks/use-translation";
 import { toast } from "sonner";
 import { Feedback, SubmitFeedbackRequest } from "@/lib/types";
 
@@ -16,6 +17,7 @@ export default function FeedbackPage() {
   const [rating, setRating] = useState(0);
   const [feedbacks, setFeedbacks] = useState<Feedback[]>([]);
   const [loading, setLoading] = useState(false);
+  const { t, formatDate } = useTranslation();
 
   useEffect(() => {
     if (user) {
@@ -26,16 +28,16 @@ export default function FeedbackPage() {
   const loadFeedbacks = async () => {
     if (!user) return;
     try {
-      const response = await feedbackApi.getUserFeedbacks(user.id);
+      const response = await feedbackApi.getUserFeedbacks();
       setFeedbacks(response.feedbacks || []);
     } catch (error: any) {
-      toast.error("Failed to load feedbacks");
+      toast.error(t("feedback.loadFailed"));
     }
   };
 
   const handleSubmit = async () => {
     if (!feedbackText.trim()) {
-      toast.error("Please enter your feedback");
+      toast.error(t("feedback.required"));
       return;
     }
 
@@ -48,13 +50,13 @@ export default function FeedbackPage() {
         text_feedback: feedbackText,
         overall_rating: rating || undefined,
       };
-      await feedbackApi.submitFeedback(user.id, feedbackData);
-      toast.success("Feedback submitted successfully");
+      await feedbackApi.submitFeedback(feedbackData);
+      toast.success(t("feedback.success"));
       setFeedbackText("");
       setRating(0);
       loadFeedbacks();
     } catch (error: any) {
-      toast.error(error.message || "Failed to submit feedback");
+      toast.error(error.message || t("feedback.submitFailed"));
     } finally {
       setLoading(false);
     }
@@ -64,23 +66,21 @@ export default function FeedbackPage() {
     <div className="container mx-auto max-w-4xl py-6 space-y-6">
       <Card>
         <CardHeader>
-          <CardTitle>Submit Feedback</CardTitle>
-          <CardDescription>
-            Share your thoughts and suggestions
-          </CardDescription>
+          <CardTitle>{t("feedback.title")}</CardTitle>
+          <CardDescription>{t("feedback.description")}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="space-y-2">
-            <Label>Feedback</Label>
+            <Label>{t("feedback.label")}</Label>
             <Textarea
               value={feedbackText}
               onChange={(e) => setFeedbackText(e.target.value)}
-              placeholder="Enter your feedback..."
+              placeholder={t("feedback.placeholder")}
               rows={5}
             />
           </div>
           <div className="space-y-2">
-            <Label>Rating (optional)</Label>
+            <Label>{t("feedback.rating")}</Label>
             <div className="flex gap-2">
               {[1, 2, 3, 4, 5].map((num) => (
                 <Button
@@ -95,7 +95,7 @@ export default function FeedbackPage() {
             </div>
           </div>
           <Button onClick={handleSubmit} disabled={loading} className="w-full">
-            {loading ? "Submitting..." : "Submit Feedback"}
+            {loading ? t("feedback.submitting") : t("feedback.submit")}
           </Button>
         </CardContent>
       </Card>
@@ -103,7 +103,7 @@ export default function FeedbackPage() {
       {feedbacks.length > 0 && (
         <Card>
           <CardHeader>
-            <CardTitle>Your Feedbacks</CardTitle>
+            <CardTitle>{t("feedback.history")}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
@@ -123,7 +123,7 @@ export default function FeedbackPage() {
                     <p className="mb-2">{feedback.text_feedback}</p>
                   )}
                   <p className="text-xs text-muted-foreground mt-2">
-                    {new Date(feedback.created_at).toLocaleDateString()}
+                    {formatDate(feedback.created_at)}
                   </p>
                 </div>
               ))}
@@ -0,0 +1,26 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useTranslation } from "@/hooks/use-translation";
+import { ShieldAlert } from "lucide-react";
+
+// Shown by middleware.ts (with a 403 status) when a non-admin opens an /admin page
+export default function ForbiddenPage() {
+  const router = useRouter();
+  const { t } = useTranslation();
+
+  return (
+    <div className="container mx-auto max-w-4xl py-6 px-4">
+      <Card>
+        <CardContent className="py-12 text-center">
+          <ShieldAlert className="h-12 w-12 mx-auto text-destructive mb-4" />
+          <h3 className="text-lg font-semibold mb-2">{t("forbidden.title")}</h3>
+          <p className="text-muted-foreground mb-4">{t("forbidden.description")}</p>
+          <Button onClick={() => router.push("/cattle-info")}>{t("forbidden.back")}</Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AnimalProfileDialog } from "@/components/herd/animal-profile-dialog";
+import { useAnimalProfileStore } from "@/store/animal-profile-store";
+import { useUnits } from "@/hooks/use-units";
+import { useTranslation } from "@/hooks/use-translation";
+import { AnimalProfile } from "@/lib/types";
+import { toast } from "sonner";
+import { Beef, Copy, Pencil, Plus, Sprout, Trash2 } from "lucide-react";
+
+export default function HerdPage() {
+  const router = useRouter();
+  const { format: formatQuantity } = useUnits();
+  const { t, formatDate } = useTranslation();
+  const { profiles, activeProfileId, selectProfile, duplicateProfile, deleteProfile } =
+    useAnimalProfileStore();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingProfile, setEditingProfile] = useState<AnimalProfile | null>(null);
+  const [deletingProfile, setDeletingProfile] = useState<AnimalProfile | null>(null);
+
+  const openCreateDialog = () => {
+    setEditingProfile(null);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (profile: AnimalProfile) => {
+    setEditingProfile(profile);
+    setDialogOpen(true);
+  };
+
+  const handleDuplicate = (profile: AnimalProfile) => {
+    if (duplicateProfile(profile.id)) {
+      toast.success(t("herd.duplicated", { name: profile.name }));
+    }
+  };
+
+  const handleDelete = () => {
+    if (!deletingProfile) return;
+    deleteProfile(deletingProfile.id);
+    toast.success(t("herd.deleted", { name: deletingProfile.name }));
+    setDeletingProfile(null);
+  };
+
+  const handleStartFormulation = (profile: AnimalProfile) => {
+    selectProfile(profile.id);
+    router.push("/cattle-info");
+  };
+
+  return (
+    <div className="container mx-auto max-w-4xl py-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle>{t("herd.title")}</CardTitle>
+            <CardDescription>{t("herd.description")}</CardDescription>
+          </div>
+          <Button onClick={openCreateDialog}>
+            <Plus className="me-2 h-4 w-4" />
+            {t("herd.add")}
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {profiles.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Beef className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>{t("herd.empty")}</p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {profiles.map((profile) => (
+                <Card key={profile.id}>
+                  <CardContent className="pt-6">
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <h3 className="font-semibold truncate">{profile.name}</h3>
+                          {profile.id === activeProfileId && <Badge>{t("herd.active")}</Badge>}
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          {[
+                            profile.ear_tag && t("herd.tag", { tag: profile.ear_tag }),
+                            profile.farm,
+                            profile.cattle_info.breed,
+                            profile.cattle_info.body_weight ? formatQuantity("weight", profile.cattle_info.body_weight) : null,
+                          ]
+                            .filter(Boolean)
+                            .join(" · ") || t("herd.noDetails")}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {t("herd.updatedOn", { date: formatDate(profile.updated_at) })}
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="default"
+                          size="icon"
+                          onClick={() => handleStartFormulation(profile)}
+                          title={t("herd.startFormulation")}
+                          className="min-h-[44px] min-w-[44px] touch-manipulation"
+                          aria-label={t("herd.startFormulationFor", { name: profile.name })}
+                        >
+                          <Sprout className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => openEditDialog(profile)}
+                          title={t("herd.edit")}
+                          className="min-h-[44px] min-w-[44px] touch-manipulation"
+                          aria-label={t("herd.editName", { name: profile.name })}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => handleDuplicate(profile)}
+                          title={t("herd.duplicate")}
+                          className="min-h-[44px] min-w-[44px] touch-manipulation"
+                          aria-label={t("herd.duplicateName", { name: profile.name })}
+                        >
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setDeletingProfile(profile)}
+                          title={t("herd.delete")}
+                          className="min-h-[44px] min-w-[44px] touch-manipulation"
+                          aria-label={t("herd.deleteName", { name: profile.name })}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AnimalProfileDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        profile={editingProfile}
+      />
+
+      <AlertDialog open={!!deletingProfile} onOpenChange={(open) => !open && setDeletingProfile(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("herd.deleteTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("herd.deleteDescription", { name: deletingProfile?.name ?? "" })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {t("herd.delete")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,50 +1,53 @@
 "use client";
 
 import { useEffect } from "react";
-import { useRouter } from "next/navigation";
 import { useAuthStore } from "@/store/auth-store";
+import { isLockActive, useAppLockStore } from "@/store/app-lock-store";
+import { useLogout } from "@/hooks/use-logout";
+import { useIdleLock } from "@/hooks/use-idle-lock";
 import { AppLayout } from "@/components/layout/app-layout";
 import { Toaster } from "@/components/ui/sonner";
+import { OfflineSync } from "@/components/offline/offline-sync";
+import { LockScreen } from "@/components/app-lock/lock-screen";
 
 export default function MainLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
-  const router = useRouter();
-  const { isAuthenticated, hasHydrated } = useAuthStore();
+  const { isAuthenticated, hasHydrated, signedInAt } = useAuthStore();
+  const lockedAt = useAppLockStore((state) => state.lockedAt);
+  const logout = useLogout();
 
   useEffect(() => {
-    // Only redirect after hydration is complete
+    // middleware.ts has already checked the session cookie. If the stored user is
+    // missing anyway, end the session too - otherwise /login would bounce back here.
     if (hasHydrated && !isAuthenticated) {
-      router.push("/login");
+      logout();
     }
-  }, [isAuthenticated, hasHydrated, router]);
+  }, [isAuthenticated, hasHydrated, logout]);
 
-  // Show loading state while hydrating
-  if (!hasHydrated) {
-    return (
-      <div className="flex min-h-screen items-center justify-center">
-        <div className="animate-pulse text-muted-foreground">Loading...</div>
-        <Toaster />
-      </div>
-    );
-  }
+  const ready = hasHydrated && isAuthenticated;
+  const isLocked = ready && isLockActive(lockedAt, signedInAt);
+
+  useIdleLock(ready && !isLocked);
 
-  if (!isAuthenticated) {
+  // Nothing from the app, not even the header with the user's name, shows while locked
+  if (isLocked) {
     return (
       <>
-        {children}
+        <LockScreen />
         <Toaster />
       </>
     );
   }
 
+  // Render the app shell straight away; pages wait for the stored user
   return (
     <AppLayout>
-      {children}
+      {ready && children}
+      {ready && <OfflineSync />}
       <Toaster />
     </AppLayout>
   );
 }
-
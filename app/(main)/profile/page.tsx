@@ -2,57 +2,92 @@
 
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { ProfileDetailsForm } from "@/components/profile/profile-details-form";
+import { ChangePinForm } from "@/components/profile/change-pin-form";
+import { DeleteAccountDialog } from "@/components/profile/delete-account-dialog";
+import { AppLockSettings } from "@/components/app-lock/app-lock-settings";
+import { LanguageSelect } from "@/components/i18n/language-select";
+import { UnitSettings } from "@/components/profile/unit-settings";
 import { useAuthStore } from "@/store/auth-store";
-import { useRouter } from "next/navigation";
-import { User, Mail, MapPin, LogOut } from "lucide-react";
+import { useLogout } from "@/hooks/use-logout";
+import { useTranslation } from "@/hooks/use-translation";
+import { LogOut } from "lucide-react";
 
 export default function ProfilePage() {
-  const { user, logout } = useAuthStore();
-  const router = useRouter();
-
-  const handleLogout = () => {
-    logout();
-    router.push("/login");
-  };
+  const { user } = useAuthStore();
+  const handleLogout = useLogout();
+  const { t } = useTranslation();
 
   if (!user) {
     return null;
   }
 
   return (
-    <div className="container mx-auto max-w-4xl py-6">
+    <div className="container mx-auto max-w-4xl py-6 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("profile.title")}</CardTitle>
+          <CardDescription>{t("profile.description")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ProfileDetailsForm key={user.id} user={user} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("profile.changePin.title")}</CardTitle>
+          <CardDescription>{t("profile.changePin.description")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChangePinForm />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("language.title")}</CardTitle>
+          <CardDescription>{t("language.description")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <LanguageSelect />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("units.title")}</CardTitle>
+          <CardDescription>{t("units.description")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <UnitSettings />
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
-          <CardTitle>Profile</CardTitle>
-          <CardDescription>Your account information</CardDescription>
+          <CardTitle>{t("profile.appLock.title")}</CardTitle>
+          <CardDescription>{t("profile.appLock.description")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AppLockSettings user={user} />
+        </CardContent>
+      </Card>
+
+      <Card className="border-destructive/50">
+        <CardHeader>
+          <CardTitle className="text-destructive">{t("profile.delete.title")}</CardTitle>
+          <CardDescription>{t("profile.delete.description")}</CardDescription>
         </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="space-y-2">
-            <div className="flex items-center gap-2">
-              <User className="h-4 w-4 text-muted-foreground" />
-              <span className="font-medium">Name:</span>
-              <span>{user.name || "N/A"}</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <Mail className="h-4 w-4 text-muted-foreground" />
-              <span className="font-medium">Email:</span>
-              <span>{user.email_id || "N/A"}</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <MapPin className="h-4 w-4 text-muted-foreground" />
-              <span className="font-medium">Country:</span>
-              <span>{user.country?.name || "N/A"}</span>
-            </div>
-          </div>
-          <div className="pt-4 border-t">
-            <Button variant="outline" onClick={handleLogout} className="w-full">
-              <LogOut className="mr-2 h-4 w-4" />
-              Logout
-            </Button>
-          </div>
+        <CardContent>
+          <DeleteAccountDialog />
         </CardContent>
       </Card>
+
+      <Button variant="outline" onClick={handleLogout} className="w-full">
+        <LogOut className="me-2 h-4 w-4 rtl:-scale-x-100" />
+        {t("nav.logout")}
+      </Button>
     </div>
   );
 }
-
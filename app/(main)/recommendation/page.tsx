@@ -4,7 +4,8 @@ import { useState, useEffect, useRef } from "react";
 import { useRouter } from "next/navigation";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { recommendationApi, reportApi } from "@/lib/api/endpoints";
+import { recommendationApi } from "@/lib/api/endpoints";
+import { saveReportWithRetry } from "@/lib/reports";
 import { useAuthStore } from "@/store/auth-store";
 import { useFeedStore } from "@/store/feed-store";
 import { useCattleInfoStore } from "@/store/cattle-info-store";
@@ -12,6 +13,22 @@ import { toast } from "sonner";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { EvaluationPanel } from "@/components/evaluation/evaluation-panel";
+import { AddScenarioDialog } from "@/components/scenarios/add-scenario-dialog";
+import { PriceSensitivityPanel } from "@/components/sensitivity/price-sensitivity-panel";
+import { FeedEvaluationResponse, FeedRecommendationRequest, QueuedRecommendationJob } from "@/lib/types";
+import { useCurrency } from "@/hooks/use-currency";
+import { useTranslation } from "@/hooks/use-translation";
+import { useUnits } from "@/hooks/use-units";
+import { isMessageKey } from "@/lib/i18n";
+import { milkKgToLitres } from "@/lib/units";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import {
+  enqueueRecommendation,
+  getQueuedJob,
+  isNetworkError,
+  isQueueSupported,
+} from "@/lib/offline/recommendation-queue";
 import {
   Table,
   TableBody,
@@ -30,23 +47,73 @@ import {
   Scale,
   Loader2,
   CheckCircle2,
-  AlertCircle
+  AlertCircle,
+  WifiOff
 } from "lucide-react";
 
+const TWO_DECIMALS = { minimumFractionDigits: 2, maximumFractionDigits: 2 };
+
+// Summary values may arrive as strings such as "18.5 kg" - keep the leading number
+const toNumber = (value: unknown): number | undefined => {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value ?? ""));
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
 export default function RecommendationPage() {
   const router = useRouter();
   const { user } = useAuthStore();
   const { cattleInfo } = useCattleInfoStore();
   const { selectedFeeds } = useFeedStore();
   const reportRef = useRef<HTMLDivElement>(null);
+  const { jobs } = useOfflineQueue();
 
+  // /recommendation?job=<id> shows the result of a request queued while offline
+  const [jobId] = useState(() =>
+    typeof window === "undefined" ? null : new URLSearchParams(window.location.search).get("job")
+  );
   const [recommendation, setRecommendation] = useState<any>(null);
-  const [evaluation, setEvaluation] = useState<any>(null);
+  // Request behind the recommendation shown, which may differ from the current inputs
+  const [recommendationRequest, setRecommendationRequest] = useState<FeedRecommendationRequest | null>(null);
+  const [evaluation, setEvaluation] = useState<FeedEvaluationResponse | null>(null);
+  const [queuedJob, setQueuedJob] = useState<QueuedRecommendationJob | null>(null);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [downloading, setDownloading] = useState(false);
-  const [hasGenerated, setHasGenerated] = useState(false);
+  const [hasGenerated, setHasGenerated] = useState(!!jobId);
   const [saved, setSaved] = useState(false);
+  const { format: formatCurrency } = useCurrency(evaluation?.currency);
+  const { locale, dir, t, formatNumber, formatDate } = useTranslation();
+  const units = useUnits();
+
+  useEffect(() => {
+    if (!jobId || !isQueueSupported()) return;
+    getQueuedJob(jobId)
+      .then((job) => {
+        if (job) {
+          setQueuedJob(job);
+        } else {
+          toast.error(t("recommendation.queuedNotFound"));
+        }
+      })
+      .catch((error) => console.error("Failed to load queued job:", error));
+  }, [jobId, t]);
+
+  // Follow the queued job so its result appears as soon as it syncs
+  useEffect(() => {
+    if (!queuedJob) return;
+    const latest = jobs.find((job) => job.id === queuedJob.id);
+    if (latest && latest.updated_at !== queuedJob.updated_at) {
+      setQueuedJob(latest);
+    }
+  }, [jobs, queuedJob]);
+
+  useEffect(() => {
+    if (queuedJob?.status === "complete" && queuedJob.result) {
+      setRecommendation(queuedJob.result);
+      setRecommendationRequest(queuedJob.request);
+      setEvaluation(queuedJob.evaluation || null);
+    }
+  }, [queuedJob]);
 
   useEffect(() => {
     const hasValidCattleInfo = cattleInfo && cattleInfo.breed && cattleInfo.breed.length > 0;
@@ -58,9 +125,22 @@ export default function RecommendationPage() {
     }
   }, [cattleInfo, selectedFeeds, user, hasGenerated, loading]);
 
+  const queueForLater = async (request: FeedRecommendationRequest) => {
+    if (!isQueueSupported() || !user) {
+      toast.error(t("recommendation.offlineRetry"));
+      return;
+    }
+    try {
+      setQueuedJob(await enqueueRecommendation(request, user.id));
+      toast.info(t("recommendation.queuedOffline"));
+    } catch (error: any) {
+      toast.error(error.message || t("recommendation.queueFailed"));
+    }
+  };
+
   const generateRecommendation = async () => {
     if (!user || !cattleInfo || selectedFeeds.length === 0) {
-      toast.error("Please complete cattle info and select feeds");
+      toast.error(t("recommendation.completeInputs"));
       router.push("/cattle-info");
       return;
     }
@@ -68,13 +148,17 @@ export default function RecommendationPage() {
     setLoading(true);
     try {
       const simulationId = `sim_${Date.now()}`;
-      const recommendationData = {
+      const recommendationData: FeedRecommendationRequest = {
         cattle_info: cattleInfo as any,
         feed_selection: selectedFeeds,
         simulation_id: simulationId,
-        user_id: user.id,
       };
 
+      if (!navigator.onLine) {
+        await queueForLater(recommendationData);
+        return;
+      }
+
       const [recResult, evalResult] = await Promise.allSettled([
         recommendationApi.getRecommendation(recommendationData),
         recommendationApi.getEvaluation(recommendationData),
@@ -82,16 +166,21 @@ export default function RecommendationPage() {
 
       if (recResult.status === 'fulfilled') {
         setRecommendation(recResult.value);
+        setRecommendationRequest(recommendationData);
+      } else if (isNetworkError(recResult.reason)) {
+        await queueForLater(recommendationData);
       } else {
         console.error("Recommendation failed:", recResult.reason);
-        toast.error(recResult.reason?.message || "Failed to generate recommendation");
+        toast.error(recResult.reason?.message || t("recommendation.failed"));
       }
 
       if (evalResult.status === 'fulfilled') {
         setEvaluation(evalResult.value);
+      } else {
+        console.error("Evaluation failed:", evalResult.reason);
       }
     } catch (error: any) {
-      toast.error(error.message || "Failed to generate recommendation");
+      toast.error(error.message || t("recommendation.failed"));
     } finally {
       setLoading(false);
     }
@@ -135,59 +224,33 @@ export default function RecommendationPage() {
 
   const handleSaveReport = async () => {
     if (!recommendation?.report_info?.report_id || !user) {
-      toast.error("Unable to save report");
+      toast.error(t("recommendation.unableToSave"));
       return;
     }
 
     setSaving(true);
     const reportId = recommendation.report_info.report_id;
 
-    // Backend generates PDF asynchronously after recommendation
-    // We need to retry a few times to allow the background task to complete
-    const maxRetries = 3;
-    const retryDelay = 5000; // 5 seconds between retries
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        if (attempt > 1) {
-          toast.info(`Waiting for report to be ready... (attempt ${attempt}/${maxRetries})`);
-          await new Promise(resolve => setTimeout(resolve, retryDelay));
-        }
+    const savedToServer = await saveReportWithRetry(reportId, {
+      onRetry: (attempt, maxRetries) =>
+        toast.info(t("recommendation.waitingForReport", { attempt, max: maxRetries })),
+    });
 
-        const response = await reportApi.saveReport({
-          report_id: reportId,
-          user_id: user.id,
-        });
-
-        if (response.success) {
-          toast.success("Report saved to your account!");
-          setSaved(true);
-          setSaving(false);
-          return; // Success - exit
-        } else if (response.message?.includes("not found") && attempt < maxRetries) {
-          // Report not ready yet - will retry
-          continue;
-        } else {
-          // Other error or last attempt - fallback to client-side PDF
-          break;
-        }
-      } catch (error: any) {
-        console.error(`Save report attempt ${attempt} failed:`, error);
-        if (attempt === maxRetries) {
-          break; // Last attempt failed
-        }
-        // Will retry
-      }
+    if (savedToServer) {
+      toast.success(t("recommendation.reportSaved"));
+      setSaved(true);
+      setSaving(false);
+      return;
     }
 
     // Backend failed after retries - fallback to client-side PDF
-    toast.info("Server save unavailable. Generating PDF locally...");
+    toast.info(t("recommendation.generatingLocally"));
     const success = await generateClientPDF();
     if (success) {
-      toast.success("PDF downloaded successfully!");
+      toast.success(t("recommendation.pdfDownloaded"));
       setSaved(true);
     } else {
-      toast.error("Failed to generate PDF");
+      toast.error(t("recommendation.pdfFailed"));
     }
     setSaving(false);
   };
@@ -196,9 +259,9 @@ export default function RecommendationPage() {
     setDownloading(true);
     const success = await generateClientPDF();
     if (success) {
-      toast.success("PDF downloaded successfully!");
+      toast.success(t("recommendation.pdfDownloaded"));
     } else {
-      toast.error("Failed to generate PDF. Please try again.");
+      toast.error(t("recommendation.pdfFailedRetry"));
     }
     setDownloading(false);
   };
@@ -225,18 +288,47 @@ export default function RecommendationPage() {
     );
   }
 
+  if (!recommendation && queuedJob) {
+    return (
+      <div className="container mx-auto max-w-4xl py-6 px-4">
+        <Card>
+          <CardContent className="py-12 text-center">
+            {queuedJob.status === "failed" ? (
+              <AlertCircle className="h-12 w-12 mx-auto text-destructive mb-4" />
+            ) : (
+              <WifiOff className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            )}
+            <h3 className="text-lg font-semibold mb-2">
+              {queuedJob.status === "failed" ? t("recommendation.queuedFailedTitle") : t("recommendation.queuedTitle")}
+            </h3>
+            <p className="text-muted-foreground mb-4">
+              {queuedJob.status === "failed"
+                ? queuedJob.error
+                : queuedJob.status === "processing"
+                  ? t("recommendation.queuedProcessing")
+                  : t("recommendation.queuedPending")}
+            </p>
+            <Button variant="outline" onClick={() => router.push("/reports")}>
+              {t("recommendation.viewQueue")}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   if (!recommendation) {
     return (
       <div className="container mx-auto max-w-4xl py-6 px-4">
         <Card>
           <CardContent className="py-12 text-center">
             <AlertCircle className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-            <h3 className="text-lg font-semibold mb-2">No Recommendation Available</h3>
+            <h3 className="text-lg font-semibold mb-2">{t("recommendation.emptyTitle")}</h3>
             <p className="text-muted-foreground mb-4">
-              Please complete cattle information and select feeds first.
+              {t("recommendation.emptyDescription")}
             </p>
             <Button onClick={() => router.push("/cattle-info")}>
-              Go to Cattle Info
+              {t("recommendation.goToCattleInfo")}
             </Button>
           </CardContent>
         </Card>
@@ -245,23 +337,35 @@ export default function RecommendationPage() {
   }
 
   const { report_info, solution_summary, animal_information, least_cost_diet, environmental_impact, total_diet_cost } = recommendation;
+  const topography = animal_information?.topography || cattleInfo?.topography;
+  const topographyKey = `cattleInfo.topography.${topography}`;
+  // The summary reports milk in kg/day; the animal's own figure is in litres
+  const summaryMilkKg = toNumber(solution_summary?.milk_production);
+  const milkLitres = summaryMilkKg !== undefined
+    ? milkKgToLitres(summaryMilkKg)
+    : toNumber(animal_information?.milk_production || cattleInfo?.milk_production);
+  const weightUnit = units.symbol("weight");
+  const feedWeight = (kg: unknown) => {
+    const value = toNumber(kg);
+    return value === undefined ? null : units.fromCanonical("weight", value);
+  };
 
   return (
     <div className="container mx-auto max-w-4xl py-6 px-4 space-y-6">
-      {/* Report Content - Used for PDF generation */}
-      <div ref={reportRef} className="space-y-6 bg-background">
+      {/* Report Content - Used for PDF generation; dir and lang keep the capture mirrored for RTL locales */}
+      <div ref={reportRef} dir={dir} lang={locale} className="space-y-6 bg-background">
         {/* Header */}
         <Card>
           <CardHeader className="pb-2">
             <div className="flex items-center justify-between">
               <div>
-                <CardTitle className="text-2xl">Feed Recommendation</CardTitle>
+                <CardTitle className="text-2xl">{t("recommendation.title")}</CardTitle>
                 <CardDescription>
-                  Generated on {new Date(report_info?.generated_date || Date.now()).toLocaleDateString()}
+                  {t("recommendation.generatedOn", { date: formatDate(report_info?.generated_date || Date.now()) })}
                 </CardDescription>
               </div>
               <Badge variant="outline" className="text-xs">
-                ID: {report_info?.report_id}
+                {t("recommendation.reportId", { id: report_info?.report_id ?? "" })}
               </Badge>
             </div>
           </CardHeader>
@@ -274,8 +378,8 @@ export default function RecommendationPage() {
               <div className="flex items-center gap-2">
                 <DollarSign className="h-5 w-5 text-green-600" />
                 <div>
-                  <p className="text-xs text-muted-foreground">Daily Cost</p>
-                  <p className="text-xl font-bold">₹{total_diet_cost || solution_summary?.daily_cost || 0}</p>
+                  <p className="text-xs text-muted-foreground">{t("recommendation.dailyCost")}</p>
+                  <p className="text-xl font-bold">{formatCurrency(total_diet_cost || solution_summary?.daily_cost || 0)}</p>
                 </div>
               </div>
             </CardContent>
@@ -286,8 +390,8 @@ export default function RecommendationPage() {
               <div className="flex items-center gap-2">
                 <Milk className="h-5 w-5 text-blue-600" />
                 <div>
-                  <p className="text-xs text-muted-foreground">Milk Production</p>
-                  <p className="text-xl font-bold">{solution_summary?.milk_production || animal_information?.milk_production || "N/A"}</p>
+                  <p className="text-xs text-muted-foreground">{t("recommendation.milkProduction")}</p>
+                  <p className="text-xl font-bold">{units.format("milk", milkLitres)}</p>
                 </div>
               </div>
             </CardContent>
@@ -298,8 +402,8 @@ export default function RecommendationPage() {
               <div className="flex items-center gap-2">
                 <Scale className="h-5 w-5 text-orange-600" />
                 <div>
-                  <p className="text-xs text-muted-foreground">Dry Matter Intake</p>
-                  <p className="text-xl font-bold">{solution_summary?.dry_matter_intake || 0} kg</p>
+                  <p className="text-xs text-muted-foreground">{t("recommendation.dryMatterIntake")}</p>
+                  <p className="text-xl font-bold">{units.format("weight", toNumber(solution_summary?.dry_matter_intake) ?? 0)}</p>
                 </div>
               </div>
             </CardContent>
@@ -310,8 +414,8 @@ export default function RecommendationPage() {
               <div className="flex items-center gap-2">
                 <Leaf className="h-5 w-5 text-emerald-600" />
                 <div>
-                  <p className="text-xs text-muted-foreground">Methane/day</p>
-                  <p className="text-xl font-bold">{environmental_impact?.methane_production_grams_per_day || 0}g</p>
+                  <p className="text-xs text-muted-foreground">{t("recommendation.methanePerDay")}</p>
+                  <p className="text-xl font-bold">{formatNumber(toNumber(environmental_impact?.methane_production_grams_per_day) ?? 0)}g</p>
                 </div>
               </div>
             </CardContent>
@@ -321,41 +425,41 @@ export default function RecommendationPage() {
         {/* Animal Information */}
         <Card>
           <CardHeader>
-            <CardTitle className="text-lg">Animal Information</CardTitle>
+            <CardTitle className="text-lg">{t("recommendation.animalInformation")}</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 text-sm">
               <div>
-                <p className="text-muted-foreground">Breed</p>
+                <p className="text-muted-foreground">{t("recommendation.breed")}</p>
                 <p className="font-medium">{animal_information?.breed || cattleInfo?.breed}</p>
               </div>
               <div>
-                <p className="text-muted-foreground">Body Weight</p>
-                <p className="font-medium">{animal_information?.body_weight || cattleInfo?.body_weight} kg</p>
+                <p className="text-muted-foreground">{t("recommendation.bodyWeight")}</p>
+                <p className="font-medium">{units.format("weight", toNumber(animal_information?.body_weight || cattleInfo?.body_weight))}</p>
               </div>
               <div>
-                <p className="text-muted-foreground">Body Condition</p>
-                <p className="font-medium">{animal_information?.bc_score || cattleInfo?.bc_score}</p>
+                <p className="text-muted-foreground">{t("recommendation.bodyCondition")}</p>
+                <p className="font-medium">{formatNumber(toNumber(animal_information?.bc_score || cattleInfo?.bc_score))}</p>
               </div>
               <div>
-                <p className="text-muted-foreground">Days in Milk</p>
-                <p className="font-medium">{animal_information?.days_in_milk || cattleInfo?.days_in_milk}</p>
+                <p className="text-muted-foreground">{t("recommendation.daysInMilk")}</p>
+                <p className="font-medium">{formatNumber(toNumber(animal_information?.days_in_milk || cattleInfo?.days_in_milk))}</p>
               </div>
               <div>
-                <p className="text-muted-foreground">Parity</p>
-                <p className="font-medium">{animal_information?.parity || cattleInfo?.parity}</p>
+                <p className="text-muted-foreground">{t("recommendation.parity")}</p>
+                <p className="font-medium">{formatNumber(toNumber(animal_information?.parity || cattleInfo?.parity))}</p>
               </div>
               <div>
-                <p className="text-muted-foreground">Temperature</p>
-                <p className="font-medium">{animal_information?.temperature || cattleInfo?.temperature}°C</p>
+                <p className="text-muted-foreground">{t("recommendation.temperature")}</p>
+                <p className="font-medium">{units.format("temperature", toNumber(animal_information?.temperature || cattleInfo?.temperature))}</p>
               </div>
               <div>
-                <p className="text-muted-foreground">Topography</p>
-                <p className="font-medium">{animal_information?.topography || cattleInfo?.topography}</p>
+                <p className="text-muted-foreground">{t("recommendation.topography")}</p>
+                <p className="font-medium">{isMessageKey(topographyKey) ? t(topographyKey) : topography}</p>
               </div>
               <div>
-                <p className="text-muted-foreground">Grazing</p>
-                <p className="font-medium">{(animal_information?.grazing || cattleInfo?.grazing) ? "Yes" : "No"}</p>
+                <p className="text-muted-foreground">{t("recommendation.grazing")}</p>
+                <p className="font-medium">{(animal_information?.grazing || cattleInfo?.grazing) ? t("common.yes") : t("common.no")}</p>
               </div>
             </div>
           </CardContent>
@@ -364,11 +468,11 @@ export default function RecommendationPage() {
         {/* Diet Recommendation Table */}
         <Card>
           <CardHeader>
-            <CardTitle className="text-lg">Recommended Diet</CardTitle>
+            <CardTitle className="text-lg">{t("recommendation.recommendedDiet")}</CardTitle>
             <CardDescription>
               {least_cost_diet?.length > 0
-                ? `${least_cost_diet.length} feed ingredients recommended`
-                : "No specific diet formulation available"}
+                ? t("recommendation.ingredientCount", { count: least_cost_diet.length })
+                : t("recommendation.noDietAvailable")}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -376,19 +480,19 @@ export default function RecommendationPage() {
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead>Feed Name</TableHead>
-                    <TableHead className="text-right">Quantity (kg)</TableHead>
-                    <TableHead className="text-right">DM Intake (kg)</TableHead>
-                    <TableHead className="text-right">Cost (₹)</TableHead>
+                    <TableHead>{t("recommendation.feedName")}</TableHead>
+                    <TableHead className="text-end">{t("recommendation.quantity", { unit: weightUnit })}</TableHead>
+                    <TableHead className="text-end">{t("recommendation.dmIntake", { unit: weightUnit })}</TableHead>
+                    <TableHead className="text-end">{t("recommendation.cost")}</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {least_cost_diet.map((feed: any, index: number) => (
                     <TableRow key={index}>
-                      <TableCell className="font-medium">{feed.feed_name || feed.name || `Feed ${index + 1}`}</TableCell>
-                      <TableCell className="text-right">{feed.quantity_kg_per_day?.toFixed(2) || feed.quantity?.toFixed(2) || "N/A"}</TableCell>
-                      <TableCell className="text-right">{feed.dm_intake?.toFixed(2) || "-"}</TableCell>
-                      <TableCell className="text-right">₹{feed.daily_cost?.toFixed(2) || feed.cost?.toFixed(2) || "N/A"}</TableCell>
+                      <TableCell className="font-medium">{feed.feed_name || feed.name || t("recommendation.feedFallback", { number: index + 1 })}</TableCell>
+                      <TableCell className="text-end">{formatNumber(feedWeight(feed.quantity_kg_per_day ?? feed.quantity), TWO_DECIMALS)}</TableCell>
+                      <TableCell className="text-end">{feed.dm_intake != null ? formatNumber(feedWeight(feed.dm_intake), TWO_DECIMALS) : "-"}</TableCell>
+                      <TableCell className="text-end">{formatCurrency(feed.daily_cost ?? feed.cost)}</TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -396,8 +500,8 @@ export default function RecommendationPage() {
             ) : (
               <div className="text-center py-8 text-muted-foreground">
                 <AlertCircle className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                <p>The algorithm could not find an optimal diet with the selected feeds.</p>
-                <p className="text-sm mt-1">Try adding more variety of feeds (both forages and concentrates).</p>
+                <p>{t("recommendation.noOptimalDiet")}</p>
+                <p className="text-sm mt-1">{t("recommendation.tryMoreFeeds")}</p>
               </div>
             )}
           </CardContent>
@@ -408,42 +512,56 @@ export default function RecommendationPage() {
           <CardHeader>
             <CardTitle className="text-lg flex items-center gap-2">
               <Leaf className="h-5 w-5 text-green-600" />
-              Environmental Impact
+              {t("recommendation.environmentalImpact")}
             </CardTitle>
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
               <div className="p-3 bg-muted rounded-lg">
-                <p className="text-muted-foreground text-xs">CH₄ Production</p>
-                <p className="font-semibold">{environmental_impact?.methane_production_grams_per_day || 0} g/day</p>
+                <p className="text-muted-foreground text-xs">{t("recommendation.methaneProduction")}</p>
+                <p className="font-semibold">{formatNumber(toNumber(environmental_impact?.methane_production_grams_per_day) ?? 0)} g/day</p>
               </div>
               <div className="p-3 bg-muted rounded-lg">
-                <p className="text-muted-foreground text-xs">CH₄ Yield</p>
-                <p className="font-semibold">{environmental_impact?.methane_yield_grams_per_kg_dmi || 0} g/kg DMI</p>
+                <p className="text-muted-foreground text-xs">{t("recommendation.methaneYield")}</p>
+                <p className="font-semibold">{formatNumber(toNumber(environmental_impact?.methane_yield_grams_per_kg_dmi) ?? 0)} g/kg DMI</p>
               </div>
               <div className="p-3 bg-muted rounded-lg">
-                <p className="text-muted-foreground text-xs">CH₄ Intensity</p>
-                <p className="font-semibold">{environmental_impact?.methane_intensity_grams_per_kg_ecm || 0} g/kg ECM</p>
+                <p className="text-muted-foreground text-xs">{t("recommendation.methaneIntensity")}</p>
+                <p className="font-semibold">{formatNumber(toNumber(environmental_impact?.methane_intensity_grams_per_kg_ecm) ?? 0)} g/kg ECM</p>
               </div>
               <div className="p-3 bg-muted rounded-lg">
-                <p className="text-muted-foreground text-xs">Conversion Rate</p>
-                <p className="font-semibold">{environmental_impact?.methane_conversion_rate_percent || 0}%</p>
+                <p className="text-muted-foreground text-xs">{t("recommendation.conversionRate")}</p>
+                <p className="font-semibold">{formatNumber(toNumber(environmental_impact?.methane_conversion_rate_percent) ?? 0)}%</p>
               </div>
             </div>
           </CardContent>
         </Card>
+
+        {/* Current Diet Evaluation */}
+        {evaluation && <EvaluationPanel evaluation={evaluation} />}
       </div>
 
+      {/* Interactive - kept out of the PDF */}
+      {recommendationRequest && (
+        <PriceSensitivityPanel
+          recommendation={recommendation}
+          request={recommendationRequest}
+          formatCurrency={formatCurrency}
+        />
+      )}
+
       {/* Action Buttons - Outside PDF area */}
       <Separator />
 
       <div className="flex flex-col sm:flex-row gap-3">
         <Button variant="outline" onClick={() => router.back()} className="flex-1 sm:flex-none">
-          <ArrowLeft className="h-4 w-4 mr-2" />
-          Back
+          <ArrowLeft className="h-4 w-4 me-2 rtl:-scale-x-100" />
+          {t("common.back")}
         </Button>
 
-        <div className="flex gap-3 flex-1 sm:flex-none sm:ml-auto">
+        <div className="flex gap-3 flex-1 sm:flex-none sm:ms-auto">
+          <AddScenarioDialog recommendation={recommendation} evaluation={evaluation} />
+
           <Button
             onClick={handleSaveReport}
             disabled={saving || saved || !recommendation?.report_info?.report_id}
@@ -451,13 +569,13 @@ export default function RecommendationPage() {
             className="flex-1"
           >
             {saving ? (
-              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              <Loader2 className="h-4 w-4 me-2 animate-spin" />
             ) : saved ? (
-              <CheckCircle2 className="h-4 w-4 mr-2 text-green-600" />
+              <CheckCircle2 className="h-4 w-4 me-2 text-green-600" />
             ) : (
-              <Save className="h-4 w-4 mr-2" />
+              <Save className="h-4 w-4 me-2" />
             )}
-            {saved ? "Saved" : "Save Report"}
+            {saved ? t("recommendation.saved") : t("recommendation.saveReport")}
           </Button>
 
           <Button
@@ -467,11 +585,11 @@ export default function RecommendationPage() {
             className="flex-1"
           >
             {downloading ? (
-              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              <Loader2 className="h-4 w-4 me-2 animate-spin" />
             ) : (
-              <Download className="h-4 w-4 mr-2" />
+              <Download className="h-4 w-4 me-2" />
             )}
-            Download PDF
+            {t("recommendation.downloadPdf")}
           </Button>
         </div>
       </div>
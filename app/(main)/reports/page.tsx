@@ -5,15 +5,18 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { reportApi } from "@/lib/api/endpoints";
 import { useAuthStore } from "@/store/auth-store";
+import { useTranslation } from "@/hooks/use-translation";
 import { toast } from "sonner";
 import { Skeleton } from "@/components/ui/skeleton";
 import { UserReportItem } from "@/lib/types";
+import { QueuedJobsList } from "@/components/offline/queued-jobs-list";
 import { FileText, Download, Trash2 } from "lucide-react";
 
 export default function ReportsPage() {
   const { user } = useAuthStore();
   const [reports, setReports] = useState<UserReportItem[]>([]);
   const [loading, setLoading] = useState(true);
+  const { t, formatDate } = useTranslation();
 
   useEffect(() => {
     if (user) {
@@ -25,10 +28,10 @@ export default function ReportsPage() {
     if (!user) return;
     setLoading(true);
     try {
-      const response = await reportApi.getUserReports(user.id);
+      const response = await reportApi.getUserReports();
       setReports(response.reports || []);
     } catch (error: any) {
-      toast.error("Failed to load reports");
+      toast.error(t("reports.loadFailed"));
     } finally {
       setLoading(false);
     }
@@ -36,7 +39,7 @@ export default function ReportsPage() {
 
   const handleDownload = async (report: UserReportItem) => {
     if (!report.bucket_url) {
-      toast.error("Report URL not available");
+      toast.error(t("reports.urlUnavailable"));
       return;
     }
 
@@ -65,7 +68,7 @@ export default function ReportsPage() {
 
   const handleDelete = async (reportId: string) => {
     // Delete logic would go here - backend doesn't have delete endpoint yet
-    toast.info("Delete functionality coming soon");
+    toast.info(t("reports.deleteComingSoon"));
   };
 
   if (loading) {
@@ -85,19 +88,18 @@ export default function ReportsPage() {
   }
 
   return (
-    <div className="container mx-auto max-w-4xl py-6">
+    <div className="container mx-auto max-w-4xl py-6 space-y-6">
+      <QueuedJobsList />
       <Card>
         <CardHeader>
-          <CardTitle>Saved Reports</CardTitle>
-          <CardDescription>
-            View and manage your saved feed formulation reports
-          </CardDescription>
+          <CardTitle>{t("reports.title")}</CardTitle>
+          <CardDescription>{t("reports.description")}</CardDescription>
         </CardHeader>
         <CardContent>
           {reports.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
               <FileText className="h-12 w-12 mx-auto mb-4 opacity-50" />
-              <p>No reports saved yet</p>
+              <p>{t("reports.empty")}</p>
             </div>
           ) : (
             <div className="space-y-4">
@@ -110,7 +112,7 @@ export default function ReportsPage() {
                           {report.report_type} - {report.simulation_id}
                         </h3>
                         <p className="text-sm text-muted-foreground">
-                          {new Date(report.report_created_date).toLocaleDateString()}
+                          {formatDate(report.report_created_date)}
                         </p>
                       </div>
                       <div className="flex gap-2">
@@ -118,9 +120,9 @@ export default function ReportsPage() {
                           variant="outline"
                           size="icon"
                           onClick={() => handleDownload(report)}
-                          title="Download PDF"
+                          title={t("reports.download")}
                           className="min-h-[44px] min-w-[44px] touch-manipulation"
-                          aria-label="Download PDF report"
+                          aria-label={t("reports.downloadLabel")}
                         >
                           <Download className="h-4 w-4" />
                         </Button>
@@ -128,9 +130,9 @@ export default function ReportsPage() {
                           variant="outline"
                           size="icon"
                           onClick={() => handleDelete(report.report_id)}
-                          title="Delete report"
+                          title={t("reports.delete")}
                           className="min-h-[44px] min-w-[44px] touch-manipulation"
-                          aria-label="Delete report"
+                          aria-label={t("reports.delete")}
                         >
                           <Trash2 className="h-4 w-4" />
                         </Button>
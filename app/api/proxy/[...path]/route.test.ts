@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { SESSION_COOKIE, createSessionToken } from "@/lib/session";
+import { GET, POST, PUT } from "./route";
+
+const user = { id: "user-1", email_id: "farmer@example.com" };
+const upstream = vi.fn<typeof fetch>();
+
+const call = async (handler: typeof GET, path: string, init: RequestInit = {}) => {
+  const token = await createSessionToken(user);
+  const request = new NextRequest(`http://localhost/api/proxy/${path}`, {
+    ...init,
+    headers: { ...init.headers, cookie: `${SESSION_COOKIE}=${token}` },
+  } as ConstructorParameters<typeof NextRequest>[1]);
+  const [routePath] = path.split("?");
+  return handler(request, { params: Promise.resolve({ path: routePath.split("/") }) });
+};
+
+// Path the backend was asked for, without the query string
+const upstreamPath = () => new URL(String(upstream.mock.calls[0][0])).pathname;
+
+beforeEach(() => {
+  upstream.mockReset();
+  upstream.mockImplementation(async () => Response.json({ success: true }));
+  vi.stubGlobal("fetch", upstream);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe("user path segments", () => {
+  it.each([
+    ["auth/user/me", "/auth/user/farmer%40example.com"],
+    ["pdf-reports/me", "/pdf-reports/user-1"],
+    ["unique-feed-type/KE/me", "/unique-feed-type/KE/user-1"],
+  ])("fills in the signed-in user for %s", async (path, expected) => {
+    const response = await call(GET, path);
+
+    expect(response.status).toBe(200);
+    expect(upstreamPath()).toBe(expected);
+  });
+
+  it.each([
+    ["GET", GET, "auth/user/someone@example.com"],
+    ["PUT", PUT, "auth/user/someone@example.com"],
+    ["GET", GET, "pdf-reports/user-2"],
+    ["GET", GET, "unique-feed-type/KE/user-2"],
+  ])("refuses %s %s for another user", async (method, handler, path) => {
+    const response = await call(handler, path, { method });
+
+    expect(response.status).toBe(403);
+    expect(upstream).not.toHaveBeenCalled();
+  });
+
+  it("refuses the signed-in user's own id in place of me", async () => {
+    const response = await call(GET, "pdf-reports/user-1");
+
+    expect(response.status).toBe(403);
+  });
+
+  it("overwrites the user_id query parameter", async () => {
+    await call(GET, "get-user-reports?user_id=user-2");
+
+    expect(new URL(String(upstream.mock.calls[0][0])).searchParams.get("user_id")).toBe("user-1");
+  });
+});
+
+describe("PIN reset emails", () => {
+  // Limiter state lives for the whole module, so each test uses its own emails and address
+  const requestReset = (email: string, ip: string) =>
+    call(POST, "auth/forgot-pin", {
+      method: "POST",
+      headers: { "content-type": "application/json", "x-real-ip": ip },
+      body: JSON.stringify({ email_id: email }),
+    });
+
+  it("limits requests per email, even when the email was sent", async () => {
+    vi.stubEnv("VERCEL", "1");
+
+    expect((await requestReset("reset-a@example.com", "203.0.113.10")).status).toBe(200);
+    expect((await requestReset("Reset-A@example.com", "203.0.113.11")).status).toBe(429);
+    expect(upstream).toHaveBeenCalledTimes(1);
+  });
+
+  it("limits requests per address across emails", async () => {
+    vi.stubEnv("VERCEL", "1");
+
+    expect((await requestReset("reset-b@example.com", "203.0.113.20")).status).toBe(200);
+    expect((await requestReset("reset-c@example.com", "203.0.113.20")).status).toBe(429);
+    expect(upstream).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,106 +1,408 @@
 import { NextRequest, NextResponse } from 'next/server';
+import {
+  CURRENT_USER,
+  SESSION_COOKIE,
+  Session,
+  createSessionToken,
+  sessionCookieOptions,
+  verifySessionToken,
+} from '@/lib/session';
+import { MemoryRateLimitStore, RateLimitDecision, RateLimiter, createRateLimiter } from '@/lib/rate-limit';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
 
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ path: string[] }> }
-) {
-  const { path } = await params;
-  const targetPath = path.join('/');
-  const searchParams = request.nextUrl.searchParams.toString();
-  const url = `${API_BASE_URL}/${targetPath}${searchParams ? `?${searchParams}` : ''}`;
+// Longer than the client's 90s timeout so the client reports its own timeout first
+const UPSTREAM_TIMEOUT_MS = 120000;
 
-  try {
-    const response = await fetch(url, {
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
+// Reachable without a session
+const PUBLIC_PATHS = [
+  'auth/login',
+  'auth/register',
+  'auth/forgot-pin',
+  'auth/verify-reset-code',
+  'auth/reset-pin',
+  'auth/countries',
+];
+// A successful response from these starts a session
+const SESSION_START_PATHS = ['auth/login', 'auth/register', 'auth/reset-pin'];
+// Handled here without calling the backend
+const LOGOUT_PATH = 'auth/logout';
+// The parts of an auth response the proxy looks at
+type AuthResponseData = {
+  success?: boolean;
+  user?: { id?: string };
+  reset_token?: string;
+  attempts_remaining?: number;
+} | null;
+
+// Throttled against guessing PINs and reset codes, and against flooding an inbox
+// with reset emails. Each flow has its own counters, so failed reset codes do not
+// lock the account out of logging in, and vice versa. `succeeded` tells a correct
+// guess apart in an otherwise successful response; every reset email counts.
+const THROTTLED_PATHS: Record<string, { flow: string; succeeded: (data: AuthResponseData) => boolean }> = {
+  'auth/login': { flow: 'login', succeeded: (data) => !!data?.user?.id },
+  'auth/forgot-pin': { flow: 'reset-email', succeeded: () => false },
+  'auth/verify-reset-code': { flow: 'reset', succeeded: (data) => !!data?.reset_token },
+  'auth/reset-pin': { flow: 'reset', succeeded: (data) => !!data?.user?.id },
+};
+
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+
+// Reverse proxies in front of the app that append to X-Forwarded-For. Without
+// them the header is whatever the client sent, so it is not used for limiting.
+const TRUSTED_PROXY_HOPS = Math.max(0, parseInt(process.env.TRUSTED_PROXY_HOPS || '0', 10) || 0);
+
+if (process.env.NODE_ENV === 'production' && TRUSTED_PROXY_HOPS === 0 && !process.env.VERCEL) {
+  console.warn('TRUSTED_PROXY_HOPS is not set: login and PIN reset attempts are only limited per account, not per address');
+}
+
+// A 4-digit PIN or a short reset code is guessable - lock an account after a handful of failures
+const emailLimiter = createRateLimiter({
+  maxFailures: 5,
+  lockoutMs: 15 * 60 * 1000,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  windowMs: LOGIN_WINDOW_MS,
+  store: new MemoryRateLimitStore(LOGIN_WINDOW_MS),
+});
+
+// Looser per address, since many users can share one (mobile carriers, NAT)
+const ipLimiter = createRateLimiter({
+  maxFailures: 20,
+  lockoutMs: 15 * 60 * 1000,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  windowMs: LOGIN_WINDOW_MS,
+  store: new MemoryRateLimitStore(LOGIN_WINDOW_MS),
+});
+
+type Attempt = { routePath: string; emailKey: string | null; ipKey: string | null };
+
+// Hop-by-hop headers and headers fetch computes itself must not be forwarded.
+// The session cookie is ours - the backend gets the identity instead.
+const STRIPPED_REQUEST_HEADERS = [
+  'host',
+  'connection',
+  'keep-alive',
+  'transfer-encoding',
+  'upgrade',
+  'content-length',
+  'accept-encoding',
+  'cookie',
+];
+
+// fetch already decoded the body, so the upstream encoding and length no longer apply
+const STRIPPED_RESPONSE_HEADERS = [
+  'connection',
+  'keep-alive',
+  'transfer-encoding',
+  'content-encoding',
+  'content-length',
+];
+
+// Routes that name their user in the path. The segment at `index` must be
+// CURRENT_USER and is filled in from the session; any other value would let
+// the caller act as someone else, so it is refused.
+const IDENTITY_ROUTES: Array<{ prefix: string[]; index: number; identity: 'email' | 'userId' }> = [
+  { prefix: ['auth', 'user'], index: 2, identity: 'email' },
+  { prefix: ['pdf-reports'], index: 1, identity: 'userId' },
+  { prefix: ['unique-feed-type'], index: 2, identity: 'userId' },
+];
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+const isAdminPath = (routePath: string) => routePath.startsWith('admin/');
 
-    const data = await response.json();
-    return NextResponse.json(data, { status: response.status });
-  } catch (error) {
-    console.error('Proxy GET error:', error);
-    return NextResponse.json({ error: 'Proxy error' }, { status: 500 });
+/** The path to send upstream, or null when it names a user other than the session's */
+function resolveUserSegments(path: string[], session: Session) {
+  const route = IDENTITY_ROUTES.find(({ prefix }) => prefix.every((segment, i) => path[i] === segment));
+  if (route && path[route.index] !== CURRENT_USER) return null;
+  return path.map((segment, i) => {
+    if (segment !== CURRENT_USER) return segment;
+    return route?.index === i && route.identity === 'email' ? session.email || '' : session.userId;
+  });
+}
+
+function buildUpstreamUrl(request: NextRequest, segments: string[], session: Session | null) {
+  const routePath = segments.join('/');
+  const targetPath = segments.map(encodeURIComponent).join('/');
+  // Keep the trailing slash (see skipTrailingSlashRedirect in next.config.ts) - the
+  // backend would otherwise redirect, and a streamed body cannot follow a redirect
+  const trailingSlash = request.nextUrl.pathname.endsWith('/') ? '/' : '';
+
+  const searchParams = new URLSearchParams(request.nextUrl.searchParams);
+  if (session) {
+    // Always overwrite - the client must not be able to act as someone else
+    searchParams.set('user_id', session.userId);
+    if (isAdminPath(routePath)) {
+      searchParams.set('admin_user_id', session.userId);
+    }
   }
+  const search = searchParams.toString();
+
+  return `${API_BASE_URL}/${targetPath}${trailingSlash}${search ? `?${search}` : ''}`;
 }
 
-export async function POST(
-  request: NextRequest,
-  { params }: { params: Promise<{ path: string[] }> }
-) {
-  const { path } = await params;
-  const targetPath = path.join('/');
-  const searchParams = request.nextUrl.searchParams.toString();
-  const url = `${API_BASE_URL}/${targetPath}${searchParams ? `?${searchParams}` : ''}`;
+function forwardHeaders(source: Headers, stripped: string[]) {
+  const headers = new Headers(source);
+  stripped.forEach((name) => headers.delete(name));
+  return headers;
+}
+
+function proxyError(message: string, status: number) {
+  return NextResponse.json({ message, error: message }, { status });
+}
 
+/**
+ * Request body to send upstream. JSON objects get the session's user_id;
+ * everything else (multipart uploads, binaries) is streamed through untouched.
+ */
+async function buildUpstreamBody(request: NextRequest, session: Session | null) {
+  if (['GET', 'HEAD'].includes(request.method)) return undefined;
+
+  const isJson = request.headers.get('content-type')?.includes('application/json');
+  if (!session || !isJson) return request.body;
+
+  const text = await request.text();
+  if (!text) return text;
   try {
-    const body = await request.json().catch(() => ({}));
+    const body = JSON.parse(text);
+    if (body && typeof body === 'object' && !Array.isArray(body)) {
+      return JSON.stringify({ ...body, user_id: session.userId });
+    }
+  } catch {
+    // Not valid JSON after all - let the backend report it
+  }
+  return text;
+}
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
+/**
+ * The client's address as seen by the outermost trusted proxy, or null when no
+ * address can be trusted (the per-IP limit is then skipped).
+ */
+function clientIp(request: NextRequest) {
+  if (TRUSTED_PROXY_HOPS > 0) {
+    const hops = (request.headers.get('x-forwarded-for') || '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+    // Each trusted proxy appends the address it received the request from
+    return hops[Math.max(0, hops.length - TRUSTED_PROXY_HOPS)] || null;
+  }
+  // Vercel overwrites this header at its edge, so the client cannot set it
+  if (process.env.VERCEL) return request.headers.get('x-real-ip');
+  return null;
+}
 
-    const data = await response.json();
-    return NextResponse.json(data, { status: response.status });
-  } catch (error) {
-    console.error('Proxy POST error:', error);
-    return NextResponse.json({ error: 'Proxy error' }, { status: 500 });
+async function readAttempt(request: NextRequest, routePath: string): Promise<Attempt> {
+  const { flow } = THROTTLED_PATHS[routePath];
+  // Clone so the original body can still be streamed upstream
+  const body = await request.clone().json().catch(() => null);
+  const email = typeof body?.email_id === 'string' ? body.email_id.trim().toLowerCase() : '';
+  const ip = clientIp(request);
+  return {
+    routePath,
+    emailKey: email ? `${flow}:email:${email}` : null,
+    ipKey: ip ? `${flow}:ip:${ip}` : null,
+  };
+}
+
+/** Combine per-email and per-IP decisions into the stricter of the two */
+function strictest(decisions: RateLimitDecision[]): RateLimitDecision {
+  const blocked = decisions.filter((decision) => !decision.allowed);
+  return {
+    allowed: blocked.length === 0,
+    locked: blocked.some((decision) => decision.locked),
+    attemptsRemaining: Math.min(...decisions.map((decision) => decision.attemptsRemaining)),
+    retryAfterMs: Math.max(0, ...blocked.map((decision) => decision.retryAfterMs)),
+  };
+}
+
+/**
+ * Count the attempt against the address and the account before it is forwarded.
+ * A key that allowed it is given the attempt back if the other one refuses.
+ */
+async function consumeAttempt({ emailKey, ipKey }: Attempt) {
+  if (!emailKey && !ipKey) return null;
+  const consumed: Array<[RateLimiter, string, RateLimitDecision]> = [];
+  if (ipKey) consumed.push([ipLimiter, ipKey, await ipLimiter.consume(ipKey)]);
+  if (emailKey) consumed.push([emailLimiter, emailKey, await emailLimiter.consume(emailKey)]);
+
+  const decision = strictest(consumed.map(([, , keyDecision]) => keyDecision));
+  if (!decision.allowed) {
+    await Promise.all(
+      consumed
+        .filter(([, , keyDecision]) => keyDecision.allowed)
+        .map(([limiter, key]) => limiter.release(key))
+    );
   }
+  return decision;
 }
 
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ path: string[] }> }
-) {
-  const { path } = await params;
-  const targetPath = path.join('/');
-  const url = `${API_BASE_URL}/${targetPath}`;
+/** Whether the next attempt would be allowed, for reporting after a failure */
+async function checkAttempt({ emailKey, ipKey }: Attempt) {
+  const decisions: RateLimitDecision[] = [];
+  if (ipKey) decisions.push(await ipLimiter.check(ipKey));
+  if (emailKey) decisions.push(await emailLimiter.check(emailKey));
+  return strictest(decisions);
+}
 
-  try {
-    const body = await request.json().catch(() => ({}));
+/**
+ * Give the attempt back to both keys when the backend failed. Aborted and timed-out
+ * requests keep theirs, as the backend may still have checked the PIN or code.
+ */
+async function releaseAttempt({ emailKey, ipKey }: Attempt) {
+  if (ipKey) await ipLimiter.release(ipKey);
+  if (emailKey) await emailLimiter.release(emailKey);
+}
 
-    const response = await fetch(url, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
+function throttledResponse(decision: RateLimitDecision) {
+  const retryAfter = Math.ceil(decision.retryAfterMs / 1000);
+  const minutes = Math.ceil(retryAfter / 60);
+  const message = decision.locked
+    ? `Too many failed attempts. Try again in ${minutes} ${minutes === 1 ? 'minute' : 'minutes'}.`
+    : `Please wait ${retryAfter} ${retryAfter === 1 ? 'second' : 'seconds'} before trying again.`;
+  return NextResponse.json(
+    {
+      message,
+      error: message,
+      retry_after: retryAfter,
+      attempts_remaining: decision.attemptsRemaining,
+      locked: decision.locked,
+    },
+    { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+  );
+}
+
+/**
+ * Settle the attempt counted before the request was forwarded. Failures report
+ * how many attempts are left - the lower of ours and the backend's.
+ */
+async function settleAttempt(
+  attempt: Attempt,
+  consumed: RateLimitDecision,
+  response: Response,
+  data: AuthResponseData
+): Promise<AuthResponseData> {
+  const success = response.ok && data?.success && THROTTLED_PATHS[attempt.routePath].succeeded(data);
 
-    const data = await response.json();
-    return NextResponse.json(data, { status: response.status });
-  } catch (error) {
-    console.error('Proxy PUT error:', error);
-    return NextResponse.json({ error: 'Proxy error' }, { status: 500 });
+  if (success) {
+    // The account is cleared, but the address only gets this attempt back - one
+    // good login must not reset an address that is guessing for other accounts
+    if (attempt.emailKey) await emailLimiter.reset(attempt.emailKey);
+    if (attempt.ipKey) await ipLimiter.release(attempt.ipKey);
+    return data;
   }
+  if (response.status >= 500) {
+    await releaseAttempt(attempt);
+    return data;
+  }
+
+  const next = await checkAttempt(attempt);
+  const backendRemaining = typeof data?.attempts_remaining === 'number' ? data.attempts_remaining : Infinity;
+  return {
+    ...data,
+    attempts_remaining: Math.min(consumed.attemptsRemaining, backendRemaining),
+    ...(!next.allowed && { retry_after: Math.ceil(next.retryAfterMs / 1000), locked: next.locked }),
+  };
 }
 
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ path: string[] }> }
+/**
+ * Re-send a throttled or session-starting response as JSON, settling the rate
+ * limit attempt and setting the session cookie after a successful login/register.
+ */
+async function authResponse(
+  response: Response,
+  routePath: string,
+  attempt: Attempt | null,
+  consumed: RateLimitDecision | null
 ) {
+  let data = await response.json().catch(() => null);
+  if (attempt && consumed) {
+    data = await settleAttempt(attempt, consumed, response, data);
+  }
+
+  const success = SESSION_START_PATHS.includes(routePath) && response.ok && data?.success && data.user?.id;
+  const result = NextResponse.json(data, { status: response.status });
+  if (success) {
+    result.cookies.set(SESSION_COOKIE, await createSessionToken(data.user), sessionCookieOptions);
+  }
+  return result;
+}
+
+async function proxyRequest(request: NextRequest, { params }: RouteContext) {
   const { path } = await params;
-  const targetPath = path.join('/');
-  const url = `${API_BASE_URL}/${targetPath}`;
+  const routePath = path.join('/');
+
+  if (routePath === LOGOUT_PATH) {
+    const response = NextResponse.json({ success: true });
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+  }
+
+  const isPublic = PUBLIC_PATHS.includes(routePath);
+  const session = isPublic
+    ? null
+    : await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+
+  if (!isPublic && !session) {
+    return proxyError('Your session has expired. Please log in again.', 401);
+  }
+  if (isAdminPath(routePath) && !session?.isAdmin) {
+    return proxyError('Admin access required', 403);
+  }
+
+  const segments = session ? resolveUserSegments(path, session) : path;
+  if (!segments) {
+    return proxyError('You can only access your own account', 403);
+  }
+
+  const url = buildUpstreamUrl(request, segments, session);
+
+  const attempt =
+    request.method === 'POST' && Object.hasOwn(THROTTLED_PATHS, routePath) ? await readAttempt(request, routePath) : null;
+  const consumed = attempt ? await consumeAttempt(attempt) : null;
+  if (consumed && !consumed.allowed) return throttledResponse(consumed);
 
   try {
+    const body = await buildUpstreamBody(request, session);
     const response = await fetch(url, {
-      method: 'DELETE',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
+      method: request.method,
+      headers: forwardHeaders(request.headers, STRIPPED_REQUEST_HEADERS),
+      body,
+      // Required by Node's fetch when the body is a stream
+      ...(body instanceof ReadableStream && { duplex: 'half' }),
+      cache: 'no-store',
+      signal: AbortSignal.any([request.signal, AbortSignal.timeout(UPSTREAM_TIMEOUT_MS)]),
+    } as RequestInit);
+
+    if (request.method === 'POST' && (attempt || SESSION_START_PATHS.includes(routePath))) {
+      return authResponse(response, routePath, attempt, consumed);
+    }
 
-    const data = await response.json();
-    return NextResponse.json(data, { status: response.status });
-  } catch (error) {
-    console.error('Proxy DELETE error:', error);
-    return NextResponse.json({ error: 'Proxy error' }, { status: 500 });
+    return new NextResponse(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: forwardHeaders(response.headers, STRIPPED_RESPONSE_HEADERS),
+    });
+  } catch (error: any) {
+    if (error?.name === 'TimeoutError') {
+      console.error(`Proxy ${request.method} ${url} timed out`);
+      return proxyError('The server took too long to respond', 504);
+    }
+    if (error?.name === 'AbortError') {
+      // The browser went away - nobody is waiting for this response
+      return new NextResponse(null, { status: 499 });
+    }
+    console.error(`Proxy ${request.method} ${url} error:`, error);
+    return proxyError('Unable to reach the server. Please try again later.', 502);
   }
 }
+
+export const GET = proxyRequest;
+export const HEAD = proxyRequest;
+export const POST = proxyRequest;
+export const PUT = proxyRequest;
+export const PATCH = proxyRequest;
+export const DELETE = proxyRequest;
+export const OPTIONS = proxyRequest;
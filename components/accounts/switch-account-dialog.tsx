@@ -0,0 +1,160 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { authApi } from "@/lib/api/endpoints";
+import { clearUserStorage } from "@/lib/user-storage";
+import { useAuthStore } from "@/store/auth-store";
+import { useAppLockStore } from "@/store/app-lock-store";
+import { User } from "@/lib/types";
+import { useTranslation } from "@/hooks/use-translation";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+/** Account to switch to, or "new" to sign in to one not yet on this device */
+export type SwitchTarget = User | "new";
+
+interface SwitchAccountDialogProps {
+  target: SwitchTarget | null;
+  onClose: () => void;
+}
+
+export function SwitchAccountDialog({ target, onClose }: SwitchAccountDialogProps) {
+  const router = useRouter();
+  const { setUser, removeAccount } = useAuthStore();
+  const setPasskey = useAppLockStore((state) => state.setPasskey);
+  const [email, setEmail] = useState("");
+  const [pin, setPin] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const { t } = useTranslation();
+
+  const account = target === "new" ? null : target;
+
+  const close = () => {
+    setEmail("");
+    setPin("");
+    onClose();
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen && !isLoading) close();
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const emailId = account?.email_id || email.trim();
+    if (!emailId) {
+      toast.error(t("accounts.emailRequired"));
+      return;
+    }
+    if (!/^\d{4}$/.test(pin)) {
+      toast.error(t("validation.pinLength"));
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const response = await authApi.login({ email_id: emailId, pin });
+      if (response.success && response.user) {
+        // Swaps in the new user's cattle, feed and scenario data (see lib/user-storage.ts)
+        setUser(response.user);
+        toast.success(t("accounts.switched", { name: response.user.name || response.user.email_id || "" }));
+        setIsLoading(false);
+        close();
+        router.push("/cattle-info");
+        return;
+      }
+      toast.error(response.message || t("accounts.incorrectPin"));
+    } catch (error: any) {
+      toast.error(error.message || t("accounts.switchFailed"));
+    }
+    setPin("");
+    setIsLoading(false);
+  };
+
+  const handleRemove = () => {
+    if (!account) return;
+    removeAccount(account.id);
+    clearUserStorage(account.id);
+    setPasskey(account.id, null);
+    toast.success(t("accounts.removed", { name: account.name || account.email_id || "" }));
+    close();
+  };
+
+  return (
+    <Dialog open={target !== null} onOpenChange={handleOpenChange}>
+      <DialogContent className="w-[calc(100%-2rem)] sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>
+              {account ? t("accounts.switchTo", { name: account.name || account.email_id || "" }) : t("accounts.add")}
+            </DialogTitle>
+            <DialogDescription>
+              {account
+                ? t("accounts.enterPinFor", { email: account.email_id || "" })
+                : t("accounts.addDescription")}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            {!account && (
+              <div className="space-y-2">
+                <Label htmlFor="switch-account-email">{t("auth.email")}</Label>
+                <Input
+                  id="switch-account-email"
+                  type="email"
+                  placeholder={t("accounts.emailPlaceholder")}
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  disabled={isLoading}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="switch-account-pin">{t("auth.pin")}</Label>
+              <Input
+                id="switch-account-pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="current-password"
+                placeholder={t("auth.pinPlaceholder")}
+                maxLength={4}
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+                disabled={isLoading}
+                autoFocus={!!account}
+              />
+            </div>
+          </div>
+          <DialogFooter className="gap-2">
+            {account && (
+              <Button
+                type="button"
+                variant="ghost"
+                className="text-destructive hover:text-destructive sm:me-auto"
+                onClick={handleRemove}
+                disabled={isLoading}
+              >
+                {t("accounts.remove")}
+              </Button>
+            )}
+            <Button type="submit" disabled={isLoading}>
+              {isLoading && <Loader2 className="me-2 h-4 w-4 animate-spin" />}
+              {account ? t("accounts.switch") : t("accounts.signIn")}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -106,12 +106,12 @@ export function AddFeedDialog({ onSuccess }: AddFeedDialogProps) {
   const loadFeedTypes = useCallback(async () => {
     if (!user?.country_id) return;
     try {
-      const data = await feedApi.getFeedTypes(user.country_id, user.id);
+      const data = await feedApi.getFeedTypes(user.country_id);
       setFeedTypes(data);
     } catch (error) {
       toast.error("Failed to load feed types");
     }
-  }, [user?.country_id, user?.id]);
+  }, [user?.country_id]);
 
   useEffect(() => {
     if (open && user?.is_admin) {
@@ -139,8 +139,7 @@ export function AddFeedDialog({ onSuccess }: AddFeedDialogProps) {
       try {
         const data = await feedApi.getFeedCategories(
           debouncedFeedType,
-          user.country_id!,
-          user.id
+          user.country_id!
         );
         if (!abortControllerRef.current?.signal.aborted) {
           setFeedCategories(data.unique_feed_categories || []);
@@ -206,7 +205,7 @@ export function AddFeedDialog({ onSuccess }: AddFeedDialogProps) {
         fd_ipb_local_lab: data.fd_ipb_local_lab,
       };
 
-      await adminApi.addFeed(user.id, feedData);
+      await adminApi.addFeed(feedData);
       toast.success("Feed added successfully");
       form.reset();
       setOpen(false);
@@ -236,7 +235,7 @@ export function AddFeedDialog({ onSuccess }: AddFeedDialogProps) {
     <Dialog open={open} onOpenChange={handleDialogClose}>
       <DialogTrigger asChild>
         <Button>
-          <Plus className="mr-2 h-4 w-4" />
+          <Plus className="me-2 h-4 w-4" />
           Add Feed
         </Button>
       </DialogTrigger>
@@ -0,0 +1,247 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { adminApi } from "@/lib/api/endpoints";
+import { clearBreedCatalogue } from "@/lib/breeds";
+import { toast } from "sonner";
+import { Breed, BreedRequest } from "@/lib/types";
+
+const breedFormSchema = z
+  .object({
+    name: z.string().trim().min(1, "Breed name is required").max(60),
+    country_codes: z.string().trim(),
+    breed_group: z.enum(["taurine", "indicine", "unknown"]),
+    mature_weight_kg: z.number().positive("Mature weight is required"),
+    min_body_weight_kg: z.number().positive("Minimum weight is required"),
+    max_body_weight_kg: z.number().positive("Maximum weight is required"),
+    fat_milk: z.number().min(0).max(100),
+    tp_milk: z.number().min(0).max(100),
+    sort_order: z.number().optional(),
+  })
+  .refine((data) => data.min_body_weight_kg < data.max_body_weight_kg, {
+    message: "Must be above the minimum weight",
+    path: ["max_body_weight_kg"],
+  })
+  .refine(
+    (data) =>
+      data.mature_weight_kg >= data.min_body_weight_kg &&
+      data.mature_weight_kg <= data.max_body_weight_kg,
+    { message: "Must be within the body weight bounds", path: ["mature_weight_kg"] }
+  );
+
+type BreedFormValues = z.infer<typeof breedFormSchema>;
+
+const numberFields = [
+  { name: "mature_weight_kg", label: "Typical Mature Weight (kg) *" },
+  { name: "min_body_weight_kg", label: "Minimum Body Weight (kg) *" },
+  { name: "max_body_weight_kg", label: "Maximum Body Weight (kg) *" },
+  { name: "fat_milk", label: "Milk Fat (%)" },
+  { name: "tp_milk", label: "Milk Protein (%)" },
+  { name: "sort_order", label: "Sort Order" },
+] as const;
+
+const breedGroups = [
+  { value: "taurine", label: "Taurine (European dairy)" },
+  { value: "indicine", label: "Indicine (zebu and crosses)" },
+  { value: "unknown", label: "Not specified" },
+] as const;
+
+// "KE, tz" -> ["KE", "TZ"]
+const parseCountryCodes = (value: string) =>
+  value
+    .split(/[\s,]+/)
+    .map((code) => code.trim().toUpperCase())
+    .filter(Boolean);
+
+interface BreedDialogProps {
+  breed?: Breed | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+export function BreedDialog({ breed, open, onOpenChange, onSuccess }: BreedDialogProps) {
+  const [loading, setLoading] = useState(false);
+  const isEditing = !!breed;
+
+  const form = useForm<BreedFormValues>({
+    resolver: zodResolver(breedFormSchema),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        name: breed?.name || "",
+        country_codes: breed?.country_codes.join(", ") || "",
+        breed_group: breed?.breed_group ?? "unknown",
+        mature_weight_kg: breed?.mature_weight_kg ?? 0,
+        min_body_weight_kg: breed?.min_body_weight_kg ?? 0,
+        max_body_weight_kg: breed?.max_body_weight_kg ?? 0,
+        fat_milk: breed?.fat_milk ?? 0,
+        tp_milk: breed?.tp_milk ?? 0,
+        sort_order: breed?.sort_order ?? 0,
+      });
+    }
+  }, [open, breed, form]);
+
+  const onSubmit = async (data: BreedFormValues) => {
+    const request: BreedRequest = {
+      ...data,
+      country_codes: parseCountryCodes(data.country_codes),
+      breed_group: data.breed_group === "unknown" ? undefined : data.breed_group,
+      is_active: breed?.is_active ?? true,
+    };
+
+    setLoading(true);
+    try {
+      if (breed) {
+        await adminApi.updateBreed(breed.id, request);
+        toast.success("Breed updated successfully");
+      } else {
+        await adminApi.addBreed(request);
+        toast.success("Breed added successfully");
+      }
+      clearBreedCatalogue();
+      onOpenChange(false);
+      onSuccess?.();
+    } catch (error: any) {
+      toast.error(error.message || `Failed to ${breed ? "update" : "add"} breed`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto w-[calc(100%-2rem)] sm:w-full">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Breed" : "Add Breed"}</DialogTitle>
+          <DialogDescription>
+            Typical values prefill the cattle form; the bounds validate body weight
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Breed Name *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Boran" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="country_codes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Country Codes</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., KE, ET, TZ" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Comma-separated ISO codes; leave empty to offer the breed in every country
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="breed_group"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Breed Group</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {breedGroups.map(({ value, label }) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Picks the formulas that estimate live weight from tape measurements
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {numberFields.map(({ name, label }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="any"
+                          {...field}
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <div className="flex justify-end gap-2 pt-4">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading}>
+                {loading ? "Saving..." : isEditing ? "Update Breed" : "Add Breed"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -104,12 +104,12 @@ export function EditFeedDialog({
   const loadFeedTypes = useCallback(async () => {
     if (!user?.country_id) return;
     try {
-      const data = await feedApi.getFeedTypes(user.country_id, user.id);
+      const data = await feedApi.getFeedTypes(user.country_id);
       setFeedTypes(data);
     } catch (error) {
       toast.error("Failed to load feed types");
     }
-  }, [user?.country_id, user?.id]);
+  }, [user?.country_id]);
 
   useEffect(() => {
     if (open && user?.is_admin) {
@@ -170,8 +170,7 @@ export function EditFeedDialog({
       try {
         const data = await feedApi.getFeedCategories(
           debouncedFeedType,
-          user.country_id!,
-          user.id
+          user.country_id!
         );
         if (!abortControllerRef.current?.signal.aborted) {
           setFeedCategories(data.unique_feed_categories || []);
@@ -237,7 +236,7 @@ export function EditFeedDialog({
         fd_ipb_local_lab: data.fd_ipb_local_lab,
       };
 
-      await adminApi.updateFeed(user.id, feed.feed_id, feedData);
+      await adminApi.updateFeed(feed.feed_id, feedData);
       toast.success("Feed updated successfully");
       form.reset();
       setSelectedFeedType("");
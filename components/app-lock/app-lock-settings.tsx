@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { isPasskeySupported, registerPasskey } from "@/lib/webauthn";
+import { IDLE_LOCK_OPTIONS, useAppLockStore } from "@/store/app-lock-store";
+import { User } from "@/lib/types";
+import { useTranslation } from "@/hooks/use-translation";
+import { toast } from "sonner";
+import { Fingerprint, Loader2 } from "lucide-react";
+
+interface AppLockSettingsProps {
+  user: User;
+}
+
+export function AppLockSettings({ user }: AppLockSettingsProps) {
+  const { idleMinutes, passkeys, setIdleMinutes, setPasskey } = useAppLockStore();
+  const [passkeyAvailable, setPasskeyAvailable] = useState(false);
+  const [isRegistering, setIsRegistering] = useState(false);
+  const { t } = useTranslation();
+
+  const hasPasskey = !!passkeys[user.id];
+
+  useEffect(() => {
+    isPasskeySupported().then(setPasskeyAvailable);
+  }, []);
+
+  const handleRegister = async () => {
+    setIsRegistering(true);
+    try {
+      setPasskey(user.id, await registerPasskey(user));
+      toast.success(t("appLock.passkeyAdded"));
+    } catch (error: any) {
+      if (error?.name !== "NotAllowedError") {
+        toast.error(error.message || t("appLock.passkeyAddFailed"));
+      }
+    } finally {
+      setIsRegistering(false);
+    }
+  };
+
+  const handleRemove = () => {
+    setPasskey(user.id, null);
+    toast.success(t("appLock.passkeyRemoved"));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="idle-lock">{t("appLock.idleLabel")}</Label>
+        <Select
+          value={String(idleMinutes)}
+          onValueChange={(value) => setIdleMinutes(Number(value))}
+        >
+          <SelectTrigger id="idle-lock">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {IDLE_LOCK_OPTIONS.map((minutes) => (
+              <SelectItem key={minutes} value={String(minutes)}>
+                {minutes === 0 ? t("appLock.never") : t("appLock.minutes", { count: minutes })}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>{t("appLock.passkey")}</Label>
+        {!passkeyAvailable ? (
+          <p className="text-sm text-muted-foreground">
+            {t("appLock.passkeyUnsupported")}
+          </p>
+        ) : hasPasskey ? (
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm text-muted-foreground">
+              {t("appLock.passkeyEnabled")}
+            </p>
+            <Button variant="outline" onClick={handleRemove}>
+              {t("appLock.removePasskey")}
+            </Button>
+          </div>
+        ) : (
+          <Button variant="outline" onClick={handleRegister} disabled={isRegistering}>
+            {isRegistering ? (
+              <Loader2 className="me-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Fingerprint className="me-2 h-4 w-4" />
+            )}
+            {t("appLock.addPasskey")}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { authApi } from "@/lib/api/endpoints";
+import { isPasskeySupported, verifyPasskey } from "@/lib/webauthn";
+import { useAuthStore } from "@/store/auth-store";
+import { useAppLockStore } from "@/store/app-lock-store";
+import { useLogout } from "@/hooks/use-logout";
+import { useTranslation } from "@/hooks/use-translation";
+import { toast } from "sonner";
+import { Fingerprint, Loader2, Lock } from "lucide-react";
+
+export function LockScreen() {
+  const { user } = useAuthStore();
+  const { passkeys, unlock } = useAppLockStore();
+  const handleLogout = useLogout();
+  const { t } = useTranslation();
+
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [passkeyAvailable, setPasskeyAvailable] = useState(false);
+
+  const credentialId = user ? passkeys[user.id] : undefined;
+
+  useEffect(() => {
+    if (!credentialId) return;
+    isPasskeySupported().then(setPasskeyAvailable);
+  }, [credentialId]);
+
+  if (!user) {
+    return null;
+  }
+
+  const handlePinUnlock = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!/^\d{4}$/.test(pin)) {
+      setError(t("validation.pinLength"));
+      return;
+    }
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      // Checked by the backend through the rate-limited login route
+      const response = await authApi.login({ email_id: user.email_id || "", pin });
+      if (response.success && response.user) {
+        unlock();
+      } else {
+        setError(response.message || t("appLock.incorrectPin"));
+        setPin("");
+      }
+    } catch (error: any) {
+      setError(error.message || t("appLock.verifyFailed"));
+      setPin("");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handlePasskeyUnlock = async () => {
+    if (!credentialId) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      if (await verifyPasskey(credentialId)) {
+        unlock();
+      } else {
+        setError(t("appLock.passkeyRejected"));
+      }
+    } catch (error: any) {
+      // Cancelling the system prompt is not worth a toast
+      if (error?.name !== "NotAllowedError") {
+        toast.error(error.message || t("appLock.passkeyFailed"));
+      }
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-primary/10 via-background to-background p-4 safe-area-inset">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+            <Lock className="h-6 w-6 text-primary" />
+          </div>
+          <CardTitle className="text-2xl font-bold">{t("appLock.title")}</CardTitle>
+          <CardDescription>
+            {t("appLock.signedInAs", { name: user.name || user.email_id || "" })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handlePinUnlock} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="unlock-pin">{t("auth.pin")}</Label>
+              <Input
+                id="unlock-pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="current-password"
+                placeholder={t("auth.pinPlaceholder")}
+                maxLength={4}
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+                disabled={isUnlocking}
+                autoFocus
+              />
+              {error && (
+                <p role="alert" className="text-sm text-destructive">
+                  {error}
+                </p>
+              )}
+            </div>
+            <Button type="submit" className="w-full" disabled={isUnlocking || pin.length !== 4}>
+              {isUnlocking ? <Loader2 className="h-4 w-4 animate-spin" /> : t("appLock.unlock")}
+            </Button>
+          </form>
+
+          {passkeyAvailable && (
+            <Button
+              variant="outline"
+              className="w-full min-h-[44px] touch-manipulation"
+              onClick={handlePasskeyUnlock}
+              disabled={isUnlocking}
+            >
+              <Fingerprint className="me-2 h-4 w-4" />
+              {t("appLock.unlockWithPasskey")}
+            </Button>
+          )}
+
+          <div className="text-center">
+            <Button variant="link" className="text-sm" onClick={handleLogout}>
+              {t("appLock.notYou")}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
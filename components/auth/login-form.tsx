@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -16,21 +16,54 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { authApi } from "@/lib/api/endpoints";
+import { formatCountdown, useCountdown } from "@/hooks/use-countdown";
+import { useTranslation } from "@/hooks/use-translation";
+import { Translate } from "@/lib/i18n";
 import { useAuthStore } from "@/store/auth-store";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
+import { AlertCircle } from "lucide-react";
 
-const loginSchema = z.object({
-  email_id: z.string().email("Invalid email address"),
-  pin: z.string().length(4, "PIN must be exactly 4 digits").regex(/^\d+$/, "PIN must contain only digits"),
-});
+const createLoginSchema = (t: Translate) =>
+  z.object({
+    email_id: z.string().email(t("validation.emailInvalid")),
+    pin: z.string().length(4, t("validation.pinLength")).regex(/^\d+$/, t("validation.pinDigits")),
+  });
+
+type LoginFormValues = z.infer<ReturnType<typeof createLoginSchema>>;
+
+// Throttling details the API proxy adds to failed logins
+interface LoginThrottle {
+  attempts_remaining?: number;
+  retry_after?: number;
+  locked?: boolean;
+}
 
-type LoginFormValues = z.infer<typeof loginSchema>;
+// Page to return to after login, set by middleware.ts; only same-site paths are honoured
+function getReturnPath() {
+  const fallback = "/cattle-info";
+  const next = new URLSearchParams(window.location.search).get("next");
+  if (!next) return fallback;
+  // Let the URL parser resolve tricks like "/\evil.com" rather than matching prefixes
+  try {
+    const url = new URL(next, window.location.origin);
+    return url.origin === window.location.origin ? `${url.pathname}${url.search}` : fallback;
+  } catch {
+    return fallback;
+  }
+}
 
 export function LoginForm() {
   const [isLoading, setIsLoading] = useState(false);
+  const [attemptsRemaining, setAttemptsRemaining] = useState<number | null>(null);
+  const [blockedUntil, setBlockedUntil] = useState<number | null>(null);
+  const [locked, setLocked] = useState(false);
+  const blockedFor = useCountdown(blockedUntil);
+  const isBlocked = blockedUntil !== null && blockedFor > 0;
   const router = useRouter();
-  const { setUser, setToken } = useAuthStore();
+  const { setUser } = useAuthStore();
+  const { t } = useTranslation();
+  const loginSchema = useMemo(() => createLoginSchema(t), [t]);
 
   const form = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -40,20 +73,30 @@ export function LoginForm() {
     },
   });
 
+  const applyThrottle = (throttle: LoginThrottle) => {
+    setAttemptsRemaining(throttle.attempts_remaining ?? null);
+    setBlockedUntil(throttle.retry_after ? Date.now() + throttle.retry_after * 1000 : null);
+    setLocked(!!throttle.locked);
+  };
+
   const onSubmit = async (data: LoginFormValues) => {
     setIsLoading(true);
     try {
       const response = await authApi.login(data);
       if (response.success && response.user) {
         setUser(response.user);
-        setToken(response.user.id); // Using user ID as token for now
-        toast.success("Login successful!");
-        router.push("/cattle-info");
+        toast.success(t("login.success"));
+        router.push(getReturnPath());
       } else {
-        toast.error(response.message || "Login failed");
+        applyThrottle(response);
+        toast.error(response.message || t("login.failed"));
       }
     } catch (error: any) {
-      toast.error(error.message || "An error occurred during login");
+      applyThrottle(error);
+      // 429s are explained in the notice above the form
+      if (error.status !== 429) {
+        toast.error(error.message || t("login.error"));
+      }
     } finally {
       setIsLoading(false);
     }
@@ -62,16 +105,36 @@ export function LoginForm() {
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        {isBlocked ? (
+          <div
+            role="alert"
+            className="flex items-start gap-2 rounded-md border border-destructive/50 p-3 text-sm text-destructive"
+          >
+            <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+            <span>
+              {locked
+                ? t("login.locked", { time: formatCountdown(blockedFor) })
+                : t("login.wait", { seconds: blockedFor })}
+            </span>
+          </div>
+        ) : (
+          attemptsRemaining !== null &&
+          attemptsRemaining > 0 && (
+            <p role="status" className="text-sm text-muted-foreground">
+              {t("login.attemptsRemaining", { count: attemptsRemaining })}
+            </p>
+          )
+        )}
         <FormField
           control={form.control}
           name="email_id"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Email</FormLabel>
+              <FormLabel>{t("auth.email")}</FormLabel>
               <FormControl>
                 <Input
                   type="email"
-                  placeholder="Enter your email"
+                  placeholder={t("auth.emailPlaceholder")}
                   {...field}
                   disabled={isLoading}
                 />
@@ -85,11 +148,11 @@ export function LoginForm() {
           name="pin"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>PIN</FormLabel>
+              <FormLabel>{t("auth.pin")}</FormLabel>
               <FormControl>
                 <Input
                   type="password"
-                  placeholder="Enter 4-digit PIN"
+                  placeholder={t("auth.pinPlaceholder")}
                   maxLength={4}
                   {...field}
                   disabled={isLoading}
@@ -99,8 +162,12 @@ export function LoginForm() {
             </FormItem>
           )}
         />
-        <Button type="submit" className="w-full" disabled={isLoading}>
-          {isLoading ? "Logging in..." : "Login"}
+        <Button type="submit" className="w-full" disabled={isLoading || isBlocked}>
+          {isLoading
+            ? t("login.submitting")
+            : isBlocked
+              ? t("login.retryIn", { time: formatCountdown(blockedFor) })
+              : t("login.submit")}
         </Button>
       </form>
     </Form>
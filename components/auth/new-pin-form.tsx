@@ -0,0 +1,137 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { authApi } from "@/lib/api/endpoints";
+import { Translate } from "@/lib/i18n";
+import { useTranslation } from "@/hooks/use-translation";
+import { useAuthStore } from "@/store/auth-store";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+
+const createNewPinSchema = (t: Translate) =>
+  z
+    .object({
+      new_pin: z.string().length(4, t("validation.pinLength")).regex(/^\d+$/, t("validation.pinDigits")),
+      confirm_pin: z.string(),
+    })
+    .refine((data) => data.new_pin === data.confirm_pin, {
+      message: t("validation.pinsMismatch"),
+      path: ["confirm_pin"],
+    });
+
+type NewPinFormValues = z.infer<ReturnType<typeof createNewPinSchema>>;
+
+interface NewPinFormProps {
+  email: string;
+  resetToken: string;
+  // The reset token expired before the PIN was set
+  onExpired: () => void;
+}
+
+export function NewPinForm({ email, resetToken, onExpired }: NewPinFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const router = useRouter();
+  const { setUser } = useAuthStore();
+  const { t } = useTranslation();
+  const newPinSchema = useMemo(() => createNewPinSchema(t), [t]);
+
+  const form = useForm<NewPinFormValues>({
+    resolver: zodResolver(newPinSchema),
+    defaultValues: {
+      new_pin: "",
+      confirm_pin: "",
+    },
+  });
+
+  const onSubmit = async (data: NewPinFormValues) => {
+    setIsLoading(true);
+    try {
+      const response = await authApi.completePinReset({
+        email_id: email,
+        reset_token: resetToken,
+        new_pin: data.new_pin,
+      });
+      if (response.success && response.user) {
+        setUser(response.user);
+        toast.success(t("forgotPin.resetSuccess"));
+        router.push("/cattle-info");
+      } else {
+        toast.error(response.message || t("forgotPin.resetFailed"));
+      }
+    } catch (error: any) {
+      if (error.status === 410) {
+        toast.error(t("forgotPin.resetExpired"));
+        onExpired();
+      } else {
+        toast.error(error.message || t("forgotPin.resetFailed"));
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="new_pin"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t("forgotPin.newPin")}</FormLabel>
+              <FormControl>
+                <Input
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="new-password"
+                  placeholder={t("forgotPin.newPinPlaceholder")}
+                  maxLength={4}
+                  {...field}
+                  disabled={isLoading}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="confirm_pin"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t("forgotPin.confirmPin")}</FormLabel>
+              <FormControl>
+                <Input
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="new-password"
+                  placeholder={t("forgotPin.confirmPinPlaceholder")}
+                  maxLength={4}
+                  {...field}
+                  disabled={isLoading}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={isLoading}>
+          {isLoading ? t("forgotPin.resetting") : t("forgotPin.resetSubmit")}
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -26,22 +26,27 @@ import { useAuthStore } from "@/store/auth-store";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
 import { Country } from "@/lib/types";
+import { Translate } from "@/lib/i18n";
+import { useTranslation } from "@/hooks/use-translation";
 
-const registerSchema = z.object({
-  name: z.string().min(1, "Name is required"),
-  email_id: z.string().email("Invalid email address"),
-  pin: z.string().length(4, "PIN must be exactly 4 digits").regex(/^\d+$/, "PIN must contain only digits"),
-  country_id: z.string().min(1, "Country is required"),
-});
+const createRegisterSchema = (t: Translate) =>
+  z.object({
+    name: z.string().min(1, t("validation.nameRequired")),
+    email_id: z.string().email(t("validation.emailInvalid")),
+    pin: z.string().length(4, t("validation.pinLength")).regex(/^\d+$/, t("validation.pinDigits")),
+    country_id: z.string().min(1, t("validation.countryRequired")),
+  });
 
-type RegisterFormValues = z.infer<typeof registerSchema>;
+type RegisterFormValues = z.infer<ReturnType<typeof createRegisterSchema>>;
 
 export function RegisterForm() {
   const [isLoading, setIsLoading] = useState(false);
   const [countries, setCountries] = useState<Country[]>([]);
   const [loadingCountries, setLoadingCountries] = useState(true);
   const router = useRouter();
-  const { setUser, setToken } = useAuthStore();
+  const { setUser } = useAuthStore();
+  const { t } = useTranslation();
+  const registerSchema = useMemo(() => createRegisterSchema(t), [t]);
 
   const form = useForm<RegisterFormValues>({
     resolver: zodResolver(registerSchema),
@@ -59,13 +64,13 @@ export function RegisterForm() {
         const data = await countryApi.getAllCountries();
         setCountries(data.filter((c) => c.is_active));
       } catch (error) {
-        toast.error("Failed to load countries");
+        toast.error(t("register.loadCountriesFailed"));
       } finally {
         setLoadingCountries(false);
       }
     };
     fetchCountries();
-  }, []);
+  }, [t]);
 
   const onSubmit = async (data: RegisterFormValues) => {
     setIsLoading(true);
@@ -73,14 +78,13 @@ export function RegisterForm() {
       const response = await authApi.register(data);
       if (response.success && response.user) {
         setUser(response.user);
-        setToken(response.user.id);
-        toast.success("Registration successful!");
+        toast.success(t("register.success"));
         router.push("/cattle-info");
       } else {
-        toast.error(response.message || "Registration failed");
+        toast.error(response.message || t("register.failed"));
       }
     } catch (error: any) {
-      toast.error(error.message || "An error occurred during registration");
+      toast.error(error.message || t("register.error"));
     } finally {
       setIsLoading(false);
     }
@@ -94,10 +98,10 @@ export function RegisterForm() {
           name="name"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Full Name</FormLabel>
+              <FormLabel>{t("register.name")}</FormLabel>
               <FormControl>
                 <Input
-                  placeholder="Enter your full name"
+                  placeholder={t("register.namePlaceholder")}
                   {...field}
                   disabled={isLoading}
                 />
@@ -111,11 +115,11 @@ export function RegisterForm() {
           name="email_id"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Email</FormLabel>
+              <FormLabel>{t("auth.email")}</FormLabel>
               <FormControl>
                 <Input
                   type="email"
-                  placeholder="Enter your email"
+                  placeholder={t("auth.emailPlaceholder")}
                   {...field}
                   disabled={isLoading}
                 />
@@ -129,7 +133,7 @@ export function RegisterForm() {
           name="country_id"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Country</FormLabel>
+              <FormLabel>{t("register.country")}</FormLabel>
               <Select
                 onValueChange={field.onChange}
                 defaultValue={field.value}
@@ -137,7 +141,7 @@ export function RegisterForm() {
               >
                 <FormControl>
                   <SelectTrigger>
-                    <SelectValue placeholder="Select your country" />
+                    <SelectValue placeholder={t("register.countryPlaceholder")} />
                   </SelectTrigger>
                 </FormControl>
                 <SelectContent>
@@ -157,11 +161,11 @@ export function RegisterForm() {
           name="pin"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>PIN (4 digits)</FormLabel>
+              <FormLabel>{t("register.pin")}</FormLabel>
               <FormControl>
                 <Input
                   type="password"
-                  placeholder="Enter 4-digit PIN"
+                  placeholder={t("auth.pinPlaceholder")}
                   maxLength={4}
                   {...field}
                   disabled={isLoading}
@@ -172,7 +176,7 @@ export function RegisterForm() {
           )}
         />
         <Button type="submit" className="w-full" disabled={isLoading}>
-          {isLoading ? "Registering..." : "Register"}
+          {isLoading ? t("register.submitting") : t("register.submit")}
         </Button>
       </form>
     </Form>
@@ -0,0 +1,184 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { authApi } from "@/lib/api/endpoints";
+import { formatCountdown, useCountdown } from "@/hooks/use-countdown";
+import { ApiError } from "@/lib/types";
+import { Translate } from "@/lib/i18n";
+import { useTranslation } from "@/hooks/use-translation";
+import { toast } from "sonner";
+import { AlertCircle } from "lucide-react";
+
+// Used when the backend does not report how many tries are left
+const MAX_CODE_ATTEMPTS = 5;
+
+const createVerifyCodeSchema = (t: Translate) =>
+  z.object({
+    code: z.string().trim().min(4, t("validation.codeRequired")),
+  });
+
+type VerifyCodeFormValues = z.infer<ReturnType<typeof createVerifyCodeSchema>>;
+
+interface VerifyResetCodeFormProps {
+  email: string;
+  // Prefilled from the emailed reset link
+  defaultCode?: string;
+  // When the code expires, or null if unknown
+  expiresAt: number | null;
+  // When another code may be requested
+  resendAvailableAt: number | null;
+  isResending: boolean;
+  onResend: () => void;
+  onVerified: (resetToken: string) => void;
+  onChangeEmail: () => void;
+}
+
+export function VerifyResetCodeForm({
+  email,
+  defaultCode = "",
+  expiresAt,
+  resendAvailableAt,
+  isResending,
+  onResend,
+  onVerified,
+  onChangeEmail,
+}: VerifyResetCodeFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [attemptsRemaining, setAttemptsRemaining] = useState(MAX_CODE_ATTEMPTS);
+  const [serverExpired, setServerExpired] = useState(false);
+  const { t } = useTranslation();
+  const verifyCodeSchema = useMemo(() => createVerifyCodeSchema(t), [t]);
+
+  const expiresIn = useCountdown(expiresAt);
+  const resendIn = useCountdown(resendAvailableAt);
+
+  const isExpired = serverExpired || (expiresAt !== null && expiresIn === 0);
+  const isLocked = attemptsRemaining <= 0;
+
+  const form = useForm<VerifyCodeFormValues>({
+    resolver: zodResolver(verifyCodeSchema),
+    defaultValues: {
+      code: defaultCode,
+    },
+  });
+
+  const handleFailure = (message: string, remaining?: number) => {
+    const next = remaining ?? attemptsRemaining - 1;
+    setAttemptsRemaining(next);
+    form.setError("code", {
+      message: next > 0 ? t("forgotPin.attemptsLeft", { message, count: next }) : message,
+    });
+  };
+
+  const onSubmit = async (data: VerifyCodeFormValues) => {
+    setIsLoading(true);
+    try {
+      const response = await authApi.verifyResetCode({ email_id: email, code: data.code });
+      if (response.success && response.reset_token) {
+        onVerified(response.reset_token);
+      } else {
+        handleFailure(response.message || t("forgotPin.incorrectCode"), response.attempts_remaining);
+      }
+    } catch (error: any) {
+      const apiError = error as ApiError;
+      if (apiError.status === 410) {
+        setServerExpired(true);
+      } else if (apiError.status === 429) {
+        // Locked out, or only asked to wait before the next try
+        if (apiError.locked || apiError.attempts_remaining === 0) {
+          setAttemptsRemaining(0);
+        } else {
+          form.setError("code", { message: apiError.message });
+        }
+      } else if (apiError.status && apiError.status < 500) {
+        handleFailure(apiError.message || t("forgotPin.incorrectCode"), apiError.attempts_remaining);
+      } else {
+        toast.error(apiError.message || t("auth.error"));
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const blockedMessage = isLocked
+    ? t("forgotPin.locked")
+    : isExpired
+      ? t("forgotPin.expired")
+      : null;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground text-center">
+        {t("forgotPin.codeSentTo", { email })}
+        {expiresAt !== null && !isExpired && ` ${t("forgotPin.expiresIn", { time: formatCountdown(expiresIn) })}`}
+      </p>
+
+      {blockedMessage && (
+        <div
+          role="alert"
+          className="flex items-start gap-2 rounded-md border border-destructive/50 p-3 text-sm text-destructive"
+        >
+          <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>{blockedMessage}</span>
+        </div>
+      )}
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          <FormField
+            control={form.control}
+            name="code"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t("forgotPin.code")}</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder={t("forgotPin.codePlaceholder")}
+                    autoComplete="one-time-code"
+                    {...field}
+                    disabled={isLoading || !!blockedMessage}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="submit" className="w-full" disabled={isLoading || !!blockedMessage}>
+            {isLoading ? t("forgotPin.verifying") : t("forgotPin.verify")}
+          </Button>
+        </form>
+      </Form>
+
+      <div className="flex items-center justify-between">
+        <Button variant="link" className="text-sm px-0" onClick={onChangeEmail}>
+          {t("forgotPin.differentEmail")}
+        </Button>
+        <Button
+          variant="link"
+          className="text-sm px-0"
+          onClick={onResend}
+          disabled={isResending || resendIn > 0}
+        >
+          {isResending
+            ? t("forgotPin.sending")
+            : resendIn > 0
+              ? t("forgotPin.resendIn", { time: formatCountdown(resendIn) })
+              : t("forgotPin.resend")}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { useTranslation } from "@/hooks/use-translation";
+import { cn } from "@/lib/utils";
+
+const scores = [1, 2, 3, 4, 5] as const;
+
+interface CowRearViewProps {
+  score: number;
+  className?: string;
+}
+
+// Rear view of a cow. Thin cows show sunken flanks between sharp hip and pin
+// bones; the outline fills out and rounds off as the score rises.
+function CowRearView({ score, className }: CowRearViewProps) {
+  const fill = (score - 3) * 6; // below 0 the outline caves in, above it bulges
+  const hip = 30 + score * 2; // half-width at the hip bones
+  const pin = 16 + score * 3; // half-width at the pin bones
+  const d = [
+    "M 50 10",
+    `Q ${50 - hip / 2} ${22 - fill} ${50 - hip} 26`,
+    `Q ${50 - hip - fill / 2} ${38} ${50 - pin} 50`,
+    `L ${50 - pin + 4} 78`,
+    `L ${50 + pin - 4} 78`,
+    `L ${50 + pin} 50`,
+    `Q ${50 + hip + fill / 2} ${38} ${50 + hip} 26`,
+    `Q ${50 + hip / 2} ${22 - fill} 50 10`,
+    "Z",
+  ].join(" ");
+
+  return (
+    <svg viewBox="0 0 100 84" className={className} aria-hidden="true">
+      <path d={d} className="fill-primary/15 stroke-foreground" strokeWidth="2" strokeLinejoin="round" />
+      {/* Tail */}
+      <path d="M 50 12 L 50 64" className="stroke-foreground" strokeWidth="2" strokeLinecap="round" />
+      {/* Hip bones stand out on thin cows */}
+      {score <= 2 && (
+        <>
+          <circle cx={50 - hip} cy="26" r="2.5" className="fill-foreground" />
+          <circle cx={50 + hip} cy="26" r="2.5" className="fill-foreground" />
+        </>
+      )}
+    </svg>
+  );
+}
+
+interface BodyConditionPickerProps {
+  value: number;
+  onChange: (score: number) => void;
+}
+
+export function BodyConditionPicker({ value, onChange }: BodyConditionPickerProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div role="radiogroup" aria-label={t("cattleInfo.bcScore")} className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+      {scores.map((score) => {
+        const selected = value === score;
+        return (
+          <button
+            key={score}
+            type="button"
+            role="radio"
+            aria-checked={selected}
+            onClick={() => onChange(score)}
+            className={cn(
+              "flex flex-col items-center gap-1 rounded-lg border-2 p-3 min-h-[44px] touch-manipulation transition-colors",
+              selected ? "border-primary bg-primary/10" : "border-border hover:bg-muted"
+            )}
+          >
+            <CowRearView score={score} className="h-20 w-20" />
+            <span className="text-lg font-semibold">{score}</span>
+            <span className="text-sm text-muted-foreground">{t(`wizard.bcs.${score}`)}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
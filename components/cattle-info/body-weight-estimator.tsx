@@ -0,0 +1,143 @@
+"use client";
+
+import { useId, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { useTranslation } from "@/hooks/use-translation";
+import { useUnits } from "@/hooks/use-units";
+import {
+  BODY_LENGTH_RANGE_CM,
+  estimateBodyWeight,
+  FORMULA_EXPRESSIONS,
+  HEART_GIRTH_RANGE_CM,
+} from "@/lib/body-weight";
+import { Breed } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { Ruler } from "lucide-react";
+
+const confidenceStyles = {
+  good: "text-muted-foreground",
+  fair: "text-muted-foreground",
+  low: "text-amber-700 dark:text-amber-400",
+} as const;
+
+interface BodyWeightEstimatorProps {
+  // Selected breed, whose group picks the formulas
+  breed?: Breed;
+  // Called with the estimated live weight in kg
+  onEstimate: (weightKg: number) => void;
+}
+
+export function BodyWeightEstimator({ breed, onEstimate }: BodyWeightEstimatorProps) {
+  const { t } = useTranslation();
+  const units = useUnits();
+  const girthId = useId();
+  const lengthId = useId();
+  const [heartGirth, setHeartGirth] = useState("");
+  const [bodyLength, setBodyLength] = useState("");
+
+  const girth = parseFloat(heartGirth);
+  const length = parseFloat(bodyLength);
+  const girthOutOfRange =
+    girth > 0 && estimateBodyWeight({ heartGirthCm: units.toCanonical("length", girth) }) === undefined;
+  const estimate =
+    girth > 0
+      ? estimateBodyWeight(
+          {
+            heartGirthCm: units.toCanonical("length", girth),
+            bodyLengthCm: length > 0 ? units.toCanonical("length", length) : undefined,
+          },
+          breed?.breed_group
+        )
+      : undefined;
+  const formatLength = (cm: number) => units.format("length", cm, { maximumFractionDigits: 0 });
+
+  return (
+    <div className="rounded-lg border bg-muted/50 p-4 space-y-3">
+      <div className="flex items-start gap-2">
+        <Ruler className="h-5 w-5 mt-0.5 shrink-0 text-primary" />
+        <div>
+          <p className="font-medium">{t("weightEstimator.title")}</p>
+          <p className="text-sm text-muted-foreground">{t("weightEstimator.instructions")}</p>
+        </div>
+      </div>
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor={girthId}>
+            {t("weightEstimator.heartGirth", { unit: units.symbol("length") })}
+          </Label>
+          <Input
+            id={girthId}
+            type="number"
+            inputMode="decimal"
+            className="h-12 text-lg"
+            value={heartGirth}
+            onChange={(e) => setHeartGirth(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={lengthId}>
+            {t("weightEstimator.bodyLength", { unit: units.symbol("length") })}
+          </Label>
+          <Input
+            id={lengthId}
+            type="number"
+            inputMode="decimal"
+            className="h-12 text-lg"
+            value={bodyLength}
+            onChange={(e) => setBodyLength(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">{t("weightEstimator.bodyLengthHint")}</p>
+        </div>
+      </div>
+      {girth > 0 &&
+        (estimate === undefined ? (
+          <p className="text-sm text-destructive">
+            {girthOutOfRange
+              ? t("weightEstimator.outOfRange", {
+                  min: formatLength(HEART_GIRTH_RANGE_CM.min),
+                  max: formatLength(HEART_GIRTH_RANGE_CM.max),
+                })
+              : t("weightEstimator.lengthOutOfRange", {
+                  min: formatLength(BODY_LENGTH_RANGE_CM.min),
+                  max: formatLength(BODY_LENGTH_RANGE_CM.max),
+                })}
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+              <p className="font-semibold flex-1">
+                {t("weightEstimator.estimate", {
+                  weight: units.format("weight", estimate.weightKg, { maximumFractionDigits: 0 }),
+                })}
+              </p>
+              <Button
+                type="button"
+                className="min-h-[44px] touch-manipulation"
+                onClick={() => onEstimate(Math.round(estimate.weightKg))}
+              >
+                {t("weightEstimator.use")}
+              </Button>
+            </div>
+            <div className="text-sm space-y-1">
+              <p>
+                {t(`weightEstimator.formula.${estimate.formula}`)}
+                {": "}
+                <span dir="ltr" className="font-mono text-xs">
+                  {FORMULA_EXPRESSIONS[estimate.formula]}
+                </span>
+              </p>
+              <p className="text-xs text-muted-foreground">{t("weightEstimator.formulaUnits")}</p>
+              <p className={cn(confidenceStyles[estimate.confidence])}>
+                {t(`weightEstimator.confidence.${estimate.confidence}`)}
+              </p>
+              {!breed?.breed_group && (
+                <p className="text-xs text-muted-foreground">{t("weightEstimator.selectBreed")}</p>
+              )}
+            </div>
+          </div>
+        ))}
+    </div>
+  );
+}
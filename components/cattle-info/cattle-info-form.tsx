@@ -1,9 +1,19 @@
 "use client";
 
-import { useForm } from "react-hook-form";
+import { useMemo, useState } from "react";
+import { useForm, useWatch } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import * as z from "zod";
 import { ExpandableSection } from "./expandable-section";
+import { BodyWeightEstimator } from "./body-weight-estimator";
+import {
+  applyBreedDefaults,
+  CattleInfoFormValues,
+  CattleInfoValues,
+  createCattleInfoSchema,
+  emptyCattleInfo,
+  toFormValues,
+  topographyOptions,
+} from "./cattle-info-schema";
 import {
   Form,
   FormControl,
@@ -21,95 +31,98 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useCattleInfoStore } from "@/store/cattle-info-store";
+import { useAnimalProfileStore } from "@/store/animal-profile-store";
 import { Button } from "@/components/ui/button";
 import { useRouter } from "next/navigation";
-
-const cattleInfoSchema = z.object({
-  breed: z.string().min(1, "Breed is required"),
-  bc_score: z.number().min(1).max(5),
-  body_weight: z.number().min(350).max(720),
-  calving_interval: z.number().min(0),
-  bw_gain: z.number().min(0).max(99),
-  days_in_milk: z.number().min(0),
-  days_of_pregnancy: z.number().min(0),
-  distance: z.number().min(0),
-  grazing: z.boolean(),
-  lactating: z.boolean(),
-  fat_milk: z.number().min(0).max(100),
-  milk_production: z.number().min(0),
-  tp_milk: z.number().min(0).max(100),
-  parity: z.number().min(0),
-  temperature: z.number(),
-  topography: z.string().min(1, "Topography is required"),
-});
-
-type CattleInfoFormValues = z.infer<typeof cattleInfoSchema>;
-
-const breeds = [
-  "Holstein",
-  "Jersey",
-  "Brown Swiss",
-  "Guernsey",
-  "Ayrshire",
-  "Other",
-];
-
-const topographyOptions = ["Flat", "Hilly", "Mountainous"];
+import { useTranslation } from "@/hooks/use-translation";
+import { useUnits } from "@/hooks/use-units";
+import { useBreeds } from "@/hooks/use-breeds";
+import { Quantity, roundConverted } from "@/lib/units";
+import { LACTATION_FIELDS, MAX_DAYS_OF_PREGNANCY } from "@/lib/cattle-info-rules";
+import { bodyWeightBounds, findBreed, OTHER_BREED } from "@/lib/breeds";
+import { Ruler } from "lucide-react";
 
 export function CattleInfoForm() {
   const router = useRouter();
-  const { setCattleInfo } = useCattleInfoStore();
+  const { t } = useTranslation();
+  const units = useUnits();
+  const breeds = useBreeds();
+  const cattleInfoSchema = useMemo(
+    () => createCattleInfoSchema(t, units, breeds),
+    [t, units, breeds]
+  );
+  const range = (quantity: Quantity, low: number, high: number) =>
+    `${Math.round(units.fromCanonical(quantity, low))}-${Math.round(units.fromCanonical(quantity, high))}`;
+  const { cattleInfo, setCattleInfo } = useCattleInfoStore();
+  const { profiles, activeProfileId, updateProfile } = useAnimalProfileStore();
+  const activeProfile = profiles.find((p) => p.id === activeProfileId);
 
-  const form = useForm<CattleInfoFormValues>({
+  const form = useForm<CattleInfoFormValues, unknown, CattleInfoValues>({
     resolver: zodResolver(cattleInfoSchema),
-    defaultValues: {
-      breed: "",
-      bc_score: 0,
-      body_weight: 0,
-      calving_interval: 0,
-      bw_gain: 0,
-      days_in_milk: 0,
-      days_of_pregnancy: 0,
-      distance: 0,
-      grazing: false,
-      lactating: false,
-      fat_milk: 0,
-      milk_production: 0,
-      tp_milk: 0,
-      parity: 0,
-      temperature: 0,
-      topography: "",
-    },
+    // Prefill from the chosen animal, otherwise from the last submitted cattle info
+    defaultValues: toFormValues(
+      { ...emptyCattleInfo, ...(activeProfile ? activeProfile.cattle_info : cattleInfo) },
+      units
+    ),
   });
 
-  const onSubmit = (data: CattleInfoFormValues) => {
+  // Fields that only apply while lactating or grazing are zeroed when those are
+  // unticked, so the cross-field rules do not flag values the user can no longer see
+  const clearFields = (fields: ReadonlyArray<(typeof LACTATION_FIELDS)[number] | "distance">) => {
+    for (const field of fields) {
+      form.setValue(field, 0, { shouldValidate: form.formState.isSubmitted });
+    }
+  };
+
+  const [showEstimator, setShowEstimator] = useState(false);
+  const selectedBreed = useWatch({ control: form.control, name: "breed" });
+  const breed = findBreed(breeds, selectedBreed);
+  const weightBounds = bodyWeightBounds(breed);
+  // Keep a saved breed selectable even if it is no longer in the catalogue
+  const breedOptions = breeds.map((breed) => breed.name);
+  if (selectedBreed && selectedBreed !== OTHER_BREED && !findBreed(breeds, selectedBreed)) {
+    breedOptions.push(selectedBreed);
+  }
+
+  const onSubmit = (data: CattleInfoValues) => {
     setCattleInfo(data);
+    if (activeProfile) {
+      updateProfile(activeProfile.id, { cattle_info: data });
+    }
     router.push("/feed-selection");
   };
 
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-        <ExpandableSection title="Animal Characteristics" defaultExpanded={true}>
+        <ExpandableSection title={t("cattleInfo.section.animal")} defaultExpanded={true}>
           <div className="space-y-4">
             <FormField
               control={form.control}
               name="breed"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Breed</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormLabel>{t("cattleInfo.breed")}</FormLabel>
+                  <Select
+                    onValueChange={(value) => {
+                      applyBreedDefaults(form, breeds, units, value);
+                      field.onChange(value);
+                      if (form.formState.isSubmitted) form.trigger("body_weight");
+                    }}
+                    value={field.value}
+                  >
                     <FormControl>
                       <SelectTrigger>
-                        <SelectValue placeholder="Select breed" />
+                        <SelectValue placeholder={t("cattleInfo.selectBreed")} />
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      {breeds.map((breed) => (
+                      {breedOptions.map((breed) => (
                         <SelectItem key={breed} value={breed}>
                           {breed}
                         </SelectItem>
                       ))}
+                      <SelectItem value={OTHER_BREED}>{t("cattleInfo.breedOther")}</SelectItem>
                     </SelectContent>
                   </Select>
                   <FormMessage />
@@ -121,16 +134,37 @@ export function CattleInfoForm() {
               name="body_weight"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Body Weight (kg)</FormLabel>
+                  <FormLabel>{t("cattleInfo.bodyWeight", { unit: units.symbol("weight") })}</FormLabel>
                   <FormControl>
                     <Input
                       type="number"
-                      placeholder="350-720"
+                      placeholder={range("weight", weightBounds.min, weightBounds.max)}
                       {...field}
                       onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
                     />
                   </FormControl>
                   <FormMessage />
+                  {showEstimator ? (
+                    <BodyWeightEstimator
+                      breed={breed}
+                      onEstimate={(kg) => {
+                        form.setValue("body_weight", roundConverted(units.fromCanonical("weight", kg)), {
+                          shouldValidate: true,
+                        });
+                        setShowEstimator(false);
+                      }}
+                    />
+                  ) : (
+                    <Button
+                      type="button"
+                      variant="link"
+                      className="h-auto min-h-[44px] px-0 touch-manipulation"
+                      onClick={() => setShowEstimator(true)}
+                    >
+                      <Ruler className="me-2 h-4 w-4" />
+                      {t("weightEstimator.open")}
+                    </Button>
+                  )}
                 </FormItem>
               )}
             />
@@ -139,7 +173,7 @@ export function CattleInfoForm() {
               name="bc_score"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Body Condition Score (1-5)</FormLabel>
+                  <FormLabel>{t("cattleInfo.bcScore")}</FormLabel>
                   <FormControl>
                     <Input
                       type="number"
@@ -157,11 +191,11 @@ export function CattleInfoForm() {
               name="bw_gain"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Daily Body Weight Gain (kg)</FormLabel>
+                  <FormLabel>{t("cattleInfo.bwGain", { unit: units.symbol("weight") })}</FormLabel>
                   <FormControl>
                     <Input
                       type="number"
-                      placeholder="0-99"
+                      placeholder={range("weight", 0, 99)}
                       {...field}
                       onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
                     />
@@ -173,7 +207,7 @@ export function CattleInfoForm() {
           </div>
         </ExpandableSection>
 
-        <ExpandableSection title="Milk Production" defaultExpanded={true}>
+        <ExpandableSection title={t("cattleInfo.section.milk")} defaultExpanded={true}>
           <div className="space-y-4">
             <FormField
               control={form.control}
@@ -184,11 +218,15 @@ export function CattleInfoForm() {
                     <input
                       type="checkbox"
                       checked={field.value}
-                      onChange={field.onChange}
+                      onChange={(e) => {
+                        field.onChange(e);
+                        if (!e.target.checked) clearFields(LACTATION_FIELDS);
+                      }}
                       className="h-4 w-4"
                     />
                   </FormControl>
-                  <FormLabel>Lactating</FormLabel>
+                  <FormLabel>{t("cattleInfo.lactating")}</FormLabel>
+                  <FormMessage />
                 </FormItem>
               )}
             />
@@ -199,7 +237,7 @@ export function CattleInfoForm() {
                   name="milk_production"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Milk Production (L/day)</FormLabel>
+                      <FormLabel>{t("cattleInfo.milkProduction", { unit: units.symbol("milk") })}</FormLabel>
                       <FormControl>
                         <Input
                           type="number"
@@ -217,7 +255,7 @@ export function CattleInfoForm() {
                   name="fat_milk"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Milk Fat (%)</FormLabel>
+                      <FormLabel>{t("cattleInfo.fatMilk")}</FormLabel>
                       <FormControl>
                         <Input
                           type="number"
@@ -235,7 +273,7 @@ export function CattleInfoForm() {
                   name="tp_milk"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Milk Protein (%)</FormLabel>
+                      <FormLabel>{t("cattleInfo.tpMilk")}</FormLabel>
                       <FormControl>
                         <Input
                           type="number"
@@ -253,7 +291,7 @@ export function CattleInfoForm() {
                   name="days_in_milk"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Days in Milk</FormLabel>
+                      <FormLabel>{t("cattleInfo.daysInMilk")}</FormLabel>
                       <FormControl>
                         <Input
                           type="number"
@@ -271,14 +309,14 @@ export function CattleInfoForm() {
           </div>
         </ExpandableSection>
 
-        <ExpandableSection title="Reproductive Data" defaultExpanded={true}>
+        <ExpandableSection title={t("cattleInfo.section.reproduction")} defaultExpanded={true}>
           <div className="space-y-4">
             <FormField
               control={form.control}
               name="parity"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Parity</FormLabel>
+                  <FormLabel>{t("cattleInfo.parity")}</FormLabel>
                   <FormControl>
                     <Input
                       type="number"
@@ -296,7 +334,7 @@ export function CattleInfoForm() {
               name="calving_interval"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Calving Interval (days)</FormLabel>
+                  <FormLabel>{t("cattleInfo.calvingInterval")}</FormLabel>
                   <FormControl>
                     <Input
                       type="number"
@@ -314,11 +352,11 @@ export function CattleInfoForm() {
               name="days_of_pregnancy"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Days of Pregnancy</FormLabel>
+                  <FormLabel>{t("cattleInfo.daysOfPregnancy")}</FormLabel>
                   <FormControl>
                     <Input
                       type="number"
-                      placeholder="0"
+                      placeholder={`0-${MAX_DAYS_OF_PREGNANCY}`}
                       {...field}
                       onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
                     />
@@ -330,7 +368,7 @@ export function CattleInfoForm() {
           </div>
         </ExpandableSection>
 
-        <ExpandableSection title="Environment" defaultExpanded={true}>
+        <ExpandableSection title={t("cattleInfo.section.environment")} defaultExpanded={true}>
           <div className="space-y-4">
             <FormField
               control={form.control}
@@ -341,48 +379,53 @@ export function CattleInfoForm() {
                     <input
                       type="checkbox"
                       checked={field.value}
-                      onChange={field.onChange}
+                      onChange={(e) => {
+                        field.onChange(e);
+                        if (!e.target.checked) clearFields(["distance"]);
+                      }}
                       className="h-4 w-4"
                     />
                   </FormControl>
-                  <FormLabel>Grazing</FormLabel>
-                </FormItem>
-              )}
-            />
-            <FormField
-              control={form.control}
-              name="distance"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Distance (km)</FormLabel>
-                  <FormControl>
-                    <Input
-                      type="number"
-                      placeholder="0"
-                      {...field}
-                      onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
-                    />
-                  </FormControl>
-                  <FormMessage />
+                  <FormLabel>{t("cattleInfo.grazing")}</FormLabel>
                 </FormItem>
               )}
             />
+            {form.watch("grazing") && (
+              <FormField
+                control={form.control}
+                name="distance"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("cattleInfo.distance", { unit: units.symbol("distance") })}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        placeholder="0"
+                        {...field}
+                        onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
             <FormField
               control={form.control}
               name="topography"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Topography</FormLabel>
+                  <FormLabel>{t("cattleInfo.topography")}</FormLabel>
                   <Select onValueChange={field.onChange} defaultValue={field.value}>
                     <FormControl>
                       <SelectTrigger>
-                        <SelectValue placeholder="Select topography" />
+                        <SelectValue placeholder={t("cattleInfo.selectTopography")} />
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
                       {topographyOptions.map((option) => (
                         <SelectItem key={option} value={option}>
-                          {option}
+                          {t(`cattleInfo.topography.${option}`)}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -396,7 +439,7 @@ export function CattleInfoForm() {
               name="temperature"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Temperature (°C)</FormLabel>
+                  <FormLabel>{t("cattleInfo.temperature", { unit: units.symbol("temperature") })}</FormLabel>
                   <FormControl>
                     <Input
                       type="number"
@@ -419,10 +462,10 @@ export function CattleInfoForm() {
             className="flex-1"
             onClick={() => form.reset()}
           >
-            Reset
+            {t("common.reset")}
           </Button>
           <Button type="submit" className="flex-1">
-            Continue
+            {t("common.continue")}
           </Button>
         </div>
       </form>
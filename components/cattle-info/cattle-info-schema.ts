@@ -0,0 +1,139 @@
+import { UseFormReturn } from "react-hook-form";
+import * as z from "zod";
+import { useUnits } from "@/hooks/use-units";
+import { Translate } from "@/lib/i18n";
+import { Quantity, roundConverted } from "@/lib/units";
+import { refineCattleInfo } from "@/lib/cattle-info-rules";
+import { bodyWeightBounds, findBreed } from "@/lib/breeds";
+import { Breed, CattleInfo } from "@/lib/types";
+
+// Shared by the cattle info form and the step-by-step wizard
+
+export type Units = ReturnType<typeof useUnits>;
+
+// Built per locale, unit preference and breed catalogue. Measured fields are
+// entered in the user's units, converted to canonical CattleInfo units, then
+// bounds-checked and run through the shared cross-field rules
+export const createCattleInfoSchema = (t: Translate, units: Units, breeds: Breed[]) => {
+  const min = (value: number, quantity?: Quantity) =>
+    t("validation.min", { min: quantity ? units.format(quantity, value) : value });
+  const max = (value: number, quantity?: Quantity) =>
+    t("validation.max", { max: quantity ? units.format(quantity, value) : value });
+  // Rounded so a prefilled 720 kg shown as 1587.33 lb converts back to 720, not 720.001
+  const measured = (quantity: Quantity) =>
+    z.number().transform((value) => roundConverted(units.toCanonical(quantity, value)));
+
+  return z
+    .object({
+      breed: z.string().min(1, t("validation.breedRequired")),
+      bc_score: z.number().min(1, min(1)).max(5, max(5)),
+      body_weight: measured("weight"),
+      calving_interval: z.number().min(0, min(0)),
+      bw_gain: measured("weight").pipe(z.number().min(0, min(0, "weight")).max(99, max(99, "weight"))),
+      days_in_milk: z.number().min(0, min(0)),
+      days_of_pregnancy: z.number().min(0, min(0)),
+      distance: measured("distance").pipe(z.number().min(0, min(0, "distance"))),
+      grazing: z.boolean(),
+      lactating: z.boolean(),
+      fat_milk: z.number().min(0, min(0)).max(100, max(100)),
+      milk_production: measured("milk").pipe(z.number().min(0, min(0, "milk"))),
+      tp_milk: z.number().min(0, min(0)).max(100, max(100)),
+      parity: z.number().min(0, min(0)),
+      temperature: measured("temperature"),
+      topography: z.string().min(1, t("validation.topographyRequired")),
+    })
+    .superRefine((info, ctx) => {
+      // Body weight bounds depend on the breed
+      const bounds = bodyWeightBounds(findBreed(breeds, info.breed));
+      if (info.body_weight < bounds.min) {
+        ctx.addIssue({ code: "custom", path: ["body_weight"], message: min(bounds.min, "weight") });
+      } else if (info.body_weight > bounds.max) {
+        ctx.addIssue({ code: "custom", path: ["body_weight"], message: max(bounds.max, "weight") });
+      }
+    })
+    .superRefine(refineCattleInfo(t));
+};
+
+type CattleInfoSchema = ReturnType<typeof createCattleInfoSchema>;
+// What the fields hold (preferred units) and what is submitted (canonical units)
+export type CattleInfoFormValues = z.input<CattleInfoSchema>;
+export type CattleInfoValues = z.output<CattleInfoSchema>;
+
+// Fields converted between canonical and preferred units
+const measuredFields = {
+  body_weight: "weight",
+  bw_gain: "weight",
+  distance: "distance",
+  milk_production: "milk",
+  temperature: "temperature",
+} as const satisfies Partial<Record<keyof CattleInfo, Quantity>>;
+
+export const toFormValues = (info: CattleInfo, units: Units): CattleInfoFormValues => {
+  const values = { ...info };
+  for (const [field, quantity] of Object.entries(measuredFields)) {
+    const key = field as keyof typeof measuredFields;
+    values[key] = roundConverted(units.fromCanonical(quantity, info[key]));
+  }
+  return values;
+};
+
+/** Canonical values for fields as entered, without validating them (e.g. to autosave) */
+export const fromFormValues = (values: CattleInfoFormValues, units: Units): CattleInfo => {
+  const info = { ...values };
+  for (const [field, quantity] of Object.entries(measuredFields)) {
+    const key = field as keyof typeof measuredFields;
+    info[key] = roundConverted(units.toCanonical(quantity, values[key]));
+  }
+  return info;
+};
+
+// Values are sent to the API in English; only their labels are translated
+export const topographyOptions = ["Flat", "Hilly", "Mountainous"] as const;
+
+export const emptyCattleInfo: CattleInfo = {
+  breed: "",
+  bc_score: 0,
+  body_weight: 0,
+  calving_interval: 0,
+  bw_gain: 0,
+  days_in_milk: 0,
+  days_of_pregnancy: 0,
+  distance: 0,
+  grazing: false,
+  lactating: false,
+  fat_milk: 0,
+  milk_production: 0,
+  tp_milk: 0,
+  parity: 0,
+  temperature: 0,
+  topography: "",
+};
+
+/**
+ * Prefill a newly chosen breed's typical values into fields that are empty or
+ * still hold the previous breed's defaults, so nothing the user entered is
+ * overwritten. Call before the breed field itself changes.
+ */
+export function applyBreedDefaults(
+  form: UseFormReturn<CattleInfoFormValues, unknown, CattleInfoValues>,
+  breeds: Breed[],
+  units: Units,
+  name: string
+) {
+  const breedDefaults = (breed: Breed) => ({
+    body_weight: roundConverted(units.fromCanonical("weight", breed.mature_weight_kg)),
+    fat_milk: breed.fat_milk,
+    tp_milk: breed.tp_milk,
+  });
+  const next = findBreed(breeds, name);
+  const previous = findBreed(breeds, form.getValues("breed"));
+  if (!next) return;
+  const from = previous && breedDefaults(previous);
+  const to = breedDefaults(next);
+  for (const field of Object.keys(to) as Array<keyof typeof to>) {
+    const current = form.getValues(field);
+    if (!current || current === from?.[field]) {
+      form.setValue(field, to[field], { shouldValidate: form.formState.isSubmitted });
+    }
+  }
+}
@@ -0,0 +1,409 @@
+"use client";
+
+import { ReactNode, useMemo } from "react";
+import { FieldErrors, useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import {
+  applyBreedDefaults,
+  CattleInfoFormValues,
+  CattleInfoValues,
+  createCattleInfoSchema,
+  emptyCattleInfo,
+  fromFormValues,
+  toFormValues,
+  topographyOptions,
+} from "./cattle-info-schema";
+import { BodyConditionPicker } from "./body-condition-picker";
+import { BodyWeightEstimator } from "./body-weight-estimator";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useCattleInfoStore } from "@/store/cattle-info-store";
+import { useAnimalProfileStore } from "@/store/animal-profile-store";
+import { useCattleEntryStore, WizardStep } from "@/store/cattle-entry-store";
+import { useTranslation } from "@/hooks/use-translation";
+import { useUnits } from "@/hooks/use-units";
+import { useBreeds } from "@/hooks/use-breeds";
+import { LACTATION_FIELDS } from "@/lib/cattle-info-rules";
+import { findBreed, OTHER_BREED } from "@/lib/breeds";
+import { roundConverted } from "@/lib/units";
+import { cn } from "@/lib/utils";
+import { ArrowLeft, ArrowRight, Check } from "lucide-react";
+
+type WizardField = Exclude<WizardStep, "review">;
+
+interface Question {
+  field: WizardField;
+  // Asked only when this holds, e.g. milk questions for lactating cows
+  when?: (values: CattleInfoFormValues) => boolean;
+}
+
+const isLactating = (values: CattleInfoFormValues) => values.lactating;
+
+// One question per screen, in the order a farmer would think about the animal
+const questions: Question[] = [
+  { field: "breed" },
+  { field: "body_weight" },
+  { field: "bc_score" },
+  { field: "bw_gain" },
+  { field: "lactating" },
+  { field: "milk_production", when: isLactating },
+  { field: "fat_milk", when: isLactating },
+  { field: "tp_milk", when: isLactating },
+  { field: "days_in_milk", when: isLactating },
+  { field: "parity" },
+  { field: "calving_interval" },
+  { field: "days_of_pregnancy" },
+  { field: "grazing" },
+  { field: "distance", when: (values) => values.grazing },
+  { field: "topography" },
+  { field: "temperature" },
+];
+
+// Number fields the wizard asks about, with their unit where converted
+const numberFields = {
+  body_weight: "weight",
+  bw_gain: "weight",
+  milk_production: "milk",
+  fat_milk: null,
+  tp_milk: null,
+  days_in_milk: null,
+  parity: null,
+  calving_interval: null,
+  days_of_pregnancy: null,
+  distance: "distance",
+  temperature: "temperature",
+} as const;
+
+type NumberField = keyof typeof numberFields;
+
+const isNumberField = (field: WizardField): field is NumberField => field in numberFields;
+
+// Labels for the review list
+const fieldLabels = {
+  breed: "cattleInfo.breed",
+  body_weight: "cattleInfo.bodyWeight",
+  bc_score: "cattleInfo.bcScore",
+  bw_gain: "cattleInfo.bwGain",
+  lactating: "cattleInfo.lactating",
+  milk_production: "cattleInfo.milkProduction",
+  fat_milk: "cattleInfo.fatMilk",
+  tp_milk: "cattleInfo.tpMilk",
+  days_in_milk: "cattleInfo.daysInMilk",
+  parity: "cattleInfo.parity",
+  calving_interval: "cattleInfo.calvingInterval",
+  days_of_pregnancy: "cattleInfo.daysOfPregnancy",
+  grazing: "cattleInfo.grazing",
+  distance: "cattleInfo.distance",
+  topography: "cattleInfo.topography",
+  temperature: "cattleInfo.temperature",
+} as const satisfies Record<WizardField, string>;
+
+interface ChoiceButtonProps {
+  selected: boolean;
+  onClick: () => void;
+  children: ReactNode;
+}
+
+function ChoiceButton({ selected, onClick, children }: ChoiceButtonProps) {
+  return (
+    <Button
+      type="button"
+      variant={selected ? "default" : "outline"}
+      aria-pressed={selected}
+      onClick={onClick}
+      className="h-auto min-h-14 w-full text-lg whitespace-normal touch-manipulation"
+    >
+      {children}
+    </Button>
+  );
+}
+
+export function CattleInfoWizard() {
+  const router = useRouter();
+  const { t, formatNumber } = useTranslation();
+  const units = useUnits();
+  const breeds = useBreeds();
+  const cattleInfoSchema = useMemo(
+    () => createCattleInfoSchema(t, units, breeds),
+    [t, units, breeds]
+  );
+  const { cattleInfo, setCattleInfo } = useCattleInfoStore();
+  const { profiles, activeProfileId, updateProfile } = useAnimalProfileStore();
+  const activeProfile = profiles.find((p) => p.id === activeProfileId);
+  const { wizardProgress, setWizardProgress } = useCattleEntryStore();
+  const profileId = activeProfile?.id ?? null;
+  // Progress for another animal is dropped when this one is picked
+  const resumed = wizardProgress?.profileId === profileId ? wizardProgress : null;
+
+  const form = useForm<CattleInfoFormValues, unknown, CattleInfoValues>({
+    resolver: zodResolver(cattleInfoSchema),
+    // Resume from the autosaved answers, otherwise prefill like the full form
+    defaultValues: toFormValues(
+      {
+        ...emptyCattleInfo,
+        ...(activeProfile && !resumed ? activeProfile.cattle_info : cattleInfo),
+      },
+      units
+    ),
+  });
+
+  const values = useWatch({ control: form.control }) as CattleInfoFormValues;
+  const steps: WizardStep[] = [
+    ...questions.filter((q) => !q.when || q.when(values)).map((q) => q.field),
+    "review",
+  ];
+  const current = resumed && steps.includes(resumed.step) ? resumed.step : steps[0];
+  const index = steps.indexOf(current);
+
+  // Answers are kept as the user goes, so nothing is lost if they leave mid-way
+  const goTo = (step: WizardStep) => {
+    setCattleInfo(fromFormValues(form.getValues(), units));
+    setWizardProgress({ step, profileId });
+    window.scrollTo({ top: 0 });
+  };
+
+  const next = async () => {
+    if (current !== "review" && (await form.trigger(current))) {
+      goTo(steps[index + 1]);
+    }
+  };
+
+  const back = () => {
+    if (index > 0) goTo(steps[index - 1]);
+  };
+
+  const setAnswer = (field: WizardField, value: CattleInfoFormValues[WizardField]) => {
+    form.setValue(field, value, { shouldValidate: form.formState.isSubmitted });
+  };
+
+  // Same as the full form: answers that no longer apply are cleared
+  const setLactating = (lactating: boolean) => {
+    setAnswer("lactating", lactating);
+    if (!lactating) LACTATION_FIELDS.forEach((field) => setAnswer(field, 0));
+  };
+
+  const setGrazing = (grazing: boolean) => {
+    setAnswer("grazing", grazing);
+    if (!grazing) setAnswer("distance", 0);
+  };
+
+  const onSubmit = (data: CattleInfoValues) => {
+    setCattleInfo(data);
+    if (activeProfile) {
+      updateProfile(activeProfile.id, { cattle_info: data });
+    }
+    setWizardProgress(null);
+    router.push("/feed-selection");
+  };
+
+  // Send the user back to the first question with a problem
+  const onInvalid = (errors: FieldErrors<CattleInfoFormValues>) => {
+    const first = steps.find((step) => step !== "review" && errors[step]);
+    toast.error(t("wizard.fixAnswers"));
+    if (first) goTo(first);
+  };
+
+  const unitFor = (field: WizardField) => {
+    const quantity = isNumberField(field) ? numberFields[field] : null;
+    return quantity ? units.symbol(quantity) : "";
+  };
+
+  const formatAnswer = (field: WizardField) => {
+    const value = values[field];
+    if (typeof value === "boolean") return value ? t("common.yes") : t("common.no");
+    if (field === "topography" && value) return t(`cattleInfo.topography.${value as (typeof topographyOptions)[number]}`);
+    if (field === "breed" && value === OTHER_BREED) return t("cattleInfo.breedOther");
+    if (typeof value === "number") {
+      const unit = unitFor(field);
+      return `${formatNumber(value)}${unit ? ` ${unit}` : ""}`;
+    }
+    return value || t("common.notAvailable");
+  };
+
+  const renderQuestion = (field: WizardField) => {
+    switch (field) {
+      case "breed": {
+        const options = breeds.map((breed) => breed.name);
+        if (values.breed && values.breed !== OTHER_BREED && !findBreed(breeds, values.breed)) {
+          options.push(values.breed);
+        }
+        return (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {[...options, OTHER_BREED].map((breed) => (
+              <ChoiceButton
+                key={breed}
+                selected={values.breed === breed}
+                onClick={() => {
+                  applyBreedDefaults(form, breeds, units, breed);
+                  setAnswer("breed", breed);
+                }}
+              >
+                {breed === OTHER_BREED ? t("cattleInfo.breedOther") : breed}
+              </ChoiceButton>
+            ))}
+          </div>
+        );
+      }
+      case "lactating":
+      case "grazing": {
+        const choose = field === "lactating" ? setLactating : setGrazing;
+        return (
+          <div className="grid grid-cols-2 gap-3">
+            <ChoiceButton selected={values[field]} onClick={() => choose(true)}>
+              {t("common.yes")}
+            </ChoiceButton>
+            <ChoiceButton selected={!values[field]} onClick={() => choose(false)}>
+              {t("common.no")}
+            </ChoiceButton>
+          </div>
+        );
+      }
+      case "bc_score":
+        return (
+          <BodyConditionPicker value={values.bc_score} onChange={(score) => setAnswer("bc_score", score)} />
+        );
+      case "topography":
+        return (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            {topographyOptions.map((option) => (
+              <ChoiceButton
+                key={option}
+                selected={values.topography === option}
+                onClick={() => setAnswer("topography", option)}
+              >
+                {t(`cattleInfo.topography.${option}`)}
+              </ChoiceButton>
+            ))}
+          </div>
+        );
+      default:
+        return (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3">
+              <Input
+                type="number"
+                inputMode="decimal"
+                aria-label={t(`wizard.question.${field}`)}
+                className="h-14 text-2xl text-center"
+                value={values[field] || ""}
+                onChange={(e) => setAnswer(field, parseFloat(e.target.value) || 0)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    next();
+                  }
+                }}
+              />
+              {unitFor(field) && <span className="text-xl text-muted-foreground">{unitFor(field)}</span>}
+            </div>
+            {(field === "fat_milk" || field === "tp_milk") && (
+              <p className="text-sm text-muted-foreground">{t("wizard.hint.breedTypical")}</p>
+            )}
+            {field === "days_of_pregnancy" && (
+              <p className="text-sm text-muted-foreground">{t("wizard.hint.notPregnant")}</p>
+            )}
+            {field === "body_weight" && (
+              <BodyWeightEstimator
+                breed={findBreed(breeds, values.breed)}
+                onEstimate={(kg) => setAnswer("body_weight", roundConverted(units.fromCanonical("weight", kg)))}
+              />
+            )}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit, onInvalid)} className="space-y-6">
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm text-muted-foreground">
+            <span>
+              {current === "review"
+                ? t("wizard.reviewTitle")
+                : t("wizard.progress", { current: index + 1, total: steps.length - 1 })}
+            </span>
+            <span>{t("wizard.autosaved")}</span>
+          </div>
+          <div className="h-2 rounded-full bg-muted overflow-hidden">
+            <div
+              className="h-full bg-primary transition-all"
+              style={{ width: `${(index / (steps.length - 1)) * 100}%` }}
+            />
+          </div>
+        </div>
+
+        {current === "review" ? (
+          <ul className="divide-y rounded-lg border">
+            {steps
+              .filter((step): step is WizardField => step !== "review")
+              .map((step) => (
+                <li key={step} className="flex items-center gap-3 p-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-muted-foreground">
+                      {t(fieldLabels[step], { unit: unitFor(step) })}
+                    </p>
+                    <p className="font-medium">{formatAnswer(step)}</p>
+                    {form.formState.errors[step] && (
+                      <p className="text-sm text-destructive">{form.formState.errors[step]?.message}</p>
+                    )}
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="min-h-[44px] touch-manipulation"
+                    onClick={() => goTo(step)}
+                  >
+                    {t("wizard.change")}
+                  </Button>
+                </li>
+              ))}
+          </ul>
+        ) : (
+          <FormField
+            key={current}
+            control={form.control}
+            name={current}
+            render={() => (
+              <FormItem className="space-y-4">
+                <FormLabel className="text-xl sm:text-2xl font-semibold leading-snug">
+                  {t(`wizard.question.${current}`)}
+                </FormLabel>
+                <FormControl>
+                  <div>{renderQuestion(current)}</div>
+                </FormControl>
+                <FormMessage className="text-base" />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <div className="flex gap-3">
+          <Button
+            type="button"
+            variant="outline"
+            className={cn("h-14 flex-1 text-lg touch-manipulation", index === 0 && "invisible")}
+            onClick={back}
+          >
+            <ArrowLeft className="me-2 h-5 w-5 rtl:-scale-x-100" />
+            {t("common.back")}
+          </Button>
+          {current === "review" ? (
+            <Button type="submit" className="h-14 flex-1 text-lg touch-manipulation">
+              <Check className="me-2 h-5 w-5" />
+              {t("wizard.finish")}
+            </Button>
+          ) : (
+            <Button type="button" className="h-14 flex-1 text-lg touch-manipulation" onClick={next}>
+              {t("wizard.next")}
+              <ArrowRight className="ms-2 h-5 w-5 rtl:-scale-x-100" />
+            </Button>
+          )}
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,317 @@
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FeedEvaluationResponse } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { useCurrency } from "@/hooks/use-currency";
+import { useTranslation } from "@/hooks/use-translation";
+import { useUnits } from "@/hooks/use-units";
+import { milkKgToLitres } from "@/lib/units";
+import { ClipboardCheck, Milk, Scale, DollarSign, Leaf, Activity } from "lucide-react";
+
+interface EvaluationPanelProps {
+  evaluation: FeedEvaluationResponse;
+  className?: string;
+}
+
+interface MetricTileProps {
+  label: string;
+  // Numbers are formatted for the locale; strings (e.g. money) are shown as given
+  value?: number | string;
+  unit?: string;
+  highlight?: "positive" | "negative";
+}
+
+const fixedDigits = (digits: number) => ({ minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+// Positive balances mean the diet supplies more than the animal requires
+const balanceHighlight = (value?: number): MetricTileProps["highlight"] => {
+  if (value === undefined) return undefined;
+  return value < 0 ? "negative" : "positive";
+};
+
+const statusVariant = (status?: string) => {
+  const normalized = status?.toLowerCase() || "";
+  if (normalized.includes("adequate") || normalized.includes("optimal") || normalized.includes("good")) {
+    return "default" as const;
+  }
+  if (normalized.includes("deficien") || normalized.includes("inadequate") || normalized.includes("poor")) {
+    return "destructive" as const;
+  }
+  return "secondary" as const;
+};
+
+function MetricTile({ label, value, unit, highlight }: MetricTileProps) {
+  const { formatNumber } = useTranslation();
+  const missing = value === undefined || value === null || value === "";
+  const formatted = missing
+    ? formatNumber(null)
+    : typeof value === "string"
+      ? value
+      : formatNumber(value, fixedDigits(2));
+  return (
+    <div className="p-3 bg-muted rounded-lg">
+      <p className="text-muted-foreground text-xs">{label}</p>
+      <p
+        className={cn(
+          "font-semibold",
+          highlight === "positive" && "text-green-600",
+          highlight === "negative" && "text-destructive"
+        )}
+      >
+        {formatted}
+        {unit && !missing ? ` ${unit}` : ""}
+      </p>
+    </div>
+  );
+}
+
+export function EvaluationPanel({ evaluation, className }: EvaluationPanelProps) {
+  const {
+    currency,
+    evaluation_summary,
+    milk_production_analysis,
+    intake_evaluation,
+    cost_analysis,
+    methane_analysis,
+    nutrient_balance,
+    feed_breakdown,
+  } = evaluation;
+  const { format: formatCurrency } = useCurrency(currency || cost_analysis?.currency);
+  const { fromCanonical, symbol } = useUnits();
+  const { t, formatNumber } = useTranslation();
+
+  // The evaluation reports weights in kg and milk in kg/day; show them in the user's units
+  const weight = (kg?: number) => (kg === undefined ? kg : fromCanonical("weight", kg));
+  const milk = (kg?: number) => (kg === undefined ? kg : fromCanonical("milk", milkKgToLitres(kg)));
+  const weightUnit = symbol("weight");
+  const milkPerDay = `${symbol("milk")}/day`;
+  const weightPerDay = `${weightUnit}/day`;
+
+  return (
+    <div className={cn("space-y-6", className)}>
+      {/* Summary */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5 text-primary" />
+            {t("evaluation.panelTitle")}
+          </CardTitle>
+          <CardDescription>{t("evaluation.panelDescription")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+            <div>
+              <p className="text-muted-foreground">{t("evaluation.overallStatus")}</p>
+              <Badge variant={statusVariant(evaluation_summary?.overall_status)} className="mt-1">
+                {evaluation_summary?.overall_status || t("common.notAvailable")}
+              </Badge>
+            </div>
+            <div>
+              <p className="text-muted-foreground">{t("evaluation.limitingFactor")}</p>
+              <p className="font-medium">{evaluation_summary?.limiting_factor || t("evaluation.none")}</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Milk Production & Intake */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Milk className="h-5 w-5 text-blue-600" />
+              {t("evaluation.milkProduction")}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <MetricTile label={t("evaluation.target")} value={milk(milk_production_analysis?.target_production_kg_day)} unit={milkPerDay} />
+              <MetricTile label={t("evaluation.supported")} value={milk(milk_production_analysis?.actual_milk_supported_kg_day)} unit={milkPerDay} />
+              <MetricTile label={t("evaluation.byEnergy")} value={milk(milk_production_analysis?.milk_supported_by_energy_kg_day)} unit={milkPerDay} />
+              <MetricTile label={t("evaluation.byProtein")} value={milk(milk_production_analysis?.milk_supported_by_protein_kg_day)} unit={milkPerDay} />
+            </div>
+            {milk_production_analysis?.limiting_nutrient && (
+              <p className="text-sm text-muted-foreground mt-4">
+                {t("evaluation.limitedBy")} <span className="font-medium text-foreground">{milk_production_analysis.limiting_nutrient}</span>
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Scale className="h-5 w-5 text-orange-600" />
+              {t("evaluation.dryMatterIntake")}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <MetricTile label={t("evaluation.actual")} value={weight(intake_evaluation?.actual_intake_kg_day)} unit={weightPerDay} />
+              <MetricTile label={t("evaluation.target")} value={weight(intake_evaluation?.target_intake_kg_day)} unit={weightPerDay} />
+              <MetricTile
+                label={t("evaluation.difference")}
+                value={weight(intake_evaluation?.intake_difference_kg_day)}
+                unit={weightPerDay}
+                highlight={balanceHighlight(intake_evaluation?.intake_difference_kg_day)}
+              />
+              <MetricTile label={t("evaluation.ofTarget")} value={intake_evaluation?.intake_percentage} unit="%" />
+            </div>
+            {intake_evaluation?.intake_status && (
+              <p className="text-sm text-muted-foreground mt-4">
+                {t("evaluation.status")} <span className="font-medium text-foreground">{intake_evaluation.intake_status}</span>
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Cost & Methane */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <DollarSign className="h-5 w-5 text-green-600" />
+              {t("evaluation.costAnalysis")}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <MetricTile
+                label={t("evaluation.dailyDietCost")}
+                value={formatCurrency(cost_analysis?.total_diet_cost_as_fed)}
+              />
+              <MetricTile
+                label={t("evaluation.costPerKgMilk")}
+                value={formatCurrency(cost_analysis?.feed_cost_per_kg_milk)}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Leaf className="h-5 w-5 text-emerald-600" />
+              {t("evaluation.methaneEmissions")}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <MetricTile label={t("recommendation.methaneProduction")} value={methane_analysis?.methane_production_g_per_day} unit="g/day" />
+              <MetricTile label={t("recommendation.methaneYield")} value={methane_analysis?.methane_yield_g_per_kg_dmi} unit="g/kg DMI" />
+              <MetricTile label={t("recommendation.methaneIntensity")} value={methane_analysis?.methane_intensity_g_per_kg_ecm} unit="g/kg ECM" />
+              <MetricTile label={t("recommendation.conversionRate")} value={methane_analysis?.methane_conversion_rate_percent} unit="%" />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Nutrient Balance */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Activity className="h-5 w-5 text-purple-600" />
+            {t("evaluation.nutrientBalance")}
+          </CardTitle>
+          <CardDescription>{t("evaluation.nutrientBalanceDescription")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+            <MetricTile
+              label={t("evaluation.energy")}
+              value={nutrient_balance?.energy_balance_mcal}
+              unit="Mcal"
+              highlight={balanceHighlight(nutrient_balance?.energy_balance_mcal)}
+            />
+            <MetricTile
+              label={t("evaluation.protein")}
+              value={weight(nutrient_balance?.protein_balance_kg)}
+              unit={weightUnit}
+              highlight={balanceHighlight(nutrient_balance?.protein_balance_kg)}
+            />
+            <MetricTile
+              label={t("evaluation.calcium")}
+              value={weight(nutrient_balance?.calcium_balance_kg)}
+              unit={weightUnit}
+              highlight={balanceHighlight(nutrient_balance?.calcium_balance_kg)}
+            />
+            <MetricTile
+              label={t("evaluation.phosphorus")}
+              value={weight(nutrient_balance?.phosphorus_balance_kg)}
+              unit={weightUnit}
+              highlight={balanceHighlight(nutrient_balance?.phosphorus_balance_kg)}
+            />
+            <MetricTile
+              label={t("evaluation.ndf")}
+              value={weight(nutrient_balance?.ndf_balance_kg)}
+              unit={weightUnit}
+              highlight={balanceHighlight(nutrient_balance?.ndf_balance_kg)}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Feed Breakdown */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">{t("evaluation.feedBreakdown")}</CardTitle>
+          <CardDescription>{t("evaluation.feedBreakdownDescription")}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {feed_breakdown && feed_breakdown.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("recommendation.feedName")}</TableHead>
+                  <TableHead className="text-end">{t("evaluation.asFed", { unit: weightUnit })}</TableHead>
+                  <TableHead className="text-end">{t("evaluation.dryMatter", { unit: weightUnit })}</TableHead>
+                  <TableHead className="text-end">{t("recommendation.cost")}</TableHead>
+                  <TableHead className="text-end">{t("evaluation.contribution")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {feed_breakdown.map((feed) => (
+                  <TableRow key={feed.feed_id}>
+                    <TableCell className="font-medium">
+                      {feed.feed_name}
+                      <p className="text-xs text-muted-foreground">{feed.feed_type}</p>
+                    </TableCell>
+                    <TableCell className="text-end">{formatNumber(weight(feed.quantity_as_fed_kg_per_day), fixedDigits(2))}</TableCell>
+                    <TableCell className="text-end">{formatNumber(weight(feed.quantity_dm_kg_per_day), fixedDigits(2))}</TableCell>
+                    <TableCell className="text-end">{formatCurrency(feed.total_cost)}</TableCell>
+                    <TableCell className="text-end">
+                      <div className="flex items-center justify-end gap-2">
+                        <div className="hidden sm:block h-2 w-16 rounded-full bg-muted overflow-hidden">
+                          <div
+                            className="h-full bg-primary"
+                            style={{ width: `${Math.min(Math.max(feed.contribution_percent, 0), 100)}%` }}
+                          />
+                        </div>
+                        <span>{formatNumber(feed.contribution_percent, fixedDigits(1))}%</span>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              <p>{t("evaluation.noBreakdown")}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { FeedBasket } from "@/lib/types";
+import { useFeedBasketStore } from "@/store/feed-basket-store";
+import { useTranslation } from "@/hooks/use-translation";
+import { toast } from "sonner";
+
+interface BasketPricesDialogProps {
+  basket: FeedBasket | null;
+  currencySymbol?: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+const toPriceInputs = (basket: FeedBasket | null) =>
+  Object.fromEntries((basket?.feeds || []).map((f) => [f.feed_id, String(f.price_per_kg)]));
+
+export function BasketPricesDialog({ basket, currencySymbol, onOpenChange }: BasketPricesDialogProps) {
+  const { updateBasketPrices } = useFeedBasketStore();
+  const [prices, setPrices] = useState<Record<string, string>>(() => toPriceInputs(basket));
+  const [percentChange, setPercentChange] = useState("");
+  const { t } = useTranslation();
+
+  const handleApplyPercent = () => {
+    const percent = parseFloat(percentChange);
+    if (!percent) return;
+    setPrices((current) =>
+      Object.fromEntries(
+        Object.entries(current).map(([feedId, price]) => {
+          const value = parseFloat(price);
+          return [feedId, value > 0 ? (value * (1 + percent / 100)).toFixed(2) : price];
+        })
+      )
+    );
+    setPercentChange("");
+  };
+
+  const handleSave = () => {
+    if (!basket) return;
+    const parsed = Object.fromEntries(
+      Object.entries(prices).map(([feedId, price]) => [feedId, parseFloat(price)])
+    );
+    if (Object.values(parsed).some((price) => !(price > 0))) {
+      toast.error(t("baskets.prices.invalid"));
+      return;
+    }
+    updateBasketPrices(basket.id, parsed);
+    toast.success(t("baskets.prices.updated"));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!basket} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto w-[calc(100%-2rem)] sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t("baskets.prices.title")}</DialogTitle>
+          <DialogDescription>
+            {t("baskets.prices.description", {
+              name: basket?.name ?? "",
+              unit: currencySymbol ? `${currencySymbol}/kg` : t("baskets.prices.perKg"),
+            })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="percent-change">{t("baskets.prices.percent")}</Label>
+            <Input
+              id="percent-change"
+              type="number"
+              step="1"
+              placeholder={t("baskets.prices.percentPlaceholder")}
+              value={percentChange}
+              onChange={(e) => setPercentChange(e.target.value)}
+            />
+          </div>
+          <Button variant="outline" onClick={handleApplyPercent} disabled={!parseFloat(percentChange)}>
+            {t("baskets.prices.apply")}
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          {basket?.feeds.map((feed, index) => (
+            <div key={feed.feed_id} className="flex items-center gap-2">
+              <Label htmlFor={`basket-price-${feed.feed_id}`} className="flex-1 truncate font-normal">
+                {basket.feed_details[feed.feed_id]?.fd_name || t("recommendation.feedFallback", { number: index + 1 })}
+              </Label>
+              <Input
+                id={`basket-price-${feed.feed_id}`}
+                type="number"
+                min={0}
+                step="0.01"
+                value={prices[feed.feed_id] ?? ""}
+                onChange={(e) => setPrices({ ...prices, [feed.feed_id]: e.target.value })}
+                className="w-28"
+              />
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t("common.cancel")}
+          </Button>
+          <Button onClick={handleSave}>{t("baskets.prices.submit")}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useFeedBasketStore } from "@/store/feed-basket-store";
+import { useFeedStore } from "@/store/feed-store";
+import { useTranslation } from "@/hooks/use-translation";
+import { toast } from "sonner";
+import { ShoppingBasket } from "lucide-react";
+
+// Radix Select does not allow an empty string as an item value
+const NEW_BASKET = "new";
+
+export function SaveBasketDialog() {
+  const { baskets, saveBasket, replaceBasketFeeds } = useFeedBasketStore();
+  const { selectedFeeds, feedDetails } = useFeedStore();
+  const [open, setOpen] = useState(false);
+  const [target, setTarget] = useState(NEW_BASKET);
+  const [name, setName] = useState("");
+  const { t } = useTranslation();
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setTarget(NEW_BASKET);
+      setName("");
+    }
+    setOpen(isOpen);
+  };
+
+  const handleSave = () => {
+    if (target === NEW_BASKET) {
+      if (!name.trim()) {
+        toast.error(t("baskets.save.nameRequired"));
+        return;
+      }
+      saveBasket(name.trim(), selectedFeeds, feedDetails);
+      toast.success(t("baskets.save.saved", { name: name.trim() }));
+    } else {
+      const basket = baskets.find((b) => b.id === target);
+      replaceBasketFeeds(target, selectedFeeds, feedDetails);
+      toast.success(t("baskets.save.updated", { name: basket?.name ?? "" }));
+    }
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={selectedFeeds.length === 0}>
+          <ShoppingBasket className="me-2 h-4 w-4" />
+          {t("baskets.save.button")}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="w-[calc(100%-2rem)] sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t("baskets.save.title")}</DialogTitle>
+          <DialogDescription>
+            {t("baskets.save.description", { count: selectedFeeds.length })}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {baskets.length > 0 && (
+            <div className="space-y-2">
+              <Label>{t("baskets.save.target")}</Label>
+              <Select value={target} onValueChange={setTarget}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NEW_BASKET}>{t("baskets.save.new")}</SelectItem>
+                  {baskets.map((basket) => (
+                    <SelectItem key={basket.id} value={basket.id}>
+                      {t("baskets.save.replace", { name: basket.name })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {target === NEW_BASKET && (
+            <div className="space-y-2">
+              <Label htmlFor="basket-name">{t("baskets.save.name")}</Label>
+              <Input
+                id="basket-name"
+                placeholder={t("baskets.save.namePlaceholder")}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={60}
+              />
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            {t("common.cancel")}
+          </Button>
+          <Button onClick={handleSave}>{t("baskets.save.submit")}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { FeedSubCategory } from "@/lib/types";
+import { loadFeedCatalogue } from "@/lib/feed-catalogue";
+import { groupFeedSearchResults, searchFeeds } from "@/lib/feed-search";
+import { useDebounce } from "@/hooks/use-debounce";
+import { useTranslation } from "@/hooks/use-translation";
+import { cn } from "@/lib/utils";
+import { Check, Loader2, Search, X } from "lucide-react";
+
+export interface FeedSearchSelection {
+  feed: FeedSubCategory;
+  pricePerKg: number;
+}
+
+interface FeedSearchProps {
+  countryId: string;
+  selectedFeedIds: string[];
+  currencySymbol?: string;
+  rememberedPrices?: Record<string, number>;
+  onAdd: (selections: FeedSearchSelection[]) => Promise<void>;
+}
+
+export function FeedSearch({
+  countryId,
+  selectedFeedIds,
+  currencySymbol,
+  rememberedPrices = {},
+  onAdd,
+}: FeedSearchProps) {
+  const [catalogue, setCatalogue] = useState<FeedSubCategory[]>([]);
+  const [loadingCatalogue, setLoadingCatalogue] = useState(false);
+  const [catalogueError, setCatalogueError] = useState(false);
+  const [query, setQuery] = useState("");
+  const [picked, setPicked] = useState<Record<string, { feed: FeedSubCategory; price: string }>>({});
+  const [adding, setAdding] = useState(false);
+  const debouncedQuery = useDebounce(query, 200);
+  const { t } = useTranslation();
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadingCatalogue(true);
+    setCatalogueError(false);
+    loadFeedCatalogue(countryId)
+      .then((feeds) => {
+        if (!cancelled) setCatalogue(feeds);
+      })
+      .catch(() => {
+        if (!cancelled) setCatalogueError(true);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingCatalogue(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [countryId]);
+
+  const groups = useMemo(
+    () => groupFeedSearchResults(searchFeeds(catalogue, debouncedQuery)),
+    [catalogue, debouncedQuery]
+  );
+
+  const pickedList = Object.values(picked);
+  const readyToAdd = pickedList.filter(({ price }) => parseFloat(price) > 0);
+
+  const togglePicked = (feed: FeedSubCategory) => {
+    setPicked((current) => {
+      const next = { ...current };
+      if (next[feed.feed_uuid]) {
+        delete next[feed.feed_uuid];
+      } else {
+        const rememberedPrice = rememberedPrices[feed.feed_uuid];
+        next[feed.feed_uuid] = { feed, price: rememberedPrice ? String(rememberedPrice) : "" };
+      }
+      return next;
+    });
+  };
+
+  const setPickedPrice = (feedId: string, price: string) => {
+    setPicked((current) => ({
+      ...current,
+      [feedId]: { ...current[feedId], price },
+    }));
+  };
+
+  const handleAdd = async () => {
+    setAdding(true);
+    try {
+      await onAdd(readyToAdd.map(({ feed, price }) => ({ feed, pricePerKg: parseFloat(price) })));
+      setPicked({});
+      setQuery("");
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  if (loadingCatalogue) {
+    return <Skeleton className="h-10 w-full" />;
+  }
+
+  if (catalogueError) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {t("feedSelection.searchUnavailable")}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Search className="absolute start-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          type="search"
+          placeholder={t("feedSelection.searchPlaceholder")}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="ps-9"
+          aria-label={t("feedSelection.search")}
+        />
+      </div>
+
+      {debouncedQuery && groups.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          {t("feedSelection.noMatches", { query: debouncedQuery })}
+        </p>
+      )}
+
+      {groups.length > 0 && (
+        <div className="max-h-80 overflow-y-auto rounded-md border divide-y">
+          {groups.map((group) => (
+            <div key={`${group.feedType}|${group.feedCategory}`}>
+              <p className="sticky top-0 bg-muted px-3 py-1 text-xs font-medium text-muted-foreground">
+                {group.feedType} › {group.feedCategory}
+              </p>
+              {group.results.map(({ feed, matchedAlias }) => {
+                const alreadySelected = selectedFeedIds.includes(feed.feed_uuid);
+                const isPicked = !!picked[feed.feed_uuid];
+                return (
+                  <button
+                    key={feed.feed_uuid}
+                    type="button"
+                    disabled={alreadySelected}
+                    onClick={() => togglePicked(feed)}
+                    className={cn(
+                      "flex w-full items-center justify-between gap-2 px-3 py-2 text-start text-sm min-h-[44px] touch-manipulation hover:bg-accent disabled:opacity-50 disabled:cursor-not-allowed",
+                      isPicked && "bg-primary/10"
+                    )}
+                  >
+                    <span>
+                      {feed.feed_name}
+                      {matchedAlias && (
+                        <span className="block text-xs text-muted-foreground">
+                          {t("feedSelection.matchesAlias", { alias: matchedAlias })}
+                        </span>
+                      )}
+                    </span>
+                    {alreadySelected ? (
+                      <span className="text-xs text-muted-foreground">{t("feedSelection.selected")}</span>
+                    ) : (
+                      isPicked && <Check className="h-4 w-4 text-primary" />
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {pickedList.length > 0 && (
+        <div className="space-y-2 rounded-md border p-3">
+          <p className="text-sm font-medium">
+            {t("feedSelection.enterPrices", {
+              unit: currencySymbol ? `${currencySymbol}/kg` : t("feedSelection.perKg"),
+            })}
+          </p>
+          {pickedList.map(({ feed, price }) => (
+            <div key={feed.feed_uuid} className="flex items-center gap-2">
+              <span className="flex-1 truncate text-sm">{feed.feed_name}</span>
+              <Input
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder={t("feedSelection.price")}
+                value={price}
+                onChange={(e) => setPickedPrice(feed.feed_uuid, e.target.value)}
+                className="w-28"
+                aria-label={t("feedSelection.priceFor", { name: feed.feed_name })}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => togglePicked(feed)}
+                className="min-h-[44px] min-w-[44px] touch-manipulation"
+                aria-label={t("feedSelection.unselect", { name: feed.feed_name })}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            onClick={handleAdd}
+            disabled={adding || readyToAdd.length === 0}
+            className="w-full"
+          >
+            {adding && <Loader2 className="h-4 w-4 me-2 animate-spin" />}
+            {t("feedSelection.addPicked", { count: readyToAdd.length })}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { FeedDetails, FeedRecommendation } from "@/lib/types";
+import { MessageKey } from "@/lib/i18n";
+import { useTranslation } from "@/hooks/use-translation";
+import { Trash2 } from "lucide-react";
+
+interface SelectedFeedCardProps {
+  feed: FeedRecommendation;
+  details?: FeedDetails;
+  index: number;
+  currencySymbol?: string;
+  onPriceChange: (feedId: string, pricePerKg: number) => void;
+  onRemove: (feedId: string) => void;
+}
+
+const nutrientFields: Array<{ key: keyof FeedDetails; label: MessageKey }> = [
+  { key: "fd_dm", label: "feedSelection.nutrient.dm" },
+  { key: "fd_cp", label: "feedSelection.nutrient.cp" },
+  { key: "fd_ndf", label: "feedSelection.nutrient.ndf" },
+  { key: "fd_adf", label: "feedSelection.nutrient.adf" },
+  { key: "fd_ee", label: "feedSelection.nutrient.ee" },
+  { key: "fd_ash", label: "feedSelection.nutrient.ash" },
+];
+
+export function SelectedFeedCard({
+  feed,
+  details,
+  index,
+  currencySymbol,
+  onPriceChange,
+  onRemove,
+}: SelectedFeedCardProps) {
+  const [priceInput, setPriceInput] = useState(String(feed.price_per_kg));
+  const { t, formatNumber } = useTranslation();
+  const feedName = details?.fd_name || t("recommendation.feedFallback", { number: index + 1 });
+
+  const handlePriceChange = (value: string) => {
+    setPriceInput(value);
+    const price = parseFloat(value);
+    if (price > 0) {
+      onPriceChange(feed.feed_id, price);
+    }
+  };
+
+  return (
+    <Card className="py-4">
+      <CardContent className="px-4 space-y-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <p className="font-semibold truncate">{feedName}</p>
+            {(details?.fd_type || details?.fd_category) && (
+              <div className="flex flex-wrap gap-1 mt-1">
+                {details?.fd_type && <Badge variant="secondary">{details.fd_type}</Badge>}
+                {details?.fd_category && <Badge variant="outline">{details.fd_category}</Badge>}
+              </div>
+            )}
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onRemove(feed.feed_id)}
+            className="min-h-[44px] min-w-[44px] touch-manipulation text-destructive hover:text-destructive"
+            aria-label={t("feedSelection.removeFeed", { name: feedName })}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {details && (
+          <div className="grid grid-cols-3 sm:grid-cols-6 gap-2 text-xs">
+            {nutrientFields.map(({ key, label }) => {
+              const value = details[key];
+              return (
+                <div key={key} className="p-2 bg-muted rounded-md text-center">
+                  <p className="text-muted-foreground">{t("feedSelection.nutrientPercent", { nutrient: t(label) })}</p>
+                  <p className="font-medium">
+                    {typeof value === "number"
+                      ? formatNumber(value, { minimumFractionDigits: 1, maximumFractionDigits: 1 })
+                      : "-"}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Label htmlFor={`price-${feed.feed_id}`} className="text-sm whitespace-nowrap">
+            {currencySymbol
+              ? t("feedSelection.pricePerKgIn", { currency: currencySymbol })
+              : t("feedSelection.pricePerKg")}
+          </Label>
+          <Input
+            id={`price-${feed.feed_id}`}
+            type="number"
+            min={0}
+            step="0.01"
+            value={priceInput}
+            onChange={(e) => handlePriceChange(e.target.value)}
+            onBlur={() => setPriceInput(String(feed.price_per_kg))}
+            aria-invalid={!(parseFloat(priceInput) > 0)}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
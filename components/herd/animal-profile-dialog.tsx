@@ -0,0 +1,151 @@
+"use client";
+
+import { useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { AnimalProfile } from "@/lib/types";
+import { Translate } from "@/lib/i18n";
+import { useAnimalProfileStore } from "@/store/animal-profile-store";
+import { useTranslation } from "@/hooks/use-translation";
+import { toast } from "sonner";
+
+const createAnimalProfileSchema = (t: Translate) =>
+  z.object({
+    name: z.string().trim().min(1, t("validation.nameRequired")).max(60),
+    ear_tag: z.string().trim().max(30).optional(),
+    farm: z.string().trim().max(60).optional(),
+  });
+
+type AnimalProfileFormValues = z.infer<ReturnType<typeof createAnimalProfileSchema>>;
+
+interface AnimalProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  profile?: AnimalProfile | null;
+  onSaved?: (profileId: string) => void;
+}
+
+export function AnimalProfileDialog({
+  open,
+  onOpenChange,
+  profile,
+  onSaved,
+}: AnimalProfileDialogProps) {
+  const { addProfile, updateProfile } = useAnimalProfileStore();
+  const isEditing = !!profile;
+  const { t } = useTranslation();
+  const animalProfileSchema = useMemo(() => createAnimalProfileSchema(t), [t]);
+
+  const form = useForm<AnimalProfileFormValues>({
+    resolver: zodResolver(animalProfileSchema),
+    defaultValues: { name: "", ear_tag: "", farm: "" },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        name: profile?.name || "",
+        ear_tag: profile?.ear_tag || "",
+        farm: profile?.farm || "",
+      });
+    }
+  }, [open, profile, form]);
+
+  const onSubmit = (data: AnimalProfileFormValues) => {
+    const details = {
+      name: data.name,
+      ear_tag: data.ear_tag || undefined,
+      farm: data.farm || undefined,
+    };
+
+    if (profile) {
+      updateProfile(profile.id, details);
+      toast.success(t("herd.dialog.updated"));
+      onSaved?.(profile.id);
+    } else {
+      const id = addProfile(details);
+      toast.success(t("herd.dialog.created"));
+      onSaved?.(id);
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[calc(100%-2rem)] sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? t("herd.dialog.editTitle") : t("herd.dialog.newTitle")}</DialogTitle>
+          <DialogDescription>{t("herd.dialog.description")}</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("herd.dialog.name")}</FormLabel>
+                  <FormControl>
+                    <Input placeholder={t("herd.dialog.namePlaceholder")} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="ear_tag"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("herd.dialog.earTag")}</FormLabel>
+                  <FormControl>
+                    <Input placeholder={t("herd.dialog.earTagPlaceholder")} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="farm"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("herd.dialog.farm")}</FormLabel>
+                  <FormControl>
+                    <Input placeholder={t("herd.dialog.farmPlaceholder")} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                {t("common.cancel")}
+              </Button>
+              <Button type="submit">{isEditing ? t("herd.dialog.save") : t("herd.dialog.create")}</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useAnimalProfileStore } from "@/store/animal-profile-store";
+import { useTranslation } from "@/hooks/use-translation";
+import { AnimalProfileDialog } from "./animal-profile-dialog";
+import { Plus } from "lucide-react";
+
+// Radix Select does not allow an empty string as an item value
+const NO_PROFILE = "none";
+
+export function AnimalProfilePicker() {
+  const { profiles, activeProfileId, selectProfile } = useAnimalProfileStore();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const { t } = useTranslation();
+
+  return (
+    <div className="space-y-2">
+      <Label>{t("herd.picker.label")}</Label>
+      <div className="flex gap-2">
+        <Select
+          value={activeProfileId || NO_PROFILE}
+          onValueChange={(value) => selectProfile(value === NO_PROFILE ? null : value)}
+        >
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder={t("herd.picker.placeholder")} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_PROFILE}>{t("herd.picker.unnamed")}</SelectItem>
+            {profiles.map((profile) => (
+              <SelectItem key={profile.id} value={profile.id}>
+                {profile.name}
+                {profile.ear_tag ? ` · ${profile.ear_tag}` : ""}
+                {profile.farm ? ` (${profile.farm})` : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => setDialogOpen(true)}
+          className="min-h-[44px] touch-manipulation"
+        >
+          <Plus className="h-4 w-4 me-1" />
+          {t("herd.picker.new")}
+        </Button>
+      </div>
+      <AnimalProfileDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSaved={(id) => selectProfile(id)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useTranslation } from "@/hooks/use-translation";
+import { useLocaleStore } from "@/store/locale-store";
+import { useAuthStore } from "@/store/auth-store";
+import { isLocale, LOCALES, localeForCountry } from "@/lib/i18n";
+
+// Select value for following the user's country
+const AUTOMATIC = "auto";
+
+export function LanguageSelect() {
+  const { t } = useTranslation();
+  const { locale, setLocale } = useLocaleStore();
+  const countryCode = useAuthStore((state) => state.user?.country?.country_code);
+
+  const detected = localeForCountry(countryCode);
+  const detectedName = LOCALES.find((option) => option.code === detected)?.name ?? detected;
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="language">{t("language.title")}</Label>
+      <Select
+        value={locale ?? AUTOMATIC}
+        onValueChange={(value) => setLocale(isLocale(value) ? value : null)}
+      >
+        <SelectTrigger id="language">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={AUTOMATIC}>
+            {t("language.automatic", { language: detectedName })}
+          </SelectItem>
+          {LOCALES.map((option) => (
+            <SelectItem key={option.code} value={option.code} lang={option.code}>
+              {option.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
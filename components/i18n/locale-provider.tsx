@@ -0,0 +1,24 @@
+"use client";
+
+import { ReactNode, useEffect } from "react";
+import { DirectionProvider } from "@radix-ui/react-direction";
+import { useTranslation } from "@/hooks/use-translation";
+
+interface LocaleProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Keeps <html lang> and <html dir> in step with the active locale, and tells
+ * Radix primitives (menus, selects, tabs) which way to lay out and navigate
+ */
+export function LocaleProvider({ children }: LocaleProviderProps) {
+  const { locale, dir } = useTranslation();
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = dir;
+  }, [locale, dir]);
+
+  return <DirectionProvider dir={dir}>{children}</DirectionProvider>;
+}
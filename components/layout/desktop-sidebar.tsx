@@ -2,21 +2,26 @@
 
 import { usePathname, useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
-import { Home, FileText, User, MessageSquare, Settings } from "lucide-react";
+import { Home, FileText, User, MessageSquare, Settings, Beef, ShoppingBasket, Columns3 } from "lucide-react";
 import { useAuthStore } from "@/store/auth-store";
+import { useTranslation } from "@/hooks/use-translation";
 import { cn } from "@/lib/utils";
 
 const navItems = [
-  { href: "/cattle-info", label: "Cattle Info", icon: Home },
-  { href: "/reports", label: "Reports", icon: FileText },
-  { href: "/feedback", label: "Feedback", icon: MessageSquare },
-  { href: "/profile", label: "Profile", icon: User },
-];
+  { href: "/cattle-info", label: "nav.cattleInfo", icon: Home },
+  { href: "/herd", label: "nav.herd", icon: Beef },
+  { href: "/baskets", label: "nav.baskets", icon: ShoppingBasket },
+  { href: "/compare", label: "nav.compare", icon: Columns3 },
+  { href: "/reports", label: "nav.reports", icon: FileText },
+  { href: "/feedback", label: "nav.feedback", icon: MessageSquare },
+  { href: "/profile", label: "nav.profile", icon: User },
+] as const;
 
 export function DesktopSidebar() {
   const pathname = usePathname();
   const router = useRouter();
   const { user } = useAuthStore();
+  const { t } = useTranslation();
 
   // Don't show on auth pages
   if (pathname?.startsWith("/login") || pathname?.startsWith("/register") || pathname?.startsWith("/welcome") || pathname?.startsWith("/splash") || pathname?.startsWith("/forgot-pin")) {
@@ -24,7 +29,7 @@ export function DesktopSidebar() {
   }
 
   return (
-    <aside className="hidden lg:flex lg:w-64 lg:flex-col lg:border-r">
+    <aside className="hidden lg:flex lg:w-64 lg:flex-col lg:border-e">
       <div className="flex flex-col gap-1 p-4">
         {navItems.map((item) => {
           const Icon = item.icon;
@@ -39,8 +44,8 @@ export function DesktopSidebar() {
               )}
               onClick={() => router.push(item.href)}
             >
-              <Icon className="mr-2 h-4 w-4" />
-              {item.label}
+              <Icon className="me-2 h-4 w-4" />
+              {t(item.label)}
             </Button>
           );
         })}
@@ -53,8 +58,8 @@ export function DesktopSidebar() {
             )}
             onClick={() => router.push("/admin")}
           >
-            <Settings className="mr-2 h-4 w-4" />
-            Admin Panel
+            <Settings className="me-2 h-4 w-4" />
+            {t("nav.adminPanel")}
           </Button>
         )}
       </div>
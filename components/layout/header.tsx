@@ -1,9 +1,12 @@
 "use client";
 
+import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { useAuthStore } from "@/store/auth-store";
+import { useLogout } from "@/hooks/use-logout";
+import { useTranslation } from "@/hooks/use-translation";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -12,18 +15,19 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { User, LogOut } from "lucide-react";
+import { User, LogOut, UserPlus, Users } from "lucide-react";
 import { Logo } from "@/components/icons";
+import { SwitchAccountDialog, SwitchTarget } from "@/components/accounts/switch-account-dialog";
 import { MobileDrawer } from "./mobile-drawer";
 
 export function Header() {
   const router = useRouter();
-  const { user, logout } = useAuthStore();
+  const { user, accounts } = useAuthStore();
+  const [switchTarget, setSwitchTarget] = useState<SwitchTarget | null>(null);
+  const { t } = useTranslation();
 
-  const handleLogout = () => {
-    logout();
-    router.push("/login");
-  };
+  const handleLogout = useLogout();
+  const otherAccounts = accounts.filter((account) => account.id !== user?.id);
 
   return (
     <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 safe-area-inset-top">
@@ -44,7 +48,7 @@ export function Header() {
                   variant="ghost" 
                   size="icon"
                   className="min-h-[44px] min-w-[44px] touch-manipulation"
-                  aria-label="User menu"
+                  aria-label={t("nav.userMenu")}
                 >
                   <User className="h-5 w-5" />
                 </Button>
@@ -60,23 +64,40 @@ export function Header() {
                 </DropdownMenuLabel>
                 <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={() => router.push("/profile")}>
-                  Profile
+                  {t("nav.profile")}
                 </DropdownMenuItem>
                 {user.is_admin && (
                   <DropdownMenuItem onClick={() => router.push("/admin")}>
-                    Admin Panel
+                    {t("nav.adminPanel")}
                   </DropdownMenuItem>
                 )}
                 <DropdownMenuSeparator />
+                {otherAccounts.length > 0 && (
+                  <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+                    {t("nav.switchAccount")}
+                  </DropdownMenuLabel>
+                )}
+                {otherAccounts.map((account) => (
+                  <DropdownMenuItem key={account.id} onClick={() => setSwitchTarget(account)}>
+                    <Users className="me-2 h-4 w-4" />
+                    <span className="truncate">{account.name || account.email_id}</span>
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuItem onClick={() => setSwitchTarget("new")}>
+                  <UserPlus className="me-2 h-4 w-4" />
+                  {t("nav.addAccount")}
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
                 <DropdownMenuItem onClick={handleLogout}>
-                  <LogOut className="mr-2 h-4 w-4" />
-                  Logout
+                  <LogOut className="me-2 h-4 w-4 rtl:-scale-x-100" />
+                  {t("nav.logout")}
                 </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
           )}
         </div>
       </div>
+      <SwitchAccountDialog target={switchTarget} onClose={() => setSwitchTarget(null)} />
     </header>
   );
 }
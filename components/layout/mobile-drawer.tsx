@@ -1,5 +1,6 @@
 "use client";
 
+import { useState } from "react";
 import { usePathname, useRouter } from "next/navigation";
 import {
   Sheet,
@@ -17,21 +18,36 @@ import {
   MessageSquare, 
   Settings, 
   HelpCircle, 
-  LogOut 
+  LogOut,
+  Beef,
+  ShoppingBasket,
+  Columns3,
+  UserPlus,
+  Users
 } from "lucide-react";
 import { useAuthStore } from "@/store/auth-store";
+import { useLogout } from "@/hooks/use-logout";
+import { useTranslation } from "@/hooks/use-translation";
 import { Logo } from "@/components/icons";
+import { SwitchAccountDialog, SwitchTarget } from "@/components/accounts/switch-account-dialog";
 
 const drawerNavItems = [
-  { href: "/profile", label: "Profile", icon: User },
-  { href: "/reports", label: "Feed Reports", icon: FileText },
-  { href: "/feedback", label: "Feedback", icon: MessageSquare },
-];
+  { href: "/profile", label: "nav.profile", icon: User },
+  { href: "/herd", label: "nav.herd", icon: Beef },
+  { href: "/baskets", label: "nav.baskets", icon: ShoppingBasket },
+  { href: "/compare", label: "nav.compare", icon: Columns3 },
+  { href: "/reports", label: "nav.feedReports", icon: FileText },
+  { href: "/feedback", label: "nav.feedback", icon: MessageSquare },
+] as const;
 
 export function MobileDrawer() {
   const pathname = usePathname();
   const router = useRouter();
-  const { user, logout } = useAuthStore();
+  const { user, accounts } = useAuthStore();
+  const handleLogout = useLogout();
+  const [open, setOpen] = useState(false);
+  const [switchTarget, setSwitchTarget] = useState<SwitchTarget | null>(null);
+  const { t } = useTranslation();
 
   // Don't show on auth pages
   if (pathname?.startsWith("/login") || pathname?.startsWith("/register") || pathname?.startsWith("/welcome") || pathname?.startsWith("/splash") || pathname?.startsWith("/forgot-pin")) {
@@ -42,28 +58,31 @@ export function MobileDrawer() {
     router.push(href);
   };
 
-  const handleLogout = () => {
-    logout();
-    router.push("/login");
+  const otherAccounts = accounts.filter((account) => account.id !== user?.id);
+
+  // Close the drawer first so the dialog is not stacked over it
+  const openSwitchDialog = (target: SwitchTarget) => {
+    setOpen(false);
+    setSwitchTarget(target);
   };
 
   return (
-    <Sheet>
+    <Sheet open={open} onOpenChange={setOpen}>
       <SheetTrigger asChild>
         <Button
           variant="ghost"
           size="icon"
           className="lg:hidden min-h-[44px] min-w-[44px] touch-manipulation"
-          aria-label="Open menu"
+          aria-label={t("nav.openMenu")}
         >
           <Menu className="h-6 w-6" />
         </Button>
       </SheetTrigger>
-      <SheetContent side="left" className="w-[280px] sm:w-[320px] p-0">
+      <SheetContent side="start" className="w-[280px] sm:w-[320px] p-0">
         <SheetHeader className="p-4 border-b">
           <div className="flex items-center gap-2">
             <Logo size="md" variant="icon" />
-            <SheetTitle className="text-lg font-semibold">Menu</SheetTitle>
+            <SheetTitle className="text-lg font-semibold">{t("nav.menu")}</SheetTitle>
           </div>
           {user && (
             <div className="mt-2 text-sm text-muted-foreground">
@@ -80,8 +99,8 @@ export function MobileDrawer() {
               className="w-full justify-start min-h-[44px] touch-manipulation"
               onClick={() => handleNavigation("/cattle-info")}
             >
-              <Home className="mr-3 h-5 w-5" />
-              Cattle Info
+              <Home className="me-3 h-5 w-5" />
+              {t("nav.cattleInfo")}
             </Button>
 
             {drawerNavItems.map((item) => {
@@ -94,8 +113,8 @@ export function MobileDrawer() {
                   className="w-full justify-start min-h-[44px] touch-manipulation"
                   onClick={() => handleNavigation(item.href)}
                 >
-                  <Icon className="mr-3 h-5 w-5" />
-                  {item.label}
+                  <Icon className="me-3 h-5 w-5" />
+                  {t(item.label)}
                 </Button>
               );
             })}
@@ -109,12 +128,35 @@ export function MobileDrawer() {
                   className="w-full justify-start min-h-[44px] touch-manipulation"
                   onClick={() => handleNavigation("/admin")}
                 >
-                  <Settings className="mr-3 h-5 w-5" />
-                  Admin Panel
+                  <Settings className="me-3 h-5 w-5" />
+                  {t("nav.adminPanel")}
                 </Button>
               </>
             )}
 
+            {/* Accounts */}
+            <div className="my-2 border-t" />
+            <p className="px-3 pt-1 text-xs font-medium text-muted-foreground">{t("nav.switchAccount")}</p>
+            {otherAccounts.map((account) => (
+              <Button
+                key={account.id}
+                variant="ghost"
+                className="w-full justify-start min-h-[44px] touch-manipulation"
+                onClick={() => openSwitchDialog(account)}
+              >
+                <Users className="me-3 h-5 w-5" />
+                <span className="truncate">{account.name || account.email_id}</span>
+              </Button>
+            ))}
+            <Button
+              variant="ghost"
+              className="w-full justify-start min-h-[44px] touch-manipulation"
+              onClick={() => openSwitchDialog("new")}
+            >
+              <UserPlus className="me-3 h-5 w-5" />
+              {t("nav.addAccount")}
+            </Button>
+
             {/* Help & Support */}
             <div className="my-2 border-t" />
             <Button
@@ -125,8 +167,8 @@ export function MobileDrawer() {
                 window.open("https://support.rationsmart.com", "_blank");
               }}
             >
-              <HelpCircle className="mr-3 h-5 w-5" />
-              Help & Support
+              <HelpCircle className="me-3 h-5 w-5" />
+              {t("nav.help")}
             </Button>
           </nav>
 
@@ -137,12 +179,14 @@ export function MobileDrawer() {
               className="w-full justify-start min-h-[44px] touch-manipulation text-destructive hover:text-destructive"
               onClick={handleLogout}
             >
-              <LogOut className="mr-3 h-5 w-5" />
-              Logout
+              <LogOut className="me-3 h-5 w-5 rtl:-scale-x-100" />
+              {t("nav.logout")}
             </Button>
           </div>
         </div>
       </SheetContent>
+      {/* Outside SheetContent so it stays mounted once the drawer closes */}
+      <SwitchAccountDialog target={switchTarget} onClose={() => setSwitchTarget(null)} />
     </Sheet>
   );
 }
@@ -4,18 +4,20 @@ import { usePathname, useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Menu, Home, FileText, User, MessageSquare, Settings, HelpCircle, FileText as TermsIcon, LogOut } from "lucide-react";
 import { useAuthStore } from "@/store/auth-store";
+import { useTranslation } from "@/hooks/use-translation";
 
 const navItems = [
-  { href: "/cattle-info", label: "Cattle Info", icon: Home },
-  { href: "/reports", label: "Reports", icon: FileText },
-  { href: "/feedback", label: "Feedback", icon: MessageSquare },
-  { href: "/profile", label: "Profile", icon: User },
-];
+  { href: "/cattle-info", label: "nav.cattleInfo", icon: Home },
+  { href: "/reports", label: "nav.reports", icon: FileText },
+  { href: "/feedback", label: "nav.feedback", icon: MessageSquare },
+  { href: "/profile", label: "nav.profile", icon: User },
+] as const;
 
 export function MobileNav() {
   const pathname = usePathname();
   const router = useRouter();
   const { user } = useAuthStore();
+  const { t } = useTranslation();
 
   // Don't show on auth pages
   if (pathname?.startsWith("/login") || pathname?.startsWith("/register") || pathname?.startsWith("/welcome") || pathname?.startsWith("/splash") || pathname?.startsWith("/forgot-pin")) {
@@ -23,7 +25,7 @@ export function MobileNav() {
   }
 
   return (
-    <div className="fixed bottom-0 left-0 right-0 z-50 border-t bg-background lg:hidden safe-area-inset-bottom">
+    <div className="fixed bottom-0 start-0 end-0 z-50 border-t bg-background lg:hidden safe-area-inset-bottom">
       <div className="flex h-16 items-center justify-around px-2">
         {navItems.map((item) => {
           const Icon = item.icon;
@@ -35,10 +37,10 @@ export function MobileNav() {
               size="icon"
               className="flex flex-col h-auto py-2 min-h-[44px] min-w-[44px] touch-manipulation"
               onClick={() => router.push(item.href)}
-              aria-label={item.label}
+              aria-label={t(item.label)}
             >
               <Icon className="h-5 w-5" />
-              <span className="text-xs mt-1">{item.label}</span>
+              <span className="text-xs mt-1">{t(item.label)}</span>
             </Button>
           );
         })}
@@ -48,10 +50,10 @@ export function MobileNav() {
             size="icon"
             className="flex flex-col h-auto py-2 min-h-[44px] min-w-[44px] touch-manipulation"
             onClick={() => router.push("/admin")}
-            aria-label="Admin"
+            aria-label={t("nav.admin")}
           >
             <Settings className="h-5 w-5" />
-            <span className="text-xs mt-1">Admin</span>
+            <span className="text-xs mt-1">{t("nav.admin")}</span>
           </Button>
         )}
       </div>
@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { isQueueSupported, processQueue } from "@/lib/offline/recommendation-queue";
+import { useAuthStore } from "@/store/auth-store";
+import { useTranslation } from "@/hooks/use-translation";
+import { toast } from "sonner";
+
+/**
+ * Replays queued recommendation requests whenever the app starts or
+ * the device comes back online. Renders nothing.
+ */
+export function OfflineSync() {
+  const router = useRouter();
+  const userId = useAuthStore((state) => state.user?.id);
+  const { t } = useTranslation();
+
+  useEffect(() => {
+    if (!isQueueSupported() || !userId) return;
+
+    const sync = async () => {
+      if (!navigator.onLine) return;
+      try {
+        const completed = await processQueue(userId);
+        completed.forEach((job) => {
+          toast.success(t("offline.ready"), {
+            action: {
+              label: t("offline.readyAction"),
+              onClick: () => router.push(`/recommendation?job=${job.id}`),
+            },
+          });
+        });
+      } catch (error) {
+        console.error("Offline sync failed:", error);
+      }
+    };
+
+    sync();
+    window.addEventListener("online", sync);
+    return () => window.removeEventListener("online", sync);
+  }, [router, t, userId]);
+
+  return null;
+}
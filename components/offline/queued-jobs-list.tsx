@@ -0,0 +1,132 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import { useTranslation } from "@/hooks/use-translation";
+import { useAuthStore } from "@/store/auth-store";
+import { deleteQueuedJob, processQueue, retryQueuedJob } from "@/lib/offline/recommendation-queue";
+import { QueuedJobStatus } from "@/lib/types";
+import { MessageKey } from "@/lib/i18n";
+import { toast } from "sonner";
+import { Eye, Loader2, RotateCcw, Trash2, WifiOff } from "lucide-react";
+
+const statusLabels: Record<QueuedJobStatus, MessageKey> = {
+  pending: "offline.status.pending",
+  processing: "offline.status.processing",
+  complete: "offline.status.complete",
+  failed: "offline.status.failed",
+};
+
+const statusVariants: Record<QueuedJobStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  processing: "secondary",
+  complete: "default",
+  failed: "destructive",
+};
+
+export function QueuedJobsList() {
+  const router = useRouter();
+  const { jobs, isOnline } = useOfflineQueue();
+  const userId = useAuthStore((state) => state.user?.id);
+  const { t, formatDate } = useTranslation();
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  const handleRetry = async (id: string) => {
+    try {
+      await retryQueuedJob(id);
+      if (navigator.onLine && userId) await processQueue(userId);
+    } catch (error: any) {
+      toast.error(error.message || t("offline.retryFailed"));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteQueuedJob(id);
+    } catch (error: any) {
+      toast.error(error.message || t("offline.removeFailed"));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("offline.title")}</CardTitle>
+        <CardDescription>{isOnline ? t("offline.online") : t("offline.offline")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {jobs.map((job) => (
+          <div
+            key={job.id}
+            className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-md border p-3"
+          >
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <p className="font-medium truncate">
+                  {t("offline.jobTitle", {
+                    breed: job.request.cattle_info.breed || t("offline.recommendation"),
+                    count: job.request.feed_selection.length,
+                  })}
+                </p>
+                <Badge variant={statusVariants[job.status]} className="shrink-0">
+                  {job.status === "processing" && <Loader2 className="h-3 w-3 me-1 animate-spin" />}
+                  {job.status === "pending" && !isOnline && <WifiOff className="h-3 w-3 me-1" />}
+                  {t(statusLabels[job.status])}
+                </Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {t("offline.queuedAt", {
+                  date: formatDate(job.created_at, { dateStyle: "medium", timeStyle: "short" }),
+                })}
+              </p>
+              {job.error && <p className="text-sm text-destructive">{job.error}</p>}
+            </div>
+            <div className="flex gap-2">
+              {job.status === "complete" && (
+                <Button
+                  variant="default"
+                  size="icon"
+                  onClick={() => router.push(`/recommendation?job=${job.id}`)}
+                  title={t("offline.view")}
+                  className="min-h-[44px] min-w-[44px] touch-manipulation"
+                  aria-label={t("offline.view")}
+                >
+                  <Eye className="h-4 w-4" />
+                </Button>
+              )}
+              {job.status === "failed" && (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => handleRetry(job.id)}
+                  title={t("offline.retry")}
+                  className="min-h-[44px] min-w-[44px] touch-manipulation"
+                  aria-label={t("offline.retry")}
+                >
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => handleDelete(job.id)}
+                disabled={job.status === "processing"}
+                title={t("offline.remove")}
+                className="min-h-[44px] min-w-[44px] touch-manipulation"
+                aria-label={t("offline.remove")}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { authApi } from "@/lib/api/endpoints";
+import { Translate } from "@/lib/i18n";
+import { useTranslation } from "@/hooks/use-translation";
+import { toast } from "sonner";
+
+const createChangePinSchema = (t: Translate) => {
+  const pinSchema = z
+    .string()
+    .length(4, t("validation.pinLength"))
+    .regex(/^\d+$/, t("validation.pinDigits"));
+
+  return z
+    .object({
+      current_pin: pinSchema,
+      new_pin: pinSchema,
+      confirm_pin: z.string(),
+    })
+    .refine((data) => data.new_pin === data.confirm_pin, {
+      message: t("validation.pinsMismatch"),
+      path: ["confirm_pin"],
+    })
+    .refine((data) => data.new_pin !== data.current_pin, {
+      message: t("validation.pinUnchanged"),
+      path: ["new_pin"],
+    });
+};
+
+type ChangePinFormValues = z.infer<ReturnType<typeof createChangePinSchema>>;
+
+const pinFields = [
+  { name: "current_pin", label: "profile.changePin.current", placeholder: "profile.changePin.currentPlaceholder" },
+  { name: "new_pin", label: "forgotPin.newPin", placeholder: "forgotPin.newPinPlaceholder" },
+  { name: "confirm_pin", label: "forgotPin.confirmPin", placeholder: "forgotPin.confirmPinPlaceholder" },
+] as const;
+
+export function ChangePinForm() {
+  const [isLoading, setIsLoading] = useState(false);
+  const { t } = useTranslation();
+  const changePinSchema = useMemo(() => createChangePinSchema(t), [t]);
+
+  const form = useForm<ChangePinFormValues>({
+    resolver: zodResolver(changePinSchema),
+    defaultValues: {
+      current_pin: "",
+      new_pin: "",
+      confirm_pin: "",
+    },
+  });
+
+  const onSubmit = async (data: ChangePinFormValues) => {
+    setIsLoading(true);
+    try {
+      const response = await authApi.changePin({
+        current_pin: data.current_pin,
+        new_pin: data.new_pin,
+      });
+      if (response.success) {
+        toast.success(response.message || t("profile.changePin.success"));
+        form.reset();
+      } else {
+        toast.error(response.message || t("profile.changePin.failed"));
+      }
+    } catch (error: any) {
+      toast.error(error.message || t("profile.changePin.failed"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        {pinFields.map(({ name, label, placeholder }) => (
+          <FormField
+            key={name}
+            control={form.control}
+            name={name}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t(label)}</FormLabel>
+                <FormControl>
+                  <Input
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete={name === "current_pin" ? "current-password" : "new-password"}
+                    placeholder={t(placeholder)}
+                    maxLength={4}
+                    {...field}
+                    disabled={isLoading}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+        <Button type="submit" disabled={isLoading}>
+          {isLoading ? t("profile.changePin.submitting") : t("profile.changePin.submit")}
+        </Button>
+      </form>
+    </Form>
+  );
+}
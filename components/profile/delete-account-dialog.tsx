@@ -0,0 +1,113 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { authApi } from "@/lib/api/endpoints";
+import { clearUserStorage } from "@/lib/user-storage";
+import { useLogout } from "@/hooks/use-logout";
+import { useAppLockStore } from "@/store/app-lock-store";
+import { useAuthStore } from "@/store/auth-store";
+import { useTranslation } from "@/hooks/use-translation";
+import { toast } from "sonner";
+import { Loader2, Trash2 } from "lucide-react";
+
+export function DeleteAccountDialog() {
+  const [open, setOpen] = useState(false);
+  const [pin, setPin] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+  const handleLogout = useLogout();
+  const { user, removeAccount } = useAuthStore();
+  const setPasskey = useAppLockStore((state) => state.setPasskey);
+  const { t } = useTranslation();
+
+  const isPinValid = /^\d{4}$/.test(pin);
+
+  const handleOpenChange = (next: boolean) => {
+    if (isDeleting) return;
+    setOpen(next);
+    if (!next) setPin("");
+  };
+
+  const handleDelete = async (event: React.MouseEvent) => {
+    // Keep the dialog open until the request settles
+    event.preventDefault();
+    if (!isPinValid) return;
+
+    setIsDeleting(true);
+    try {
+      const response = await authApi.deleteAccount({ pin });
+      if (response.success) {
+        toast.success(response.message || t("profile.delete.success"));
+        setOpen(false);
+        // Nothing of a deleted account stays on the device or in the switcher
+        if (user) {
+          removeAccount(user.id);
+          clearUserStorage(user.id);
+          setPasskey(user.id, null);
+        }
+        await handleLogout();
+        return;
+      }
+      toast.error(response.message || t("profile.delete.failed"));
+    } catch (error: any) {
+      toast.error(error.message || t("profile.delete.failed"));
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="destructive" onClick={() => setOpen(true)}>
+        <Trash2 className="me-2 h-4 w-4" />
+        {t("profile.delete.button")}
+      </Button>
+
+      <AlertDialog open={open} onOpenChange={handleOpenChange}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("profile.delete.confirmTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>{t("profile.delete.confirmDescription")}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="delete-account-pin">{t("profile.delete.pinLabel")}</Label>
+            <Input
+              id="delete-account-pin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="current-password"
+              placeholder={t("profile.delete.pinPlaceholder")}
+              maxLength={4}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+              disabled={isDeleting}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isDeleting}>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={!isPinValid || isDeleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isDeleting && <Loader2 className="me-2 h-4 w-4 animate-spin" />}
+              {t("profile.delete.submit")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { authApi, countryApi } from "@/lib/api/endpoints";
+import { clearFeedCatalogue } from "@/lib/feed-catalogue";
+import { useAuthStore } from "@/store/auth-store";
+import { toast } from "sonner";
+import { Country, User } from "@/lib/types";
+import { Translate } from "@/lib/i18n";
+import { useTranslation } from "@/hooks/use-translation";
+
+const createProfileSchema = (t: Translate) =>
+  z.object({
+    name: z.string().trim().min(1, t("validation.nameRequired")),
+    country_id: z.string().min(1, t("validation.countryRequired")),
+  });
+
+type ProfileFormValues = z.infer<ReturnType<typeof createProfileSchema>>;
+
+interface ProfileDetailsFormProps {
+  user: User;
+}
+
+export function ProfileDetailsForm({ user }: ProfileDetailsFormProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [countries, setCountries] = useState<Country[]>([]);
+  const [loadingCountries, setLoadingCountries] = useState(true);
+  const { setUser } = useAuthStore();
+  const { t } = useTranslation();
+  const profileSchema = useMemo(() => createProfileSchema(t), [t]);
+
+  const currentCountryId = user.country_id || user.country?.id || "";
+
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: {
+      name: user.name || "",
+      country_id: currentCountryId,
+    },
+  });
+
+  useEffect(() => {
+    const fetchCountries = async () => {
+      try {
+        const data = await countryApi.getAllCountries();
+        setCountries(data.filter((c) => c.is_active));
+      } catch {
+        toast.error(t("register.loadCountriesFailed"));
+      } finally {
+        setLoadingCountries(false);
+      }
+    };
+    fetchCountries();
+  }, [t]);
+
+  const onSubmit = async (data: ProfileFormValues) => {
+    setIsLoading(true);
+    try {
+      const response = await authApi.updateProfile(data);
+      if (!response.success) {
+        toast.error(response.message || t("profile.updateFailed"));
+        return;
+      }
+
+      const countryChanged = data.country_id !== currentCountryId;
+      const updatedUser = response.user || {
+        ...user,
+        name: data.name,
+        country_id: data.country_id,
+        country: countries.find((c) => c.id === data.country_id) || user.country,
+      };
+      setUser(updatedUser);
+      form.reset({ name: updatedUser.name || "", country_id: data.country_id });
+
+      if (countryChanged) {
+        // Feeds and prices are per country - reload the catalogue on next use
+        clearFeedCatalogue(currentCountryId);
+        toast.success(t("profile.updatedCountry"));
+      } else {
+        toast.success(t("profile.updated"));
+      }
+    } catch (error: any) {
+      toast.error(error.message || t("profile.updateFailed"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t("register.name")}</FormLabel>
+              <FormControl>
+                <Input placeholder={t("register.namePlaceholder")} {...field} disabled={isLoading} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid gap-2">
+          <Label htmlFor="profile-email">{t("auth.email")}</Label>
+          <Input id="profile-email" value={user.email_id || ""} disabled readOnly />
+        </div>
+        <FormField
+          control={form.control}
+          name="country_id"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t("register.country")}</FormLabel>
+              <Select
+                onValueChange={field.onChange}
+                value={field.value}
+                disabled={isLoading || loadingCountries}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder={user.country?.name || t("register.countryPlaceholder")} />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {countries.map((country) => (
+                    <SelectItem key={country.id} value={country.id}>
+                      {country.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" disabled={isLoading || !form.formState.isDirty}>
+          {isLoading ? t("profile.saving") : t("profile.save")}
+        </Button>
+      </form>
+    </Form>
+  );
+}
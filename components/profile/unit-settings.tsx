@@ -0,0 +1,54 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useTranslation } from "@/hooks/use-translation";
+import { useUnitStore } from "@/store/unit-store";
+import { MilkMeasure, UnitSystem } from "@/lib/units";
+
+export function UnitSettings() {
+  const { t } = useTranslation();
+  const { units, setUnits } = useUnitStore();
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <div className="space-y-2">
+        <Label htmlFor="unit-system">{t("units.system")}</Label>
+        <Select
+          value={units.system}
+          onValueChange={(value) => setUnits({ system: value as UnitSystem })}
+        >
+          <SelectTrigger id="unit-system">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="metric">{t("units.metric")}</SelectItem>
+            <SelectItem value="imperial">{t("units.imperial")}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="milk-measure">{t("units.milk")}</Label>
+        <Select
+          value={units.milk}
+          onValueChange={(value) => setUnits({ milk: value as MilkMeasure })}
+        >
+          <SelectTrigger id="milk-measure">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="volume">{t("units.milkVolume")}</SelectItem>
+            <SelectItem value="mass">{t("units.milkMass")}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
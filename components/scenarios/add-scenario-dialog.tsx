@@ -0,0 +1,105 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { FeedEvaluationResponse, FeedRecommendationResponse } from "@/lib/types";
+import { MAX_SCENARIOS, useScenarioStore } from "@/store/scenario-store";
+import { useCattleInfoStore } from "@/store/cattle-info-store";
+import { useFeedStore } from "@/store/feed-store";
+import { useTranslation } from "@/hooks/use-translation";
+import { toast } from "sonner";
+import { Columns3 } from "lucide-react";
+
+interface AddScenarioDialogProps {
+  recommendation: FeedRecommendationResponse;
+  evaluation?: FeedEvaluationResponse | null;
+}
+
+export function AddScenarioDialog({ recommendation, evaluation }: AddScenarioDialogProps) {
+  const router = useRouter();
+  const { scenarios, addScenario } = useScenarioStore();
+  const { cattleInfo } = useCattleInfoStore();
+  const { selectedFeeds } = useFeedStore();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const { t } = useTranslation();
+
+  const alreadyAdded = scenarios.some(
+    (s) => s.recommendation.report_info?.report_id === recommendation.report_info?.report_id
+  );
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setName(t("compare.add.defaultName", { number: scenarios.length + 1 }));
+    }
+    setOpen(isOpen);
+  };
+
+  const handleAdd = () => {
+    if (!name.trim()) {
+      toast.error(t("compare.add.nameRequired"));
+      return;
+    }
+    addScenario({
+      name: name.trim(),
+      recommendation,
+      evaluation: evaluation || undefined,
+      cattle_info: { ...cattleInfo },
+      feeds: selectedFeeds.map((f) => ({ ...f })),
+    });
+    toast.success(t("compare.add.added", { name: name.trim() }), {
+      action: { label: t("compare.add.viewAction"), onClick: () => router.push("/compare") },
+    });
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex-1" disabled={alreadyAdded}>
+          <Columns3 className="h-4 w-4 me-2" />
+          {alreadyAdded ? t("compare.add.inComparison") : t("compare.add.button")}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="w-[calc(100%-2rem)] sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t("compare.add.title")}</DialogTitle>
+          <DialogDescription>{t("compare.add.description")}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="scenario-name">{t("compare.add.name")}</Label>
+          <Input
+            id="scenario-name"
+            placeholder={t("compare.add.namePlaceholder")}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={40}
+          />
+          {scenarios.length >= MAX_SCENARIOS && (
+            <p className="text-sm text-muted-foreground">
+              {t("compare.add.limit", { max: MAX_SCENARIOS, name: scenarios[0].name })}
+            </p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            {t("common.cancel")}
+          </Button>
+          <Button onClick={handleAdd}>{t("compare.add.submit")}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
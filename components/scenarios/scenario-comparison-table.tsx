@@ -0,0 +1,269 @@
+"use client";
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useUnits } from "@/hooks/use-units";
+import { useTranslation } from "@/hooks/use-translation";
+import { Translate } from "@/lib/i18n";
+import { FormulationScenario } from "@/lib/types";
+import { dietLineFeedId } from "@/lib/sensitivity";
+import { milkKgToLitres } from "@/lib/units";
+import { cn } from "@/lib/utils";
+import { useFeedStore } from "@/store/feed-store";
+
+type Direction = "lower" | "higher" | "neutral";
+
+interface MetricRow {
+  label: string;
+  unit?: string;
+  direction: Direction;
+  value: (scenario: FormulationScenario) => number | undefined;
+  format?: (value: number) => string;
+}
+
+interface ScenarioComparisonTableProps {
+  scenarios: FormulationScenario[];
+  formatCurrency: (amount: number) => string;
+}
+
+// Summary values arrive as strings such as "18.5 kg" - keep the leading number
+const toNumber = (value: unknown): number | undefined => {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value ?? ""));
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const dailyCost = (s: FormulationScenario) =>
+  toNumber(s.recommendation.total_diet_cost ?? s.recommendation.solution_summary?.daily_cost);
+
+// Milk yield in litres/day: the summary reports kg/day, the animal's own figure litres
+const milkLitres = (s: FormulationScenario) => {
+  const summaryKg = toNumber(s.recommendation.solution_summary?.milk_production);
+  return summaryKg !== undefined
+    ? milkKgToLitres(summaryKg)
+    : toNumber(s.recommendation.animal_information?.milk_production);
+};
+
+function buildMetricRows(
+  t: Translate,
+  formatCurrency: (amount: number) => string,
+  units: ReturnType<typeof useUnits>
+): MetricRow[] {
+  // Milk and intake are shown in the user's units, converted from the canonical litres and kg
+  const milkYield = (s: FormulationScenario) => {
+    const litres = milkLitres(s);
+    return litres === undefined ? undefined : units.fromCanonical("milk", litres);
+  };
+  return [
+    { label: t("compare.table.dailyCost"), direction: "lower", value: dailyCost, format: formatCurrency },
+    {
+      label: t("compare.table.costPerMilk", { unit: units.symbol("milk") }),
+      direction: "lower",
+      value: (s) => {
+        const cost = dailyCost(s);
+        const milk = milkYield(s);
+        return cost !== undefined && milk ? cost / milk : undefined;
+      },
+      format: formatCurrency,
+    },
+    {
+      label: t("compare.table.milkProduction"),
+      unit: t("compare.table.perDay", { unit: units.symbol("milk") }),
+      direction: "higher",
+      value: milkYield,
+    },
+    {
+      label: t("compare.table.dryMatterIntake"),
+      unit: t("compare.table.perDay", { unit: units.symbol("weight") }),
+      direction: "neutral",
+      value: (s) => {
+        const kg = toNumber(s.recommendation.solution_summary?.dry_matter_intake);
+        return kg === undefined ? undefined : units.fromCanonical("weight", kg);
+      },
+    },
+    {
+      label: t("compare.table.methane"),
+      unit: "g/day",
+      direction: "lower",
+      value: (s) => toNumber(s.recommendation.environmental_impact?.methane_production_grams_per_day),
+    },
+    {
+      label: t("compare.table.methaneYield"),
+      unit: "g/kg DMI",
+      direction: "lower",
+      value: (s) => toNumber(s.recommendation.environmental_impact?.methane_yield_grams_per_kg_dmi),
+    },
+    {
+      label: t("compare.table.methaneIntensity"),
+      unit: "g/kg ECM",
+      direction: "lower",
+      value: (s) => toNumber(s.recommendation.environmental_impact?.methane_intensity_grams_per_kg_ecm),
+    },
+  ];
+}
+
+function bestValue(values: (number | undefined)[], direction: Direction) {
+  const defined = values.filter((v): v is number => v !== undefined);
+  // Nothing to highlight when there is no direction or no difference
+  if (direction === "neutral" || defined.length < 2 || new Set(defined).size === 1) {
+    return undefined;
+  }
+  return direction === "lower" ? Math.min(...defined) : Math.max(...defined);
+}
+
+interface DeltaLabelProps {
+  value: number;
+  baseline: number;
+  direction: Direction;
+  formatNumber: ReturnType<typeof useTranslation>["formatNumber"];
+}
+
+function DeltaLabel({ value, baseline, direction, formatNumber }: DeltaLabelProps) {
+  if (!baseline || value === baseline) return null;
+  const percent = ((value - baseline) / Math.abs(baseline)) * 100;
+  const better = direction === "lower" ? percent < 0 : percent > 0;
+  return (
+    <span
+      className={cn(
+        "block text-xs",
+        direction === "neutral"
+          ? "text-muted-foreground"
+          : better
+            ? "text-green-600"
+            : "text-red-600"
+      )}
+    >
+      {formatNumber(percent / 100, {
+        style: "percent",
+        signDisplay: "exceptZero",
+        minimumFractionDigits: 1,
+        maximumFractionDigits: 1,
+      })}
+    </span>
+  );
+}
+
+/**
+ * Scenarios side by side. The first scenario is the baseline that the
+ * others are compared against; the best value in each row is highlighted.
+ */
+export function ScenarioComparisonTable({ scenarios, formatCurrency }: ScenarioComparisonTableProps) {
+  const units = useUnits();
+  const { t, formatNumber } = useTranslation();
+  const { feedDetails } = useFeedStore();
+  const metricRows = buildMetricRows(t, formatCurrency, units);
+  const formatValue = (value: number) => formatNumber(value, { maximumFractionDigits: 2 });
+  const formatQuantity = (value: number) =>
+    formatNumber(value, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+  // Diet lines are matched across scenarios by feed id, as different feeds can share
+  // a name; a line that cannot be traced to a requested feed keeps a row of its own
+  const diets = scenarios.map((scenario) => {
+    const feedNames = Object.fromEntries(
+      scenario.feeds.flatMap((f) => (feedDetails[f.feed_id] ? [[f.feed_id, feedDetails[f.feed_id].fd_name]] : []))
+    );
+    return (scenario.recommendation.least_cost_diet || []).map((line) => {
+      const feedId = dietLineFeedId(line, feedNames);
+      return {
+        key: feedId ?? `name:${line.feed_name}`,
+        name: (feedId && feedDetails[feedId]?.fd_name) || line.feed_name,
+        kg: line.quantity_kg_per_day,
+      };
+    });
+  });
+  const dietRows = new Map<string, string>();
+  diets.flat().forEach((line) => {
+    if (!dietRows.has(line.key)) dietRows.set(line.key, line.name);
+  });
+  const quantityOf = (scenarioIndex: number, key: string) => {
+    const kg = diets[scenarioIndex].find((line) => line.key === key)?.kg;
+    return kg === undefined ? undefined : units.fromCanonical("weight", kg);
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="min-w-[140px]">{t("compare.table.metric")}</TableHead>
+            {scenarios.map((scenario, index) => (
+              <TableHead key={scenario.id} className="text-end min-w-[120px]">
+                {scenario.name}
+                {index === 0 && scenarios.length > 1 && (
+                  <span className="block text-xs font-normal text-muted-foreground">{t("compare.table.baseline")}</span>
+                )}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {metricRows.map((row) => {
+            const values = scenarios.map(row.value);
+            const best = bestValue(values, row.direction);
+            const baselineValue = values[0];
+            return (
+              <TableRow key={row.label}>
+                <TableCell className="font-medium">
+                  {row.label}
+                  {row.unit && <span className="block text-xs text-muted-foreground">{row.unit}</span>}
+                </TableCell>
+                {values.map((value, index) => (
+                  <TableCell
+                    key={scenarios[index].id}
+                    className={cn(
+                      "text-end",
+                      value !== undefined && value === best && "font-semibold text-green-600 bg-green-50 dark:bg-green-950/30"
+                    )}
+                  >
+                    {value === undefined ? t("common.notAvailable") : (row.format || formatValue)(value)}
+                    {index > 0 && value !== undefined && baselineValue !== undefined && (
+                      <DeltaLabel
+                        value={value}
+                        baseline={baselineValue}
+                        direction={row.direction}
+                        formatNumber={formatNumber}
+                      />
+                    )}
+                  </TableCell>
+                ))}
+              </TableRow>
+            );
+          })}
+
+          {dietRows.size > 0 && (
+            <TableRow className="bg-muted/50 hover:bg-muted/50">
+              <TableCell colSpan={scenarios.length + 1} className="text-xs font-semibold uppercase text-muted-foreground">
+                {t("compare.table.leastCostDiet", { unit: units.symbol("weight") })}
+              </TableCell>
+            </TableRow>
+          )}
+          {Array.from(dietRows, ([key, name]) => {
+            const baselineQuantity = quantityOf(0, key);
+            return (
+              <TableRow key={key}>
+                <TableCell>{name}</TableCell>
+                {scenarios.map((scenario, index) => {
+                  const quantity = quantityOf(index, key);
+                  const differs = index > 0 && quantity?.toFixed(2) !== baselineQuantity?.toFixed(2);
+                  return (
+                    <TableCell
+                      key={scenario.id}
+                      className={cn("text-end", differs && "font-semibold bg-amber-50 dark:bg-amber-950/30")}
+                    >
+                      {quantity === undefined ? "—" : formatQuantity(quantity)}
+                    </TableCell>
+                  );
+                })}
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,296 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { SensitivityChart } from "@/components/sensitivity/sensitivity-chart";
+import {
+  SensitivityPoint,
+  buildPriceSteps,
+  dietLineFeedId,
+  findBreakEven,
+  isIncluded,
+  runPriceSweep,
+} from "@/lib/sensitivity";
+import { useTranslation } from "@/hooks/use-translation";
+import { useUnits } from "@/hooks/use-units";
+import { FeedRecommendationRequest, FeedRecommendationResponse } from "@/lib/types";
+import { useAuthStore } from "@/store/auth-store";
+import { useFeedStore } from "@/store/feed-store";
+import { toast } from "sonner";
+import { Loader2, TrendingUp, X } from "lucide-react";
+
+// Each run is a full optimisation on the backend - keep the load modest
+const SWEEP_CONCURRENCY = 2;
+const MAX_STEPS = 12;
+
+interface PriceSensitivityPanelProps {
+  recommendation: FeedRecommendationResponse;
+  // Request the recommendation was made from; the sweep varies prices in this
+  request: FeedRecommendationRequest;
+  formatCurrency: (amount: number) => string;
+}
+
+export function PriceSensitivityPanel({ recommendation, request, formatCurrency }: PriceSensitivityPanelProps) {
+  const { user } = useAuthStore();
+  const { feedDetails } = useFeedStore();
+  const units = useUnits();
+  const { t } = useTranslation();
+
+  const feedNames = Object.fromEntries(
+    request.feed_selection.flatMap((f) => (feedDetails[f.feed_id] ? [[f.feed_id, feedDetails[f.feed_id].fd_name]] : []))
+  );
+
+  // Only feeds in the recommended diet that can be traced to a requested feed
+  const dietFeeds = (recommendation.least_cost_diet || []).flatMap((line) => {
+    const feedId = dietLineFeedId(line, feedNames);
+    const requested = request.feed_selection.find((f) => f.feed_id === feedId);
+    return requested ? [{ ...requested, name: line.feed_name }] : [];
+  });
+
+  const [feedId, setFeedId] = useState(dietFeeds[0]?.feed_id || "");
+  const [minPercent, setMinPercent] = useState("-30");
+  const [maxPercent, setMaxPercent] = useState("50");
+  const [steps, setSteps] = useState("6");
+  const [points, setPoints] = useState<SensitivityPoint[]>([]);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [running, setRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop any sweep still in flight when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const feed = dietFeeds.find((f) => f.feed_id === feedId);
+
+  if (dietFeeds.length === 0 || !user) {
+    return null;
+  }
+
+  const handleRun = async () => {
+    if (!feed) return;
+    const min = parseFloat(minPercent);
+    const max = parseFloat(maxPercent);
+    const count = parseInt(steps, 10);
+    if (!Number.isFinite(min) || !Number.isFinite(max) || min >= max || min <= -100) {
+      toast.error(t("sensitivity.invalidRange"));
+      return;
+    }
+    if (!(count >= 2 && count <= MAX_STEPS)) {
+      toast.error(t("sensitivity.invalidSteps", { min: 2, max: MAX_STEPS }));
+      return;
+    }
+
+    const prices = buildPriceSteps(feed.price_per_kg, min, max, count);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setPoints([]);
+    setProgress({ done: 0, total: prices.length });
+    setRunning(true);
+
+    try {
+      const result = await runPriceSweep({
+        request: { ...request, simulation_id: `sens_${Date.now()}` },
+        feedId: feed.feed_id,
+        feedNames,
+        prices,
+        concurrency: SWEEP_CONCURRENCY,
+        signal: controller.signal,
+        onPoint: (point) => {
+          setPoints((current) => [...current, point].sort((a, b) => a.price - b.price));
+          setProgress((current) => ({ ...current, done: current.done + 1 }));
+        },
+      });
+      if (!controller.signal.aborted && result.every((p) => p.error)) {
+        toast.error(t("sensitivity.failedRetry"));
+      }
+    } catch (error: any) {
+      if (!controller.signal.aborted) {
+        toast.error(error.message || t("sensitivity.failed"));
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setRunning(false);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setRunning(false);
+    toast.info(t("sensitivity.cancelled"));
+  };
+
+  const breakEven = findBreakEven(points);
+  const formatKg = (value: number) => units.format("weight", value);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <TrendingUp className="h-5 w-5" />
+          {t("sensitivity.title")}
+        </CardTitle>
+        <CardDescription>{t("sensitivity.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-4">
+          <div className="space-y-2 sm:col-span-4">
+            <Label>{t("sensitivity.feed")}</Label>
+            <Select value={feedId} onValueChange={setFeedId} disabled={running}>
+              <SelectTrigger>
+                <SelectValue placeholder={t("sensitivity.selectFeed")} />
+              </SelectTrigger>
+              <SelectContent>
+                {dietFeeds.map((f) => (
+                  <SelectItem key={f.feed_id} value={f.feed_id}>
+                    {t("sensitivity.feedOption", { name: f.name, price: formatCurrency(f.price_per_kg) })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sweep-min">{t("sensitivity.from")}</Label>
+            <Input
+              id="sweep-min"
+              type="number"
+              step="5"
+              value={minPercent}
+              onChange={(e) => setMinPercent(e.target.value)}
+              disabled={running}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sweep-max">{t("sensitivity.to")}</Label>
+            <Input
+              id="sweep-max"
+              type="number"
+              step="5"
+              value={maxPercent}
+              onChange={(e) => setMaxPercent(e.target.value)}
+              disabled={running}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sweep-steps">{t("sensitivity.steps")}</Label>
+            <Input
+              id="sweep-steps"
+              type="number"
+              min={2}
+              max={MAX_STEPS}
+              value={steps}
+              onChange={(e) => setSteps(e.target.value)}
+              disabled={running}
+            />
+          </div>
+          <div className="flex items-end">
+            {running ? (
+              <Button variant="outline" onClick={handleCancel} className="w-full">
+                <X className="h-4 w-4 me-2" />
+                {t("common.cancel")}
+              </Button>
+            ) : (
+              <Button onClick={handleRun} disabled={!feed} className="w-full">
+                {t("sensitivity.run")}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {running && (
+          <p className="text-sm text-muted-foreground flex items-center gap-2">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {t("sensitivity.running", { done: progress.done, total: progress.total })}
+          </p>
+        )}
+
+        {points.length > 0 && feed && (
+          <>
+            <div className="p-3 bg-muted rounded-lg text-sm">
+              {breakEven ? (
+                <p className="font-medium">
+                  {t("sensitivity.breakEven", {
+                    name: feed.name,
+                    low: formatCurrency(breakEven.lastIncludedPrice),
+                    high: formatCurrency(breakEven.firstExcludedPrice),
+                  })}
+                </p>
+              ) : (
+                <p className="text-muted-foreground">
+                  {points.every(isIncluded)
+                    ? t("sensitivity.staysIncluded", { name: feed.name })
+                    : t("sensitivity.noBreakEven")}
+                </p>
+              )}
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <SensitivityChart
+                title={t("sensitivity.inclusionChart", { unit: units.symbol("weight") })}
+                points={points}
+                value={(p) => p.inclusionKg}
+                formatPrice={formatCurrency}
+                formatValue={formatKg}
+                basePrice={feed.price_per_kg}
+              />
+              <SensitivityChart
+                title={t("sensitivity.dailyCostChart")}
+                points={points}
+                value={(p) => p.dailyCost}
+                formatPrice={formatCurrency}
+                formatValue={formatCurrency}
+                basePrice={feed.price_per_kg}
+              />
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("sensitivity.pricePerKg")}</TableHead>
+                  <TableHead className="text-end">{t("sensitivity.inclusion")}</TableHead>
+                  <TableHead className="text-end">{t("recommendation.dailyCost")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {points.map((point, index) => (
+                  <TableRow key={index}>
+                    <TableCell>{formatCurrency(point.price)}</TableCell>
+                    {point.error ? (
+                      <TableCell colSpan={2} className="text-end text-destructive">
+                        {point.error}
+                      </TableCell>
+                    ) : (
+                      <>
+                        <TableCell className="text-end">{formatKg(point.inclusionKg ?? 0)}</TableCell>
+                        <TableCell className="text-end">{formatCurrency(point.dailyCost ?? NaN)}</TableCell>
+                      </>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { SensitivityPoint, isIncluded } from "@/lib/sensitivity";
+
+interface SensitivityChartProps {
+  title: string;
+  points: SensitivityPoint[];
+  value: (point: SensitivityPoint) => number | undefined;
+  formatPrice: (price: number) => string;
+  formatValue: (value: number) => string;
+  basePrice: number;
+  className?: string;
+}
+
+const WIDTH = 320;
+const HEIGHT = 160;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 44 };
+
+/** Minimal SVG line chart of a metric against the swept feed price */
+export function SensitivityChart({
+  title,
+  points,
+  value,
+  formatPrice,
+  formatValue,
+  basePrice,
+  className,
+}: SensitivityChartProps) {
+  const plotted = points
+    .map((point) => ({ point, y: value(point) }))
+    .filter((p): p is { point: SensitivityPoint; y: number } => p.y !== undefined);
+
+  if (plotted.length === 0) {
+    return null;
+  }
+
+  const prices = plotted.map((p) => p.point.price).concat(basePrice);
+  const minX = Math.min(...prices);
+  const maxX = Math.max(...prices);
+  const maxY = Math.max(...plotted.map((p) => p.y)) || 1;
+  const innerWidth = WIDTH - PADDING.left - PADDING.right;
+  const innerHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const x = (price: number) =>
+    PADDING.left + (maxX === minX ? innerWidth / 2 : ((price - minX) / (maxX - minX)) * innerWidth);
+  const y = (v: number) => PADDING.top + innerHeight - (v / maxY) * innerHeight;
+
+  const path = plotted
+    .map((p, i) => `${i === 0 ? "M" : "L"}${x(p.point.price).toFixed(1)},${y(p.y).toFixed(1)}`)
+    .join(" ");
+
+  return (
+    <figure className={className}>
+      <figcaption className="text-sm font-medium mb-1">{title}</figcaption>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={title}>
+        {/* Axes */}
+        <line
+          x1={PADDING.left}
+          y1={PADDING.top + innerHeight}
+          x2={WIDTH - PADDING.right}
+          y2={PADDING.top + innerHeight}
+          className="stroke-border"
+        />
+        <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={PADDING.top + innerHeight} className="stroke-border" />
+        <text x={PADDING.left - 4} y={PADDING.top + 4} textAnchor="end" className="fill-muted-foreground text-[9px]">
+          {formatValue(maxY)}
+        </text>
+        <text x={PADDING.left - 4} y={PADDING.top + innerHeight} textAnchor="end" className="fill-muted-foreground text-[9px]">
+          0
+        </text>
+        <text x={PADDING.left} y={HEIGHT - 8} className="fill-muted-foreground text-[9px]">
+          {formatPrice(minX)}
+        </text>
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end" className="fill-muted-foreground text-[9px]">
+          {formatPrice(maxX)}
+        </text>
+
+        {/* Current price */}
+        <line
+          x1={x(basePrice)}
+          y1={PADDING.top}
+          x2={x(basePrice)}
+          y2={PADDING.top + innerHeight}
+          strokeDasharray="3 3"
+          className="stroke-muted-foreground"
+        />
+
+        <path d={path} fill="none" strokeWidth={2} className="stroke-primary" />
+        {plotted.map(({ point, y: v }, index) => (
+          <circle
+            key={index}
+            cx={x(point.price)}
+            cy={y(v)}
+            r={3}
+            className={isIncluded(point) ? "fill-primary" : "fill-destructive"}
+          >
+            <title>
+              {formatPrice(point.price)}: {formatValue(v)}
+            </title>
+          </circle>
+        ))}
+      </svg>
+    </figure>
+  );
+}
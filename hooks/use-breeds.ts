@@ -0,0 +1,29 @@
+import { useEffect, useMemo, useState } from "react";
+import { useAuthStore } from "@/store/auth-store";
+import { defaultBreedsFor, loadBreeds } from "@/lib/breeds";
+import { Breed } from "@/lib/types";
+
+/**
+ * Custom hook for the breeds offered in the logged-in user's country
+ * @returns The catalogue once loaded, the built-in breeds until then
+ */
+export function useBreeds(): Breed[] {
+  const { user } = useAuthStore();
+  const countryId = user?.country_id || user?.country?.id;
+  const countryCode = user?.country?.country_code;
+  const [loaded, setLoaded] = useState<{ countryId: string; breeds: Breed[] }>();
+  const fallback = useMemo(() => defaultBreedsFor(countryCode), [countryCode]);
+
+  useEffect(() => {
+    if (!countryId) return;
+    let cancelled = false;
+    loadBreeds(countryId, countryCode).then((breeds) => {
+      if (!cancelled) setLoaded({ countryId, breeds });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [countryId, countryCode]);
+
+  return loaded && loaded.countryId === countryId ? loaded.breeds : fallback;
+}
@@ -0,0 +1,26 @@
+import { useState, useEffect } from "react";
+
+/**
+ * Custom hook to count down to a point in time
+ * @param target - Timestamp in milliseconds, or null when nothing is pending
+ * @returns Whole seconds remaining, 0 once the target has passed
+ */
+export function useCountdown(target: number | null): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick even while idle so a newly set target starts from a fresh clock
+  useEffect(() => {
+    const handler = setInterval(() => setNow(Date.now()), 1000);
+    return () => {
+      clearInterval(handler);
+    };
+  }, []);
+
+  return target === null ? 0 : Math.max(0, Math.ceil((target - now) / 1000));
+}
+
+/** Format seconds as m:ss */
+export function formatCountdown(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
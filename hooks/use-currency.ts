@@ -0,0 +1,27 @@
+import { useCallback, useMemo } from "react";
+import { useAuthStore } from "@/store/auth-store";
+import { formatMoney, getCurrencySymbol, resolveCurrency } from "@/lib/currency";
+import { useTranslation } from "@/hooks/use-translation";
+
+/**
+ * Custom hook to format money in the logged-in user's currency and the active locale
+ * @param override - Currency from an API response, takes precedence over the user's country
+ * @returns Resolved currency code, its symbol and a bound formatter
+ */
+export function useCurrency(override?: string | null) {
+  const { user } = useAuthStore();
+  const { locale } = useTranslation();
+  const currency = useMemo(() => resolveCurrency(user, override), [user, override]);
+
+  const format = useCallback(
+    (amount: number | null | undefined, options?: Parameters<typeof formatMoney>[2]) =>
+      formatMoney(amount, currency, { locale, ...options }),
+    [currency, locale]
+  );
+
+  return {
+    currency,
+    symbol: getCurrencySymbol(currency),
+    format,
+  };
+}
@@ -0,0 +1,46 @@
+import { useEffect } from "react";
+import { useAppLockStore } from "@/store/app-lock-store";
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "scroll", "touchstart"] as const;
+// Activity is persisted at most this often; also how often idleness is checked
+const CHECK_INTERVAL_MS = 15000;
+
+/**
+ * Custom hook to lock the app after the configured idle period
+ * @param enabled - Whether to watch for activity (e.g. only while signed in and unlocked)
+ */
+export function useIdleLock(enabled: boolean) {
+  const idleMinutes = useAppLockStore((state) => state.idleMinutes);
+
+  useEffect(() => {
+    if (!enabled || !idleMinutes) return;
+    const { markActive, lockIfIdle } = useAppLockStore.getState();
+
+    let lastMarked = 0;
+    const handleActivity = () => {
+      if (Date.now() - lastMarked < CHECK_INTERVAL_MS) return;
+      lastMarked = Date.now();
+      markActive();
+    };
+    // Timers are paused in background tabs - check as soon as the app is visible again
+    const handleVisibility = () => {
+      if (document.visibilityState === "visible") lockIfIdle();
+    };
+
+    lockIfIdle();
+    handleActivity();
+    const interval = setInterval(lockIfIdle, CHECK_INTERVAL_MS);
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, handleActivity, { passive: true, capture: true })
+    );
+    document.addEventListener("visibilitychange", handleVisibility);
+
+    return () => {
+      clearInterval(interval);
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, handleActivity, { capture: true })
+      );
+      document.removeEventListener("visibilitychange", handleVisibility);
+    };
+  }, [enabled, idleMinutes]);
+}
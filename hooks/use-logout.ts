@@ -0,0 +1,24 @@
+import { useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { authApi } from "@/lib/api/endpoints";
+import { useAuthStore } from "@/store/auth-store";
+
+/**
+ * Custom hook to sign out: clears the server session cookie and the local user
+ * @returns Function that logs out and returns to the login page
+ */
+export function useLogout() {
+  const router = useRouter();
+  const logout = useAuthStore((state) => state.logout);
+
+  return useCallback(async () => {
+    try {
+      await authApi.logout();
+    } catch (error) {
+      // Still sign out locally - the cookie expires on its own
+      console.error("Logout request failed:", error);
+    }
+    logout();
+    router.push("/login");
+  }, [logout, router]);
+}
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from "react";
+import { QueuedRecommendationJob } from "@/lib/types";
+import {
+  QUEUE_CHANGE_EVENT,
+  isQueueSupported,
+  listQueuedJobs,
+} from "@/lib/offline/recommendation-queue";
+import { useAuthStore } from "@/store/auth-store";
+
+function subscribeToConnectivity(onChange: () => void) {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
+}
+
+/**
+ * Custom hook to follow the signed-in user's offline recommendation queue
+ * @returns Queued jobs, current connectivity and the number of jobs still waiting
+ */
+export function useOfflineQueue() {
+  const userId = useAuthStore((state) => state.user?.id);
+  const [jobs, setJobs] = useState<QueuedRecommendationJob[]>([]);
+  const isOnline = useSyncExternalStore(
+    subscribeToConnectivity,
+    () => navigator.onLine,
+    () => true
+  );
+
+  const refresh = useCallback(() => {
+    if (!isQueueSupported() || !userId) return;
+    listQueuedJobs(userId)
+      .then(setJobs)
+      .catch((error) => console.error("Failed to read offline queue:", error));
+  }, [userId]);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener(QUEUE_CHANGE_EVENT, refresh);
+    return () => window.removeEventListener(QUEUE_CHANGE_EVENT, refresh);
+  }, [refresh]);
+
+  const pendingCount = jobs.filter(
+    (job) => job.status === "pending" || job.status === "processing"
+  ).length;
+
+  return { jobs, isOnline, pendingCount, refresh };
+}
@@ -0,0 +1,34 @@
+import { useMemo } from "react";
+import { useAuthStore } from "@/store/auth-store";
+import { useLocaleStore } from "@/store/locale-store";
+import {
+  createTranslator,
+  formatDate,
+  formatNumber,
+  isLocale,
+  localeDirection,
+  localeForCountry,
+} from "@/lib/i18n";
+
+/**
+ * Custom hook to translate messages and format values in the active locale
+ * @returns The manually chosen locale, or the one for the user's country, with bound helpers
+ */
+export function useTranslation() {
+  const override = useLocaleStore((state) => state.locale);
+  const countryCode = useAuthStore((state) => state.user?.country?.country_code);
+  const locale = isLocale(override) ? override : localeForCountry(countryCode);
+
+  return useMemo(
+    () => ({
+      locale,
+      dir: localeDirection(locale),
+      t: createTranslator(locale),
+      formatNumber: (value: number | null | undefined, options?: Intl.NumberFormatOptions) =>
+        formatNumber(locale, value, options),
+      formatDate: (value: Date | string | number, options?: Intl.DateTimeFormatOptions) =>
+        formatDate(locale, value, options),
+    }),
+    [locale]
+  );
+}
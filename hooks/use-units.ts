@@ -0,0 +1,31 @@
+import { useMemo } from "react";
+import { useUnitStore } from "@/store/unit-store";
+import { useTranslation } from "@/hooks/use-translation";
+import { fromCanonical, getUnit, Quantity, toCanonical } from "@/lib/units";
+
+/**
+ * Custom hook to convert and format quantities in the user's preferred units
+ * @returns The preferences, unit symbols, converters and a formatter for canonical values
+ */
+export function useUnits() {
+  const units = useUnitStore((state) => state.units);
+  const { formatNumber } = useTranslation();
+
+  return useMemo(
+    () => ({
+      units,
+      symbol: (quantity: Quantity) => getUnit(quantity, units).symbol,
+      toCanonical: (quantity: Quantity, value: number) => toCanonical(quantity, value, units),
+      fromCanonical: (quantity: Quantity, value: number) => fromCanonical(quantity, value, units),
+      // e.g. format("weight", 450) -> "992.08 lb"; missing values format as N/A without a unit
+      format: (quantity: Quantity, value: number | null | undefined, options?: Intl.NumberFormatOptions) => {
+        if (value === null || value === undefined || Number.isNaN(Number(value))) {
+          return formatNumber(null);
+        }
+        const unit = getUnit(quantity, units);
+        return `${formatNumber(unit.fromCanonical(Number(value)), { maximumFractionDigits: 2, ...options })} ${unit.symbol}`;
+      },
+    }),
+    [units, formatNumber]
+  );
+}
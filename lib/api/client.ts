@@ -1,5 +1,6 @@
 import axios, { AxiosInstance, AxiosError, InternalAxiosRequestConfig } from "axios";
 import { ApiError } from "@/lib/types";
+import { useAuthStore } from "@/store/auth-store";
 
 // Use API proxy in browser to avoid CORS issues
 const API_BASE_URL = typeof window !== 'undefined'
@@ -19,11 +20,11 @@ class ApiClient {
     });
 
     // Request interceptor for auth
-    // Note: Backend uses query parameters (user_id, admin_user_id) for authentication
-    // No Bearer token authentication is used
+    // Note: The browser sends the HttpOnly session cookie to the API proxy, which
+    // verifies it and adds user_id / admin_user_id for the backend
     this.client.interceptors.request.use(
       (config: InternalAxiosRequestConfig) => {
-        // No token-based auth needed - backend uses query params
+        // Nothing to attach - the session cookie is sent automatically
         return config;
       },
       (error) => {
@@ -48,12 +49,24 @@ class ApiClient {
           if (data.errors) {
             apiError.errors = data.errors;
           }
+          if (typeof data.attempts_remaining === "number") {
+            apiError.attempts_remaining = data.attempts_remaining;
+          }
+          if (typeof data.retry_after === "number") {
+            apiError.retry_after = data.retry_after;
+          }
+          if (typeof data.locked === "boolean") {
+            apiError.locked = data.locked;
+          }
         }
 
-        // Handle 401 unauthorized
-        if (error.response?.status === 401) {
-          if (typeof window !== "undefined") {
-            localStorage.removeItem("user");
+        // Handle 401 unauthorized - the session cookie is missing or expired.
+        // A rejected PIN (e.g. on the lock screen) is not an expired session.
+        const isLoginRequest = error.config?.url?.startsWith("/auth/login");
+        if (error.response?.status === 401 && !isLoginRequest) {
+          if (typeof window !== "undefined" && window.location.pathname !== "/login") {
+            // Keep remembered accounts - only the signed-in user is gone
+            useAuthStore.getState().logout();
             window.location.href = "/login";
           }
         }
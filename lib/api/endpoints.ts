@@ -4,6 +4,13 @@ import {
   RegisterUserRequest,
   ResetPinRequest,
   ResetPinResponse,
+  VerifyResetCodeRequest,
+  VerifyResetCodeResponse,
+  CompletePinResetRequest,
+  UpdateProfileRequest,
+  ChangePinRequest,
+  DeleteAccountRequest,
+  AccountResponse,
   FeedRecommendationRequest,
   FeedRecommendationResponse,
   FeedEvaluationRequest,
@@ -25,9 +32,19 @@ import {
   CheckInsertUpdateResponse,
   AdminBulkUploadResponse,
   AdminExportResponse,
+  ApiError,
+  CattleInfo,
+  Breed,
+  BreedRequest,
 } from "@/lib/types";
+import { CURRENT_USER } from "@/lib/session";
+import { checkCattleInfo } from "@/lib/cattle-info-rules";
+import { createTranslator, DEFAULT_LOCALE } from "@/lib/i18n";
 import { apiClient } from "./client";
 
+// The API proxy fills in user_id / admin_user_id from the signed session cookie
+// and replaces CURRENT_USER path segments, so callers never pass their own IDs.
+
 // Auth endpoints
 export const authApi = {
   login: (data: UserLoginRequest): Promise<UserAuthResponse> =>
@@ -36,45 +53,57 @@ export const authApi = {
   register: (data: RegisterUserRequest): Promise<UserAuthResponse> =>
     apiClient.post("/auth/register", data),
 
+  // Handled by the API proxy - clears the session cookie
+  logout: (): Promise<{ success: boolean }> =>
+    apiClient.post("/auth/logout"),
+
   resetPin: (data: ResetPinRequest): Promise<ResetPinResponse> =>
     apiClient.post("/auth/forgot-pin/", data),
 
-  getUserProfile: (emailId: string): Promise<any> =>
-    apiClient.get(`/auth/user/${emailId}`),
+  verifyResetCode: (data: VerifyResetCodeRequest): Promise<VerifyResetCodeResponse> =>
+    apiClient.post("/auth/verify-reset-code/", data),
+
+  // Signs the user in on success, like login
+  completePinReset: (data: CompletePinResetRequest): Promise<UserAuthResponse> =>
+    apiClient.post("/auth/reset-pin/", data),
+
+  getUserProfile: (): Promise<any> =>
+    apiClient.get(`/auth/user/${CURRENT_USER}`),
 
-  updateProfile: (emailId: string, data: any): Promise<any> =>
-    apiClient.put(`/auth/user/${emailId}`, data),
+  updateProfile: (data: UpdateProfileRequest): Promise<AccountResponse> =>
+    apiClient.put(`/auth/user/${CURRENT_USER}`, data),
 
-  deleteAccount: (userId: string, pin: string): Promise<any> =>
-    apiClient.post(`/auth/user-delete-account?user_id=${userId}&pin=${pin}`),
+  changePin: (data: ChangePinRequest): Promise<AccountResponse> =>
+    apiClient.post("/auth/change-pin/", data),
+
+  // PIN goes in the body - query strings end up in server and proxy logs
+  deleteAccount: (data: DeleteAccountRequest): Promise<AccountResponse> =>
+    apiClient.post("/auth/user-delete-account", data),
 };
 
 // Feed endpoints
 export const feedApi = {
-  getFeedTypes: (countryId: string, userId: string): Promise<string[]> =>
-    apiClient.get(`/unique-feed-type/${countryId}/${userId}`),
+  getFeedTypes: (countryId: string): Promise<string[]> =>
+    apiClient.get(`/unique-feed-type/${countryId}/${CURRENT_USER}`),
 
   getFeedCategories: (
     feedType: string,
-    countryId: string,
-    userId: string
+    countryId: string
   ): Promise<FeedCategoryResponse> =>
     apiClient.get("/unique-feed-category/", {
-      params: { feed_type: feedType, country_id: countryId, user_id: userId },
+      params: { feed_type: feedType, country_id: countryId },
     }),
 
   getFeedSubCategories: (
     feedType: string,
     feedCategory: string,
-    countryId: string,
-    userId: string
+    countryId: string
   ): Promise<FeedSubCategory[]> =>
     apiClient.get("/feed-name/", {
       params: {
         feed_type: feedType,
         feed_category: feedCategory,
         country_id: countryId,
-        user_id: userId,
       },
     }),
 
@@ -85,25 +114,50 @@ export const feedApi = {
     apiClient.get("/feed-classification/structure"),
 };
 
+// The optimiser accepts physiologically impossible animals, so requests are
+// checked against the same cross-field rules as the cattle info form first.
+// Errors use the API's language (English), like errors from the backend.
+const inconsistentCattleInfo = (info: CattleInfo): ApiError | undefined => {
+  const issues = checkCattleInfo(info);
+  if (issues.length === 0) return undefined;
+  const t = createTranslator(DEFAULT_LOCALE);
+  const errors: Record<string, string[]> = {};
+  for (const issue of issues) {
+    (errors[issue.path] ??= []).push(t(issue.message, issue.params));
+  }
+  return { message: t("validation.inconsistentCattleInfo"), status: 422, errors };
+};
+
+// Breed endpoints
+export const breedApi = {
+  getBreeds: (countryId: string): Promise<Breed[]> =>
+    apiClient.get("/breeds/", { params: { country_id: countryId } }),
+};
+
 // Recommendation endpoints
 export const recommendationApi = {
   getRecommendation: (
-    data: FeedRecommendationRequest
-  ): Promise<FeedRecommendationResponse> =>
-    apiClient.post("/diet-recommendation-working/", data),
+    data: FeedRecommendationRequest,
+    signal?: AbortSignal
+  ): Promise<FeedRecommendationResponse> => {
+    const error = inconsistentCattleInfo(data.cattle_info);
+    if (error) return Promise.reject(error);
+    return apiClient.post("/diet-recommendation-working/", data, { signal });
+  },
 
   getEvaluation: (
     data: FeedEvaluationRequest
-  ): Promise<FeedEvaluationResponse> =>
-    apiClient.post("/diet-evaluation-working/", data),
+  ): Promise<FeedEvaluationResponse> => {
+    const error = inconsistentCattleInfo(data.cattle_info);
+    if (error) return Promise.reject(error);
+    return apiClient.post("/diet-evaluation-working/", data);
+  },
 };
 
 // Report endpoints
 export const reportApi = {
-  getUserReports: (userId: string): Promise<FeedReportResponse> =>
-    apiClient.get(`/get-user-reports/`, {
-      params: { user_id: userId },
-    }),
+  getUserReports: (): Promise<FeedReportResponse> =>
+    apiClient.get(`/get-user-reports/`),
 
   saveReport: (data: SaveReportRequest): Promise<SavedReportResponse> =>
     apiClient.post("/save-report/", data),
@@ -111,31 +165,26 @@ export const reportApi = {
   // Generate and save PDF report to backend
   generatePdfReport: (
     simulationId: string,
-    userId: string,
     apiResponse: any
   ): Promise<any> =>
-    apiClient.post(`/generate-pdf-report/?simulation_id=${simulationId}&user_id=${userId}`, apiResponse),
+    apiClient.post(`/generate-pdf-report/?simulation_id=${simulationId}`, apiResponse),
 
   // Get user's PDF reports
-  getUserPdfReports: (userId: string): Promise<any> =>
-    apiClient.get(`/pdf-reports/${userId}`),
+  getUserPdfReports: (): Promise<any> =>
+    apiClient.get(`/pdf-reports/${CURRENT_USER}`),
 };
 
 // Feedback endpoints
 export const feedbackApi = {
-  submitFeedback: (
-    userId: string,
-    data: SubmitFeedbackRequest
-  ): Promise<SubmitFeedbackResponse> =>
-    apiClient.post(`/user-feedback/submit?user_id=${userId}`, data),
+  submitFeedback: (data: SubmitFeedbackRequest): Promise<SubmitFeedbackResponse> =>
+    apiClient.post(`/user-feedback/submit`, data),
 
   getUserFeedbacks: (
-    userId: string,
     limit: number = 50,
     offset: number = 0
   ): Promise<FeedbackResponse> =>
     apiClient.get("/user-feedback/my", {
-      params: { user_id: userId, limit, offset },
+      params: { limit, offset },
     }),
 };
 
@@ -148,7 +197,6 @@ export const countryApi = {
 // Admin endpoints
 export const adminApi = {
   getUsers: (
-    adminUserId: string,
     page: number = 1,
     pageSize: number = 10,
     countryFilter?: string,
@@ -157,7 +205,6 @@ export const adminApi = {
   ): Promise<UserResponse> =>
     apiClient.get("/admin/users", {
       params: {
-        admin_user_id: adminUserId,
         page,
         page_size: pageSize,
         country_filter: countryFilter,
@@ -167,7 +214,6 @@ export const adminApi = {
     }),
 
   getFeeds: (
-    adminUserId: string,
     page: number = 1,
     pageSize: number = 10,
     feedType?: string,
@@ -177,7 +223,6 @@ export const adminApi = {
   ): Promise<AdminFeedListResponse> =>
     apiClient.get("/admin/list-feeds/", {
       params: {
-        admin_user_id: adminUserId,
         page,
         page_size: pageSize,
         feed_type: feedType,
@@ -188,97 +233,78 @@ export const adminApi = {
     }),
 
   getAllFeedbacks: (
-    adminUserId: string,
     limit: number = 10,
     offset: number = 0
   ): Promise<any> =>
     apiClient.get("/admin/user-feedback/all", {
-      params: { admin_user_id: adminUserId, limit, offset },
+      params: { limit, offset },
     }),
 
-  getFeedbackStats: (adminUserId: string): Promise<any> =>
-    apiClient.get("/admin/user-feedback/stats", {
-      params: { admin_user_id: adminUserId },
-    }),
+  getFeedbackStats: (): Promise<any> =>
+    apiClient.get("/admin/user-feedback/stats"),
 
   getAllReports: (
-    adminUserId: string,
     page: number = 1,
     pageSize: number = 10
   ): Promise<any> =>
     apiClient.get("/admin/get-all-reports/", {
-      params: { user_id: adminUserId, page, page_size: pageSize },
+      params: { page, page_size: pageSize },
     }),
 
-  bulkUploadFeeds: (
-    adminUserId: string,
-    file: File
-  ): Promise<AdminBulkUploadResponse> => {
+  bulkUploadFeeds: (file: File): Promise<AdminBulkUploadResponse> => {
     const formData = new FormData();
     formData.append("file", file);
-    return apiClient.post(`/admin/bulk-upload/?admin_user_id=${adminUserId}`, formData, {
+    return apiClient.post("/admin/bulk-upload/", formData, {
       headers: { "Content-Type": "multipart/form-data" },
     });
   },
 
-  exportFeeds: (adminUserId: string): Promise<AdminExportResponse> =>
-    apiClient.get("/admin/export-feeds/", {
-      params: { admin_user_id: adminUserId },
-    }),
+  exportFeeds: (): Promise<AdminExportResponse> =>
+    apiClient.get("/admin/export-feeds/"),
 
-  exportCustomFeeds: (adminUserId: string): Promise<AdminExportResponse> =>
-    apiClient.get("/admin/export-custom-feeds/", {
-      params: { admin_user_id: adminUserId },
-    }),
+  exportCustomFeeds: (): Promise<AdminExportResponse> =>
+    apiClient.get("/admin/export-custom-feeds/"),
 
-  listFeedTypes: (adminUserId: string): Promise<any[]> =>
-    apiClient.get("/admin/feed-types/", {
-      params: { admin_user_id: adminUserId },
-    }),
+  listFeedTypes: (): Promise<any[]> =>
+    apiClient.get("/admin/feed-types/"),
 
-  addFeedType: (adminUserId: string, data: { type_name: string; description?: string; sort_order?: number }): Promise<any> =>
-    apiClient.post("/admin/feed-types/", data, {
-      params: { admin_user_id: adminUserId },
-    }),
+  addFeedType: (data: { type_name: string; description?: string; sort_order?: number }): Promise<any> =>
+    apiClient.post("/admin/feed-types/", data),
 
-  deleteFeedType: (adminUserId: string, typeId: string): Promise<any> =>
-    apiClient.delete(`/admin/feed-types/${typeId}`, {
-      params: { admin_user_id: adminUserId },
-    }),
+  deleteFeedType: (typeId: string): Promise<any> =>
+    apiClient.delete(`/admin/feed-types/${typeId}`),
 
-  listFeedCategories: (adminUserId: string): Promise<any[]> =>
-    apiClient.get("/admin/feed-categories/", {
-      params: { admin_user_id: adminUserId },
-    }),
+  listFeedCategories: (): Promise<any[]> =>
+    apiClient.get("/admin/feed-categories/"),
 
-  addFeedCategory: (adminUserId: string, data: { category_name: string; feed_type_id: string; description?: string; sort_order?: number }): Promise<any> =>
-    apiClient.post("/admin/feed-categories/", data, {
-      params: { admin_user_id: adminUserId },
-    }),
+  addFeedCategory: (data: { category_name: string; feed_type_id: string; description?: string; sort_order?: number }): Promise<any> =>
+    apiClient.post("/admin/feed-categories/", data),
 
-  deleteFeedCategory: (adminUserId: string, categoryId: string): Promise<any> =>
-    apiClient.delete(`/admin/feed-categories/${categoryId}`, {
-      params: { admin_user_id: adminUserId },
-    }),
+  deleteFeedCategory: (categoryId: string): Promise<any> =>
+    apiClient.delete(`/admin/feed-categories/${categoryId}`),
 
-  addFeed: (adminUserId: string, data: any): Promise<any> =>
-    apiClient.post("/admin/feeds/", data, {
-      params: { admin_user_id: adminUserId },
-    }),
+  addFeed: (data: any): Promise<any> =>
+    apiClient.post("/admin/feeds/", data),
 
-  updateFeed: (adminUserId: string, feedId: string, data: any): Promise<any> =>
-    apiClient.put(`/admin/feeds/${feedId}`, data, {
-      params: { admin_user_id: adminUserId },
-    }),
+  updateFeed: (feedId: string, data: any): Promise<any> =>
+    apiClient.put(`/admin/feeds/${feedId}`, data),
 
-  deleteFeed: (adminUserId: string, feedId: string): Promise<any> =>
-    apiClient.delete(`/admin/feeds/${feedId}`, {
-      params: { admin_user_id: adminUserId },
-    }),
+  deleteFeed: (feedId: string): Promise<any> =>
+    apiClient.delete(`/admin/feeds/${feedId}`),
 
-  toggleUserStatus: (adminUserId: string, userId: string, data: { is_active: boolean }): Promise<any> =>
-    apiClient.patch(`/admin/users/${userId}/status`, data, {
-      params: { admin_user_id: adminUserId },
-    }),
+  listBreeds: (): Promise<Breed[]> =>
+    apiClient.get("/admin/breeds/"),
+
+  addBreed: (data: BreedRequest): Promise<Breed> =>
+    apiClient.post("/admin/breeds/", data),
+
+  updateBreed: (breedId: string, data: BreedRequest): Promise<Breed> =>
+    apiClient.put(`/admin/breeds/${breedId}`, data),
+
+  deleteBreed: (breedId: string): Promise<{ success: boolean; message?: string }> =>
+    apiClient.delete(`/admin/breeds/${breedId}`),
+
+  toggleUserStatus: (userId: string, data: { is_active: boolean }): Promise<any> =>
+    apiClient.patch(`/admin/users/${userId}/status`, data),
 };
 
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  BODY_LENGTH_RANGE_CM,
+  crevatWeight,
+  estimateBodyWeight,
+  heinrichsWeight,
+  HEART_GIRTH_RANGE_CM,
+  queteletWeight,
+  schaefferWeight,
+} from "./body-weight";
+
+describe("formulas", () => {
+  it("computes the Heinrichs quadratic", () => {
+    // 102.7 - 2.876 * 180 + 0.02715 * 180²
+    expect(heinrichsWeight(180)).toBeCloseTo(464.68, 2);
+  });
+
+  it("computes Schaeffer's formula", () => {
+    expect(schaefferWeight(180, 150)).toBeCloseTo((180 * 180 * 150) / 10838, 6);
+    expect(schaefferWeight(180, 150)).toBeCloseTo(448.42, 2);
+  });
+
+  it("computes Crevat's formula in metres", () => {
+    expect(crevatWeight(150)).toBeCloseTo(270, 6);
+  });
+
+  it("computes Quételet's formula in metres", () => {
+    expect(queteletWeight(150, 140)).toBeCloseTo(275.625, 6);
+  });
+
+  it("gives heavier estimates for bigger animals", () => {
+    expect(heinrichsWeight(190)).toBeGreaterThan(heinrichsWeight(180));
+    expect(crevatWeight(160)).toBeGreaterThan(crevatWeight(150));
+    expect(schaefferWeight(180, 160)).toBeGreaterThan(schaefferWeight(180, 150));
+    expect(queteletWeight(150, 150)).toBeGreaterThan(queteletWeight(150, 140));
+  });
+});
+
+describe("estimateBodyWeight", () => {
+  it.each([
+    ["taurine", undefined, "heinrichs", "good"],
+    ["taurine", 150, "schaeffer", "good"],
+    ["indicine", undefined, "crevat", "fair"],
+    ["indicine", 150, "quetelet", "good"],
+    [undefined, undefined, "heinrichs", "low"],
+    [undefined, 150, "schaeffer", "fair"],
+  ] as const)("picks the formula for %s cattle with body length %s", (group, bodyLengthCm, formula, confidence) => {
+    expect(estimateBodyWeight({ heartGirthCm: 170, bodyLengthCm }, group)).toMatchObject({
+      formula,
+      confidence,
+    });
+  });
+
+  it("returns the weight from the chosen formula", () => {
+    expect(estimateBodyWeight({ heartGirthCm: 150 }, "indicine")?.weightKg).toBeCloseTo(crevatWeight(150), 6);
+    expect(estimateBodyWeight({ heartGirthCm: 150, bodyLengthCm: 140 }, "taurine")?.weightKg).toBeCloseTo(
+      schaefferWeight(150, 140),
+      6
+    );
+  });
+
+  it("accepts measurements at the ends of the fitted ranges", () => {
+    expect(estimateBodyWeight({ heartGirthCm: HEART_GIRTH_RANGE_CM.min })).toBeDefined();
+    expect(estimateBodyWeight({ heartGirthCm: HEART_GIRTH_RANGE_CM.max })).toBeDefined();
+    expect(
+      estimateBodyWeight({ heartGirthCm: 170, bodyLengthCm: BODY_LENGTH_RANGE_CM.min }, "taurine")
+    ).toBeDefined();
+    expect(
+      estimateBodyWeight({ heartGirthCm: 170, bodyLengthCm: BODY_LENGTH_RANGE_CM.max }, "taurine")
+    ).toBeDefined();
+  });
+
+  it("refuses measurements outside the fitted ranges", () => {
+    expect(estimateBodyWeight({ heartGirthCm: HEART_GIRTH_RANGE_CM.min - 1 })).toBeUndefined();
+    expect(estimateBodyWeight({ heartGirthCm: HEART_GIRTH_RANGE_CM.max + 1 })).toBeUndefined();
+    expect(
+      estimateBodyWeight({ heartGirthCm: 170, bodyLengthCm: BODY_LENGTH_RANGE_CM.min - 1 }, "indicine")
+    ).toBeUndefined();
+    expect(
+      estimateBodyWeight({ heartGirthCm: 170, bodyLengthCm: BODY_LENGTH_RANGE_CM.max + 1 }, "indicine")
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,100 @@
+// Live weight estimated from tape measurements, for farmers without a scale.
+// Measurements are in cm and weights in kg.
+
+import { BreedGroup } from "@/lib/types";
+
+export type WeightFormula = "heinrichs" | "schaeffer" | "crevat" | "quetelet";
+
+// How far an estimate can be trusted, shown to the user with the result
+export type EstimateConfidence = "good" | "fair" | "low";
+
+export interface TapeMeasurements {
+  heartGirthCm: number;
+  // Point of the shoulder to the pin bone
+  bodyLengthCm?: number;
+}
+
+export interface WeightEstimate {
+  weightKg: number;
+  formula: WeightFormula;
+  confidence: EstimateConfidence;
+}
+
+// Measurements the formulas were fitted on; estimates outside these are unreliable
+export const HEART_GIRTH_RANGE_CM = { min: 80, max: 230 };
+export const BODY_LENGTH_RANGE_CM = { min: 80, max: 220 };
+
+// Written out for display next to the result, with HG and L in cm
+export const FORMULA_EXPRESSIONS: Record<WeightFormula, string> = {
+  heinrichs: "W = 102.7 − 2.876 × HG + 0.02715 × HG²",
+  schaeffer: "W = HG² × L ÷ 10838",
+  crevat: "W = 80 × (HG ÷ 100)³",
+  quetelet: "W = 87.5 × (HG ÷ 100)² × (L ÷ 100)",
+};
+
+const inRange = (value: number, range: { min: number; max: number }) =>
+  value >= range.min && value <= range.max;
+
+/** Heinrichs et al. (1992), fitted on Holsteins: heart girth only */
+export const heinrichsWeight = (heartGirthCm: number) =>
+  102.7 - 2.876 * heartGirthCm + 0.02715 * heartGirthCm ** 2;
+
+/** Schaeffer's formula in metric units: heart girth and body length */
+export const schaefferWeight = (heartGirthCm: number, bodyLengthCm: number) =>
+  (heartGirthCm ** 2 * bodyLengthCm) / 10838;
+
+/** Crevat's barymetric formula, 80 × girth³ in metres: heart girth only */
+export const crevatWeight = (heartGirthCm: number) => 80 * (heartGirthCm / 100) ** 3;
+
+/** Quételet's barymetric formula, 87.5 × girth² × length in metres */
+export const queteletWeight = (heartGirthCm: number, bodyLengthCm: number) =>
+  87.5 * (heartGirthCm / 100) ** 2 * (bodyLengthCm / 100);
+
+type FormulaChoice = { formula: WeightFormula; confidence: EstimateConfidence };
+
+// Formulas per breed group, with and without body length. Girth alone misses
+// the build differences between groups, so it is trusted less; unlisted breeds
+// and crosses fall back to the taurine formulas with lower confidence.
+const FORMULAS: Record<BreedGroup | "unknown", { girth: FormulaChoice; girthAndLength: FormulaChoice }> = {
+  taurine: {
+    girth: { formula: "heinrichs", confidence: "good" },
+    girthAndLength: { formula: "schaeffer", confidence: "good" },
+  },
+  indicine: {
+    girth: { formula: "crevat", confidence: "fair" },
+    girthAndLength: { formula: "quetelet", confidence: "good" },
+  },
+  unknown: {
+    girth: { formula: "heinrichs", confidence: "low" },
+    girthAndLength: { formula: "schaeffer", confidence: "fair" },
+  },
+};
+
+const WEIGHT_FORMULAS: Record<WeightFormula, (heartGirthCm: number, bodyLengthCm: number) => number> = {
+  heinrichs: heinrichsWeight,
+  schaeffer: schaefferWeight,
+  crevat: crevatWeight,
+  quetelet: queteletWeight,
+};
+
+/**
+ * Estimate live weight from tape measurements with the formula for the breed
+ * group, using body length when it is given.
+ * @param group - Breed group of the animal; unknown for unlisted breeds and crosses
+ * @returns The estimate, or undefined when a measurement is outside the fitted range
+ */
+export function estimateBodyWeight(
+  { heartGirthCm, bodyLengthCm }: TapeMeasurements,
+  group?: BreedGroup
+): WeightEstimate | undefined {
+  if (!inRange(heartGirthCm, HEART_GIRTH_RANGE_CM)) return undefined;
+  if (bodyLengthCm !== undefined && !inRange(bodyLengthCm, BODY_LENGTH_RANGE_CM)) return undefined;
+
+  const formulas = FORMULAS[group ?? "unknown"];
+  const { formula, confidence } = bodyLengthCm !== undefined ? formulas.girthAndLength : formulas.girth;
+  return {
+    weightKg: WEIGHT_FORMULAS[formula](heartGirthCm, bodyLengthCm ?? 0),
+    formula,
+    confidence,
+  };
+}
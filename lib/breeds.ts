@@ -0,0 +1,87 @@
+import { breedApi } from "@/lib/api/endpoints";
+import { Breed, BreedRequest } from "@/lib/types";
+
+// Offered alongside the catalogue for animals of an unlisted breed or cross
+export const OTHER_BREED = "Other";
+
+// Body weight bounds (kg) for "Other" and for breeds missing from the catalogue
+export const DEFAULT_BODY_WEIGHT_BOUNDS = { min: 200, max: 900 };
+
+const EAST_AFRICA = ["KE", "KEN", "ET", "ETH", "TZ", "TZA", "UG", "UGA", "RW", "RWA"];
+const SOUTH_ASIA = ["IN", "IND", "PK", "PAK", "BD", "BGD", "NP", "NPL", "LK", "LKA"];
+
+// Used until an admin maintains the catalogue, and when it cannot be loaded
+export const DEFAULT_BREEDS: BreedRequest[] = [
+  { name: "Holstein", breed_group: "taurine", country_codes: [], mature_weight_kg: 650, min_body_weight_kg: 400, max_body_weight_kg: 850, fat_milk: 3.7, tp_milk: 3.1, sort_order: 1 },
+  { name: "Jersey", breed_group: "taurine", country_codes: [], mature_weight_kg: 450, min_body_weight_kg: 300, max_body_weight_kg: 600, fat_milk: 4.9, tp_milk: 3.8, sort_order: 2 },
+  { name: "Brown Swiss", breed_group: "taurine", country_codes: [], mature_weight_kg: 650, min_body_weight_kg: 400, max_body_weight_kg: 850, fat_milk: 4.0, tp_milk: 3.5, sort_order: 3 },
+  { name: "Guernsey", breed_group: "taurine", country_codes: [], mature_weight_kg: 500, min_body_weight_kg: 350, max_body_weight_kg: 650, fat_milk: 4.5, tp_milk: 3.4, sort_order: 4 },
+  { name: "Ayrshire", breed_group: "taurine", country_codes: [], mature_weight_kg: 550, min_body_weight_kg: 350, max_body_weight_kg: 700, fat_milk: 3.9, tp_milk: 3.3, sort_order: 5 },
+  { name: "Boran", breed_group: "indicine", country_codes: EAST_AFRICA, mature_weight_kg: 450, min_body_weight_kg: 250, max_body_weight_kg: 650, fat_milk: 5.0, tp_milk: 3.5, sort_order: 10 },
+  { name: "Ankole", breed_group: "indicine", country_codes: EAST_AFRICA, mature_weight_kg: 400, min_body_weight_kg: 200, max_body_weight_kg: 550, fat_milk: 5.2, tp_milk: 3.6, sort_order: 11 },
+  { name: "East African Zebu", breed_group: "indicine", country_codes: EAST_AFRICA, mature_weight_kg: 300, min_body_weight_kg: 150, max_body_weight_kg: 450, fat_milk: 5.5, tp_milk: 3.7, sort_order: 12 },
+  { name: "Sahiwal", breed_group: "indicine", country_codes: [...SOUTH_ASIA, "KE", "KEN"], mature_weight_kg: 425, min_body_weight_kg: 250, max_body_weight_kg: 600, fat_milk: 4.8, tp_milk: 3.4, sort_order: 13 },
+  { name: "Gir", breed_group: "indicine", country_codes: [...SOUTH_ASIA, "BR", "BRA"], mature_weight_kg: 400, min_body_weight_kg: 250, max_body_weight_kg: 550, fat_milk: 4.7, tp_milk: 3.4, sort_order: 14 },
+  { name: "Red Sindhi", breed_group: "indicine", country_codes: SOUTH_ASIA, mature_weight_kg: 350, min_body_weight_kg: 200, max_body_weight_kg: 500, fat_milk: 4.9, tp_milk: 3.5, sort_order: 15 },
+];
+
+/** Whether a breed is offered to users in a country */
+export function isBreedOffered(breed: BreedRequest, countryCode?: string | null): boolean {
+  if (breed.is_active === false) return false;
+  if (breed.country_codes.length === 0) return true;
+  const code = (countryCode || "").trim().toUpperCase();
+  return breed.country_codes.some((c) => c.toUpperCase() === code);
+}
+
+const bySortOrder = (a: BreedRequest, b: BreedRequest) =>
+  (a.sort_order ?? 0) - (b.sort_order ?? 0) || a.name.localeCompare(b.name);
+
+/** Built-in breeds offered in a country, in display order; their names double as ids */
+export function defaultBreedsFor(countryCode?: string | null): Breed[] {
+  return DEFAULT_BREEDS.filter((breed) => isBreedOffered(breed, countryCode))
+    .sort(bySortOrder)
+    .map((breed) => ({ id: breed.name, ...breed }));
+}
+
+// Catalogue requests are cached per country for the lifetime of the page
+const breedCache = new Map<string, Promise<Breed[]>>();
+
+/**
+ * Load the breeds offered in a country. Falls back to the built-in breeds when
+ * the catalogue is empty or cannot be loaded; failures are not cached.
+ */
+export function loadBreeds(countryId: string, countryCode?: string | null): Promise<Breed[]> {
+  let breeds = breedCache.get(countryId);
+  if (!breeds) {
+    breeds = breedApi
+      .getBreeds(countryId)
+      .then((list) => {
+        const offered = list.filter((breed) => isBreedOffered(breed, countryCode)).sort(bySortOrder);
+        return offered.length > 0 ? offered : defaultBreedsFor(countryCode);
+      })
+      .catch(() => {
+        breedCache.delete(countryId);
+        return defaultBreedsFor(countryCode);
+      });
+    breedCache.set(countryId, breeds);
+  }
+  return breeds;
+}
+
+/** Drop cached breed lists, e.g. after an admin edits the catalogue */
+export function clearBreedCatalogue() {
+  breedCache.clear();
+}
+
+/** Find a breed by name, ignoring case */
+export function findBreed(breeds: Breed[], name?: string | null): Breed | undefined {
+  const wanted = (name || "").trim().toLowerCase();
+  return wanted ? breeds.find((breed) => breed.name.toLowerCase() === wanted) : undefined;
+}
+
+/** Body weight bounds (kg) for a breed, or the general bounds when it is not catalogued */
+export function bodyWeightBounds(breed?: Breed): { min: number; max: number } {
+  return breed
+    ? { min: breed.min_body_weight_kg, max: breed.max_body_weight_kg }
+    : DEFAULT_BODY_WEIGHT_BOUNDS;
+}
@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+import * as z from "zod";
+import { CattleInfo } from "@/lib/types";
+import { createTranslator } from "@/lib/i18n";
+import {
+  checkCattleInfo,
+  LACTATION_FIELDS,
+  MAX_DAYS_OF_PREGNANCY,
+  refineCattleInfo,
+} from "./cattle-info-rules";
+
+// A consistent lactating, grazing cow that passes every rule
+const valid: CattleInfo = {
+  breed: "Holstein",
+  bc_score: 3,
+  body_weight: 600,
+  calving_interval: 400,
+  bw_gain: 0.2,
+  days_in_milk: 150,
+  days_of_pregnancy: 60,
+  distance: 2,
+  grazing: true,
+  lactating: true,
+  fat_milk: 3.7,
+  milk_production: 25,
+  tp_milk: 3.1,
+  parity: 2,
+  temperature: 20,
+  topography: "Flat",
+};
+
+const dry: CattleInfo = {
+  ...valid,
+  lactating: false,
+  milk_production: 0,
+  fat_milk: 0,
+  tp_milk: 0,
+  days_in_milk: 0,
+};
+
+const check = (changes: Partial<CattleInfo>) => checkCattleInfo({ ...valid, ...changes });
+
+describe("checkCattleInfo", () => {
+  it("accepts consistent lactating and dry cows", () => {
+    expect(checkCattleInfo(valid)).toEqual([]);
+    expect(checkCattleInfo(dry)).toEqual([]);
+  });
+
+  describe("lactation fields", () => {
+    it.each(LACTATION_FIELDS)("requires %s while lactating", (field) => {
+      expect(check({ [field]: 0 })).toContainEqual({
+        path: field,
+        message: "validation.requiredWhenLactating",
+      });
+    });
+
+    it("rejects negative values while lactating", () => {
+      expect(check({ fat_milk: -1 })).toContainEqual({
+        path: "fat_milk",
+        message: "validation.requiredWhenLactating",
+      });
+    });
+  });
+
+  describe("milk from a dry cow", () => {
+    it("flags milk production on a cow that is not lactating", () => {
+      expect(checkCattleInfo({ ...dry, milk_production: 0.1 })).toEqual([
+        { path: "lactating", message: "validation.milkWhenDry" },
+      ]);
+    });
+
+    it("allows zero milk production", () => {
+      expect(checkCattleInfo({ ...dry, milk_production: 0 })).toEqual([]);
+    });
+  });
+
+  describe("grazing distance", () => {
+    it("requires a distance while grazing", () => {
+      expect(check({ distance: 0 })).toEqual([
+        { path: "distance", message: "validation.requiredWhenGrazing" },
+      ]);
+    });
+
+    it("does not require one when not grazing", () => {
+      expect(check({ grazing: false, distance: 0 })).toEqual([]);
+    });
+  });
+
+  describe("pregnancy length", () => {
+    it("allows the longest pregnancy", () => {
+      expect(checkCattleInfo({ ...dry, days_of_pregnancy: MAX_DAYS_OF_PREGNANCY })).toEqual([]);
+    });
+
+    it("rejects a day beyond it", () => {
+      expect(checkCattleInfo({ ...dry, days_of_pregnancy: MAX_DAYS_OF_PREGNANCY + 1 })).toEqual([
+        {
+          path: "days_of_pregnancy",
+          message: "validation.pregnancyTooLong",
+          params: { max: MAX_DAYS_OF_PREGNANCY },
+        },
+      ]);
+    });
+  });
+
+  describe("days in milk against the calving interval", () => {
+    it("allows days in milk equal to the interval", () => {
+      expect(check({ days_in_milk: 400 })).toEqual([]);
+    });
+
+    it("rejects days in milk beyond the interval", () => {
+      expect(check({ days_in_milk: 401 })).toEqual([
+        { path: "days_in_milk", message: "validation.daysInMilkOverInterval", params: { max: 400 } },
+      ]);
+    });
+
+    it("skips the check when the interval is unknown", () => {
+      expect(check({ calving_interval: 0, days_in_milk: 500 })).toEqual([]);
+    });
+
+    it("skips the check for a dry cow", () => {
+      expect(checkCattleInfo({ ...dry, days_in_milk: 500 })).toEqual([]);
+    });
+  });
+
+  describe("pregnancy against days in milk", () => {
+    it("allows a pregnancy as long as the lactation", () => {
+      expect(check({ days_of_pregnancy: 150 })).toEqual([]);
+    });
+
+    it("rejects a pregnancy that started before calving", () => {
+      expect(check({ days_of_pregnancy: 151 })).toEqual([
+        {
+          path: "days_of_pregnancy",
+          message: "validation.pregnancyOverDaysInMilk",
+          params: { max: 150 },
+        },
+      ]);
+    });
+
+    it("does not apply to a dry cow", () => {
+      expect(checkCattleInfo({ ...dry, days_of_pregnancy: 200 })).toEqual([]);
+    });
+  });
+
+  it("reports every broken rule at once", () => {
+    const issues = check({ distance: 0, days_of_pregnancy: 300, fat_milk: 0 });
+
+    expect(issues.map((issue) => issue.message)).toEqual([
+      "validation.requiredWhenLactating",
+      "validation.requiredWhenGrazing",
+      "validation.pregnancyTooLong",
+      "validation.pregnancyOverDaysInMilk",
+    ]);
+  });
+});
+
+describe("refineCattleInfo", () => {
+  const t = createTranslator("en");
+  const schema = z.custom<CattleInfo>().superRefine(refineCattleInfo(t));
+
+  it("passes consistent cattle info", () => {
+    expect(schema.safeParse(valid).success).toBe(true);
+  });
+
+  it("reports each issue on its field with a translated message", () => {
+    const result = schema.safeParse({ ...valid, distance: 0, days_in_milk: 401 });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map(({ path, message }) => ({ path, message }))).toEqual([
+      { path: ["distance"], message: "Required when the cow is grazing" },
+      { path: ["days_in_milk"], message: "Must not exceed the calving interval (400 days)" },
+    ]);
+  });
+
+  it("fills in message parameters", () => {
+    const result = schema.safeParse({ ...dry, days_of_pregnancy: MAX_DAYS_OF_PREGNANCY + 1 });
+
+    expect(result.error?.issues[0].message).toBe(`A pregnancy lasts at most ${MAX_DAYS_OF_PREGNANCY} days`);
+  });
+});
@@ -0,0 +1,85 @@
+import * as z from "zod";
+import { CattleInfo } from "@/lib/types";
+import type { MessageKey, Translate, TranslationParams } from "@/lib/i18n";
+
+// Longest pregnancy a dairy cow carries, in days
+export const MAX_DAYS_OF_PREGNANCY = 283;
+
+export interface CattleInfoIssue {
+  path: keyof CattleInfo;
+  message: MessageKey;
+  params?: TranslationParams;
+}
+
+type CattleInfoRule = (info: CattleInfo) => CattleInfoIssue[];
+
+// Only asked for while the cow is lactating
+export const LACTATION_FIELDS = ["milk_production", "fat_milk", "tp_milk", "days_in_milk"] as const;
+
+const lactationRequired: CattleInfoRule = (info) =>
+  info.lactating
+    ? LACTATION_FIELDS
+        .filter((field) => !(info[field] > 0))
+        .map((field) => ({ path: field, message: "validation.requiredWhenLactating" }))
+    : [];
+
+const noMilkWhenDry: CattleInfoRule = (info) =>
+  !info.lactating && info.milk_production > 0
+    ? [{ path: "lactating", message: "validation.milkWhenDry" }]
+    : [];
+
+const distanceWhenGrazing: CattleInfoRule = (info) =>
+  info.grazing && !(info.distance > 0)
+    ? [{ path: "distance", message: "validation.requiredWhenGrazing" }]
+    : [];
+
+const pregnancyLength: CattleInfoRule = (info) =>
+  info.days_of_pregnancy > MAX_DAYS_OF_PREGNANCY
+    ? [{ path: "days_of_pregnancy", message: "validation.pregnancyTooLong", params: { max: MAX_DAYS_OF_PREGNANCY } }]
+    : [];
+
+// A lactating cow calved days_in_milk ago, so the lactation cannot outlast the
+// calving interval and any pregnancy must have started since calving
+const lactationTiming: CattleInfoRule = (info) => {
+  if (!info.lactating || !(info.days_in_milk > 0)) return [];
+  const issues: CattleInfoIssue[] = [];
+  if (info.calving_interval > 0 && info.days_in_milk > info.calving_interval) {
+    issues.push({
+      path: "days_in_milk",
+      message: "validation.daysInMilkOverInterval",
+      params: { max: info.calving_interval },
+    });
+  }
+  if (info.days_of_pregnancy > info.days_in_milk) {
+    issues.push({
+      path: "days_of_pregnancy",
+      message: "validation.pregnancyOverDaysInMilk",
+      params: { max: info.days_in_milk },
+    });
+  }
+  return issues;
+};
+
+const rules: CattleInfoRule[] = [
+  lactationRequired,
+  noMilkWhenDry,
+  distanceWhenGrazing,
+  pregnancyLength,
+  lactationTiming,
+];
+
+/**
+ * Cross-field checks on cattle info in canonical units.
+ * Shared by the cattle info form and the recommendation API calls.
+ */
+export function checkCattleInfo(info: CattleInfo): CattleInfoIssue[] {
+  return rules.flatMap((rule) => rule(info));
+}
+
+/** Report rule violations on a zod schema, e.g. `schema.superRefine(refineCattleInfo(t))` */
+export const refineCattleInfo =
+  (t: Translate) => (info: CattleInfo, ctx: z.RefinementCtx) => {
+    for (const issue of checkCattleInfo(info)) {
+      ctx.addIssue({ code: "custom", path: [issue.path], message: t(issue.message, issue.params) });
+    }
+  };
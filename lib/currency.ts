@@ -0,0 +1,80 @@
+import { User } from "@/lib/types";
+import { DEFAULT_LOCALE, formatNumber, isLocale } from "@/lib/i18n";
+
+interface MoneyFormatOptions {
+  // BCP 47 locale for digits and separators; the browser's locale when omitted
+  locale?: string;
+  minimumFractionDigits?: number;
+  maximumFractionDigits?: number;
+}
+
+const formatterCache = new Map<string, Intl.NumberFormat>();
+
+function getFormatter(currency: string | undefined, options: MoneyFormatOptions): Intl.NumberFormat {
+  const minimumFractionDigits = options.minimumFractionDigits ?? 2;
+  const maximumFractionDigits = Math.max(options.maximumFractionDigits ?? 2, minimumFractionDigits);
+  const key = `${options.locale || ""}|${currency || ""}|${minimumFractionDigits}|${maximumFractionDigits}`;
+
+  let formatter = formatterCache.get(key);
+  if (!formatter) {
+    try {
+      formatter = new Intl.NumberFormat(options.locale, {
+        ...(currency ? { style: "currency", currency, currencyDisplay: "narrowSymbol" } : {}),
+        minimumFractionDigits,
+        maximumFractionDigits,
+      });
+    } catch {
+      // Unknown currency code - fall back to plain number formatting
+      formatter = new Intl.NumberFormat(options.locale, { minimumFractionDigits, maximumFractionDigits });
+    }
+    formatterCache.set(key, formatter);
+  }
+  return formatter;
+}
+
+function isValidCurrency(currency: string): boolean {
+  try {
+    new Intl.NumberFormat(undefined, { style: "currency", currency });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve the ISO 4217 currency code to display amounts in.
+ * A currency from an API response (e.g. FeedEvaluationResponse.currency)
+ * takes precedence over the logged-in user's country currency.
+ */
+export function resolveCurrency(user?: User | null, override?: string | null): string | undefined {
+  const candidate = (override || user?.country?.currency || "").trim().toUpperCase();
+  return candidate && isValidCurrency(candidate) ? candidate : undefined;
+}
+
+/**
+ * Format an amount of money in the given currency.
+ * Without a currency the amount is formatted as a plain number.
+ */
+export function formatMoney(
+  amount: number | null | undefined,
+  currency?: string,
+  options: MoneyFormatOptions = {}
+): string {
+  if (amount === null || amount === undefined || Number.isNaN(amount)) {
+    // The same placeholder as missing numbers, in the locale's language
+    return formatNumber(isLocale(options.locale) ? options.locale : DEFAULT_LOCALE, null);
+  }
+  return getFormatter(currency, options).format(amount);
+}
+
+/**
+ * Get the display symbol for a currency (e.g. "₹", "KSh", "Br").
+ * Falls back to the currency code itself, or an empty string without one.
+ */
+export function getCurrencySymbol(currency?: string): string {
+  if (!currency) return "";
+  const part = getFormatter(currency, {})
+    .formatToParts(0)
+    .find((p) => p.type === "currency");
+  return part?.value || currency;
+}
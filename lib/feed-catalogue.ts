@@ -0,0 +1,66 @@
+import { feedApi } from "@/lib/api/endpoints";
+import { FeedSubCategory } from "@/lib/types";
+import { useAuthStore } from "@/store/auth-store";
+import { userCachesCleared } from "@/lib/user-storage";
+
+// Catalogue requests are cached per user and country for the lifetime of the page.
+// The lists include the user's custom feeds, so accounts must not share them.
+const catalogueCache = new Map<string, Promise<FeedSubCategory[]>>();
+
+const cacheKey = (countryId: string) =>
+  `${useAuthStore.getState().user?.id ?? ""}:${countryId}`;
+
+async function fetchFeedCatalogue(countryId: string): Promise<FeedSubCategory[]> {
+  // The service worker may still be emptying the previous user's cached responses
+  await userCachesCleared();
+  const feedTypes = await feedApi.getFeedTypes(countryId);
+
+  const feedsByType = await Promise.all(
+    feedTypes.map(async (feedType) => {
+      const { unique_feed_categories } = await feedApi.getFeedCategories(feedType, countryId);
+      const feedsByCategory = await Promise.all(
+        (unique_feed_categories || []).map((feedCategory) =>
+          feedApi.getFeedSubCategories(feedType, feedCategory, countryId)
+        )
+      );
+      return feedsByCategory.flat();
+    })
+  );
+
+  // The same feed can be listed under several categories - keep the first
+  const seen = new Set<string>();
+  return feedsByType.flat().filter((feed) => {
+    if (seen.has(feed.feed_uuid)) return false;
+    seen.add(feed.feed_uuid);
+    return true;
+  });
+}
+
+/**
+ * Load every feed available in a country across all types and categories.
+ * Concurrent callers share one request; failures are not cached.
+ */
+export function loadFeedCatalogue(countryId: string): Promise<FeedSubCategory[]> {
+  const key = cacheKey(countryId);
+  let catalogue = catalogueCache.get(key);
+  if (!catalogue) {
+    catalogue = fetchFeedCatalogue(countryId).catch((error) => {
+      catalogueCache.delete(key);
+      throw error;
+    });
+    catalogueCache.set(key, catalogue);
+  }
+  return catalogue;
+}
+
+/**
+ * Drop cached catalogues, e.g. after the user's country changes.
+ * @param countryId - Country to clear; clears every country when omitted
+ */
+export function clearFeedCatalogue(countryId?: string) {
+  if (countryId) {
+    catalogueCache.delete(cacheKey(countryId));
+  } else {
+    catalogueCache.clear();
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { FeedSubCategory } from "@/lib/types";
+import { getFeedAliases, groupFeedSearchResults, searchFeeds } from "./feed-search";
+
+let rowId = 0;
+const feed = (feed_name: string, feed_type: string, feed_category: string): FeedSubCategory => {
+  rowId++;
+  return { feed_cd: `F${rowId}`, row_id: rowId, feed_uuid: `uuid-${rowId}`, feed_name, feed_type, feed_category };
+};
+
+const feeds = [
+  feed("Maize bran (Madeya)", "Concentrate", "Energy"),
+  feed("Maize germ", "Concentrate", "Energy"),
+  feed("Cottonseed cake / Pamba", "Concentrate", "Protein"),
+  feed("Blé concassé", "Concentrate", "Energy"),
+  feed("Grass pellets", "Concentrate", "Pellets"),
+  feed("Napier grass", "Forage", "Grass"),
+  feed("Ryegrass", "Forage", "Grass"),
+];
+
+const names = (query: string) => searchFeeds(feeds, query).map((result) => result.feed.feed_name);
+
+describe("getFeedAliases", () => {
+  it("splits local names out of the feed name", () => {
+    expect(getFeedAliases("Maize bran (Madeya)")).toEqual(["Maize bran", "Madeya"]);
+    expect(getFeedAliases("Cottonseed cake / Pamba")).toEqual(["Cottonseed cake", "Pamba"]);
+  });
+});
+
+describe("searchFeeds", () => {
+  it("ranks a leading match above a word match above a match inside a word", () => {
+    expect(names("grass")).toEqual(["Grass pellets", "Napier grass", "Ryegrass"]);
+  });
+
+  it("orders equally good matches by name", () => {
+    expect(names("maize")).toEqual(["Maize bran (Madeya)", "Maize germ"]);
+  });
+
+  it("requires every word of the query to match", () => {
+    expect(names("maize germ")).toEqual(["Maize germ"]);
+  });
+
+  it("finds feeds by local name and reports the alias", () => {
+    const [result] = searchFeeds(feeds, "pamba");
+
+    expect(result.feed.feed_name).toBe("Cottonseed cake / Pamba");
+    expect(result.matchedAlias).toBe("Pamba");
+  });
+
+  it("tolerates typos", () => {
+    expect(names("maise")).toEqual(["Maize bran (Madeya)", "Maize germ"]);
+    expect(names("maise bran")[0]).toBe("Maize bran (Madeya)");
+  });
+
+  it("ignores accents and case", () => {
+    expect(names("ble")).toEqual(["Blé concassé"]);
+    expect(names("BLÉ CONCASSÉ")).toEqual(["Blé concassé"]);
+    expect(searchFeeds(feeds, "MAIZE GERM")).toEqual(searchFeeds(feeds, "maize germ"));
+  });
+
+  it("returns nothing for an empty query", () => {
+    expect(searchFeeds(feeds, "")).toEqual([]);
+    expect(searchFeeds(feeds, "   ")).toEqual([]);
+    expect(searchFeeds(feeds, "!?")).toEqual([]);
+  });
+
+  it("stops at the limit", () => {
+    expect(searchFeeds(feeds, "grass", 2)).toHaveLength(2);
+  });
+});
+
+describe("groupFeedSearchResults", () => {
+  it("groups by type and category, in order of each group's best result", () => {
+    const groups = groupFeedSearchResults(searchFeeds(feeds, "grass"));
+
+    expect(
+      groups.map((group) => [group.feedType, group.feedCategory, group.results.map((result) => result.feed.feed_name)])
+    ).toEqual([
+      ["Concentrate", "Pellets", ["Grass pellets"]],
+      ["Forage", "Grass", ["Napier grass", "Ryegrass"]],
+    ]);
+  });
+
+  it("returns no groups for no results", () => {
+    expect(groupFeedSearchResults([])).toEqual([]);
+  });
+});
@@ -0,0 +1,143 @@
+import { FeedSubCategory } from "@/lib/types";
+
+export interface FeedSearchResult {
+  feed: FeedSubCategory;
+  score: number;
+  matchedAlias?: string;
+}
+
+export interface FeedSearchGroup {
+  feedType: string;
+  feedCategory: string;
+  results: FeedSearchResult[];
+}
+
+const normalize = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+/**
+ * Local names are recorded inside the feed name, e.g.
+ * "Maize bran (Madeya)" or "Cottonseed cake / Pamba".
+ * @returns The main name followed by each alias
+ */
+export function getFeedAliases(feedName: string): string[] {
+  return feedName
+    .split(/[()/,;]/)
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+}
+
+// Levenshtein distance, stopping early once it exceeds maxDistance
+function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Characters of the query appear in order within the text
+function isSubsequence(query: string, text: string): boolean {
+  let position = 0;
+  for (const char of text) {
+    if (char === query[position]) position++;
+    if (position === query.length) return true;
+  }
+  return false;
+}
+
+function scoreTerm(term: string, text: string): number {
+  const words = text.split(" ");
+  if (text === term) return 100;
+  if (text.startsWith(term)) return 80;
+  if (words.some((word) => word.startsWith(term))) return 60;
+  if (text.includes(term)) return 40;
+  if (term.length >= 4) {
+    const tolerance = term.length >= 7 ? 2 : 1;
+    if (words.some((word) => editDistance(term, word.slice(0, term.length), tolerance) <= tolerance)) {
+      return 25;
+    }
+  }
+  if (term.length >= 3 && isSubsequence(term, text.replace(/ /g, ""))) return 10;
+  return 0;
+}
+
+/**
+ * Score a text against a query: every query word must match.
+ * @returns 0 when there is no match, higher is better
+ */
+function scoreText(query: string, text: string): number {
+  const terms = query.split(" ");
+  let total = 0;
+  for (const term of terms) {
+    const score = scoreTerm(term, text);
+    if (score === 0) return 0;
+    total += score;
+  }
+  return total / terms.length;
+}
+
+/**
+ * Fuzzy-search feeds by name and local aliases.
+ * @param feeds - Catalogue to search
+ * @param query - Free text typed by the user
+ * @param limit - Maximum number of results (default: 50)
+ * @returns Matches, best first
+ */
+export function searchFeeds(feeds: FeedSubCategory[], query: string, limit: number = 50): FeedSearchResult[] {
+  const normalizedQuery = normalize(query);
+  if (!normalizedQuery) return [];
+
+  const results: FeedSearchResult[] = [];
+  for (const feed of feeds) {
+    const [mainName, ...aliases] = getFeedAliases(feed.feed_name);
+    let best: FeedSearchResult = { feed, score: scoreText(normalizedQuery, normalize(feed.feed_name)) };
+
+    // Score the main name on its own so aliases don't dilute prefix matches
+    const mainScore = scoreText(normalizedQuery, normalize(mainName || ""));
+    if (mainScore > best.score) best = { feed, score: mainScore };
+
+    for (const alias of aliases) {
+      // Alias hits rank slightly below equivalent name hits
+      const aliasScore = scoreText(normalizedQuery, normalize(alias)) * 0.9;
+      if (aliasScore > best.score) best = { feed, score: aliasScore, matchedAlias: alias };
+    }
+
+    if (best.score > 0) results.push(best);
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.feed.feed_name.localeCompare(b.feed.feed_name))
+    .slice(0, limit);
+}
+
+/**
+ * Group search results by feed type and category, keeping the best groups first.
+ */
+export function groupFeedSearchResults(results: FeedSearchResult[]): FeedSearchGroup[] {
+  const groups = new Map<string, FeedSearchGroup>();
+  for (const result of results) {
+    const key = `${result.feed.feed_type}|${result.feed.feed_category}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { feedType: result.feed.feed_type, feedCategory: result.feed.feed_category, results: [] };
+      groups.set(key, group);
+    }
+    group.results.push(result);
+  }
+  return Array.from(groups.values());
+}
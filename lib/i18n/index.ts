@@ -0,0 +1,127 @@
+// Message catalogues, locale detection and locale-aware formatting.
+// Messages use {name} placeholders; plural messages pick a form with Intl.PluralRules.
+
+import { en, Message, MessageKey } from "./messages/en";
+import { am } from "./messages/am";
+import { sw } from "./messages/sw";
+import { hi } from "./messages/hi";
+import { fr } from "./messages/fr";
+import { ar } from "./messages/ar";
+
+export type { MessageKey };
+
+export type Direction = "ltr" | "rtl";
+
+export const LOCALES = [
+  { code: "en", name: "English", dir: "ltr" },
+  { code: "am", name: "አማርኛ", dir: "ltr" },
+  { code: "sw", name: "Kiswahili", dir: "ltr" },
+  { code: "hi", name: "हिन्दी", dir: "ltr" },
+  { code: "fr", name: "Français", dir: "ltr" },
+  { code: "ar", name: "العربية", dir: "rtl" },
+] as const satisfies readonly { code: string; name: string; dir: Direction }[];
+
+export type Locale = (typeof LOCALES)[number]["code"];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+const catalogues: Record<Locale, Record<MessageKey, Message>> = { en, am, sw, hi, fr, ar };
+
+// ISO 3166 alpha-2 and alpha-3 codes of countries whose users mostly read these languages
+const COUNTRY_LOCALES: Record<string, Locale> = {
+  ET: "am", ETH: "am",
+  KE: "sw", KEN: "sw", TZ: "sw", TZA: "sw", UG: "sw", UGA: "sw",
+  IN: "hi", IND: "hi",
+  FR: "fr", FRA: "fr", SN: "fr", SEN: "fr", CI: "fr", CIV: "fr", BF: "fr", BFA: "fr",
+  ML: "fr", MLI: "fr", NE: "fr", NER: "fr", CM: "fr", CMR: "fr", BJ: "fr", BEN: "fr",
+  TG: "fr", TGO: "fr", GN: "fr", GIN: "fr", TD: "fr", TCD: "fr", CD: "fr", COD: "fr",
+  CG: "fr", COG: "fr", BI: "fr", BDI: "fr", MG: "fr", MDG: "fr", HT: "fr", HTI: "fr",
+  EG: "ar", EGY: "ar", SD: "ar", SDN: "ar", SA: "ar", SAU: "ar", MA: "ar", MAR: "ar",
+  DZ: "ar", DZA: "ar", TN: "ar", TUN: "ar", LY: "ar", LBY: "ar", JO: "ar", JOR: "ar",
+  IQ: "ar", IRQ: "ar", SY: "ar", SYR: "ar", YE: "ar", YEM: "ar", OM: "ar", OMN: "ar",
+  AE: "ar", ARE: "ar", MR: "ar", MRT: "ar",
+};
+
+export type TranslationParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: TranslationParams) => string;
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.some((locale) => locale.code === value);
+}
+
+/** Text direction of a locale, for the dir attribute */
+export function localeDirection(locale: Locale): Direction {
+  return LOCALES.find((option) => option.code === locale)?.dir ?? "ltr";
+}
+
+/** Whether a key built at runtime (e.g. from an API value) has a message */
+export function isMessageKey(key: string): key is MessageKey {
+  return key in en;
+}
+
+/** Locale for a user's country, English when the country has no catalogue */
+export function localeForCountry(countryCode?: string | null): Locale {
+  return COUNTRY_LOCALES[(countryCode || "").trim().toUpperCase()] ?? DEFAULT_LOCALE;
+}
+
+const pluralRulesCache = new Map<Locale, Intl.PluralRules>();
+const numberFormatCache = new Map<string, Intl.NumberFormat>();
+
+function getPluralRules(locale: Locale) {
+  let rules = pluralRulesCache.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRulesCache.set(locale, rules);
+  }
+  return rules;
+}
+
+/** Format a number for the locale; returns "N/A" for missing values */
+export function formatNumber(
+  locale: Locale,
+  value: number | null | undefined,
+  options: Intl.NumberFormatOptions = {}
+): string {
+  if (value === null || value === undefined || Number.isNaN(value)) {
+    return catalogues[locale]["common.notAvailable"] as string;
+  }
+  const key = `${locale}|${JSON.stringify(options)}`;
+  let formatter = numberFormatCache.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, options);
+    numberFormatCache.set(key, formatter);
+  }
+  return formatter.format(value);
+}
+
+/** Format a date for the locale (date only unless options say otherwise) */
+export function formatDate(
+  locale: Locale,
+  value: Date | string | number,
+  options: Intl.DateTimeFormatOptions = { dateStyle: "medium" }
+): string {
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? "" : new Intl.DateTimeFormat(locale, options).format(date);
+}
+
+function selectMessage(locale: Locale, message: Message, params?: TranslationParams): string {
+  if (typeof message === "string") return message;
+  const count = Number(params?.count ?? 0);
+  return message[getPluralRules(locale).select(count)] ?? message.other;
+}
+
+/**
+ * Create a translate function for a locale. Missing messages fall back to
+ * English, then to the key itself. Numeric parameters are formatted for the locale.
+ */
+export function createTranslator(locale: Locale): Translate {
+  return (key, params) => {
+    const message = catalogues[locale][key] ?? en[key];
+    if (message === undefined) return key;
+    return selectMessage(locale, message, params).replace(/\{(\w+)\}/g, (match, name: string) => {
+      const value = params?.[name];
+      if (value === undefined) return match;
+      return typeof value === "number" ? formatNumber(locale, value) : value;
+    });
+  };
+}
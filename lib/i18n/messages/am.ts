@@ -0,0 +1,658 @@
+import type { Message, MessageKey } from "./en";
+
+export const am: Record<MessageKey, Message> = {
+  "common.back": "ተመለስ",
+  "common.continue": "ቀጥል",
+  "common.reset": "ዳግም አስጀምር",
+  "common.cancel": "ሰርዝ",
+  "common.yes": "አዎ",
+  "common.no": "አይ",
+  "common.notAvailable": "የለም",
+
+  "validation.breedRequired": "ዝርያ ያስፈልጋል",
+  "validation.topographyRequired": "የመሬት አቀማመጥ ያስፈልጋል",
+  "validation.min": "ቢያንስ {min} መሆን አለበት",
+  "validation.max": "ቢበዛ {max} መሆን አለበት",
+  "validation.requiredWhenLactating": "ለምታጠባ ላም ያስፈልጋል",
+  "validation.requiredWhenGrazing": "ላሟ ስትግጥ ያስፈልጋል",
+  "validation.milkWhenDry": "የወተት ምርት ተመዝግቧል፣ ስለዚህ ላሟ የምታጠባ መሆን አለባት",
+  "validation.pregnancyTooLong": "እርግዝና ቢበዛ {max} ቀናት ይቆያል",
+  "validation.daysInMilkOverInterval": "ከመውለጃ ልዩነቱ ({max} ቀናት) መብለጥ የለበትም",
+  "validation.pregnancyOverDaysInMilk": "ከወተት ቀናት ({max}) መብለጥ የለበትም",
+  "validation.inconsistentCattleInfo": "የከብቱ መረጃ የማይጣጣም ነው። እባክዎ ይፈትሹና እንደገና ይሞክሩ።",
+  "validation.emailInvalid": "ልክ ያልሆነ የኢሜይል አድራሻ",
+  "validation.pinLength": "ፒን በትክክል 4 አሃዞች መሆን አለበት",
+  "validation.pinDigits": "ፒን አሃዞችን ብቻ መያዝ አለበት",
+  "validation.pinsMismatch": "ፒኖቹ አይዛመዱም",
+  "validation.nameRequired": "ስም ያስፈልጋል",
+  "validation.countryRequired": "አገር ያስፈልጋል",
+  "validation.codeRequired": "ከኢሜይልዎ የደረሰውን ኮድ ያስገቡ",
+  "validation.pinUnchanged": "አዲሱ ፒን ከአሁኑ ፒንዎ የተለየ መሆን አለበት",
+
+  "language.title": "ቋንቋ",
+  "language.description": "ለመተግበሪያው እና ለPDF ሪፖርቶችዎ ቋንቋ ይምረጡ",
+  "language.automatic": "በራስ-ሰር ({language})",
+
+  "units.title": "መለኪያዎች",
+  "units.description": "የከብት መረጃ ለማስገባት እና ሪፖርቶችን ለማንበብ መለኪያዎችን ይምረጡ",
+  "units.system": "የመለኪያ ሥርዓት",
+  "units.metric": "ሜትሪክ (kg, km, °C)",
+  "units.imperial": "ኢምፔሪያል (lb, mi, °F)",
+  "units.milk": "ወተት",
+  "units.milkVolume": "በመጠን (L, gal)",
+  "units.milkMass": "በክብደት (kg, lb)",
+
+  "cattleInfo.title": "የከብት መረጃ",
+  "cattleInfo.description": "የመኖ ምክሮችን ለማግኘት ስለ ከብቶችዎ ዝርዝር ያስገቡ",
+  "cattleInfo.section.animal": "የእንስሳው ባህሪያት",
+  "cattleInfo.section.milk": "የወተት ምርት",
+  "cattleInfo.section.reproduction": "የመራባት መረጃ",
+  "cattleInfo.section.environment": "አካባቢ",
+  "cattleInfo.breed": "ዝርያ",
+  "cattleInfo.selectBreed": "ዝርያ ይምረጡ",
+  "cattleInfo.breedOther": "ሌላ",
+  "cattleInfo.bodyWeight": "የሰውነት ክብደት ({unit})",
+  "cattleInfo.bcScore": "የሰውነት ሁኔታ ነጥብ (1-5)",
+  "cattleInfo.bwGain": "የዕለት ክብደት ጭማሪ ({unit})",
+  "cattleInfo.lactating": "በማለብ ላይ",
+  "cattleInfo.milkProduction": "የወተት ምርት ({unit}/ቀን)",
+  "cattleInfo.fatMilk": "የወተት ስብ (%)",
+  "cattleInfo.tpMilk": "የወተት ፕሮቲን (%)",
+  "cattleInfo.daysInMilk": "የማለቢያ ቀናት",
+  "cattleInfo.parity": "የወሊድ ብዛት",
+  "cattleInfo.calvingInterval": "በወሊዶች መካከል ያለው ጊዜ (ቀናት)",
+  "cattleInfo.daysOfPregnancy": "የእርግዝና ቀናት",
+  "cattleInfo.grazing": "ግጦሽ",
+  "cattleInfo.distance": "ርቀት ({unit})",
+  "cattleInfo.topography": "የመሬት አቀማመጥ",
+  "cattleInfo.selectTopography": "የመሬት አቀማመጥ ይምረጡ",
+  "cattleInfo.topography.Flat": "ሜዳማ",
+  "cattleInfo.topography.Hilly": "ኮረብታማ",
+  "cattleInfo.topography.Mountainous": "ተራራማ",
+  "cattleInfo.temperature": "የሙቀት መጠን ({unit})",
+  "cattleInfo.mode.label": "የማስገቢያ ዘዴ",
+  "cattleInfo.mode.wizard": "ደረጃ በደረጃ",
+  "cattleInfo.mode.form": "ሙሉ ቅጽ",
+
+  "wizard.progress": "ጥያቄ {current} ከ{total}",
+  "wizard.next": "ቀጣይ",
+  "wizard.finish": "ጨርስ",
+  "wizard.autosaved": "መልሶችዎ በሂደት ይቀመጣሉ",
+  "wizard.reviewTitle": "መልሶችዎን ይፈትሹ",
+  "wizard.change": "ቀይር",
+  "wizard.fixAnswers": "አንዳንድ መልሶች መታረም አለባቸው",
+  "wizard.question.breed": "ላሟ የምን ዝርያ ናት?",
+  "wizard.question.body_weight": "ላሟ ምን ያህል ትመዝናለች?",
+  "wizard.question.bc_score": "ላሟን ከኋላ ስትታይ የትኛው ምስል ይመስላታል?",
+  "wizard.question.bw_gain": "በቀን ምን ያህል ክብደት ትጨምራለች?",
+  "wizard.question.lactating": "ላሟ አሁን ወተት ትሰጣለች?",
+  "wizard.question.milk_production": "በቀን ምን ያህል ወተት ትሰጣለች?",
+  "wizard.question.fat_milk": "ወተቷ ምን ያህል ስብ አለው?",
+  "wizard.question.tp_milk": "ወተቷ ምን ያህል ፕሮቲን አለው?",
+  "wizard.question.days_in_milk": "ከወለደች ስንት ቀን ሆናት?",
+  "wizard.question.parity": "ስንት ጊዜ ወልዳለች?",
+  "wizard.question.calving_interval": "በወሊዶቿ መካከል ስንት ቀናት አሉ?",
+  "wizard.question.days_of_pregnancy": "ካረገዘች ስንት ቀን ሆናት?",
+  "wizard.question.grazing": "ላሟ ለግጦሽ ትወጣለች?",
+  "wizard.question.distance": "በቀን ምን ያህል ርቀት ትጓዛለች?",
+  "wizard.question.topography": "የምትሄድበት መሬት ምን ዓይነት ነው?",
+  "wizard.question.temperature": "በተለመደ ቀን ውጭ ምን ያህል ይሞቃል?",
+  "wizard.hint.breedTypical": "ካላወቁ የዝርያውን የተለመደ ዋጋ ይተዉት",
+  "wizard.hint.notPregnant": "ካላረገዘች 0 ያስገቡ",
+  "wizard.bcs.1": "በጣም የከሳች",
+  "wizard.bcs.2": "የከሳች",
+  "wizard.bcs.3": "ጥሩ",
+  "wizard.bcs.4": "የወፈረች",
+  "wizard.bcs.5": "በጣም የወፈረች",
+
+  "weightEstimator.title": "ሚዛን የለዎትም? የመለኪያ ቴፕ ይጠቀሙ",
+  "weightEstimator.instructions": "ቴፑን ከፊት እግሮቿ ጀርባ በደረቷ ዙሪያ ይጠቅልሉትና ትንፋሽ ስታወጣ ያንብቡት",
+  "weightEstimator.heartGirth": "የደረት ዙሪያ ({unit})",
+  "weightEstimator.estimate": "የተገመተ ክብደት፦ {weight}",
+  "weightEstimator.outOfRange": "መለኪያውን ይፈትሹ። ከ{min} እስከ {max} መሆን አለበት",
+  "weightEstimator.use": "ይህን ክብደት ተጠቀም",
+  "weightEstimator.open": "በቴፕ መለኪያ ግምት",
+  "weightEstimator.bodyLength": "የሰውነት ርዝመት ({unit}፣ አማራጭ)",
+  "weightEstimator.bodyLengthHint": "ከትከሻ ጫፍ እስከ መቀመጫ አጥንት። መጨመሩ የተሻለ ግምት ይሰጣል",
+  "weightEstimator.lengthOutOfRange": "የሰውነት ርዝመቱን ያረጋግጡ። በ{min} እና በ{max} መካከል መሆን አለበት",
+  "weightEstimator.formula.heinrichs": "Heinrichs et al. (1992)፣ የደረት ዙሪያ፣ በሆልስታይን ላይ የተዘጋጀ",
+  "weightEstimator.formula.schaeffer": "የSchaeffer ቀመር፣ የደረት ዙሪያ እና የሰውነት ርዝመት",
+  "weightEstimator.formula.crevat": "የCrevat ቀመር፣ የደረት ዙሪያ",
+  "weightEstimator.formula.quetelet": "የQuételet ቀመር፣ የደረት ዙሪያ እና የሰውነት ርዝመት",
+  "weightEstimator.formulaUnits": "W ክብደት በኪ.ግ፣ HG የደረት ዙሪያ እና L የሰውነት ርዝመት በሴ.ሜ",
+  "weightEstimator.confidence.good": "ከፍተኛ እምነት፦ በአብዛኛው ከሚዛን ክብደት በ10% ገደማ ውስጥ ነው",
+  "weightEstimator.confidence.fair": "መካከለኛ እምነት፦ ግምታዊ መመሪያ ነው፤ የበለጠ ሊራቅ ይችላል",
+  "weightEstimator.confidence.low": "ዝቅተኛ እምነት፦ ከሚዛን ክብደት በጣም ሊራቅ ይችላል",
+  "weightEstimator.selectBreed": "ለዝርያው የሚስማሙ ቀመሮችን ለመጠቀም ዝርያውን ይምረጡ",
+
+  "feedSelection.title": "የመኖ ምርጫ",
+  "feedSelection.description": "ለከብቶችዎ የመኖ ቀመር መኖዎችን ይምረጡ",
+  "feedSelection.loadBasket": "የተቀመጠ ቅርጫት ይጫኑ",
+  "feedSelection.basketOption": { one: "{name} ({count} መኖ)", other: "{name} ({count} መኖዎች)" },
+  "feedSelection.search": "መኖ ይፈልጉ",
+  "feedSelection.browse": "ወይም በዓይነት እና በምድብ ያስሱ",
+  "feedSelection.feedType": "የመኖ ዓይነት",
+  "feedSelection.selectFeedType": "የመኖ ዓይነት ይምረጡ",
+  "feedSelection.feedCategory": "የመኖ ምድብ",
+  "feedSelection.selectFeedCategory": "የመኖ ምድብ ይምረጡ",
+  "feedSelection.feedName": "የመኖ ስም",
+  "feedSelection.selectFeedName": "የመኖ ስም ይምረጡ",
+  "feedSelection.pricePerKg": "ዋጋ በኪሎ",
+  "feedSelection.enterPrice": "ዋጋ ያስገቡ",
+  "feedSelection.addFeed": "መኖ ጨምር",
+  "feedSelection.selectedFeeds": "የተመረጡ መኖዎች ({count})",
+  "feedSelection.evaluate": "የአሁኑን አመጋገብ ገምግም",
+  "feedSelection.continue": "ወደ ምክረ ሃሳብ ቀጥል",
+  "feedSelection.loadTypesFailed": "የመኖ ዓይነቶችን መጫን አልተቻለም",
+  "feedSelection.loadCategoriesFailed": "የመኖ ምድቦችን መጫን አልተቻለም",
+  "feedSelection.loadSubCategoriesFailed": "የመኖ ንዑስ ምድቦችን መጫን አልተቻለም",
+  "feedSelection.loadDetailsFailed": "የመኖ ዝርዝሮችን መጫን አልተቻለም",
+  "feedSelection.selectFeedAndPrice": "እባክዎ መኖ ይምረጡ እና ዋጋ ያስገቡ",
+  "feedSelection.alreadySelected": "{name} አስቀድሞ ተመርጧል",
+  "feedSelection.feedsAdded": { one: "{count} መኖ ተጨምሯል", other: "{count} መኖዎች ተጨምረዋል" },
+  "feedSelection.feedsFailed": {
+    one: "የ{count} መኖ ዝርዝሮችን መጫን አልተቻለም",
+    other: "የ{count} መኖዎች ዝርዝሮችን መጫን አልተቻለም",
+  },
+  "feedSelection.basketLoaded": "\"{name}\" ተጭኗል",
+  "feedSelection.replaceTitle": "የተመረጡትን መኖዎች ይተኩ?",
+  "feedSelection.replaceDescription": {
+    one: "\"{name}\"ን መጫን የመረጡትን {count} መኖ ይተካል።",
+    other: "\"{name}\"ን መጫን የመረጧቸውን {count} መኖዎች ይተካል።",
+  },
+  "feedSelection.replaceConfirm": "ቅርጫቱን ጫን",
+  "feedSelection.addAtLeastOne": "እባክዎ ቢያንስ አንድ መኖ ይጨምሩ",
+  "feedSelection.searchUnavailable": "የመኖ ፍለጋ አሁን አይገኝም። በምትኩ ከታች በዓይነት ያስሱ።",
+  "feedSelection.searchPlaceholder": "መኖዎችን በስም ወይም በአካባቢ ስም ይፈልጉ",
+  "feedSelection.noMatches": "ከ\"{query}\" ጋር የሚዛመድ መኖ የለም",
+  "feedSelection.matchesAlias": "ከ\"{alias}\" ጋር ይዛመዳል",
+  "feedSelection.selected": "ተመርጧል",
+  "feedSelection.enterPrices": "ዋጋዎችን ያስገቡ ({unit})",
+  "feedSelection.perKg": "በኪሎ",
+  "feedSelection.price": "ዋጋ",
+  "feedSelection.priceFor": "የ{name} ዋጋ",
+  "feedSelection.unselect": "{name}ን ከምርጫ አስወግድ",
+  "feedSelection.addPicked": { one: "{count} መኖ ጨምር", other: "{count} መኖዎች ጨምር" },
+  "feedSelection.removeFeed": "{name}ን አስወግድ",
+  "feedSelection.nutrient.dm": "DM",
+  "feedSelection.nutrient.cp": "CP",
+  "feedSelection.nutrient.ndf": "NDF",
+  "feedSelection.nutrient.adf": "ADF",
+  "feedSelection.nutrient.ee": "EE",
+  "feedSelection.nutrient.ash": "አመድ",
+  "feedSelection.nutrientPercent": "{nutrient} %",
+  "feedSelection.pricePerKgIn": "ዋጋ በኪሎ ({currency})",
+
+  "recommendation.title": "የመኖ ምክረ ሃሳብ",
+  "recommendation.generatedOn": "የተዘጋጀበት ቀን {date}",
+  "recommendation.reportId": "መለያ: {id}",
+  "recommendation.dailyCost": "የዕለት ወጪ",
+  "recommendation.milkProduction": "የወተት ምርት",
+  "recommendation.dryMatterIntake": "የደረቅ ምግብ ፍጆታ",
+  "recommendation.methanePerDay": "ሚቴን/ቀን",
+  "recommendation.animalInformation": "የእንስሳው መረጃ",
+  "recommendation.breed": "ዝርያ",
+  "recommendation.bodyWeight": "የሰውነት ክብደት",
+  "recommendation.bodyCondition": "የሰውነት ሁኔታ",
+  "recommendation.daysInMilk": "የማለቢያ ቀናት",
+  "recommendation.parity": "የወሊድ ብዛት",
+  "recommendation.temperature": "የሙቀት መጠን",
+  "recommendation.topography": "የመሬት አቀማመጥ",
+  "recommendation.grazing": "ግጦሽ",
+  "recommendation.recommendedDiet": "የሚመከር አመጋገብ",
+  "recommendation.ingredientCount": {
+    one: "{count} የመኖ ግብዓት ተመክሯል",
+    other: "{count} የመኖ ግብዓቶች ተመክረዋል",
+  },
+  "recommendation.noDietAvailable": "የተለየ የአመጋገብ ቀመር የለም",
+  "recommendation.feedName": "የመኖ ስም",
+  "recommendation.quantity": "መጠን ({unit})",
+  "recommendation.dmIntake": "የDM ፍጆታ ({unit})",
+  "recommendation.cost": "ወጪ",
+  "recommendation.feedFallback": "መኖ {number}",
+  "recommendation.noOptimalDiet": "በተመረጡት መኖዎች ተስማሚ አመጋገብ ማግኘት አልተቻለም።",
+  "recommendation.tryMoreFeeds": "የተለያዩ መኖዎችን (ድርቆሽ እና የተቀናጀ መኖ) ጨምረው ይሞክሩ።",
+  "recommendation.environmentalImpact": "የአካባቢ ተጽእኖ",
+  "recommendation.methaneProduction": "የCH₄ ምርት",
+  "recommendation.methaneYield": "የCH₄ መጠን",
+  "recommendation.methaneIntensity": "የCH₄ ጥንካሬ",
+  "recommendation.conversionRate": "የልወጣ መጠን",
+  "recommendation.saveReport": "ሪፖርት አስቀምጥ",
+  "recommendation.saved": "ተቀምጧል",
+  "recommendation.downloadPdf": "PDF አውርድ",
+  "recommendation.queuedTitle": "ምክረ ሃሳቡ በወረፋ ላይ ነው",
+  "recommendation.queuedFailedTitle": "በወረፋ ያለው ምክረ ሃሳብ አልተሳካም",
+  "recommendation.queuedProcessing": "ምክረ ሃሳብዎ እየተዘጋጀ ነው...",
+  "recommendation.queuedPending": "ወደ መስመር ላይ ሲመለሱ በራስ-ሰር ይዘጋጃል።",
+  "recommendation.viewQueue": "ወረፋውን ይመልከቱ",
+  "recommendation.emptyTitle": "ምንም ምክረ ሃሳብ የለም",
+  "recommendation.emptyDescription": "እባክዎ መጀመሪያ የከብቱን መረጃ ያጠናቅቁ እና መኖዎችን ይምረጡ።",
+  "recommendation.goToCattleInfo": "ወደ ከብት መረጃ ይሂዱ",
+  "recommendation.queuedNotFound": "በወረፋ ያለው ምክረ ሃሳብ አልተገኘም",
+  "recommendation.offlineRetry": "ከመስመር ውጭ ነዎት። ሲገናኙ እንደገና ይሞክሩ።",
+  "recommendation.queuedOffline": "ከመስመር ውጭ ነዎት። እንደገና ሲገናኙ ምክረ ሃሳቡ ይዘጋጃል።",
+  "recommendation.queueFailed": "ምክረ ሃሳቡን ወደ ወረፋ ማስገባት አልተቻለም",
+  "recommendation.completeInputs": "እባክዎ የከብቱን መረጃ ያጠናቅቁ እና መኖዎችን ይምረጡ",
+  "recommendation.failed": "ምክረ ሃሳብ ማዘጋጀት አልተቻለም",
+  "recommendation.unableToSave": "ሪፖርቱን ማስቀመጥ አልተቻለም",
+  "recommendation.waitingForReport": "ሪፖርቱ እስኪዘጋጅ በመጠበቅ ላይ... (ሙከራ {attempt}/{max})",
+  "recommendation.reportSaved": "ሪፖርቱ በመለያዎ ተቀምጧል!",
+  "recommendation.generatingLocally": "በአገልጋዩ ማስቀመጥ አልተቻለም። PDF በመሳሪያው ላይ እየተዘጋጀ ነው...",
+  "recommendation.pdfDownloaded": "PDF ወርዷል!",
+  "recommendation.pdfFailed": "PDF ማዘጋጀት አልተቻለም",
+  "recommendation.pdfFailedRetry": "PDF ማዘጋጀት አልተቻለም። እባክዎ እንደገና ይሞክሩ።",
+
+  "evaluation.title": "የአሁኑን ራሽን ይገምግሙ",
+  "evaluation.description": "ከብቶችዎ ዛሬ ከእያንዳንዱ መኖ ምን ያህል እንደሚበሉ ያስገቡ (እንደተመገበ፣ {unit}/ቀን)",
+  "evaluation.quantity": "መጠን ({unit}/ቀን)",
+  "evaluation.editFeeds": "መኖዎችን ያስተካክሉ",
+  "evaluation.run": "ግምገማ ያካሂዱ",
+  "evaluation.emptyTitle": "የሚገመገም ነገር የለም",
+  "evaluation.emptyDescription": "እባክዎ የከብት መረጃን ያጠናቅቁ እና አሁን የሚጠቀሙባቸውን መኖዎች ይምረጡ።",
+  "evaluation.goToFeedSelection": "ወደ መኖ ምርጫ ይሂዱ",
+  "evaluation.quantitiesRequired": "እባክዎ ለእያንዳንዱ መኖ የዕለት መጠን ያስገቡ",
+  "evaluation.failed": "ራሽኑን መገምገም አልተቻለም",
+  "evaluation.panelTitle": "የአሁኑ ራሽን ግምገማ",
+  "evaluation.panelDescription": "የተመረጡት መኖዎች የእንስሳውን ፍላጎት ምን ያህል እንደሚያሟሉ",
+  "evaluation.overallStatus": "አጠቃላይ ሁኔታ",
+  "evaluation.limitingFactor": "ገዳቢ ምክንያት",
+  "evaluation.none": "የለም",
+  "evaluation.milkProduction": "የወተት ምርት",
+  "evaluation.target": "ግብ",
+  "evaluation.supported": "የሚደገፍ",
+  "evaluation.byEnergy": "በኃይል",
+  "evaluation.byProtein": "በፕሮቲን",
+  "evaluation.limitedBy": "የሚገድበው፦",
+  "evaluation.dryMatterIntake": "የደረቅ ምግብ ቅበላ",
+  "evaluation.actual": "ትክክለኛ",
+  "evaluation.difference": "ልዩነት",
+  "evaluation.ofTarget": "ከግቡ",
+  "evaluation.status": "ሁኔታ፦",
+  "evaluation.costAnalysis": "የወጪ ትንተና",
+  "evaluation.dailyDietCost": "የዕለት ራሽን ወጪ",
+  "evaluation.costPerKgMilk": "ወጪ በኪ.ግ ወተት",
+  "evaluation.methaneEmissions": "የሚቴን ልቀት",
+  "evaluation.nutrientBalance": "የንጥረ ምግብ ሚዛን",
+  "evaluation.nutrientBalanceDescription": "አቅርቦት ሲቀነስ ፍላጎት፤ አሉታዊ እሴቶች እጥረት ናቸው",
+  "evaluation.energy": "ኃይል",
+  "evaluation.protein": "ፕሮቲን",
+  "evaluation.calcium": "ካልሲየም",
+  "evaluation.phosphorus": "ፎስፈረስ",
+  "evaluation.ndf": "NDF",
+  "evaluation.feedBreakdown": "የመኖ ዝርዝር",
+  "evaluation.feedBreakdownDescription": "እያንዳንዱ መኖ ለአሁኑ ራሽን ያለው ድርሻ",
+  "evaluation.asFed": "እንደተመገበ ({unit})",
+  "evaluation.dryMatter": "ደረቅ ምግብ ({unit})",
+  "evaluation.contribution": "ድርሻ",
+  "evaluation.noBreakdown": "ለዚህ ግምገማ የመኖ ዝርዝር የለም።",
+
+  "sensitivity.title": "የዋጋ ተጽዕኖ",
+  "sensitivity.description": "የአንድ መኖ ዋጋ ቢቀየር ራሽኑ እንዴት እንደሚለወጥ ይመልከቱ",
+  "sensitivity.feed": "መኖ",
+  "sensitivity.selectFeed": "መኖ ይምረጡ",
+  "sensitivity.feedOption": "{name} ({price}/ኪ.ግ)",
+  "sensitivity.from": "ከ (%)",
+  "sensitivity.to": "እስከ (%)",
+  "sensitivity.steps": "ደረጃዎች",
+  "sensitivity.run": "አሂድ",
+  "sensitivity.running": "{done}/{total} ቀመሮች እየተሰሉ ነው...",
+  "sensitivity.breakEven": "{name} በኪ.ግ ከ{low} እስከ {high} ባለው ዋጋ ከራሽኑ ይወጣል።",
+  "sensitivity.staysIncluded": "{name} በዚህ የዋጋ ክልል ሁሉ በራሽኑ ውስጥ ይቆያል።",
+  "sensitivity.noBreakEven": "በዚህ ክልል ውስጥ የመገንጠያ ዋጋ አልተገኘም።",
+  "sensitivity.inclusionChart": "የተካተተ መጠን ({unit}/ቀን)",
+  "sensitivity.dailyCostChart": "ጠቅላላ የዕለት ወጪ",
+  "sensitivity.pricePerKg": "ዋጋ/ኪ.ግ",
+  "sensitivity.inclusion": "የተካተተ መጠን",
+  "sensitivity.invalidRange": "ትክክለኛ የዋጋ ክልል ያስገቡ፣ ለምሳሌ -30% እስከ 50%",
+  "sensitivity.invalidSteps": "ከ{min} እስከ {max} ደረጃዎችን ይጠቀሙ",
+  "sensitivity.failed": "የዋጋ ትንተናው አልተሳካም",
+  "sensitivity.failedRetry": "የዋጋ ትንተናው አልተሳካም። እባክዎ እንደገና ይሞክሩ።",
+  "sensitivity.cancelled": "የዋጋ ትንተናው ተሰርዟል",
+
+  "nav.cattleInfo": "የከብት መረጃ",
+  "nav.herd": "የእኔ መንጋ",
+  "nav.baskets": "የመኖ ቅርጫቶች",
+  "nav.compare": "አወዳድር",
+  "nav.reports": "ሪፖርቶች",
+  "nav.feedReports": "የመኖ ሪፖርቶች",
+  "nav.feedback": "አስተያየት",
+  "nav.profile": "መገለጫ",
+  "nav.admin": "አስተዳዳሪ",
+  "nav.adminPanel": "የአስተዳዳሪ ፓነል",
+  "nav.menu": "ምናሌ",
+  "nav.openMenu": "ምናሌ ክፈት",
+  "nav.userMenu": "የተጠቃሚ ምናሌ",
+  "nav.switchAccount": "መለያ ቀይር",
+  "nav.addAccount": "መለያ ጨምር",
+  "nav.help": "እገዛ እና ድጋፍ",
+  "nav.logout": "ውጣ",
+  "nav.toggleTheme": "ገጽታ ቀይር",
+
+  "auth.email": "ኢሜይል",
+  "auth.emailPlaceholder": "ኢሜይልዎን ያስገቡ",
+  "auth.pin": "ፒን",
+  "auth.pinPlaceholder": "ባለ 4 አሃዝ ፒን ያስገቡ",
+  "auth.error": "ስህተት ተከስቷል",
+
+  "login.title": "ግባ",
+  "login.description": "ወደ መለያዎ ለመግባት ኢሜይልዎን እና ፒንዎን ያስገቡ",
+  "login.forgotPin": "ፒን ረሱ?",
+  "login.noAccount": "መለያ የለዎትም?",
+  "login.register": "ይመዝገቡ",
+  "login.submit": "ግባ",
+  "login.submitting": "በመግባት ላይ...",
+  "login.retryIn": "ከ{time} በኋላ እንደገና ይሞክሩ",
+  "login.success": "በተሳካ ሁኔታ ገብተዋል!",
+  "login.failed": "መግባት አልተሳካም",
+  "login.error": "በመግባት ጊዜ ስህተት ተከስቷል",
+  "login.locked": "ብዙ ያልተሳኩ ሙከራዎች። መግባት ለ{time} ተቆልፏል።",
+  "login.wait": "እንደገና ከመሞከርዎ በፊት እባክዎ {seconds} ሰከንድ ይጠብቁ።",
+  "login.attemptsRemaining": {
+    one: "መለያዎ ለጊዜው ከመቆለፉ በፊት {count} ሙከራ ቀርቷል።",
+    other: "መለያዎ ለጊዜው ከመቆለፉ በፊት {count} ሙከራዎች ቀርተዋል።",
+  },
+
+  "register.title": "ይመዝገቡ",
+  "register.description": "ለመጀመር አዲስ መለያ ይፍጠሩ",
+  "register.haveAccount": "መለያ አለዎት?",
+  "register.login": "ግባ",
+  "register.name": "ሙሉ ስም",
+  "register.namePlaceholder": "ሙሉ ስምዎን ያስገቡ",
+  "register.country": "አገር",
+  "register.countryPlaceholder": "አገርዎን ይምረጡ",
+  "register.pin": "ፒን (4 አሃዞች)",
+  "register.submit": "ይመዝገቡ",
+  "register.submitting": "በመመዝገብ ላይ...",
+  "register.success": "ምዝገባው ተሳክቷል!",
+  "register.failed": "ምዝገባው አልተሳካም",
+  "register.error": "በምዝገባ ጊዜ ስህተት ተከስቷል",
+  "register.loadCountriesFailed": "አገሮችን መጫን አልተቻለም",
+
+  "forgotPin.title": "ፒን ረሱ",
+  "forgotPin.resetTitle": "ፒን ዳግም አስጀምር",
+  "forgotPin.step.request": "የፒን ዳግም ማስጀመሪያ ኮድ ለመቀበል ኢሜይልዎን ያስገቡ",
+  "forgotPin.step.verify": "በኢሜይል የላክንልዎትን ኮድ ያስገቡ",
+  "forgotPin.step.newPin": "ባለ 4 አሃዝ አዲስ ፒን ይምረጡ",
+  "forgotPin.send": "ኮድ ላክ",
+  "forgotPin.sending": "በመላክ ላይ...",
+  "forgotPin.codeSent": "የዳግም ማስጀመሪያ ኮድ ወደ ኢሜይልዎ ተልኳል",
+  "forgotPin.sendFailed": "ኮዱን መላክ አልተቻለም",
+  "forgotPin.backToLogin": "ወደ መግቢያ ተመለስ",
+  "forgotPin.codeSentTo": "የዳግም ማስጀመሪያ ኮድ ወደ {email} ልከናል።",
+  "forgotPin.expiresIn": "ከ{time} በኋላ ጊዜው ያልፋል።",
+  "forgotPin.code": "የዳግም ማስጀመሪያ ኮድ",
+  "forgotPin.codePlaceholder": "ከኢሜይልዎ የደረሰውን ኮድ ያስገቡ",
+  "forgotPin.verify": "ኮድ አረጋግጥ",
+  "forgotPin.verifying": "በማረጋገጥ ላይ...",
+  "forgotPin.incorrectCode": "የተሳሳተ ኮድ",
+  "forgotPin.attemptsLeft": {
+    one: "{message}። {count} ሙከራ ቀርቷል።",
+    other: "{message}። {count} ሙከራዎች ቀርተዋል።",
+  },
+  "forgotPin.locked": "ብዙ የተሳሳቱ ሙከራዎች። እንደገና ለመሞከር አዲስ ኮድ ይጠይቁ።",
+  "forgotPin.expired": "የዚህ ኮድ ጊዜ አልፏል። ለመቀጠል አዲስ ኮድ ይጠይቁ።",
+  "forgotPin.differentEmail": "ሌላ ኢሜይል ይጠቀሙ",
+  "forgotPin.resend": "ኮድ እንደገና ላክ",
+  "forgotPin.resendIn": "ከ{time} በኋላ ኮድ እንደገና ላክ",
+  "forgotPin.newPin": "አዲስ ፒን",
+  "forgotPin.newPinPlaceholder": "ባለ 4 አሃዝ አዲስ ፒን ያስገቡ",
+  "forgotPin.confirmPin": "አዲሱን ፒን ያረጋግጡ",
+  "forgotPin.confirmPinPlaceholder": "አዲሱን ፒን እንደገና ያስገቡ",
+  "forgotPin.resetSubmit": "ፒን ዳግም አስጀምር እና ግባ",
+  "forgotPin.resetting": "ፒን በማስጀመር ላይ...",
+  "forgotPin.resetSuccess": "ፒንዎ ዳግም ተጀምሯል",
+  "forgotPin.resetFailed": "ፒን ዳግም ማስጀመር አልተቻለም",
+  "forgotPin.resetExpired": "የዳግም ማስጀመሪያ ክፍለ ጊዜዎ አልፏል። እባክዎ አዲስ ኮድ ይጠይቁ።",
+
+  "splash.tagline": "የመኖ ቀመር ሥርዓት",
+
+  "welcome.subtitle": "የወተት ከብቶች ሥነ-ምግብ ማሻሻያ ሥርዓት",
+  "welcome.description": "በላቀው የሥነ-ምግብ ማሻሻያ ሥርዓታችን ለወተት ከብቶችዎ ምርጥ የመኖ ቀመሮችን ይፍጠሩ።",
+
+  "accounts.switchTo": "ወደ {name} ቀይር",
+  "accounts.add": "መለያ ጨምር",
+  "accounts.enterPinFor": "ለመቀጠል የ{email} ፒን ያስገቡ",
+  "accounts.addDescription": "ወደ ሌላ መለያ ይግቡ። በዚህ መሣሪያ ላይ ይታወሳል።",
+  "accounts.emailPlaceholder": "ኢሜይል ያስገቡ",
+  "accounts.emailRequired": "እባክዎ ኢሜይል ያስገቡ",
+  "accounts.switched": "ወደ {name} ተቀይሯል",
+  "accounts.incorrectPin": "የተሳሳተ ፒን",
+  "accounts.switchFailed": "መለያ መቀየር አልተቻለም",
+  "accounts.removed": "{name} ከዚህ መሣሪያ ተወግዷል",
+  "accounts.remove": "ከመሣሪያው አስወግድ",
+  "accounts.switch": "ቀይር",
+  "accounts.signIn": "ግባ",
+
+  "profile.title": "መገለጫ",
+  "profile.description": "ስምዎን እና አገርዎን ያዘምኑ",
+  "profile.save": "ለውጦችን አስቀምጥ",
+  "profile.saving": "በማስቀመጥ ላይ...",
+  "profile.updated": "መገለጫው ተዘምኗል",
+  "profile.updatedCountry": "መገለጫው ተዘምኗል። የመኖ ዝርዝሩ ለአዲሱ አገርዎ ይታደሳል።",
+  "profile.updateFailed": "መገለጫውን ማዘመን አልተቻለም",
+  "profile.changePin.title": "ፒን ቀይር",
+  "profile.changePin.description": "አዲስ ለመምረጥ የአሁኑን ፒንዎን ያስገቡ",
+  "profile.changePin.current": "የአሁኑ ፒን",
+  "profile.changePin.currentPlaceholder": "የአሁኑን ፒን ያስገቡ",
+  "profile.changePin.submit": "ፒን ቀይር",
+  "profile.changePin.submitting": "ፒን በመቀየር ላይ...",
+  "profile.changePin.success": "ፒን በተሳካ ሁኔታ ተቀይሯል",
+  "profile.changePin.failed": "ፒን መቀየር አልተቻለም",
+  "profile.appLock.title": "የመተግበሪያ ቁልፍ",
+  "profile.appLock.description": "መተግበሪያው ሥራ ሳይሠራ ሲቆይ ይቆልፉት፤ በጋራ ስልኮች ላይ ጠቃሚ ነው",
+  "profile.delete.title": "መለያ ሰርዝ",
+  "profile.delete.description": "መለያዎን እና ሁሉንም ውሂቡን በቋሚነት ያስወግዱ",
+  "profile.delete.button": "መለያ ሰርዝ",
+  "profile.delete.confirmTitle": "መለያውን ይሰርዙ?",
+  "profile.delete.confirmDescription": "ይህ መለያዎን፣ የተቀመጡ ሪፖርቶችን እና አስተያየቶችን በቋሚነት ይሰርዛል። ይህ ሊቀለበስ አይችልም።",
+  "profile.delete.pinLabel": "ለማረጋገጥ ፒንዎን ያስገቡ",
+  "profile.delete.pinPlaceholder": "ባለ 4 አሃዝ ፒን",
+  "profile.delete.submit": "በቋሚነት ሰርዝ",
+  "profile.delete.success": "መለያዎ ተሰርዟል",
+  "profile.delete.failed": "መለያውን መሰረዝ አልተቻለም",
+
+  "appLock.title": "መተግበሪያው ተቆልፏል",
+  "appLock.signedInAs": "እንደ {name} ገብተዋል። ለመቀጠል ፒንዎን ያስገቡ።",
+  "appLock.unlock": "ክፈት",
+  "appLock.unlockWithPasskey": "በፓስኪ ክፈት",
+  "appLock.notYou": "እርስዎ አይደሉም? ውጣ",
+  "appLock.incorrectPin": "የተሳሳተ ፒን",
+  "appLock.verifyFailed": "ፒኑን ማረጋገጥ አልተቻለም",
+  "appLock.passkeyRejected": "ፓስኪው እርስዎን ማረጋገጥ አልቻለም። በምትኩ ፒንዎን ይጠቀሙ።",
+  "appLock.passkeyFailed": "በፓስኪ መክፈት አልተሳካም",
+  "appLock.idleLabel": "ከእንቅስቃሴ አልባነት በኋላ ቆልፍ",
+  "appLock.never": "በጭራሽ",
+  "appLock.minutes": {
+    one: "{count} ደቂቃ",
+    other: "{count} ደቂቃዎች",
+  },
+  "appLock.passkey": "ፓስኪ",
+  "appLock.passkeyUnsupported": "ይህ መሣሪያ ፓስኪን አይደግፍም። በምትኩ በፒንዎ ይክፈቱ።",
+  "appLock.passkeyEnabled": "ይህ መሣሪያ በጣት አሻራዎ፣ በፊትዎ ወይም በማያ ገጽ ቁልፍ ሊከፈት ይችላል።",
+  "appLock.removePasskey": "አስወግድ",
+  "appLock.addPasskey": "ለዚህ መሣሪያ ፓስኪ ጨምር",
+  "appLock.passkeyAdded": "ፓስኪ ተጨምሯል። አሁን በዚህ መሣሪያ መክፈት ይችላሉ።",
+  "appLock.passkeyAddFailed": "ፓስኪ መጨመር አልተቻለም",
+  "appLock.passkeyRemoved": "ፓስኪው ከዚህ መሣሪያ ተወግዷል",
+
+  "offline.title": "በወረፋ ያሉ ቀመሮች",
+  "offline.online": "ከመስመር ውጭ ሳሉ የተጠየቁ ምክረ ሃሳቦች",
+  "offline.offline": "ከመስመር ውጭ ነዎት። በወረፋ ያሉ ጥያቄዎች እንደገና ሲገናኙ ይላካሉ።",
+  "offline.status.pending": "ግንኙነትን በመጠበቅ ላይ",
+  "offline.status.processing": "በመላክ ላይ",
+  "offline.status.complete": "ተጠናቋል",
+  "offline.status.failed": "አልተሳካም",
+  "offline.jobTitle": {
+    one: "{breed} · {count} መኖ",
+    other: "{breed} · {count} መኖዎች",
+  },
+  "offline.recommendation": "ምክረ ሃሳብ",
+  "offline.queuedAt": "በወረፋ የገባበት {date}",
+  "offline.view": "ምክረ ሃሳቡን ተመልከት",
+  "offline.retry": "በወረፋ ያለውን ምክረ ሃሳብ እንደገና ሞክር",
+  "offline.remove": "በወረፋ ያለውን ምክረ ሃሳብ አስወግድ",
+  "offline.retryFailed": "እንደገና መሞከር አልተቻለም",
+  "offline.removeFailed": "ጥያቄውን ማስወገድ አልተቻለም",
+  "offline.ready": "በወረፋ የነበረው ምክረ ሃሳብ ዝግጁ ነው",
+  "offline.readyAction": "ተመልከት",
+
+  "herd.title": "የእኔ መንጋ",
+  "herd.description": "የተቀመጡ እንስሳት የከብት መረጃቸውን በጉብኝቶች መካከል ይይዛሉ",
+  "herd.add": "እንስሳ ጨምር",
+  "herd.empty": "እስካሁን የተቀመጠ እንስሳ የለም",
+  "herd.active": "ንቁ",
+  "herd.tag": "መለያ ቁጥር {tag}",
+  "herd.noDetails": "እስካሁን ዝርዝር የለም",
+  "herd.updatedOn": "የተዘመነው {date}",
+  "herd.startFormulation": "ቀመር ጀምር",
+  "herd.startFormulationFor": "ለ{name} ቀመር ጀምር",
+  "herd.edit": "ዝርዝሮችን አርትዕ",
+  "herd.editName": "{name}ን አርትዕ",
+  "herd.duplicate": "ቅዳ",
+  "herd.duplicateName": "{name}ን ቅዳ",
+  "herd.delete": "ሰርዝ",
+  "herd.deleteName": "{name}ን ሰርዝ",
+  "herd.duplicated": "{name} ተቀድቷል",
+  "herd.deleted": "{name} ተሰርዟል",
+  "herd.deleteTitle": "እንስሳውን ይሰርዙ?",
+  "herd.deleteDescription": "{name} እና የተቀመጠው የከብት መረጃው ከዚህ መሣሪያ ይወገዳሉ።",
+  "herd.picker.label": "እንስሳ",
+  "herd.picker.placeholder": "እንስሳ ይምረጡ",
+  "herd.picker.unnamed": "ስም የሌለው እንስሳ",
+  "herd.picker.new": "አዲስ",
+  "herd.dialog.editTitle": "እንስሳውን አርትዕ",
+  "herd.dialog.newTitle": "አዲስ እንስሳ",
+  "herd.dialog.description": "በሚቀጥለው ጉብኝትዎ እንዲያገኙት እንስሳውን ስም እና መለያ ይስጡት",
+  "herd.dialog.name": "ስም",
+  "herd.dialog.namePlaceholder": "ለምሳሌ ዳሲ",
+  "herd.dialog.earTag": "የጆሮ መለያ ቁጥር (አማራጭ)",
+  "herd.dialog.earTagPlaceholder": "ለምሳሌ KE-0421",
+  "herd.dialog.farm": "እርሻ (አማራጭ)",
+  "herd.dialog.farmPlaceholder": "ለምሳሌ የዋንጂሩ እርሻ",
+  "herd.dialog.save": "አስቀምጥ",
+  "herd.dialog.create": "ፍጠር",
+  "herd.dialog.updated": "የእንስሳው መገለጫ ተዘምኗል",
+  "herd.dialog.created": "የእንስሳው መገለጫ ተፈጥሯል",
+
+  "baskets.title": "የመኖ ቅርጫቶች",
+  "baskets.description": "ለመጨረሻ ጊዜ ካስገቧቸው ዋጋዎች ጋር እንደገና ጥቅም ላይ የሚውሉ የመኖ ስብስቦች",
+  "baskets.empty": "እስካሁን የተቀመጠ ቅርጫት የለም",
+  "baskets.emptyHint": "መኖዎችን ይምረጡ እና አንድ ለመፍጠር \"እንደ ቅርጫት አስቀምጥ\"ን ይጠቀሙ።",
+  "baskets.pricesUpdatedOn": "ዋጋዎች የተዘመኑት {date}",
+  "baskets.load": "ወደ መኖ ምርጫ ጫን",
+  "baskets.loadName": "{name}ን ጫን",
+  "baskets.updatePrices": "ዋጋዎችን አዘምን",
+  "baskets.updatePricesFor": "የ{name} ዋጋዎችን አዘምን",
+  "baskets.delete": "ቅርጫቱን ሰርዝ",
+  "baskets.deleteName": "{name}ን ሰርዝ",
+  "baskets.loaded": "\"{name}\" ተጭኗል",
+  "baskets.deleted": "ቅርጫት \"{name}\" ተሰርዟል",
+  "baskets.deleteTitle": "ቅርጫቱን ይሰርዙ?",
+  "baskets.deleteDescription": "{name} ከዚህ መሣሪያ ይወገዳል።",
+  "baskets.deleteConfirm": "ሰርዝ",
+  "baskets.replaceTitle": "የተመረጡትን መኖዎች ይተኩ?",
+  "baskets.replaceDescription": {
+    one: "{name}ን መጫን የመረጡትን {count} መኖ ይተካል።",
+    other: "{name}ን መጫን የመረጧቸውን {count} መኖዎች ይተካል።",
+  },
+  "baskets.replaceConfirm": "ቅርጫቱን ጫን",
+  "baskets.save.button": "እንደ ቅርጫት አስቀምጥ",
+  "baskets.save.title": "የመኖ ቅርጫት አስቀምጥ",
+  "baskets.save.description": {
+    one: "ይህን መኖ እና ዋጋውን ለሚቀጥለው ጉብኝትዎ ያስቀምጡ",
+    other: "እነዚህን {count} መኖዎች እና ዋጋዎቻቸውን ለሚቀጥለው ጉብኝትዎ ያስቀምጡ",
+  },
+  "baskets.save.target": "የሚቀመጥበት",
+  "baskets.save.new": "አዲስ ቅርጫት",
+  "baskets.save.replace": "\"{name}\"ን ተካ",
+  "baskets.save.name": "የቅርጫት ስም",
+  "baskets.save.namePlaceholder": "ለምሳሌ በጋ - ኪያምቡ",
+  "baskets.save.submit": "አስቀምጥ",
+  "baskets.save.nameRequired": "እባክዎ የቅርጫት ስም ያስገቡ",
+  "baskets.save.saved": "ቅርጫት \"{name}\" ተቀምጧል",
+  "baskets.save.updated": "ቅርጫት \"{name}\" ተዘምኗል",
+  "baskets.prices.title": "ዋጋዎችን አዘምን",
+  "baskets.prices.description": "{name}: የዛሬውን የገበያ ዋጋዎች ያስገቡ ({unit})",
+  "baskets.prices.perKg": "በኪሎ",
+  "baskets.prices.percent": "ሁሉንም ዋጋዎች በ% ቀይር",
+  "baskets.prices.percentPlaceholder": "ለምሳሌ 10 ወይም -5",
+  "baskets.prices.apply": "ተግብር",
+  "baskets.prices.submit": "ዋጋዎችን አስቀምጥ",
+  "baskets.prices.invalid": "እያንዳንዱ ዋጋ ከዜሮ በላይ መሆን አለበት",
+  "baskets.prices.updated": "ዋጋዎች ተዘምነዋል",
+
+  "compare.title": "ሁኔታዎችን አወዳድር",
+  "compare.description": "ምርጥ እሴቶች በአረንጓዴ ተደምቀዋል፤ ከመነሻው የሚለዩ የመኖ መጠኖች በብርቱካናማ",
+  "compare.clearAll": "ሁሉንም አጽዳ",
+  "compare.emptyTitle": "የሚወዳደሩ ሁኔታዎች የሉም",
+  "compare.emptyDescription": "ምክረ ሃሳብ ያዘጋጁ እና እዚህ ለመጨመር \"አወዳድር\"ን ይጠቀሙ። እስከ {max} ቀመሮችን ጎን ለጎን ለማየት መኖዎቹን ቀይረው ይድገሙ።",
+  "compare.goToFeedSelection": "ወደ መኖ ምርጫ ሂድ",
+  "compare.saved": "ተቀምጧል",
+  "compare.unknownBreed": "ያልታወቀ ዝርያ",
+  "compare.scenarioSummary": {
+    one: "{breed} · {count} መኖ · {date}",
+    other: "{breed} · {count} መኖዎች · {date}",
+  },
+  "compare.saveAsReport": "እንደ ሪፖርት አስቀምጥ",
+  "compare.saveNameAsReport": "{name}ን እንደ ሪፖርት አስቀምጥ",
+  "compare.remove": "ከንጽጽሩ አስወግድ",
+  "compare.removeName": "{name}ን አስወግድ",
+  "compare.savedToReports": "\"{name}\" በሪፖርቶችዎ ውስጥ ተቀምጧል",
+  "compare.saveFailed": "ሪፖርቱን ማስቀመጥ አልተቻለም። እባክዎ ቆይተው እንደገና ይሞክሩ።",
+  "compare.clearTitle": "ንጽጽሩን ያጽዱ?",
+  "compare.clearDescription": {
+    one: "ሁኔታው ይወገዳል። አስቀድመው ያስቀመጧቸው ሪፖርቶች ይቆያሉ።",
+    other: "ሁሉም {count} ሁኔታዎች ይወገዳሉ። አስቀድመው ያስቀመጧቸው ሪፖርቶች ይቆያሉ።",
+  },
+  "compare.clear": "አጽዳ",
+  "compare.add.button": "አወዳድር",
+  "compare.add.inComparison": "በንጽጽር ውስጥ",
+  "compare.add.title": "ወደ ንጽጽር ጨምር",
+  "compare.add.description": "ከሌሎቹ ለመለየት ለዚህ ቀመር ስም ይስጡት",
+  "compare.add.name": "የሁኔታው ስም",
+  "compare.add.namePlaceholder": "ለምሳሌ ከጥጥ ፍሬ ፋጉሎ ጋር",
+  "compare.add.defaultName": "ሁኔታ {number}",
+  "compare.add.limit": "እስከ {max} ሁኔታዎች ሊወዳደሩ ይችላሉ። \"{name}\" ይተካል።",
+  "compare.add.submit": "ጨምር",
+  "compare.add.nameRequired": "እባክዎ የሁኔታውን ስም ያስገቡ",
+  "compare.add.added": "\"{name}\" ወደ ንጽጽሩ ተጨምሯል",
+  "compare.add.viewAction": "አወዳድር",
+  "compare.table.metric": "መለኪያ",
+  "compare.table.baseline": "መነሻ",
+  "compare.table.dailyCost": "የቀን ወጪ",
+  "compare.table.costPerMilk": "ወጪ በ{unit} ወተት",
+  "compare.table.milkProduction": "የወተት ምርት",
+  "compare.table.dryMatterIntake": "የደረቅ ነገር ፍጆታ",
+  "compare.table.methane": "ሚቴን",
+  "compare.table.methaneYield": "የCH₄ ምርት",
+  "compare.table.methaneIntensity": "የCH₄ መጠን",
+  "compare.table.perDay": "{unit}/ቀን",
+  "compare.table.leastCostDiet": "አነስተኛ ወጪ ያለው አመጋገብ ({unit}/ቀን)",
+
+  "feedback.title": "አስተያየት ይላኩ",
+  "feedback.description": "ሃሳቦችዎን እና ጥቆማዎችዎን ያጋሩ",
+  "feedback.label": "አስተያየት",
+  "feedback.placeholder": "አስተያየትዎን ያስገቡ...",
+  "feedback.rating": "ደረጃ (አማራጭ)",
+  "feedback.submit": "አስተያየት ላክ",
+  "feedback.submitting": "በመላክ ላይ...",
+  "feedback.success": "አስተያየቱ በተሳካ ሁኔታ ተልኳል",
+  "feedback.required": "እባክዎ አስተያየትዎን ያስገቡ",
+  "feedback.submitFailed": "አስተያየቱን መላክ አልተቻለም",
+  "feedback.loadFailed": "አስተያየቶችን መጫን አልተቻለም",
+  "feedback.history": "የእርስዎ አስተያየቶች",
+
+  "reports.title": "የተቀመጡ ሪፖርቶች",
+  "reports.description": "የተቀመጡ የመኖ ቀመር ሪፖርቶችዎን ይመልከቱ እና ያስተዳድሩ",
+  "reports.empty": "እስካሁን የተቀመጠ ሪፖርት የለም",
+  "reports.loadFailed": "ሪፖርቶችን መጫን አልተቻለም",
+  "reports.urlUnavailable": "የሪፖርቱ አድራሻ አይገኝም",
+  "reports.deleteComingSoon": "የመሰረዝ ተግባር በቅርቡ ይመጣል",
+  "reports.download": "PDF አውርድ",
+  "reports.downloadLabel": "የPDF ሪፖርት አውርድ",
+  "reports.delete": "ሪፖርቱን ሰርዝ",
+
+  "forbidden.title": "መዳረሻ ተከልክሏል",
+  "forbidden.description": "ይህ ገጽ ለአስተዳዳሪዎች ብቻ ነው።",
+  "forbidden.back": "ወደ የከብት መረጃ ሂድ",
+};
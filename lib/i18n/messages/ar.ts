@@ -0,0 +1,709 @@
+import type { Message, MessageKey } from "./en";
+
+export const ar: Record<MessageKey, Message> = {
+  "common.back": "رجوع",
+  "common.continue": "متابعة",
+  "common.reset": "إعادة تعيين",
+  "common.cancel": "إلغاء",
+  "common.yes": "نعم",
+  "common.no": "لا",
+  "common.notAvailable": "غير متوفر",
+
+  "validation.breedRequired": "السلالة مطلوبة",
+  "validation.topographyRequired": "طبيعة الأرض مطلوبة",
+  "validation.min": "يجب ألا تقل القيمة عن {min}",
+  "validation.max": "يجب ألا تزيد القيمة عن {max}",
+  "validation.requiredWhenLactating": "مطلوب للبقرة الحلوب",
+  "validation.requiredWhenGrazing": "مطلوب عندما ترعى البقرة",
+  "validation.milkWhenDry": "تم إدخال إنتاج حليب، لذا يجب أن تكون البقرة حلوبًا",
+  "validation.pregnancyTooLong": "يستمر الحمل {max} يومًا على الأكثر",
+  "validation.daysInMilkOverInterval": "يجب ألا يتجاوز الفترة بين الولادتين ({max} يومًا)",
+  "validation.pregnancyOverDaysInMilk": "يجب ألا يتجاوز أيام الحليب ({max})",
+  "validation.inconsistentCattleInfo": "معلومات الحيوان غير متسقة. يرجى مراجعتها والمحاولة مرة أخرى.",
+  "validation.emailInvalid": "عنوان بريد إلكتروني غير صالح",
+  "validation.pinLength": "يجب أن يتكون الرمز السري من 4 أرقام بالضبط",
+  "validation.pinDigits": "يجب أن يحتوي الرمز السري على أرقام فقط",
+  "validation.pinsMismatch": "الرمزان السريان غير متطابقين",
+  "validation.nameRequired": "الاسم مطلوب",
+  "validation.countryRequired": "البلد مطلوب",
+  "validation.codeRequired": "أدخل الرمز المرسل إلى بريدك الإلكتروني",
+  "validation.pinUnchanged": "يجب أن يختلف الرمز السري الجديد عن الحالي",
+
+  "language.title": "اللغة",
+  "language.description": "اختر لغة التطبيق وتقارير PDF الخاصة بك",
+  "language.automatic": "تلقائي ({language})",
+
+  "units.title": "الوحدات",
+  "units.description": "اختر وحدات إدخال بيانات الأبقار وقراءة التقارير",
+  "units.system": "نظام القياس",
+  "units.metric": "متري (kg, km, °C)",
+  "units.imperial": "إمبراطوري (lb, mi, °F)",
+  "units.milk": "الحليب",
+  "units.milkVolume": "بالحجم (L, gal)",
+  "units.milkMass": "بالوزن (kg, lb)",
+
+  "cattleInfo.title": "معلومات الماشية",
+  "cattleInfo.description": "أدخل تفاصيل ماشيتك للحصول على توصيات الأعلاف",
+  "cattleInfo.section.animal": "خصائص الحيوان",
+  "cattleInfo.section.milk": "إنتاج الحليب",
+  "cattleInfo.section.reproduction": "بيانات التكاثر",
+  "cattleInfo.section.environment": "البيئة",
+  "cattleInfo.breed": "السلالة",
+  "cattleInfo.selectBreed": "اختر السلالة",
+  "cattleInfo.breedOther": "أخرى",
+  "cattleInfo.bodyWeight": "وزن الجسم ({unit})",
+  "cattleInfo.bcScore": "درجة حالة الجسم (1-5)",
+  "cattleInfo.bwGain": "الزيادة اليومية في الوزن ({unit})",
+  "cattleInfo.lactating": "حلوب",
+  "cattleInfo.milkProduction": "إنتاج الحليب ({unit}/يوم)",
+  "cattleInfo.fatMilk": "دهن الحليب (%)",
+  "cattleInfo.tpMilk": "بروتين الحليب (%)",
+  "cattleInfo.daysInMilk": "أيام الحلابة",
+  "cattleInfo.parity": "عدد الولادات",
+  "cattleInfo.calvingInterval": "الفترة بين الولادات (أيام)",
+  "cattleInfo.daysOfPregnancy": "أيام الحمل",
+  "cattleInfo.grazing": "الرعي",
+  "cattleInfo.distance": "المسافة ({unit})",
+  "cattleInfo.topography": "طبيعة الأرض",
+  "cattleInfo.selectTopography": "اختر طبيعة الأرض",
+  "cattleInfo.topography.Flat": "منبسطة",
+  "cattleInfo.topography.Hilly": "تلال",
+  "cattleInfo.topography.Mountainous": "جبلية",
+  "cattleInfo.temperature": "درجة الحرارة ({unit})",
+  "cattleInfo.mode.label": "طريقة الإدخال",
+  "cattleInfo.mode.wizard": "خطوة بخطوة",
+  "cattleInfo.mode.form": "النموذج الكامل",
+
+  "wizard.progress": "السؤال {current} من {total}",
+  "wizard.next": "التالي",
+  "wizard.finish": "إنهاء",
+  "wizard.autosaved": "تُحفظ إجاباتك أولًا بأول",
+  "wizard.reviewTitle": "راجع إجاباتك",
+  "wizard.change": "تغيير",
+  "wizard.fixAnswers": "بعض الإجابات تحتاج إلى تصحيح",
+  "wizard.question.breed": "ما سلالة البقرة؟",
+  "wizard.question.body_weight": "كم وزن البقرة؟",
+  "wizard.question.bc_score": "أي صورة تشبه البقرة أكثر عند النظر إليها من الخلف؟",
+  "wizard.question.bw_gain": "كم يزيد وزنها كل يوم؟",
+  "wizard.question.lactating": "هل تُدر البقرة الحليب الآن؟",
+  "wizard.question.milk_production": "كم تُدر من الحليب كل يوم؟",
+  "wizard.question.fat_milk": "كم نسبة الدهن في حليبها؟",
+  "wizard.question.tp_milk": "كم نسبة البروتين في حليبها؟",
+  "wizard.question.days_in_milk": "منذ كم يومًا ولدت؟",
+  "wizard.question.parity": "كم مرة ولدت؟",
+  "wizard.question.calving_interval": "كم يومًا بين ولاداتها؟",
+  "wizard.question.days_of_pregnancy": "منذ كم يومًا هي حامل؟",
+  "wizard.question.grazing": "هل تخرج البقرة للرعي؟",
+  "wizard.question.distance": "كم تمشي كل يوم؟",
+  "wizard.question.topography": "كيف هي الأرض التي تمشي عليها؟",
+  "wizard.question.temperature": "ما درجة الحرارة في الخارج في يوم عادي؟",
+  "wizard.hint.breedTypical": "إذا كنت لا تعرف، اترك القيمة المعتادة للسلالة",
+  "wizard.hint.notPregnant": "أدخل 0 إذا لم تكن حاملًا",
+  "wizard.bcs.1": "نحيفة جدًا",
+  "wizard.bcs.2": "نحيفة",
+  "wizard.bcs.3": "جيدة",
+  "wizard.bcs.4": "سمينة",
+  "wizard.bcs.5": "سمينة جدًا",
+
+  "weightEstimator.title": "لا يوجد ميزان؟ استخدم شريط القياس",
+  "weightEstimator.instructions": "لف الشريط حول الصدر خلف الساقين الأماميتين مباشرة، واقرأه عند الزفير",
+  "weightEstimator.heartGirth": "محيط الصدر ({unit})",
+  "weightEstimator.estimate": "الوزن التقديري: {weight}",
+  "weightEstimator.outOfRange": "تحقق من القياس. يجب أن يكون بين {min} و{max}",
+  "weightEstimator.use": "استخدم هذا الوزن",
+  "weightEstimator.open": "التقدير من قياسات الشريط",
+  "weightEstimator.bodyLength": "طول الجسم ({unit}، اختياري)",
+  "weightEstimator.bodyLengthHint": "من مقدمة الكتف إلى عظم الورك الخلفي. إضافته تعطي تقديرًا أفضل",
+  "weightEstimator.lengthOutOfRange": "تحقق من طول الجسم. يجب أن يكون بين {min} و{max}",
+  "weightEstimator.formula.heinrichs": "Heinrichs et al. (1992)، محيط الصدر، وُضعت على أبقار الهولشتاين",
+  "weightEstimator.formula.schaeffer": "معادلة شيفر، محيط الصدر وطول الجسم",
+  "weightEstimator.formula.crevat": "معادلة كريفا، محيط الصدر",
+  "weightEstimator.formula.quetelet": "معادلة كيتليه، محيط الصدر وطول الجسم",
+  "weightEstimator.formulaUnits": "W الوزن بالكيلوغرام، وHG محيط الصدر وL طول الجسم بالسنتيمتر",
+  "weightEstimator.confidence.good": "ثقة عالية: عادةً في حدود 10% تقريبًا من وزن الميزان",
+  "weightEstimator.confidence.fair": "ثقة متوسطة: تقدير تقريبي قد يكون أبعد",
+  "weightEstimator.confidence.low": "ثقة منخفضة: قد يبتعد كثيرًا عن وزن الميزان",
+  "weightEstimator.selectBreed": "اختر السلالة لاستخدام المعادلات المناسبة لها",
+
+  "feedSelection.title": "اختيار الأعلاف",
+  "feedSelection.description": "اختر الأعلاف لتركيب علائق أبقارك",
+  "feedSelection.loadBasket": "تحميل سلة محفوظة",
+  "feedSelection.basketOption": {
+    zero: "{name} (لا أعلاف)",
+    one: "{name} (علف واحد)",
+    two: "{name} (علفان)",
+    few: "{name} ({count} أعلاف)",
+    many: "{name} ({count} علفًا)",
+    other: "{name} ({count} علف)",
+  },
+  "feedSelection.search": "البحث عن الأعلاف",
+  "feedSelection.browse": "أو تصفح حسب النوع والفئة",
+  "feedSelection.feedType": "نوع العلف",
+  "feedSelection.selectFeedType": "اختر نوع العلف",
+  "feedSelection.feedCategory": "فئة العلف",
+  "feedSelection.selectFeedCategory": "اختر فئة العلف",
+  "feedSelection.feedName": "اسم العلف",
+  "feedSelection.selectFeedName": "اختر اسم العلف",
+  "feedSelection.pricePerKg": "السعر لكل كغ",
+  "feedSelection.enterPrice": "أدخل السعر",
+  "feedSelection.addFeed": "إضافة علف",
+  "feedSelection.selectedFeeds": "الأعلاف المختارة ({count})",
+  "feedSelection.evaluate": "تقييم العليقة الحالية",
+  "feedSelection.continue": "المتابعة إلى التوصية",
+  "feedSelection.loadTypesFailed": "تعذر تحميل أنواع الأعلاف",
+  "feedSelection.loadCategoriesFailed": "تعذر تحميل فئات الأعلاف",
+  "feedSelection.loadSubCategoriesFailed": "تعذر تحميل الفئات الفرعية للأعلاف",
+  "feedSelection.loadDetailsFailed": "تعذر تحميل تفاصيل العلف",
+  "feedSelection.selectFeedAndPrice": "يرجى اختيار علف وإدخال السعر",
+  "feedSelection.alreadySelected": "{name} مختار بالفعل",
+  "feedSelection.feedsAdded": {
+    one: "تمت إضافة علف واحد",
+    two: "تمت إضافة علفين",
+    few: "تمت إضافة {count} أعلاف",
+    many: "تمت إضافة {count} علفًا",
+    other: "تمت إضافة {count} علف",
+  },
+  "feedSelection.feedsFailed": {
+    one: "تعذر تحميل تفاصيل علف واحد",
+    two: "تعذر تحميل تفاصيل علفين",
+    few: "تعذر تحميل تفاصيل {count} أعلاف",
+    many: "تعذر تحميل تفاصيل {count} علفًا",
+    other: "تعذر تحميل تفاصيل {count} علف",
+  },
+  "feedSelection.basketLoaded": "تم تحميل \"{name}\"",
+  "feedSelection.replaceTitle": "استبدال الأعلاف المختارة؟",
+  "feedSelection.replaceDescription": {
+    one: "تحميل \"{name}\" يستبدل العلف المختار ({count}).",
+    other: "تحميل \"{name}\" يستبدل الأعلاف المختارة ({count}).",
+  },
+  "feedSelection.replaceConfirm": "تحميل السلة",
+  "feedSelection.addAtLeastOne": "يرجى إضافة علف واحد على الأقل",
+  "feedSelection.searchUnavailable": "البحث عن الأعلاف غير متاح حاليًا. تصفح حسب النوع أدناه بدلاً من ذلك.",
+  "feedSelection.searchPlaceholder": "ابحث عن الأعلاف بالاسم أو الاسم المحلي",
+  "feedSelection.noMatches": "لا توجد أعلاف تطابق \"{query}\"",
+  "feedSelection.matchesAlias": "يطابق \"{alias}\"",
+  "feedSelection.selected": "مختار",
+  "feedSelection.enterPrices": "أدخل الأسعار ({unit})",
+  "feedSelection.perKg": "لكل كغ",
+  "feedSelection.price": "السعر",
+  "feedSelection.priceFor": "سعر {name}",
+  "feedSelection.unselect": "إلغاء اختيار {name}",
+  "feedSelection.addPicked": {
+    one: "إضافة علف واحد",
+    two: "إضافة علفين",
+    few: "إضافة {count} أعلاف",
+    many: "إضافة {count} علفًا",
+    other: "إضافة {count} علف",
+  },
+  "feedSelection.removeFeed": "إزالة {name}",
+  "feedSelection.nutrient.dm": "DM",
+  "feedSelection.nutrient.cp": "CP",
+  "feedSelection.nutrient.ndf": "NDF",
+  "feedSelection.nutrient.adf": "ADF",
+  "feedSelection.nutrient.ee": "EE",
+  "feedSelection.nutrient.ash": "الرماد",
+  "feedSelection.nutrientPercent": "{nutrient} %",
+  "feedSelection.pricePerKgIn": "السعر لكل كغ ({currency})",
+
+  "recommendation.title": "توصية العلف",
+  "recommendation.generatedOn": "أُنشئت في {date}",
+  "recommendation.reportId": "المعرف: {id}",
+  "recommendation.dailyCost": "التكلفة اليومية",
+  "recommendation.milkProduction": "إنتاج الحليب",
+  "recommendation.dryMatterIntake": "استهلاك المادة الجافة",
+  "recommendation.methanePerDay": "الميثان/يوم",
+  "recommendation.animalInformation": "معلومات الحيوان",
+  "recommendation.breed": "السلالة",
+  "recommendation.bodyWeight": "وزن الجسم",
+  "recommendation.bodyCondition": "حالة الجسم",
+  "recommendation.daysInMilk": "أيام الحلابة",
+  "recommendation.parity": "عدد الولادات",
+  "recommendation.temperature": "درجة الحرارة",
+  "recommendation.topography": "طبيعة الأرض",
+  "recommendation.grazing": "الرعي",
+  "recommendation.recommendedDiet": "العليقة الموصى بها",
+  "recommendation.ingredientCount": {
+    one: "يوصى بمكون علفي واحد",
+    two: "يوصى بمكونين علفيين",
+    few: "يوصى بـ {count} مكونات علفية",
+    many: "يوصى بـ {count} مكونًا علفيًا",
+    other: "يوصى بـ {count} مكون علفي",
+  },
+  "recommendation.noDietAvailable": "لا تتوفر تركيبة علائق محددة",
+  "recommendation.feedName": "اسم العلف",
+  "recommendation.quantity": "الكمية ({unit})",
+  "recommendation.dmIntake": "استهلاك المادة الجافة ({unit})",
+  "recommendation.cost": "التكلفة",
+  "recommendation.feedFallback": "علف {number}",
+  "recommendation.noOptimalDiet": "لم تتمكن الخوارزمية من إيجاد عليقة مثلى بالأعلاف المختارة.",
+  "recommendation.tryMoreFeeds": "جرّب إضافة أعلاف أكثر تنوعًا (أعلاف خشنة ومركزة).",
+  "recommendation.environmentalImpact": "الأثر البيئي",
+  "recommendation.methaneProduction": "إنتاج CH₄",
+  "recommendation.methaneYield": "مردود CH₄",
+  "recommendation.methaneIntensity": "كثافة CH₄",
+  "recommendation.conversionRate": "معدل التحويل",
+  "recommendation.saveReport": "حفظ التقرير",
+  "recommendation.saved": "تم الحفظ",
+  "recommendation.downloadPdf": "تنزيل PDF",
+  "recommendation.queuedTitle": "التوصية في قائمة الانتظار",
+  "recommendation.queuedFailedTitle": "فشلت التوصية المنتظرة",
+  "recommendation.queuedProcessing": "جارٍ إنشاء توصيتك...",
+  "recommendation.queuedPending": "سيتم إنشاؤها تلقائيًا عند عودتك إلى الاتصال.",
+  "recommendation.viewQueue": "عرض قائمة الانتظار",
+  "recommendation.emptyTitle": "لا توجد توصية",
+  "recommendation.emptyDescription": "يرجى إكمال معلومات الأبقار واختيار الأعلاف أولًا.",
+  "recommendation.goToCattleInfo": "الانتقال إلى معلومات الأبقار",
+  "recommendation.queuedNotFound": "لم يتم العثور على التوصية المنتظرة",
+  "recommendation.offlineRetry": "أنت غير متصل. يرجى المحاولة مرة أخرى عند الاتصال.",
+  "recommendation.queuedOffline": "أنت غير متصل. سيتم إنشاء التوصية عند إعادة الاتصال.",
+  "recommendation.queueFailed": "تعذر إضافة التوصية إلى قائمة الانتظار",
+  "recommendation.completeInputs": "يرجى إكمال معلومات الأبقار واختيار الأعلاف",
+  "recommendation.failed": "تعذر إنشاء التوصية",
+  "recommendation.unableToSave": "تعذر حفظ التقرير",
+  "recommendation.waitingForReport": "في انتظار جاهزية التقرير... (المحاولة {attempt}/{max})",
+  "recommendation.reportSaved": "تم حفظ التقرير في حسابك!",
+  "recommendation.generatingLocally": "الحفظ على الخادم غير متاح. جارٍ إنشاء PDF على الجهاز...",
+  "recommendation.pdfDownloaded": "تم تنزيل PDF بنجاح!",
+  "recommendation.pdfFailed": "تعذر إنشاء PDF",
+  "recommendation.pdfFailedRetry": "تعذر إنشاء PDF. يرجى المحاولة مرة أخرى.",
+
+  "evaluation.title": "تقييم العليقة الحالية",
+  "evaluation.description": "أدخل كمية كل علف تأكلها ماشيتك اليوم (كما تُقدَّم، {unit}/يوم)",
+  "evaluation.quantity": "الكمية ({unit}/يوم)",
+  "evaluation.editFeeds": "تعديل الأعلاف",
+  "evaluation.run": "إجراء التقييم",
+  "evaluation.emptyTitle": "لا شيء لتقييمه",
+  "evaluation.emptyDescription": "يرجى إكمال معلومات الماشية واختيار الأعلاف التي تستخدمها حاليًا.",
+  "evaluation.goToFeedSelection": "الانتقال إلى اختيار الأعلاف",
+  "evaluation.quantitiesRequired": "يرجى إدخال الكمية اليومية لكل علف",
+  "evaluation.failed": "تعذر تقييم العليقة",
+  "evaluation.panelTitle": "تقييم العليقة الحالية",
+  "evaluation.panelDescription": "مدى تلبية الأعلاف المختارة لاحتياجات الحيوان",
+  "evaluation.overallStatus": "الحالة العامة",
+  "evaluation.limitingFactor": "العامل المحدِّد",
+  "evaluation.none": "لا يوجد",
+  "evaluation.milkProduction": "إنتاج الحليب",
+  "evaluation.target": "المستهدف",
+  "evaluation.supported": "المدعوم",
+  "evaluation.byEnergy": "حسب الطاقة",
+  "evaluation.byProtein": "حسب البروتين",
+  "evaluation.limitedBy": "محدود بـ:",
+  "evaluation.dryMatterIntake": "المأخوذ من المادة الجافة",
+  "evaluation.actual": "الفعلي",
+  "evaluation.difference": "الفرق",
+  "evaluation.ofTarget": "من المستهدف",
+  "evaluation.status": "الحالة:",
+  "evaluation.costAnalysis": "تحليل التكلفة",
+  "evaluation.dailyDietCost": "التكلفة اليومية للعليقة",
+  "evaluation.costPerKgMilk": "التكلفة لكل كغ حليب",
+  "evaluation.methaneEmissions": "انبعاثات الميثان",
+  "evaluation.nutrientBalance": "توازن العناصر الغذائية",
+  "evaluation.nutrientBalanceDescription": "المُقدَّم ناقص الاحتياج؛ القيم السالبة تعني نقصًا",
+  "evaluation.energy": "الطاقة",
+  "evaluation.protein": "البروتين",
+  "evaluation.calcium": "الكالسيوم",
+  "evaluation.phosphorus": "الفوسفور",
+  "evaluation.ndf": "NDF",
+  "evaluation.feedBreakdown": "تفاصيل الأعلاف",
+  "evaluation.feedBreakdownDescription": "مساهمة كل علف في العليقة الحالية",
+  "evaluation.asFed": "كما يُقدَّم ({unit})",
+  "evaluation.dryMatter": "مادة جافة ({unit})",
+  "evaluation.contribution": "المساهمة",
+  "evaluation.noBreakdown": "لا تتوفر تفاصيل الأعلاف لهذا التقييم.",
+
+  "sensitivity.title": "الحساسية للسعر",
+  "sensitivity.description": "شاهد كيف تتغير العليقة إذا تغير سعر أحد الأعلاف",
+  "sensitivity.feed": "العلف",
+  "sensitivity.selectFeed": "اختر علفًا",
+  "sensitivity.feedOption": "{name} ({price}/كغ)",
+  "sensitivity.from": "من (%)",
+  "sensitivity.to": "إلى (%)",
+  "sensitivity.steps": "الخطوات",
+  "sensitivity.run": "تشغيل",
+  "sensitivity.running": "جارٍ حساب {done}/{total} تركيبات...",
+  "sensitivity.breakEven": "يخرج {name} من العليقة بين {low} و{high} لكل كغ.",
+  "sensitivity.staysIncluded": "يبقى {name} في العليقة على امتداد نطاق الأسعار هذا.",
+  "sensitivity.noBreakEven": "لم يُعثر على سعر تعادل في هذا النطاق.",
+  "sensitivity.inclusionChart": "الكمية المُدرجة ({unit}/يوم)",
+  "sensitivity.dailyCostChart": "إجمالي التكلفة اليومية",
+  "sensitivity.pricePerKg": "السعر/كغ",
+  "sensitivity.inclusion": "الكمية المُدرجة",
+  "sensitivity.invalidRange": "أدخل نطاق أسعار صالحًا، مثل -30% إلى 50%",
+  "sensitivity.invalidSteps": "استخدم بين {min} و{max} خطوات",
+  "sensitivity.failed": "فشل تحليل الأسعار",
+  "sensitivity.failedRetry": "فشل تحليل الأسعار. يرجى المحاولة مرة أخرى.",
+  "sensitivity.cancelled": "أُلغي تحليل الأسعار",
+
+  "nav.cattleInfo": "معلومات الماشية",
+  "nav.herd": "قطيعي",
+  "nav.baskets": "سلال الأعلاف",
+  "nav.compare": "مقارنة",
+  "nav.reports": "التقارير",
+  "nav.feedReports": "تقارير الأعلاف",
+  "nav.feedback": "الملاحظات",
+  "nav.profile": "الملف الشخصي",
+  "nav.admin": "الإدارة",
+  "nav.adminPanel": "لوحة الإدارة",
+  "nav.menu": "القائمة",
+  "nav.openMenu": "فتح القائمة",
+  "nav.userMenu": "قائمة المستخدم",
+  "nav.switchAccount": "تبديل الحساب",
+  "nav.addAccount": "إضافة حساب",
+  "nav.help": "المساعدة والدعم",
+  "nav.logout": "تسجيل الخروج",
+  "nav.toggleTheme": "تبديل المظهر",
+
+  "auth.email": "البريد الإلكتروني",
+  "auth.emailPlaceholder": "أدخل بريدك الإلكتروني",
+  "auth.pin": "الرمز السري",
+  "auth.pinPlaceholder": "أدخل رمزًا سريًا من 4 أرقام",
+  "auth.error": "حدث خطأ",
+
+  "login.title": "تسجيل الدخول",
+  "login.description": "أدخل بريدك الإلكتروني ورمزك السري للوصول إلى حسابك",
+  "login.forgotPin": "نسيت الرمز السري؟",
+  "login.noAccount": "ليس لديك حساب؟",
+  "login.register": "إنشاء حساب",
+  "login.submit": "تسجيل الدخول",
+  "login.submitting": "جارٍ تسجيل الدخول...",
+  "login.retryIn": "أعد المحاولة بعد {time}",
+  "login.success": "تم تسجيل الدخول بنجاح!",
+  "login.failed": "فشل تسجيل الدخول",
+  "login.error": "حدث خطأ أثناء تسجيل الدخول",
+  "login.locked": "محاولات فاشلة كثيرة. تم قفل تسجيل الدخول لمدة {time}.",
+  "login.wait": "يرجى الانتظار {seconds} ثانية قبل المحاولة مرة أخرى.",
+  "login.attemptsRemaining": {
+    zero: "لم تتبقَّ أي محاولة قبل قفل حسابك مؤقتًا.",
+    one: "تبقت محاولة واحدة قبل قفل حسابك مؤقتًا.",
+    two: "تبقت محاولتان قبل قفل حسابك مؤقتًا.",
+    few: "تبقت {count} محاولات قبل قفل حسابك مؤقتًا.",
+    many: "تبقت {count} محاولة قبل قفل حسابك مؤقتًا.",
+    other: "تبقت {count} محاولة قبل قفل حسابك مؤقتًا.",
+  },
+
+  "register.title": "إنشاء حساب",
+  "register.description": "أنشئ حسابًا جديدًا للبدء",
+  "register.haveAccount": "لديك حساب بالفعل؟",
+  "register.login": "تسجيل الدخول",
+  "register.name": "الاسم الكامل",
+  "register.namePlaceholder": "أدخل اسمك الكامل",
+  "register.country": "البلد",
+  "register.countryPlaceholder": "اختر بلدك",
+  "register.pin": "الرمز السري (4 أرقام)",
+  "register.submit": "إنشاء حساب",
+  "register.submitting": "جارٍ إنشاء الحساب...",
+  "register.success": "تم التسجيل بنجاح!",
+  "register.failed": "فشل التسجيل",
+  "register.error": "حدث خطأ أثناء التسجيل",
+  "register.loadCountriesFailed": "تعذر تحميل البلدان",
+
+  "forgotPin.title": "نسيت الرمز السري",
+  "forgotPin.resetTitle": "إعادة تعيين الرمز السري",
+  "forgotPin.step.request": "أدخل بريدك الإلكتروني لتلقي رمز إعادة تعيين الرمز السري",
+  "forgotPin.step.verify": "أدخل الرمز الذي أرسلناه إلى بريدك الإلكتروني",
+  "forgotPin.step.newPin": "اختر رمزًا سريًا جديدًا من 4 أرقام",
+  "forgotPin.send": "إرسال الرمز",
+  "forgotPin.sending": "جارٍ الإرسال...",
+  "forgotPin.codeSent": "تم إرسال رمز إعادة التعيين إلى بريدك الإلكتروني",
+  "forgotPin.sendFailed": "تعذر إرسال الرمز",
+  "forgotPin.backToLogin": "العودة إلى تسجيل الدخول",
+  "forgotPin.codeSentTo": "أرسلنا رمز إعادة التعيين إلى {email}.",
+  "forgotPin.expiresIn": "تنتهي صلاحيته بعد {time}.",
+  "forgotPin.code": "رمز إعادة التعيين",
+  "forgotPin.codePlaceholder": "أدخل الرمز من بريدك الإلكتروني",
+  "forgotPin.verify": "تحقق من الرمز",
+  "forgotPin.verifying": "جارٍ التحقق...",
+  "forgotPin.incorrectCode": "رمز غير صحيح",
+  "forgotPin.attemptsLeft": {
+    zero: "{message}. لم تتبقَّ أي محاولة.",
+    one: "{message}. تبقت محاولة واحدة.",
+    two: "{message}. تبقت محاولتان.",
+    few: "{message}. تبقت {count} محاولات.",
+    many: "{message}. تبقت {count} محاولة.",
+    other: "{message}. تبقت {count} محاولة.",
+  },
+  "forgotPin.locked": "محاولات خاطئة كثيرة. اطلب رمزًا جديدًا للمحاولة مرة أخرى.",
+  "forgotPin.expired": "انتهت صلاحية هذا الرمز. اطلب رمزًا جديدًا للمتابعة.",
+  "forgotPin.differentEmail": "استخدم بريدًا إلكترونيًا آخر",
+  "forgotPin.resend": "إعادة إرسال الرمز",
+  "forgotPin.resendIn": "إعادة إرسال الرمز بعد {time}",
+  "forgotPin.newPin": "الرمز السري الجديد",
+  "forgotPin.newPinPlaceholder": "أدخل رمزًا سريًا جديدًا من 4 أرقام",
+  "forgotPin.confirmPin": "تأكيد الرمز السري الجديد",
+  "forgotPin.confirmPinPlaceholder": "أعد إدخال الرمز السري الجديد",
+  "forgotPin.resetSubmit": "إعادة التعيين وتسجيل الدخول",
+  "forgotPin.resetting": "جارٍ إعادة التعيين...",
+  "forgotPin.resetSuccess": "تمت إعادة تعيين رمزك السري",
+  "forgotPin.resetFailed": "تعذرت إعادة تعيين الرمز السري",
+  "forgotPin.resetExpired": "انتهت جلسة إعادة التعيين. يرجى طلب رمز جديد.",
+
+  "splash.tagline": "نظام تركيب الأعلاف",
+
+  "welcome.subtitle": "نظام تحسين تغذية أبقار الحليب",
+  "welcome.description": "أنشئ أفضل تركيبات الأعلاف لأبقار الحليب لديك بنظام تحسين التغذية المتقدم لدينا.",
+
+  "accounts.switchTo": "التبديل إلى {name}",
+  "accounts.add": "إضافة حساب",
+  "accounts.enterPinFor": "أدخل الرمز السري لـ {email} للمتابعة",
+  "accounts.addDescription": "سجّل الدخول إلى حساب آخر. سيتم تذكره على هذا الجهاز.",
+  "accounts.emailPlaceholder": "أدخل البريد الإلكتروني",
+  "accounts.emailRequired": "يرجى إدخال بريد إلكتروني",
+  "accounts.switched": "تم التبديل إلى {name}",
+  "accounts.incorrectPin": "رمز سري غير صحيح",
+  "accounts.switchFailed": "تعذر تبديل الحساب",
+  "accounts.removed": "تمت إزالة {name} من هذا الجهاز",
+  "accounts.remove": "إزالة من الجهاز",
+  "accounts.switch": "تبديل",
+  "accounts.signIn": "تسجيل الدخول",
+
+  "profile.title": "الملف الشخصي",
+  "profile.description": "حدّث اسمك وبلدك",
+  "profile.save": "حفظ التغييرات",
+  "profile.saving": "جارٍ الحفظ...",
+  "profile.updated": "تم تحديث الملف الشخصي",
+  "profile.updatedCountry": "تم تحديث الملف الشخصي. سيتم تحديث قائمة الأعلاف لبلدك الجديد.",
+  "profile.updateFailed": "تعذر تحديث الملف الشخصي",
+  "profile.changePin.title": "تغيير الرمز السري",
+  "profile.changePin.description": "أدخل رمزك السري الحالي لاختيار رمز جديد",
+  "profile.changePin.current": "الرمز السري الحالي",
+  "profile.changePin.currentPlaceholder": "أدخل الرمز السري الحالي",
+  "profile.changePin.submit": "تغيير الرمز السري",
+  "profile.changePin.submitting": "جارٍ تغيير الرمز السري...",
+  "profile.changePin.success": "تم تغيير الرمز السري بنجاح",
+  "profile.changePin.failed": "تعذر تغيير الرمز السري",
+  "profile.appLock.title": "قفل التطبيق",
+  "profile.appLock.description": "اقفل التطبيق عند عدم استخدامه، وهو مفيد على الهواتف المشتركة",
+  "profile.delete.title": "حذف الحساب",
+  "profile.delete.description": "أزل حسابك وجميع بياناته نهائيًا",
+  "profile.delete.button": "حذف الحساب",
+  "profile.delete.confirmTitle": "حذف الحساب؟",
+  "profile.delete.confirmDescription": "سيؤدي هذا إلى حذف حسابك وتقاريرك المحفوظة وملاحظاتك نهائيًا. لا يمكن التراجع عن ذلك.",
+  "profile.delete.pinLabel": "أدخل رمزك السري للتأكيد",
+  "profile.delete.pinPlaceholder": "رمز سري من 4 أرقام",
+  "profile.delete.submit": "حذف نهائي",
+  "profile.delete.success": "تم حذف حسابك",
+  "profile.delete.failed": "تعذر حذف الحساب",
+
+  "appLock.title": "التطبيق مقفل",
+  "appLock.signedInAs": "تم تسجيل الدخول باسم {name}. أدخل رمزك السري للمتابعة.",
+  "appLock.unlock": "فتح القفل",
+  "appLock.unlockWithPasskey": "فتح القفل بمفتاح المرور",
+  "appLock.notYou": "لست أنت؟ تسجيل الخروج",
+  "appLock.incorrectPin": "رمز سري غير صحيح",
+  "appLock.verifyFailed": "تعذر التحقق من الرمز السري",
+  "appLock.passkeyRejected": "تعذر على مفتاح المرور التحقق منك. استخدم رمزك السري بدلاً من ذلك.",
+  "appLock.passkeyFailed": "فشل فتح القفل بمفتاح المرور",
+  "appLock.idleLabel": "القفل بعد عدم النشاط",
+  "appLock.never": "أبدًا",
+  "appLock.minutes": {
+    one: "دقيقة واحدة",
+    two: "دقيقتان",
+    few: "{count} دقائق",
+    many: "{count} دقيقة",
+    other: "{count} دقيقة",
+  },
+  "appLock.passkey": "مفتاح المرور",
+  "appLock.passkeyUnsupported": "هذا الجهاز لا يدعم مفاتيح المرور. افتح القفل برمزك السري بدلاً من ذلك.",
+  "appLock.passkeyEnabled": "يمكن فتح قفل هذا الجهاز ببصمة إصبعك أو وجهك أو قفل الشاشة.",
+  "appLock.removePasskey": "إزالة",
+  "appLock.addPasskey": "إضافة مفتاح مرور لهذا الجهاز",
+  "appLock.passkeyAdded": "تمت إضافة مفتاح المرور. يمكنك الآن فتح القفل على هذا الجهاز.",
+  "appLock.passkeyAddFailed": "تعذرت إضافة مفتاح المرور",
+  "appLock.passkeyRemoved": "تمت إزالة مفتاح المرور من هذا الجهاز",
+
+  "offline.title": "التركيبات في قائمة الانتظار",
+  "offline.online": "التوصيات المطلوبة أثناء عدم الاتصال",
+  "offline.offline": "أنت غير متصل. سيتم إرسال الطلبات في قائمة الانتظار عند عودة الاتصال.",
+  "offline.status.pending": "في انتظار الاتصال",
+  "offline.status.processing": "جارٍ الإرسال",
+  "offline.status.complete": "مكتمل",
+  "offline.status.failed": "فشل",
+  "offline.jobTitle": {
+    one: "{breed} · علف واحد",
+    two: "{breed} · علفان",
+    few: "{breed} · {count} أعلاف",
+    many: "{breed} · {count} علفًا",
+    other: "{breed} · {count} علف",
+  },
+  "offline.recommendation": "توصية",
+  "offline.queuedAt": "أُضيفت إلى قائمة الانتظار في {date}",
+  "offline.view": "عرض التوصية",
+  "offline.retry": "إعادة محاولة التوصية في قائمة الانتظار",
+  "offline.remove": "إزالة التوصية من قائمة الانتظار",
+  "offline.retryFailed": "تعذرت إعادة المحاولة",
+  "offline.removeFailed": "تعذرت إزالة الطلب",
+  "offline.ready": "التوصية التي كانت في قائمة الانتظار جاهزة",
+  "offline.readyAction": "عرض",
+
+  "herd.title": "قطيعي",
+  "herd.description": "تحتفظ الحيوانات المحفوظة بمعلومات الماشية الخاصة بها بين الزيارات",
+  "herd.add": "إضافة حيوان",
+  "herd.empty": "لا توجد حيوانات محفوظة بعد",
+  "herd.active": "نشط",
+  "herd.tag": "الرقم {tag}",
+  "herd.noDetails": "لا توجد تفاصيل بعد",
+  "herd.updatedOn": "حُدّث في {date}",
+  "herd.startFormulation": "بدء التركيب",
+  "herd.startFormulationFor": "بدء التركيب لـ {name}",
+  "herd.edit": "تعديل التفاصيل",
+  "herd.editName": "تعديل {name}",
+  "herd.duplicate": "نسخ",
+  "herd.duplicateName": "نسخ {name}",
+  "herd.delete": "حذف",
+  "herd.deleteName": "حذف {name}",
+  "herd.duplicated": "تم نسخ {name}",
+  "herd.deleted": "تم حذف {name}",
+  "herd.deleteTitle": "حذف الحيوان؟",
+  "herd.deleteDescription": "ستتم إزالة {name} ومعلومات الماشية المحفوظة له من هذا الجهاز.",
+  "herd.picker.label": "الحيوان",
+  "herd.picker.placeholder": "اختر حيوانًا",
+  "herd.picker.unnamed": "حيوان بلا اسم",
+  "herd.picker.new": "جديد",
+  "herd.dialog.editTitle": "تعديل الحيوان",
+  "herd.dialog.newTitle": "حيوان جديد",
+  "herd.dialog.description": "امنح الحيوان اسمًا ورقمًا لتجده في زيارتك القادمة",
+  "herd.dialog.name": "الاسم",
+  "herd.dialog.namePlaceholder": "مثال: دايزي",
+  "herd.dialog.earTag": "رقم الأذن (اختياري)",
+  "herd.dialog.earTagPlaceholder": "مثال: KE-0421",
+  "herd.dialog.farm": "المزرعة (اختياري)",
+  "herd.dialog.farmPlaceholder": "مثال: مزرعة وانجيرو",
+  "herd.dialog.save": "حفظ",
+  "herd.dialog.create": "إنشاء",
+  "herd.dialog.updated": "تم تحديث ملف الحيوان",
+  "herd.dialog.created": "تم إنشاء ملف الحيوان",
+
+  "baskets.title": "سلال الأعلاف",
+  "baskets.description": "مجموعات أعلاف قابلة لإعادة الاستخدام مع آخر أسعار أدخلتها",
+  "baskets.empty": "لا توجد سلال محفوظة بعد",
+  "baskets.emptyHint": "اختر الأعلاف واستخدم \"حفظ كسلة\" لإنشاء واحدة.",
+  "baskets.pricesUpdatedOn": "حُدّثت الأسعار في {date}",
+  "baskets.load": "تحميل في اختيار الأعلاف",
+  "baskets.loadName": "تحميل {name}",
+  "baskets.updatePrices": "تحديث الأسعار",
+  "baskets.updatePricesFor": "تحديث أسعار {name}",
+  "baskets.delete": "حذف السلة",
+  "baskets.deleteName": "حذف {name}",
+  "baskets.loaded": "تم تحميل \"{name}\"",
+  "baskets.deleted": "تم حذف السلة \"{name}\"",
+  "baskets.deleteTitle": "حذف السلة؟",
+  "baskets.deleteDescription": "ستتم إزالة {name} من هذا الجهاز.",
+  "baskets.deleteConfirm": "حذف",
+  "baskets.replaceTitle": "استبدال الأعلاف المختارة؟",
+  "baskets.replaceDescription": {
+    one: "تحميل {name} يستبدل العلف الذي اخترته.",
+    two: "تحميل {name} يستبدل العلفين اللذين اخترتهما.",
+    few: "تحميل {name} يستبدل الأعلاف الـ{count} التي اخترتها.",
+    many: "تحميل {name} يستبدل الـ{count} علفًا التي اخترتها.",
+    other: "تحميل {name} يستبدل الـ{count} علف التي اخترتها.",
+  },
+  "baskets.replaceConfirm": "تحميل السلة",
+  "baskets.save.button": "حفظ كسلة",
+  "baskets.save.title": "حفظ سلة أعلاف",
+  "baskets.save.description": {
+    one: "احفظ هذا العلف وسعره لزيارتك القادمة",
+    two: "احفظ هذين العلفين وسعريهما لزيارتك القادمة",
+    few: "احفظ هذه الأعلاف الـ{count} وأسعارها لزيارتك القادمة",
+    many: "احفظ هذه الـ{count} علفًا وأسعارها لزيارتك القادمة",
+    other: "احفظ هذه الـ{count} علف وأسعارها لزيارتك القادمة",
+  },
+  "baskets.save.target": "الحفظ في",
+  "baskets.save.new": "سلة جديدة",
+  "baskets.save.replace": "استبدال \"{name}\"",
+  "baskets.save.name": "اسم السلة",
+  "baskets.save.namePlaceholder": "مثال: الموسم الجاف - كيامبو",
+  "baskets.save.submit": "حفظ",
+  "baskets.save.nameRequired": "يرجى إدخال اسم للسلة",
+  "baskets.save.saved": "تم حفظ السلة \"{name}\"",
+  "baskets.save.updated": "تم تحديث السلة \"{name}\"",
+  "baskets.prices.title": "تحديث الأسعار",
+  "baskets.prices.description": "{name}: أدخل أسعار السوق اليوم ({unit})",
+  "baskets.prices.perKg": "لكل كغ",
+  "baskets.prices.percent": "تغيير جميع الأسعار بنسبة %",
+  "baskets.prices.percentPlaceholder": "مثال: 10 أو -5",
+  "baskets.prices.apply": "تطبيق",
+  "baskets.prices.submit": "حفظ الأسعار",
+  "baskets.prices.invalid": "يجب أن يكون كل سعر أكبر من صفر",
+  "baskets.prices.updated": "تم تحديث الأسعار",
+
+  "compare.title": "مقارنة السيناريوهات",
+  "compare.description": "أفضل القيم مميزة بالأخضر، وكميات الأعلاف المختلفة عن الأساس بالبرتقالي",
+  "compare.clearAll": "مسح الكل",
+  "compare.emptyTitle": "لا توجد سيناريوهات للمقارنة",
+  "compare.emptyDescription": "أنشئ توصية واستخدم \"مقارنة\" لإضافتها هنا. غيّر الأعلاف وكرر لعرض ما يصل إلى {max} تركيبات جنبًا إلى جنب.",
+  "compare.goToFeedSelection": "الانتقال إلى اختيار الأعلاف",
+  "compare.saved": "محفوظ",
+  "compare.unknownBreed": "سلالة غير معروفة",
+  "compare.scenarioSummary": {
+    one: "{breed} · علف واحد · {date}",
+    two: "{breed} · علفان · {date}",
+    few: "{breed} · {count} أعلاف · {date}",
+    many: "{breed} · {count} علفًا · {date}",
+    other: "{breed} · {count} علف · {date}",
+  },
+  "compare.saveAsReport": "حفظ كتقرير",
+  "compare.saveNameAsReport": "حفظ {name} كتقرير",
+  "compare.remove": "إزالة من المقارنة",
+  "compare.removeName": "إزالة {name}",
+  "compare.savedToReports": "تم حفظ \"{name}\" في تقاريرك",
+  "compare.saveFailed": "تعذر حفظ التقرير. يرجى المحاولة لاحقًا.",
+  "compare.clearTitle": "مسح المقارنة؟",
+  "compare.clearDescription": {
+    one: "ستتم إزالة السيناريو. تبقى التقارير التي حفظتها بالفعل.",
+    two: "ستتم إزالة السيناريوهين. تبقى التقارير التي حفظتها بالفعل.",
+    few: "ستتم إزالة جميع السيناريوهات الـ{count}. تبقى التقارير التي حفظتها بالفعل.",
+    many: "ستتم إزالة جميع الـ{count} سيناريو. تبقى التقارير التي حفظتها بالفعل.",
+    other: "ستتم إزالة جميع الـ{count} سيناريو. تبقى التقارير التي حفظتها بالفعل.",
+  },
+  "compare.clear": "مسح",
+  "compare.add.button": "مقارنة",
+  "compare.add.inComparison": "في المقارنة",
+  "compare.add.title": "إضافة إلى المقارنة",
+  "compare.add.description": "امنح هذه التركيبة اسمًا لتمييزها عن غيرها",
+  "compare.add.name": "اسم السيناريو",
+  "compare.add.namePlaceholder": "مثال: مع كسبة بذرة القطن",
+  "compare.add.defaultName": "السيناريو {number}",
+  "compare.add.limit": "يمكن مقارنة ما يصل إلى {max} سيناريوهات. سيتم استبدال \"{name}\".",
+  "compare.add.submit": "إضافة",
+  "compare.add.nameRequired": "يرجى إدخال اسم للسيناريو",
+  "compare.add.added": "تمت إضافة \"{name}\" إلى المقارنة",
+  "compare.add.viewAction": "مقارنة",
+  "compare.table.metric": "المقياس",
+  "compare.table.baseline": "الأساس",
+  "compare.table.dailyCost": "التكلفة اليومية",
+  "compare.table.costPerMilk": "التكلفة لكل {unit} حليب",
+  "compare.table.milkProduction": "إنتاج الحليب",
+  "compare.table.dryMatterIntake": "استهلاك المادة الجافة",
+  "compare.table.methane": "الميثان",
+  "compare.table.methaneYield": "عائد CH₄",
+  "compare.table.methaneIntensity": "كثافة CH₄",
+  "compare.table.perDay": "{unit}/يوم",
+  "compare.table.leastCostDiet": "العليقة الأقل تكلفة ({unit}/يوم)",
+
+  "feedback.title": "إرسال ملاحظات",
+  "feedback.description": "شاركنا أفكارك واقتراحاتك",
+  "feedback.label": "الملاحظات",
+  "feedback.placeholder": "أدخل ملاحظاتك...",
+  "feedback.rating": "التقييم (اختياري)",
+  "feedback.submit": "إرسال الملاحظات",
+  "feedback.submitting": "جارٍ الإرسال...",
+  "feedback.success": "تم إرسال الملاحظات بنجاح",
+  "feedback.required": "يرجى إدخال ملاحظاتك",
+  "feedback.submitFailed": "تعذر إرسال الملاحظات",
+  "feedback.loadFailed": "تعذر تحميل الملاحظات",
+  "feedback.history": "ملاحظاتك",
+
+  "reports.title": "التقارير المحفوظة",
+  "reports.description": "اعرض تقارير تركيب الأعلاف المحفوظة وأدرها",
+  "reports.empty": "لا توجد تقارير محفوظة بعد",
+  "reports.loadFailed": "تعذر تحميل التقارير",
+  "reports.urlUnavailable": "رابط التقرير غير متاح",
+  "reports.deleteComingSoon": "ميزة الحذف قادمة قريبًا",
+  "reports.download": "تنزيل PDF",
+  "reports.downloadLabel": "تنزيل تقرير PDF",
+  "reports.delete": "حذف التقرير",
+
+  "forbidden.title": "تم رفض الوصول",
+  "forbidden.description": "هذه الصفحة مخصصة للمسؤولين فقط.",
+  "forbidden.back": "الانتقال إلى معلومات الماشية",
+};
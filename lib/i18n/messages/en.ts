@@ -0,0 +1,663 @@
+// English catalogue. It defines every message key; the other catalogues must match it.
+
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+export type Message = string | PluralMessage;
+
+export const en = {
+  "common.back": "Back",
+  "common.continue": "Continue",
+  "common.reset": "Reset",
+  "common.cancel": "Cancel",
+  "common.yes": "Yes",
+  "common.no": "No",
+  "common.notAvailable": "N/A",
+
+  "validation.breedRequired": "Breed is required",
+  "validation.topographyRequired": "Topography is required",
+  "validation.min": "Must be at least {min}",
+  "validation.max": "Must be at most {max}",
+  "validation.requiredWhenLactating": "Required for a lactating cow",
+  "validation.requiredWhenGrazing": "Required when the cow is grazing",
+  "validation.milkWhenDry": "Milk production is recorded, so the cow must be lactating",
+  "validation.pregnancyTooLong": "A pregnancy lasts at most {max} days",
+  "validation.daysInMilkOverInterval": "Must not exceed the calving interval ({max} days)",
+  "validation.pregnancyOverDaysInMilk": "Must not exceed days in milk ({max})",
+  "validation.inconsistentCattleInfo": "The cattle information is inconsistent. Please review it and try again.",
+  "validation.emailInvalid": "Invalid email address",
+  "validation.pinLength": "PIN must be exactly 4 digits",
+  "validation.pinDigits": "PIN must contain only digits",
+  "validation.pinsMismatch": "PINs do not match",
+  "validation.nameRequired": "Name is required",
+  "validation.countryRequired": "Country is required",
+  "validation.codeRequired": "Enter the code from your email",
+  "validation.pinUnchanged": "New PIN must be different from your current PIN",
+
+  "language.title": "Language",
+  "language.description": "Choose the language for the app and your PDF reports",
+  "language.automatic": "Automatic ({language})",
+
+  "units.title": "Units",
+  "units.description": "Choose the units for entering cattle data and reading reports",
+  "units.system": "Measurement system",
+  "units.metric": "Metric (kg, km, °C)",
+  "units.imperial": "Imperial (lb, mi, °F)",
+  "units.milk": "Milk",
+  "units.milkVolume": "By volume (L, gal)",
+  "units.milkMass": "By weight (kg, lb)",
+
+  "cattleInfo.title": "Cattle Information",
+  "cattleInfo.description": "Enter details about your cattle to generate feed recommendations",
+  "cattleInfo.section.animal": "Animal Characteristics",
+  "cattleInfo.section.milk": "Milk Production",
+  "cattleInfo.section.reproduction": "Reproductive Data",
+  "cattleInfo.section.environment": "Environment",
+  "cattleInfo.breed": "Breed",
+  "cattleInfo.selectBreed": "Select breed",
+  "cattleInfo.breedOther": "Other",
+  "cattleInfo.bodyWeight": "Body Weight ({unit})",
+  "cattleInfo.bcScore": "Body Condition Score (1-5)",
+  "cattleInfo.bwGain": "Daily Body Weight Gain ({unit})",
+  "cattleInfo.lactating": "Lactating",
+  "cattleInfo.milkProduction": "Milk Production ({unit}/day)",
+  "cattleInfo.fatMilk": "Milk Fat (%)",
+  "cattleInfo.tpMilk": "Milk Protein (%)",
+  "cattleInfo.daysInMilk": "Days in Milk",
+  "cattleInfo.parity": "Parity",
+  "cattleInfo.calvingInterval": "Calving Interval (days)",
+  "cattleInfo.daysOfPregnancy": "Days of Pregnancy",
+  "cattleInfo.grazing": "Grazing",
+  "cattleInfo.distance": "Distance ({unit})",
+  "cattleInfo.topography": "Topography",
+  "cattleInfo.selectTopography": "Select topography",
+  "cattleInfo.topography.Flat": "Flat",
+  "cattleInfo.topography.Hilly": "Hilly",
+  "cattleInfo.topography.Mountainous": "Mountainous",
+  "cattleInfo.temperature": "Temperature ({unit})",
+  "cattleInfo.mode.label": "Entry mode",
+  "cattleInfo.mode.wizard": "Step by step",
+  "cattleInfo.mode.form": "Full form",
+
+  "wizard.progress": "Question {current} of {total}",
+  "wizard.next": "Next",
+  "wizard.finish": "Finish",
+  "wizard.autosaved": "Your answers are saved as you go",
+  "wizard.reviewTitle": "Check your answers",
+  "wizard.change": "Change",
+  "wizard.fixAnswers": "Some answers need attention",
+  "wizard.question.breed": "Which breed is the cow?",
+  "wizard.question.body_weight": "How heavy is the cow?",
+  "wizard.question.bc_score": "Which picture looks most like the cow from behind?",
+  "wizard.question.bw_gain": "How much weight does she gain each day?",
+  "wizard.question.lactating": "Is the cow giving milk now?",
+  "wizard.question.milk_production": "How much milk does she give each day?",
+  "wizard.question.fat_milk": "How much fat is in her milk?",
+  "wizard.question.tp_milk": "How much protein is in her milk?",
+  "wizard.question.days_in_milk": "How many days ago did she calve?",
+  "wizard.question.parity": "How many times has she calved?",
+  "wizard.question.calving_interval": "How many days are there between her calvings?",
+  "wizard.question.days_of_pregnancy": "How many days has she been pregnant?",
+  "wizard.question.grazing": "Does the cow go out to graze?",
+  "wizard.question.distance": "How far does she walk each day?",
+  "wizard.question.topography": "What is the land like where she walks?",
+  "wizard.question.temperature": "How warm is it outside on a usual day?",
+  "wizard.hint.breedTypical": "If you do not know, keep the typical value for the breed",
+  "wizard.hint.notPregnant": "Enter 0 if she is not pregnant",
+  "wizard.bcs.1": "Very thin",
+  "wizard.bcs.2": "Thin",
+  "wizard.bcs.3": "Good",
+  "wizard.bcs.4": "Fat",
+  "wizard.bcs.5": "Very fat",
+
+  "weightEstimator.title": "No scale? Use a tape measure",
+  "weightEstimator.instructions": "Wrap the tape around the chest, just behind the front legs, and read it when she breathes out",
+  "weightEstimator.heartGirth": "Heart girth ({unit})",
+  "weightEstimator.estimate": "Estimated weight: {weight}",
+  "weightEstimator.outOfRange": "Check the measurement. It should be between {min} and {max}",
+  "weightEstimator.use": "Use this weight",
+  "weightEstimator.open": "Estimate from tape measurements",
+  "weightEstimator.bodyLength": "Body length ({unit}, optional)",
+  "weightEstimator.bodyLengthHint": "From the point of the shoulder to the pin bone. Adding it gives a better estimate",
+  "weightEstimator.lengthOutOfRange": "Check the body length. It should be between {min} and {max}",
+  "weightEstimator.formula.heinrichs": "Heinrichs et al. (1992), heart girth, fitted on Holsteins",
+  "weightEstimator.formula.schaeffer": "Schaeffer's formula, heart girth and body length",
+  "weightEstimator.formula.crevat": "Crevat's formula, heart girth",
+  "weightEstimator.formula.quetelet": "Quételet's formula, heart girth and body length",
+  "weightEstimator.formulaUnits": "W is weight in kg, HG heart girth and L body length in cm",
+  "weightEstimator.confidence.good": "High confidence: usually within about 10% of the scale weight",
+  "weightEstimator.confidence.fair": "Medium confidence: a rough guide that may be further off",
+  "weightEstimator.confidence.low": "Low confidence: may be well off the scale weight",
+  "weightEstimator.selectBreed": "Choose the breed to use the formulas suited to it",
+
+  "feedSelection.title": "Feed Selection",
+  "feedSelection.description": "Select feeds for your cattle feed formulation",
+  "feedSelection.loadBasket": "Load a saved basket",
+  "feedSelection.basketOption": { one: "{name} ({count} feed)", other: "{name} ({count} feeds)" },
+  "feedSelection.search": "Search Feeds",
+  "feedSelection.browse": "Or browse by type and category",
+  "feedSelection.feedType": "Feed Type",
+  "feedSelection.selectFeedType": "Select feed type",
+  "feedSelection.feedCategory": "Feed Category",
+  "feedSelection.selectFeedCategory": "Select feed category",
+  "feedSelection.feedName": "Feed Name",
+  "feedSelection.selectFeedName": "Select feed name",
+  "feedSelection.pricePerKg": "Price per kg",
+  "feedSelection.enterPrice": "Enter price",
+  "feedSelection.addFeed": "Add Feed",
+  "feedSelection.selectedFeeds": "Selected Feeds ({count})",
+  "feedSelection.evaluate": "Evaluate Current Diet",
+  "feedSelection.continue": "Continue to Recommendation",
+  "feedSelection.loadTypesFailed": "Failed to load feed types",
+  "feedSelection.loadCategoriesFailed": "Failed to load feed categories",
+  "feedSelection.loadSubCategoriesFailed": "Failed to load feed subcategories",
+  "feedSelection.loadDetailsFailed": "Failed to load feed details",
+  "feedSelection.selectFeedAndPrice": "Please select a feed and enter price",
+  "feedSelection.alreadySelected": "{name} is already selected",
+  "feedSelection.feedsAdded": { one: "{count} feed added", other: "{count} feeds added" },
+  "feedSelection.feedsFailed": {
+    one: "Failed to load details for {count} feed",
+    other: "Failed to load details for {count} feeds",
+  },
+  "feedSelection.basketLoaded": "Loaded \"{name}\"",
+  "feedSelection.replaceTitle": "Replace selected feeds?",
+  "feedSelection.replaceDescription": {
+    one: "Loading \"{name}\" replaces the {count} feed you have selected.",
+    other: "Loading \"{name}\" replaces the {count} feeds you have selected.",
+  },
+  "feedSelection.replaceConfirm": "Load basket",
+  "feedSelection.addAtLeastOne": "Please add at least one feed",
+  "feedSelection.searchUnavailable": "Feed search is unavailable right now. Browse by type below instead.",
+  "feedSelection.searchPlaceholder": "Search feeds by name or local name",
+  "feedSelection.noMatches": "No feeds match \"{query}\"",
+  "feedSelection.matchesAlias": "matches \"{alias}\"",
+  "feedSelection.selected": "Selected",
+  "feedSelection.enterPrices": "Enter prices ({unit})",
+  "feedSelection.perKg": "per kg",
+  "feedSelection.price": "Price",
+  "feedSelection.priceFor": "Price for {name}",
+  "feedSelection.unselect": "Unselect {name}",
+  "feedSelection.addPicked": { one: "Add {count} Feed", other: "Add {count} Feeds" },
+  "feedSelection.removeFeed": "Remove {name}",
+  "feedSelection.nutrient.dm": "DM",
+  "feedSelection.nutrient.cp": "CP",
+  "feedSelection.nutrient.ndf": "NDF",
+  "feedSelection.nutrient.adf": "ADF",
+  "feedSelection.nutrient.ee": "EE",
+  "feedSelection.nutrient.ash": "Ash",
+  "feedSelection.nutrientPercent": "{nutrient} %",
+  "feedSelection.pricePerKgIn": "Price per kg ({currency})",
+
+  "recommendation.title": "Feed Recommendation",
+  "recommendation.generatedOn": "Generated on {date}",
+  "recommendation.reportId": "ID: {id}",
+  "recommendation.dailyCost": "Daily Cost",
+  "recommendation.milkProduction": "Milk Production",
+  "recommendation.dryMatterIntake": "Dry Matter Intake",
+  "recommendation.methanePerDay": "Methane/day",
+  "recommendation.animalInformation": "Animal Information",
+  "recommendation.breed": "Breed",
+  "recommendation.bodyWeight": "Body Weight",
+  "recommendation.bodyCondition": "Body Condition",
+  "recommendation.daysInMilk": "Days in Milk",
+  "recommendation.parity": "Parity",
+  "recommendation.temperature": "Temperature",
+  "recommendation.topography": "Topography",
+  "recommendation.grazing": "Grazing",
+  "recommendation.recommendedDiet": "Recommended Diet",
+  "recommendation.ingredientCount": {
+    one: "{count} feed ingredient recommended",
+    other: "{count} feed ingredients recommended",
+  },
+  "recommendation.noDietAvailable": "No specific diet formulation available",
+  "recommendation.feedName": "Feed Name",
+  "recommendation.quantity": "Quantity ({unit})",
+  "recommendation.dmIntake": "DM Intake ({unit})",
+  "recommendation.cost": "Cost",
+  "recommendation.feedFallback": "Feed {number}",
+  "recommendation.noOptimalDiet": "The algorithm could not find an optimal diet with the selected feeds.",
+  "recommendation.tryMoreFeeds": "Try adding more variety of feeds (both forages and concentrates).",
+  "recommendation.environmentalImpact": "Environmental Impact",
+  "recommendation.methaneProduction": "CH₄ Production",
+  "recommendation.methaneYield": "CH₄ Yield",
+  "recommendation.methaneIntensity": "CH₄ Intensity",
+  "recommendation.conversionRate": "Conversion Rate",
+  "recommendation.saveReport": "Save Report",
+  "recommendation.saved": "Saved",
+  "recommendation.downloadPdf": "Download PDF",
+  "recommendation.queuedTitle": "Recommendation Queued",
+  "recommendation.queuedFailedTitle": "Queued Recommendation Failed",
+  "recommendation.queuedProcessing": "Generating your recommendation...",
+  "recommendation.queuedPending": "It will be generated automatically when you are back online.",
+  "recommendation.viewQueue": "View Queue",
+  "recommendation.emptyTitle": "No Recommendation Available",
+  "recommendation.emptyDescription": "Please complete cattle information and select feeds first.",
+  "recommendation.goToCattleInfo": "Go to Cattle Info",
+  "recommendation.queuedNotFound": "Queued recommendation not found",
+  "recommendation.offlineRetry": "You are offline. Please try again when connected.",
+  "recommendation.queuedOffline": "You are offline. The recommendation will be generated when you reconnect.",
+  "recommendation.queueFailed": "Failed to queue recommendation",
+  "recommendation.completeInputs": "Please complete cattle info and select feeds",
+  "recommendation.failed": "Failed to generate recommendation",
+  "recommendation.unableToSave": "Unable to save report",
+  "recommendation.waitingForReport": "Waiting for report to be ready... (attempt {attempt}/{max})",
+  "recommendation.reportSaved": "Report saved to your account!",
+  "recommendation.generatingLocally": "Server save unavailable. Generating PDF locally...",
+  "recommendation.pdfDownloaded": "PDF downloaded successfully!",
+  "recommendation.pdfFailed": "Failed to generate PDF",
+  "recommendation.pdfFailedRetry": "Failed to generate PDF. Please try again.",
+
+  "evaluation.title": "Evaluate Current Diet",
+  "evaluation.description": "Enter how much of each feed your cattle eat today (as fed, {unit}/day)",
+  "evaluation.quantity": "Quantity ({unit}/day)",
+  "evaluation.editFeeds": "Edit Feeds",
+  "evaluation.run": "Run Evaluation",
+  "evaluation.emptyTitle": "Nothing to Evaluate",
+  "evaluation.emptyDescription": "Please complete cattle information and select the feeds you currently use.",
+  "evaluation.goToFeedSelection": "Go to Feed Selection",
+  "evaluation.quantitiesRequired": "Please enter the daily quantity for every feed",
+  "evaluation.failed": "Failed to evaluate diet",
+  "evaluation.panelTitle": "Current Diet Evaluation",
+  "evaluation.panelDescription": "How the selected feeds perform against the animal's requirements",
+  "evaluation.overallStatus": "Overall Status",
+  "evaluation.limitingFactor": "Limiting Factor",
+  "evaluation.none": "None",
+  "evaluation.milkProduction": "Milk Production",
+  "evaluation.target": "Target",
+  "evaluation.supported": "Supported",
+  "evaluation.byEnergy": "By Energy",
+  "evaluation.byProtein": "By Protein",
+  "evaluation.limitedBy": "Limited by:",
+  "evaluation.dryMatterIntake": "Dry Matter Intake",
+  "evaluation.actual": "Actual",
+  "evaluation.difference": "Difference",
+  "evaluation.ofTarget": "Of Target",
+  "evaluation.status": "Status:",
+  "evaluation.costAnalysis": "Cost Analysis",
+  "evaluation.dailyDietCost": "Daily Diet Cost",
+  "evaluation.costPerKgMilk": "Cost per kg Milk",
+  "evaluation.methaneEmissions": "Methane Emissions",
+  "evaluation.nutrientBalance": "Nutrient Balance",
+  "evaluation.nutrientBalanceDescription": "Supply minus requirement; negative values are deficits",
+  "evaluation.energy": "Energy",
+  "evaluation.protein": "Protein",
+  "evaluation.calcium": "Calcium",
+  "evaluation.phosphorus": "Phosphorus",
+  "evaluation.ndf": "NDF",
+  "evaluation.feedBreakdown": "Feed Breakdown",
+  "evaluation.feedBreakdownDescription": "Contribution of each feed to the current diet",
+  "evaluation.asFed": "As Fed ({unit})",
+  "evaluation.dryMatter": "DM ({unit})",
+  "evaluation.contribution": "Contribution",
+  "evaluation.noBreakdown": "No feed breakdown available for this evaluation.",
+
+  "sensitivity.title": "Price Sensitivity",
+  "sensitivity.description": "See how the diet responds if one feed's price changes",
+  "sensitivity.feed": "Feed",
+  "sensitivity.selectFeed": "Select a feed",
+  "sensitivity.feedOption": "{name} ({price}/kg)",
+  "sensitivity.from": "From (%)",
+  "sensitivity.to": "To (%)",
+  "sensitivity.steps": "Steps",
+  "sensitivity.run": "Run",
+  "sensitivity.running": "Running {done}/{total} formulations...",
+  "sensitivity.breakEven": "{name} drops out of the ration between {low} and {high} per kg.",
+  "sensitivity.staysIncluded": "{name} stays in the ration across this price range.",
+  "sensitivity.noBreakEven": "No break-even price found in this range.",
+  "sensitivity.inclusionChart": "Inclusion ({unit}/day)",
+  "sensitivity.dailyCostChart": "Total Daily Cost",
+  "sensitivity.pricePerKg": "Price/kg",
+  "sensitivity.inclusion": "Inclusion",
+  "sensitivity.invalidRange": "Enter a valid price range, e.g. -30% to 50%",
+  "sensitivity.invalidSteps": "Use between {min} and {max} steps",
+  "sensitivity.failed": "Price sweep failed",
+  "sensitivity.failedRetry": "Price sweep failed. Please try again.",
+  "sensitivity.cancelled": "Price sweep cancelled",
+
+  "nav.cattleInfo": "Cattle Info",
+  "nav.herd": "My Herd",
+  "nav.baskets": "Feed Baskets",
+  "nav.compare": "Compare",
+  "nav.reports": "Reports",
+  "nav.feedReports": "Feed Reports",
+  "nav.feedback": "Feedback",
+  "nav.profile": "Profile",
+  "nav.admin": "Admin",
+  "nav.adminPanel": "Admin Panel",
+  "nav.menu": "Menu",
+  "nav.openMenu": "Open menu",
+  "nav.userMenu": "User menu",
+  "nav.switchAccount": "Switch account",
+  "nav.addAccount": "Add Account",
+  "nav.help": "Help & Support",
+  "nav.logout": "Logout",
+  "nav.toggleTheme": "Toggle theme",
+
+  "auth.email": "Email",
+  "auth.emailPlaceholder": "Enter your email",
+  "auth.pin": "PIN",
+  "auth.pinPlaceholder": "Enter 4-digit PIN",
+  "auth.error": "An error occurred",
+
+  "login.title": "Login",
+  "login.description": "Enter your email and PIN to access your account",
+  "login.forgotPin": "Forgot PIN?",
+  "login.noAccount": "Don't have an account?",
+  "login.register": "Register",
+  "login.submit": "Login",
+  "login.submitting": "Logging in...",
+  "login.retryIn": "Try again in {time}",
+  "login.success": "Login successful!",
+  "login.failed": "Login failed",
+  "login.error": "An error occurred during login",
+  "login.locked": "Too many failed attempts. Login is locked for {time}.",
+  "login.wait": "Please wait {seconds}s before trying again.",
+  "login.attemptsRemaining": {
+    one: "{count} attempt remaining before your account is temporarily locked.",
+    other: "{count} attempts remaining before your account is temporarily locked.",
+  },
+
+  "register.title": "Register",
+  "register.description": "Create a new account to get started",
+  "register.haveAccount": "Already have an account?",
+  "register.login": "Login",
+  "register.name": "Full Name",
+  "register.namePlaceholder": "Enter your full name",
+  "register.country": "Country",
+  "register.countryPlaceholder": "Select your country",
+  "register.pin": "PIN (4 digits)",
+  "register.submit": "Register",
+  "register.submitting": "Registering...",
+  "register.success": "Registration successful!",
+  "register.failed": "Registration failed",
+  "register.error": "An error occurred during registration",
+  "register.loadCountriesFailed": "Failed to load countries",
+
+  "forgotPin.title": "Forgot PIN",
+  "forgotPin.resetTitle": "Reset PIN",
+  "forgotPin.step.request": "Enter your email to receive a PIN reset code",
+  "forgotPin.step.verify": "Enter the code we emailed you",
+  "forgotPin.step.newPin": "Choose a new 4-digit PIN",
+  "forgotPin.send": "Send Reset Code",
+  "forgotPin.sending": "Sending...",
+  "forgotPin.codeSent": "A reset code has been sent to your email",
+  "forgotPin.sendFailed": "Failed to send reset code",
+  "forgotPin.backToLogin": "Back to Login",
+  "forgotPin.codeSentTo": "We sent a reset code to {email}.",
+  "forgotPin.expiresIn": "It expires in {time}.",
+  "forgotPin.code": "Reset Code",
+  "forgotPin.codePlaceholder": "Enter the code from your email",
+  "forgotPin.verify": "Verify Code",
+  "forgotPin.verifying": "Verifying...",
+  "forgotPin.incorrectCode": "Incorrect code",
+  "forgotPin.attemptsLeft": {
+    one: "{message}. {count} attempt left.",
+    other: "{message}. {count} attempts left.",
+  },
+  "forgotPin.locked": "Too many incorrect attempts. Request a new code to try again.",
+  "forgotPin.expired": "This code has expired. Request a new code to continue.",
+  "forgotPin.differentEmail": "Use a different email",
+  "forgotPin.resend": "Resend code",
+  "forgotPin.resendIn": "Resend code in {time}",
+  "forgotPin.newPin": "New PIN",
+  "forgotPin.newPinPlaceholder": "Enter new 4-digit PIN",
+  "forgotPin.confirmPin": "Confirm New PIN",
+  "forgotPin.confirmPinPlaceholder": "Re-enter new PIN",
+  "forgotPin.resetSubmit": "Reset PIN and Log In",
+  "forgotPin.resetting": "Resetting PIN...",
+  "forgotPin.resetSuccess": "Your PIN has been reset",
+  "forgotPin.resetFailed": "Failed to reset PIN",
+  "forgotPin.resetExpired": "Your reset session has expired. Please request a new code.",
+
+  "splash.tagline": "Feed Formulation System",
+
+  "welcome.subtitle": "Dairy Cattle Nutrition Optimization System",
+  "welcome.description": "Create optimal feed formulations for your dairy cattle with our advanced nutrition optimization system.",
+
+  "accounts.switchTo": "Switch to {name}",
+  "accounts.add": "Add Account",
+  "accounts.enterPinFor": "Enter the PIN for {email} to continue",
+  "accounts.addDescription": "Sign in to another account. It will be remembered on this device.",
+  "accounts.emailPlaceholder": "Enter email",
+  "accounts.emailRequired": "Please enter an email",
+  "accounts.switched": "Switched to {name}",
+  "accounts.incorrectPin": "Incorrect PIN",
+  "accounts.switchFailed": "Failed to switch account",
+  "accounts.removed": "{name} removed from this device",
+  "accounts.remove": "Remove from Device",
+  "accounts.switch": "Switch",
+  "accounts.signIn": "Sign In",
+
+  "profile.title": "Profile",
+  "profile.description": "Update your name and country",
+  "profile.save": "Save Changes",
+  "profile.saving": "Saving...",
+  "profile.updated": "Profile updated",
+  "profile.updatedCountry": "Profile updated. Feed catalogue will refresh for your new country.",
+  "profile.updateFailed": "Failed to update profile",
+  "profile.changePin.title": "Change PIN",
+  "profile.changePin.description": "Enter your current PIN to choose a new one",
+  "profile.changePin.current": "Current PIN",
+  "profile.changePin.currentPlaceholder": "Enter current PIN",
+  "profile.changePin.submit": "Change PIN",
+  "profile.changePin.submitting": "Changing PIN...",
+  "profile.changePin.success": "PIN changed successfully",
+  "profile.changePin.failed": "Failed to change PIN",
+  "profile.appLock.title": "App Lock",
+  "profile.appLock.description": "Lock the app when it is left idle, useful on shared phones",
+  "profile.delete.title": "Delete Account",
+  "profile.delete.description": "Permanently remove your account and all of its data",
+  "profile.delete.button": "Delete Account",
+  "profile.delete.confirmTitle": "Delete Account?",
+  "profile.delete.confirmDescription": "This permanently deletes your account, saved reports and feedback. This cannot be undone.",
+  "profile.delete.pinLabel": "Enter your PIN to confirm",
+  "profile.delete.pinPlaceholder": "4-digit PIN",
+  "profile.delete.submit": "Delete Permanently",
+  "profile.delete.success": "Your account has been deleted",
+  "profile.delete.failed": "Failed to delete account",
+
+  "appLock.title": "App Locked",
+  "appLock.signedInAs": "Signed in as {name}. Enter your PIN to continue.",
+  "appLock.unlock": "Unlock",
+  "appLock.unlockWithPasskey": "Unlock with Passkey",
+  "appLock.notYou": "Not you? Log out",
+  "appLock.incorrectPin": "Incorrect PIN",
+  "appLock.verifyFailed": "Unable to verify PIN",
+  "appLock.passkeyRejected": "Passkey could not verify you. Use your PIN instead.",
+  "appLock.passkeyFailed": "Passkey unlock failed",
+  "appLock.idleLabel": "Lock after inactivity",
+  "appLock.never": "Never",
+  "appLock.minutes": {
+    one: "{count} minute",
+    other: "{count} minutes",
+  },
+  "appLock.passkey": "Passkey",
+  "appLock.passkeyUnsupported": "This device does not support passkeys. Unlock with your PIN instead.",
+  "appLock.passkeyEnabled": "This device can unlock with your fingerprint, face or screen lock.",
+  "appLock.removePasskey": "Remove",
+  "appLock.addPasskey": "Add Passkey for This Device",
+  "appLock.passkeyAdded": "Passkey added. You can now unlock with this device.",
+  "appLock.passkeyAddFailed": "Failed to add passkey",
+  "appLock.passkeyRemoved": "Passkey removed from this device",
+
+  "offline.title": "Queued Formulations",
+  "offline.online": "Recommendations requested while offline",
+  "offline.offline": "You are offline. Queued requests will be sent when you reconnect.",
+  "offline.status.pending": "Waiting for connection",
+  "offline.status.processing": "Sending",
+  "offline.status.complete": "Complete",
+  "offline.status.failed": "Failed",
+  "offline.jobTitle": {
+    one: "{breed} · {count} feed",
+    other: "{breed} · {count} feeds",
+  },
+  "offline.recommendation": "Recommendation",
+  "offline.queuedAt": "Queued {date}",
+  "offline.view": "View recommendation",
+  "offline.retry": "Retry queued recommendation",
+  "offline.remove": "Remove queued recommendation",
+  "offline.retryFailed": "Failed to retry",
+  "offline.removeFailed": "Failed to remove job",
+  "offline.ready": "Queued recommendation is ready",
+  "offline.readyAction": "View",
+
+  "herd.title": "My Herd",
+  "herd.description": "Saved animals keep their cattle information between visits",
+  "herd.add": "Add Animal",
+  "herd.empty": "No animals saved yet",
+  "herd.active": "Active",
+  "herd.tag": "Tag {tag}",
+  "herd.noDetails": "No details yet",
+  "herd.updatedOn": "Updated {date}",
+  "herd.startFormulation": "Start formulation",
+  "herd.startFormulationFor": "Start formulation for {name}",
+  "herd.edit": "Edit details",
+  "herd.editName": "Edit {name}",
+  "herd.duplicate": "Duplicate",
+  "herd.duplicateName": "Duplicate {name}",
+  "herd.delete": "Delete",
+  "herd.deleteName": "Delete {name}",
+  "herd.duplicated": "{name} duplicated",
+  "herd.deleted": "{name} deleted",
+  "herd.deleteTitle": "Delete Animal?",
+  "herd.deleteDescription": "{name} and its saved cattle information will be removed from this device.",
+  "herd.picker.label": "Animal",
+  "herd.picker.placeholder": "Select animal",
+  "herd.picker.unnamed": "Unnamed animal",
+  "herd.picker.new": "New",
+  "herd.dialog.editTitle": "Edit Animal",
+  "herd.dialog.newTitle": "New Animal",
+  "herd.dialog.description": "Name and tag the animal so you can find it on your next visit",
+  "herd.dialog.name": "Name",
+  "herd.dialog.namePlaceholder": "e.g. Daisy",
+  "herd.dialog.earTag": "Ear Tag ID (optional)",
+  "herd.dialog.earTagPlaceholder": "e.g. KE-0421",
+  "herd.dialog.farm": "Farm (optional)",
+  "herd.dialog.farmPlaceholder": "e.g. Wanjiru Farm",
+  "herd.dialog.save": "Save",
+  "herd.dialog.create": "Create",
+  "herd.dialog.updated": "Animal profile updated",
+  "herd.dialog.created": "Animal profile created",
+
+  "baskets.title": "Feed Baskets",
+  "baskets.description": "Reusable sets of feeds with the prices you last entered",
+  "baskets.empty": "No baskets saved yet",
+  "baskets.emptyHint": "Select feeds and use \"Save as Basket\" to create one.",
+  "baskets.pricesUpdatedOn": "Prices updated {date}",
+  "baskets.load": "Load into feed selection",
+  "baskets.loadName": "Load {name}",
+  "baskets.updatePrices": "Update prices",
+  "baskets.updatePricesFor": "Update prices for {name}",
+  "baskets.delete": "Delete basket",
+  "baskets.deleteName": "Delete {name}",
+  "baskets.loaded": "Loaded \"{name}\"",
+  "baskets.deleted": "Basket \"{name}\" deleted",
+  "baskets.deleteTitle": "Delete Basket?",
+  "baskets.deleteDescription": "{name} will be removed from this device.",
+  "baskets.deleteConfirm": "Delete",
+  "baskets.replaceTitle": "Replace Selected Feeds?",
+  "baskets.replaceDescription": {
+    one: "Loading {name} replaces the {count} feed you have selected.",
+    other: "Loading {name} replaces the {count} feeds you have selected.",
+  },
+  "baskets.replaceConfirm": "Load Basket",
+  "baskets.save.button": "Save as Basket",
+  "baskets.save.title": "Save Feed Basket",
+  "baskets.save.description": {
+    one: "Keep this feed and its price for your next visit",
+    other: "Keep these {count} feeds and their prices for your next visit",
+  },
+  "baskets.save.target": "Save to",
+  "baskets.save.new": "New basket",
+  "baskets.save.replace": "Replace \"{name}\"",
+  "baskets.save.name": "Basket Name",
+  "baskets.save.namePlaceholder": "e.g. Dry season - Kiambu",
+  "baskets.save.submit": "Save",
+  "baskets.save.nameRequired": "Please enter a basket name",
+  "baskets.save.saved": "Basket \"{name}\" saved",
+  "baskets.save.updated": "Basket \"{name}\" updated",
+  "baskets.prices.title": "Update Prices",
+  "baskets.prices.description": "{name}: enter today's market prices ({unit})",
+  "baskets.prices.perKg": "per kg",
+  "baskets.prices.percent": "Change all prices by %",
+  "baskets.prices.percentPlaceholder": "e.g. 10 or -5",
+  "baskets.prices.apply": "Apply",
+  "baskets.prices.submit": "Save Prices",
+  "baskets.prices.invalid": "Every price must be greater than zero",
+  "baskets.prices.updated": "Prices updated",
+
+  "compare.title": "Compare Scenarios",
+  "compare.description": "Best values are highlighted in green; feed quantities that differ from the baseline in amber",
+  "compare.clearAll": "Clear All",
+  "compare.emptyTitle": "No Scenarios to Compare",
+  "compare.emptyDescription": "Generate a recommendation and use \"Compare\" to add it here. Change the feeds and repeat to see up to {max} formulations side by side.",
+  "compare.goToFeedSelection": "Go to Feed Selection",
+  "compare.saved": "Saved",
+  "compare.unknownBreed": "Unknown breed",
+  "compare.scenarioSummary": {
+    one: "{breed} · {count} feed · {date}",
+    other: "{breed} · {count} feeds · {date}",
+  },
+  "compare.saveAsReport": "Save as report",
+  "compare.saveNameAsReport": "Save {name} as report",
+  "compare.remove": "Remove from comparison",
+  "compare.removeName": "Remove {name}",
+  "compare.savedToReports": "\"{name}\" saved to your reports",
+  "compare.saveFailed": "Failed to save report. Please try again later.",
+  "compare.clearTitle": "Clear Comparison?",
+  "compare.clearDescription": {
+    one: "The scenario will be removed. Reports you already saved are kept.",
+    other: "All {count} scenarios will be removed. Reports you already saved are kept.",
+  },
+  "compare.clear": "Clear",
+  "compare.add.button": "Compare",
+  "compare.add.inComparison": "In Comparison",
+  "compare.add.title": "Add to Comparison",
+  "compare.add.description": "Give this formulation a name so you can tell it apart from the others",
+  "compare.add.name": "Scenario Name",
+  "compare.add.namePlaceholder": "e.g. With cottonseed cake",
+  "compare.add.defaultName": "Scenario {number}",
+  "compare.add.limit": "Up to {max} scenarios can be compared. \"{name}\" will be replaced.",
+  "compare.add.submit": "Add",
+  "compare.add.nameRequired": "Please enter a scenario name",
+  "compare.add.added": "\"{name}\" added to comparison",
+  "compare.add.viewAction": "Compare",
+  "compare.table.metric": "Metric",
+  "compare.table.baseline": "Baseline",
+  "compare.table.dailyCost": "Daily Cost",
+  "compare.table.costPerMilk": "Cost per {unit} Milk",
+  "compare.table.milkProduction": "Milk Production",
+  "compare.table.dryMatterIntake": "Dry Matter Intake",
+  "compare.table.methane": "Methane",
+  "compare.table.methaneYield": "CH₄ Yield",
+  "compare.table.methaneIntensity": "CH₄ Intensity",
+  "compare.table.perDay": "{unit}/day",
+  "compare.table.leastCostDiet": "Least-Cost Diet ({unit}/day)",
+
+  "feedback.title": "Submit Feedback",
+  "feedback.description": "Share your thoughts and suggestions",
+  "feedback.label": "Feedback",
+  "feedback.placeholder": "Enter your feedback...",
+  "feedback.rating": "Rating (optional)",
+  "feedback.submit": "Submit Feedback",
+  "feedback.submitting": "Submitting...",
+  "feedback.success": "Feedback submitted successfully",
+  "feedback.required": "Please enter your feedback",
+  "feedback.submitFailed": "Failed to submit feedback",
+  "feedback.loadFailed": "Failed to load feedbacks",
+  "feedback.history": "Your Feedbacks",
+
+  "reports.title": "Saved Reports",
+  "reports.description": "View and manage your saved feed formulation reports",
+  "reports.empty": "No reports saved yet",
+  "reports.loadFailed": "Failed to load reports",
+  "reports.urlUnavailable": "Report URL not available",
+  "reports.deleteComingSoon": "Delete functionality coming soon",
+  "reports.download": "Download PDF",
+  "reports.downloadLabel": "Download PDF report",
+  "reports.delete": "Delete report",
+
+  "forbidden.title": "Access Denied",
+  "forbidden.description": "This page is only available to administrators.",
+  "forbidden.back": "Go to Cattle Info",
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,658 @@
+import type { Message, MessageKey } from "./en";
+
+export const fr: Record<MessageKey, Message> = {
+  "common.back": "Retour",
+  "common.continue": "Continuer",
+  "common.reset": "Réinitialiser",
+  "common.cancel": "Annuler",
+  "common.yes": "Oui",
+  "common.no": "Non",
+  "common.notAvailable": "N/D",
+
+  "validation.breedRequired": "La race est obligatoire",
+  "validation.topographyRequired": "La topographie est obligatoire",
+  "validation.min": "Doit être au moins {min}",
+  "validation.max": "Doit être au plus {max}",
+  "validation.requiredWhenLactating": "Obligatoire pour une vache en lactation",
+  "validation.requiredWhenGrazing": "Obligatoire lorsque la vache pâture",
+  "validation.milkWhenDry": "Une production de lait est saisie : la vache doit être en lactation",
+  "validation.pregnancyTooLong": "Une gestation dure au plus {max} jours",
+  "validation.daysInMilkOverInterval": "Ne doit pas dépasser l'intervalle entre vêlages ({max} jours)",
+  "validation.pregnancyOverDaysInMilk": "Ne doit pas dépasser les jours de lactation ({max})",
+  "validation.inconsistentCattleInfo": "Les informations sur l'animal sont incohérentes. Veuillez les vérifier et réessayer.",
+  "validation.emailInvalid": "Adresse e-mail invalide",
+  "validation.pinLength": "Le code PIN doit comporter exactement 4 chiffres",
+  "validation.pinDigits": "Le code PIN ne doit contenir que des chiffres",
+  "validation.pinsMismatch": "Les codes PIN ne correspondent pas",
+  "validation.nameRequired": "Le nom est obligatoire",
+  "validation.countryRequired": "Le pays est obligatoire",
+  "validation.codeRequired": "Saisissez le code reçu par e-mail",
+  "validation.pinUnchanged": "Le nouveau code PIN doit être différent de l'actuel",
+
+  "language.title": "Langue",
+  "language.description": "Choisissez la langue de l'application et de vos rapports PDF",
+  "language.automatic": "Automatique ({language})",
+
+  "units.title": "Unités",
+  "units.description": "Choisissez les unités de saisie des données et de lecture des rapports",
+  "units.system": "Système de mesure",
+  "units.metric": "Métrique (kg, km, °C)",
+  "units.imperial": "Impérial (lb, mi, °F)",
+  "units.milk": "Lait",
+  "units.milkVolume": "En volume (L, gal)",
+  "units.milkMass": "En poids (kg, lb)",
+
+  "cattleInfo.title": "Informations sur le bétail",
+  "cattleInfo.description": "Saisissez les détails de votre bétail pour obtenir des recommandations d'alimentation",
+  "cattleInfo.section.animal": "Caractéristiques de l'animal",
+  "cattleInfo.section.milk": "Production laitière",
+  "cattleInfo.section.reproduction": "Données de reproduction",
+  "cattleInfo.section.environment": "Environnement",
+  "cattleInfo.breed": "Race",
+  "cattleInfo.selectBreed": "Choisir la race",
+  "cattleInfo.breedOther": "Autre",
+  "cattleInfo.bodyWeight": "Poids vif ({unit})",
+  "cattleInfo.bcScore": "Note d'état corporel (1-5)",
+  "cattleInfo.bwGain": "Gain de poids quotidien ({unit})",
+  "cattleInfo.lactating": "En lactation",
+  "cattleInfo.milkProduction": "Production de lait ({unit}/jour)",
+  "cattleInfo.fatMilk": "Matière grasse du lait (%)",
+  "cattleInfo.tpMilk": "Protéines du lait (%)",
+  "cattleInfo.daysInMilk": "Jours de lactation",
+  "cattleInfo.parity": "Parité",
+  "cattleInfo.calvingInterval": "Intervalle entre vêlages (jours)",
+  "cattleInfo.daysOfPregnancy": "Jours de gestation",
+  "cattleInfo.grazing": "Pâturage",
+  "cattleInfo.distance": "Distance ({unit})",
+  "cattleInfo.topography": "Topographie",
+  "cattleInfo.selectTopography": "Choisir la topographie",
+  "cattleInfo.topography.Flat": "Plat",
+  "cattleInfo.topography.Hilly": "Vallonné",
+  "cattleInfo.topography.Mountainous": "Montagneux",
+  "cattleInfo.temperature": "Température ({unit})",
+  "cattleInfo.mode.label": "Mode de saisie",
+  "cattleInfo.mode.wizard": "Pas à pas",
+  "cattleInfo.mode.form": "Formulaire complet",
+
+  "wizard.progress": "Question {current} sur {total}",
+  "wizard.next": "Suivant",
+  "wizard.finish": "Terminer",
+  "wizard.autosaved": "Vos réponses sont enregistrées au fur et à mesure",
+  "wizard.reviewTitle": "Vérifiez vos réponses",
+  "wizard.change": "Modifier",
+  "wizard.fixAnswers": "Certaines réponses sont à corriger",
+  "wizard.question.breed": "De quelle race est la vache ?",
+  "wizard.question.body_weight": "Combien pèse la vache ?",
+  "wizard.question.bc_score": "Quelle image ressemble le plus à la vache vue de derrière ?",
+  "wizard.question.bw_gain": "Combien de poids prend-elle par jour ?",
+  "wizard.question.lactating": "La vache donne-t-elle du lait en ce moment ?",
+  "wizard.question.milk_production": "Combien de lait donne-t-elle par jour ?",
+  "wizard.question.fat_milk": "Quelle est la teneur en matière grasse de son lait ?",
+  "wizard.question.tp_milk": "Quelle est la teneur en protéines de son lait ?",
+  "wizard.question.days_in_milk": "Il y a combien de jours a-t-elle vêlé ?",
+  "wizard.question.parity": "Combien de fois a-t-elle vêlé ?",
+  "wizard.question.calving_interval": "Combien de jours y a-t-il entre ses vêlages ?",
+  "wizard.question.days_of_pregnancy": "Depuis combien de jours est-elle gestante ?",
+  "wizard.question.grazing": "La vache va-t-elle au pâturage ?",
+  "wizard.question.distance": "Quelle distance marche-t-elle par jour ?",
+  "wizard.question.topography": "Comment est le terrain où elle marche ?",
+  "wizard.question.temperature": "Quelle température fait-il dehors d'habitude ?",
+  "wizard.hint.breedTypical": "Si vous ne savez pas, gardez la valeur habituelle de la race",
+  "wizard.hint.notPregnant": "Saisissez 0 si elle n'est pas gestante",
+  "wizard.bcs.1": "Très maigre",
+  "wizard.bcs.2": "Maigre",
+  "wizard.bcs.3": "Bon état",
+  "wizard.bcs.4": "Grasse",
+  "wizard.bcs.5": "Très grasse",
+
+  "weightEstimator.title": "Pas de balance ? Utilisez un mètre ruban",
+  "weightEstimator.instructions": "Passez le ruban autour de la poitrine, juste derrière les pattes avant, et lisez-le quand elle expire",
+  "weightEstimator.heartGirth": "Tour de poitrine ({unit})",
+  "weightEstimator.estimate": "Poids estimé : {weight}",
+  "weightEstimator.outOfRange": "Vérifiez la mesure. Elle doit être comprise entre {min} et {max}",
+  "weightEstimator.use": "Utiliser ce poids",
+  "weightEstimator.open": "Estimer à partir de mesures au ruban",
+  "weightEstimator.bodyLength": "Longueur du corps ({unit}, facultatif)",
+  "weightEstimator.bodyLengthHint": "De la pointe de l'épaule à la pointe de la fesse. L'ajouter améliore l'estimation",
+  "weightEstimator.lengthOutOfRange": "Vérifiez la longueur du corps. Elle doit être comprise entre {min} et {max}",
+  "weightEstimator.formula.heinrichs": "Heinrichs et al. (1992), tour de poitrine, établie sur des Holstein",
+  "weightEstimator.formula.schaeffer": "Formule de Schaeffer, tour de poitrine et longueur du corps",
+  "weightEstimator.formula.crevat": "Formule de Crevat, tour de poitrine",
+  "weightEstimator.formula.quetelet": "Formule de Quételet, tour de poitrine et longueur du corps",
+  "weightEstimator.formulaUnits": "W est le poids en kg, HG le tour de poitrine et L la longueur du corps en cm",
+  "weightEstimator.confidence.good": "Fiabilité élevée : en général à environ 10 % du poids à la bascule",
+  "weightEstimator.confidence.fair": "Fiabilité moyenne : un ordre de grandeur qui peut être plus éloigné",
+  "weightEstimator.confidence.low": "Fiabilité faible : peut être très éloigné du poids à la bascule",
+  "weightEstimator.selectBreed": "Choisissez la race pour utiliser les formules qui lui conviennent",
+
+  "feedSelection.title": "Sélection des aliments",
+  "feedSelection.description": "Choisissez les aliments pour la ration de vos bovins",
+  "feedSelection.loadBasket": "Charger un panier enregistré",
+  "feedSelection.basketOption": { one: "{name} ({count} aliment)", other: "{name} ({count} aliments)" },
+  "feedSelection.search": "Rechercher des aliments",
+  "feedSelection.browse": "Ou parcourir par type et catégorie",
+  "feedSelection.feedType": "Type d'aliment",
+  "feedSelection.selectFeedType": "Choisir le type d'aliment",
+  "feedSelection.feedCategory": "Catégorie d'aliment",
+  "feedSelection.selectFeedCategory": "Choisir la catégorie",
+  "feedSelection.feedName": "Nom de l'aliment",
+  "feedSelection.selectFeedName": "Choisir l'aliment",
+  "feedSelection.pricePerKg": "Prix par kg",
+  "feedSelection.enterPrice": "Saisir le prix",
+  "feedSelection.addFeed": "Ajouter l'aliment",
+  "feedSelection.selectedFeeds": "Aliments sélectionnés ({count})",
+  "feedSelection.evaluate": "Évaluer la ration actuelle",
+  "feedSelection.continue": "Continuer vers la recommandation",
+  "feedSelection.loadTypesFailed": "Impossible de charger les types d'aliments",
+  "feedSelection.loadCategoriesFailed": "Impossible de charger les catégories d'aliments",
+  "feedSelection.loadSubCategoriesFailed": "Impossible de charger les sous-catégories d'aliments",
+  "feedSelection.loadDetailsFailed": "Impossible de charger les détails de l'aliment",
+  "feedSelection.selectFeedAndPrice": "Veuillez choisir un aliment et saisir un prix",
+  "feedSelection.alreadySelected": "{name} est déjà sélectionné",
+  "feedSelection.feedsAdded": { one: "{count} aliment ajouté", other: "{count} aliments ajoutés" },
+  "feedSelection.feedsFailed": {
+    one: "Impossible de charger les détails de {count} aliment",
+    other: "Impossible de charger les détails de {count} aliments",
+  },
+  "feedSelection.basketLoaded": "« {name} » chargé",
+  "feedSelection.replaceTitle": "Remplacer les aliments sélectionnés ?",
+  "feedSelection.replaceDescription": {
+    one: "Charger « {name} » remplace l'aliment sélectionné ({count}).",
+    other: "Charger « {name} » remplace les {count} aliments sélectionnés.",
+  },
+  "feedSelection.replaceConfirm": "Charger le panier",
+  "feedSelection.addAtLeastOne": "Veuillez ajouter au moins un aliment",
+  "feedSelection.searchUnavailable": "La recherche d'aliments est indisponible pour le moment. Parcourez plutôt par type ci-dessous.",
+  "feedSelection.searchPlaceholder": "Rechercher par nom ou nom local",
+  "feedSelection.noMatches": "Aucun aliment ne correspond à « {query} »",
+  "feedSelection.matchesAlias": "correspond à « {alias} »",
+  "feedSelection.selected": "Sélectionné",
+  "feedSelection.enterPrices": "Saisissez les prix ({unit})",
+  "feedSelection.perKg": "par kg",
+  "feedSelection.price": "Prix",
+  "feedSelection.priceFor": "Prix de {name}",
+  "feedSelection.unselect": "Désélectionner {name}",
+  "feedSelection.addPicked": { one: "Ajouter {count} aliment", other: "Ajouter {count} aliments" },
+  "feedSelection.removeFeed": "Retirer {name}",
+  "feedSelection.nutrient.dm": "MS",
+  "feedSelection.nutrient.cp": "MAT",
+  "feedSelection.nutrient.ndf": "NDF",
+  "feedSelection.nutrient.adf": "ADF",
+  "feedSelection.nutrient.ee": "MG",
+  "feedSelection.nutrient.ash": "Cendres",
+  "feedSelection.nutrientPercent": "{nutrient} %",
+  "feedSelection.pricePerKgIn": "Prix par kg ({currency})",
+
+  "recommendation.title": "Recommandation alimentaire",
+  "recommendation.generatedOn": "Générée le {date}",
+  "recommendation.reportId": "ID : {id}",
+  "recommendation.dailyCost": "Coût journalier",
+  "recommendation.milkProduction": "Production de lait",
+  "recommendation.dryMatterIntake": "Ingestion de matière sèche",
+  "recommendation.methanePerDay": "Méthane/jour",
+  "recommendation.animalInformation": "Informations sur l'animal",
+  "recommendation.breed": "Race",
+  "recommendation.bodyWeight": "Poids vif",
+  "recommendation.bodyCondition": "État corporel",
+  "recommendation.daysInMilk": "Jours de lactation",
+  "recommendation.parity": "Parité",
+  "recommendation.temperature": "Température",
+  "recommendation.topography": "Topographie",
+  "recommendation.grazing": "Pâturage",
+  "recommendation.recommendedDiet": "Ration recommandée",
+  "recommendation.ingredientCount": {
+    one: "{count} ingrédient recommandé",
+    other: "{count} ingrédients recommandés",
+  },
+  "recommendation.noDietAvailable": "Aucune ration disponible",
+  "recommendation.feedName": "Aliment",
+  "recommendation.quantity": "Quantité ({unit})",
+  "recommendation.dmIntake": "Ingestion MS ({unit})",
+  "recommendation.cost": "Coût",
+  "recommendation.feedFallback": "Aliment {number}",
+  "recommendation.noOptimalDiet": "L'algorithme n'a pas trouvé de ration optimale avec les aliments sélectionnés.",
+  "recommendation.tryMoreFeeds": "Essayez d'ajouter des aliments plus variés (fourrages et concentrés).",
+  "recommendation.environmentalImpact": "Impact environnemental",
+  "recommendation.methaneProduction": "Production de CH₄",
+  "recommendation.methaneYield": "Rendement en CH₄",
+  "recommendation.methaneIntensity": "Intensité de CH₄",
+  "recommendation.conversionRate": "Taux de conversion",
+  "recommendation.saveReport": "Enregistrer le rapport",
+  "recommendation.saved": "Enregistré",
+  "recommendation.downloadPdf": "Télécharger le PDF",
+  "recommendation.queuedTitle": "Recommandation en attente",
+  "recommendation.queuedFailedTitle": "Échec de la recommandation en attente",
+  "recommendation.queuedProcessing": "Génération de votre recommandation...",
+  "recommendation.queuedPending": "Elle sera générée automatiquement dès votre retour en ligne.",
+  "recommendation.viewQueue": "Voir la file d'attente",
+  "recommendation.emptyTitle": "Aucune recommandation disponible",
+  "recommendation.emptyDescription": "Veuillez d'abord compléter les informations sur l'animal et choisir des aliments.",
+  "recommendation.goToCattleInfo": "Aller aux informations sur l'animal",
+  "recommendation.queuedNotFound": "Recommandation en attente introuvable",
+  "recommendation.offlineRetry": "Vous êtes hors ligne. Réessayez une fois connecté.",
+  "recommendation.queuedOffline": "Vous êtes hors ligne. La recommandation sera générée à votre reconnexion.",
+  "recommendation.queueFailed": "Impossible de mettre la recommandation en attente",
+  "recommendation.completeInputs": "Veuillez compléter les informations sur l'animal et choisir des aliments",
+  "recommendation.failed": "Impossible de générer la recommandation",
+  "recommendation.unableToSave": "Impossible d'enregistrer le rapport",
+  "recommendation.waitingForReport": "Préparation du rapport... (tentative {attempt}/{max})",
+  "recommendation.reportSaved": "Rapport enregistré dans votre compte !",
+  "recommendation.generatingLocally": "Enregistrement sur le serveur indisponible. Génération du PDF sur l'appareil...",
+  "recommendation.pdfDownloaded": "PDF téléchargé !",
+  "recommendation.pdfFailed": "Impossible de générer le PDF",
+  "recommendation.pdfFailedRetry": "Impossible de générer le PDF. Veuillez réessayer.",
+
+  "evaluation.title": "Évaluer la ration actuelle",
+  "evaluation.description": "Indiquez la quantité de chaque aliment que votre bétail consomme aujourd'hui (brut, {unit}/jour)",
+  "evaluation.quantity": "Quantité ({unit}/jour)",
+  "evaluation.editFeeds": "Modifier les aliments",
+  "evaluation.run": "Lancer l'évaluation",
+  "evaluation.emptyTitle": "Rien à évaluer",
+  "evaluation.emptyDescription": "Veuillez compléter les informations sur le bétail et choisir les aliments que vous utilisez actuellement.",
+  "evaluation.goToFeedSelection": "Aller au choix des aliments",
+  "evaluation.quantitiesRequired": "Veuillez saisir la quantité journalière de chaque aliment",
+  "evaluation.failed": "Impossible d'évaluer la ration",
+  "evaluation.panelTitle": "Évaluation de la ration actuelle",
+  "evaluation.panelDescription": "Comment les aliments choisis couvrent les besoins de l'animal",
+  "evaluation.overallStatus": "État général",
+  "evaluation.limitingFactor": "Facteur limitant",
+  "evaluation.none": "Aucun",
+  "evaluation.milkProduction": "Production laitière",
+  "evaluation.target": "Objectif",
+  "evaluation.supported": "Permise",
+  "evaluation.byEnergy": "Par l'énergie",
+  "evaluation.byProtein": "Par les protéines",
+  "evaluation.limitedBy": "Limitée par :",
+  "evaluation.dryMatterIntake": "Ingestion de matière sèche",
+  "evaluation.actual": "Réelle",
+  "evaluation.difference": "Écart",
+  "evaluation.ofTarget": "De l'objectif",
+  "evaluation.status": "État :",
+  "evaluation.costAnalysis": "Analyse des coûts",
+  "evaluation.dailyDietCost": "Coût journalier de la ration",
+  "evaluation.costPerKgMilk": "Coût par kg de lait",
+  "evaluation.methaneEmissions": "Émissions de méthane",
+  "evaluation.nutrientBalance": "Bilan nutritionnel",
+  "evaluation.nutrientBalanceDescription": "Apports moins besoins ; les valeurs négatives sont des déficits",
+  "evaluation.energy": "Énergie",
+  "evaluation.protein": "Protéines",
+  "evaluation.calcium": "Calcium",
+  "evaluation.phosphorus": "Phosphore",
+  "evaluation.ndf": "NDF",
+  "evaluation.feedBreakdown": "Détail par aliment",
+  "evaluation.feedBreakdownDescription": "Part de chaque aliment dans la ration actuelle",
+  "evaluation.asFed": "Brut ({unit})",
+  "evaluation.dryMatter": "MS ({unit})",
+  "evaluation.contribution": "Part",
+  "evaluation.noBreakdown": "Aucun détail par aliment pour cette évaluation.",
+
+  "sensitivity.title": "Sensibilité au prix",
+  "sensitivity.description": "Voyez comment la ration réagit si le prix d'un aliment change",
+  "sensitivity.feed": "Aliment",
+  "sensitivity.selectFeed": "Choisissez un aliment",
+  "sensitivity.feedOption": "{name} ({price}/kg)",
+  "sensitivity.from": "De (%)",
+  "sensitivity.to": "À (%)",
+  "sensitivity.steps": "Étapes",
+  "sensitivity.run": "Lancer",
+  "sensitivity.running": "Calcul de {done}/{total} formulations...",
+  "sensitivity.breakEven": "{name} sort de la ration entre {low} et {high} par kg.",
+  "sensitivity.staysIncluded": "{name} reste dans la ration sur toute cette plage de prix.",
+  "sensitivity.noBreakEven": "Aucun prix seuil trouvé dans cette plage.",
+  "sensitivity.inclusionChart": "Inclusion ({unit}/jour)",
+  "sensitivity.dailyCostChart": "Coût journalier total",
+  "sensitivity.pricePerKg": "Prix/kg",
+  "sensitivity.inclusion": "Inclusion",
+  "sensitivity.invalidRange": "Saisissez une plage de prix valide, par ex. -30 % à 50 %",
+  "sensitivity.invalidSteps": "Utilisez entre {min} et {max} étapes",
+  "sensitivity.failed": "Échec de l'analyse des prix",
+  "sensitivity.failedRetry": "Échec de l'analyse des prix. Veuillez réessayer.",
+  "sensitivity.cancelled": "Analyse des prix annulée",
+
+  "nav.cattleInfo": "Infos bovin",
+  "nav.herd": "Mon troupeau",
+  "nav.baskets": "Paniers d'aliments",
+  "nav.compare": "Comparer",
+  "nav.reports": "Rapports",
+  "nav.feedReports": "Rapports d'alimentation",
+  "nav.feedback": "Avis",
+  "nav.profile": "Profil",
+  "nav.admin": "Admin",
+  "nav.adminPanel": "Administration",
+  "nav.menu": "Menu",
+  "nav.openMenu": "Ouvrir le menu",
+  "nav.userMenu": "Menu utilisateur",
+  "nav.switchAccount": "Changer de compte",
+  "nav.addAccount": "Ajouter un compte",
+  "nav.help": "Aide et assistance",
+  "nav.logout": "Déconnexion",
+  "nav.toggleTheme": "Changer de thème",
+
+  "auth.email": "E-mail",
+  "auth.emailPlaceholder": "Saisissez votre e-mail",
+  "auth.pin": "Code PIN",
+  "auth.pinPlaceholder": "Saisissez le code PIN à 4 chiffres",
+  "auth.error": "Une erreur s'est produite",
+
+  "login.title": "Connexion",
+  "login.description": "Saisissez votre e-mail et votre code PIN pour accéder à votre compte",
+  "login.forgotPin": "Code PIN oublié ?",
+  "login.noAccount": "Pas encore de compte ?",
+  "login.register": "S'inscrire",
+  "login.submit": "Se connecter",
+  "login.submitting": "Connexion...",
+  "login.retryIn": "Réessayez dans {time}",
+  "login.success": "Connexion réussie !",
+  "login.failed": "Échec de la connexion",
+  "login.error": "Une erreur s'est produite lors de la connexion",
+  "login.locked": "Trop de tentatives échouées. La connexion est bloquée pendant {time}.",
+  "login.wait": "Veuillez patienter {seconds} s avant de réessayer.",
+  "login.attemptsRemaining": {
+    one: "Encore {count} tentative avant le blocage temporaire de votre compte.",
+    other: "Encore {count} tentatives avant le blocage temporaire de votre compte.",
+  },
+
+  "register.title": "Inscription",
+  "register.description": "Créez un compte pour commencer",
+  "register.haveAccount": "Vous avez déjà un compte ?",
+  "register.login": "Se connecter",
+  "register.name": "Nom complet",
+  "register.namePlaceholder": "Saisissez votre nom complet",
+  "register.country": "Pays",
+  "register.countryPlaceholder": "Choisissez votre pays",
+  "register.pin": "Code PIN (4 chiffres)",
+  "register.submit": "S'inscrire",
+  "register.submitting": "Inscription...",
+  "register.success": "Inscription réussie !",
+  "register.failed": "Échec de l'inscription",
+  "register.error": "Une erreur s'est produite lors de l'inscription",
+  "register.loadCountriesFailed": "Impossible de charger les pays",
+
+  "forgotPin.title": "Code PIN oublié",
+  "forgotPin.resetTitle": "Réinitialiser le code PIN",
+  "forgotPin.step.request": "Saisissez votre e-mail pour recevoir un code de réinitialisation",
+  "forgotPin.step.verify": "Saisissez le code que nous vous avons envoyé par e-mail",
+  "forgotPin.step.newPin": "Choisissez un nouveau code PIN à 4 chiffres",
+  "forgotPin.send": "Envoyer le code",
+  "forgotPin.sending": "Envoi...",
+  "forgotPin.codeSent": "Un code de réinitialisation a été envoyé à votre adresse e-mail",
+  "forgotPin.sendFailed": "Impossible d'envoyer le code de réinitialisation",
+  "forgotPin.backToLogin": "Retour à la connexion",
+  "forgotPin.codeSentTo": "Nous avons envoyé un code de réinitialisation à {email}.",
+  "forgotPin.expiresIn": "Il expire dans {time}.",
+  "forgotPin.code": "Code de réinitialisation",
+  "forgotPin.codePlaceholder": "Saisissez le code reçu par e-mail",
+  "forgotPin.verify": "Vérifier le code",
+  "forgotPin.verifying": "Vérification...",
+  "forgotPin.incorrectCode": "Code incorrect",
+  "forgotPin.attemptsLeft": {
+    one: "{message}. Il reste {count} tentative.",
+    other: "{message}. Il reste {count} tentatives.",
+  },
+  "forgotPin.locked": "Trop de tentatives incorrectes. Demandez un nouveau code pour réessayer.",
+  "forgotPin.expired": "Ce code a expiré. Demandez un nouveau code pour continuer.",
+  "forgotPin.differentEmail": "Utiliser une autre adresse e-mail",
+  "forgotPin.resend": "Renvoyer le code",
+  "forgotPin.resendIn": "Renvoyer le code dans {time}",
+  "forgotPin.newPin": "Nouveau code PIN",
+  "forgotPin.newPinPlaceholder": "Saisissez un nouveau code PIN à 4 chiffres",
+  "forgotPin.confirmPin": "Confirmer le nouveau code PIN",
+  "forgotPin.confirmPinPlaceholder": "Saisissez à nouveau le code PIN",
+  "forgotPin.resetSubmit": "Réinitialiser et se connecter",
+  "forgotPin.resetting": "Réinitialisation...",
+  "forgotPin.resetSuccess": "Votre code PIN a été réinitialisé",
+  "forgotPin.resetFailed": "Impossible de réinitialiser le code PIN",
+  "forgotPin.resetExpired": "Votre session de réinitialisation a expiré. Veuillez demander un nouveau code.",
+
+  "splash.tagline": "Système de formulation des rations",
+
+  "welcome.subtitle": "Système d'optimisation de la nutrition des vaches laitières",
+  "welcome.description": "Créez des rations optimales pour vos vaches laitières grâce à notre système avancé d'optimisation nutritionnelle.",
+
+  "accounts.switchTo": "Passer à {name}",
+  "accounts.add": "Ajouter un compte",
+  "accounts.enterPinFor": "Saisissez le code PIN de {email} pour continuer",
+  "accounts.addDescription": "Connectez-vous à un autre compte. Il sera mémorisé sur cet appareil.",
+  "accounts.emailPlaceholder": "Saisissez l'e-mail",
+  "accounts.emailRequired": "Veuillez saisir une adresse e-mail",
+  "accounts.switched": "Compte actif : {name}",
+  "accounts.incorrectPin": "Code PIN incorrect",
+  "accounts.switchFailed": "Impossible de changer de compte",
+  "accounts.removed": "{name} a été retiré de cet appareil",
+  "accounts.remove": "Retirer de l'appareil",
+  "accounts.switch": "Changer",
+  "accounts.signIn": "Se connecter",
+
+  "profile.title": "Profil",
+  "profile.description": "Modifiez votre nom et votre pays",
+  "profile.save": "Enregistrer",
+  "profile.saving": "Enregistrement...",
+  "profile.updated": "Profil mis à jour",
+  "profile.updatedCountry": "Profil mis à jour. Le catalogue d'aliments sera actualisé pour votre nouveau pays.",
+  "profile.updateFailed": "Impossible de mettre à jour le profil",
+  "profile.changePin.title": "Changer le code PIN",
+  "profile.changePin.description": "Saisissez votre code PIN actuel pour en choisir un nouveau",
+  "profile.changePin.current": "Code PIN actuel",
+  "profile.changePin.currentPlaceholder": "Saisissez le code PIN actuel",
+  "profile.changePin.submit": "Changer le code PIN",
+  "profile.changePin.submitting": "Modification...",
+  "profile.changePin.success": "Code PIN modifié",
+  "profile.changePin.failed": "Impossible de changer le code PIN",
+  "profile.appLock.title": "Verrouillage de l'application",
+  "profile.appLock.description": "Verrouille l'application en cas d'inactivité, utile sur les téléphones partagés",
+  "profile.delete.title": "Supprimer le compte",
+  "profile.delete.description": "Supprimer définitivement votre compte et toutes ses données",
+  "profile.delete.button": "Supprimer le compte",
+  "profile.delete.confirmTitle": "Supprimer le compte ?",
+  "profile.delete.confirmDescription": "Votre compte, vos rapports enregistrés et vos avis seront définitivement supprimés. Cette action est irréversible.",
+  "profile.delete.pinLabel": "Saisissez votre code PIN pour confirmer",
+  "profile.delete.pinPlaceholder": "Code PIN à 4 chiffres",
+  "profile.delete.submit": "Supprimer définitivement",
+  "profile.delete.success": "Votre compte a été supprimé",
+  "profile.delete.failed": "Impossible de supprimer le compte",
+
+  "appLock.title": "Application verrouillée",
+  "appLock.signedInAs": "Connecté en tant que {name}. Saisissez votre code PIN pour continuer.",
+  "appLock.unlock": "Déverrouiller",
+  "appLock.unlockWithPasskey": "Déverrouiller avec une clé d'accès",
+  "appLock.notYou": "Ce n'est pas vous ? Se déconnecter",
+  "appLock.incorrectPin": "Code PIN incorrect",
+  "appLock.verifyFailed": "Impossible de vérifier le code PIN",
+  "appLock.passkeyRejected": "La clé d'accès n'a pas pu vous identifier. Utilisez plutôt votre code PIN.",
+  "appLock.passkeyFailed": "Échec du déverrouillage par clé d'accès",
+  "appLock.idleLabel": "Verrouiller après inactivité",
+  "appLock.never": "Jamais",
+  "appLock.minutes": {
+    one: "{count} minute",
+    other: "{count} minutes",
+  },
+  "appLock.passkey": "Clé d'accès",
+  "appLock.passkeyUnsupported": "Cet appareil ne prend pas en charge les clés d'accès. Déverrouillez avec votre code PIN.",
+  "appLock.passkeyEnabled": "Cet appareil peut se déverrouiller avec votre empreinte, votre visage ou le verrouillage de l'écran.",
+  "appLock.removePasskey": "Retirer",
+  "appLock.addPasskey": "Ajouter une clé d'accès pour cet appareil",
+  "appLock.passkeyAdded": "Clé d'accès ajoutée. Vous pouvez maintenant déverrouiller avec cet appareil.",
+  "appLock.passkeyAddFailed": "Impossible d'ajouter la clé d'accès",
+  "appLock.passkeyRemoved": "Clé d'accès retirée de cet appareil",
+
+  "offline.title": "Formulations en attente",
+  "offline.online": "Recommandations demandées hors ligne",
+  "offline.offline": "Vous êtes hors ligne. Les demandes en attente seront envoyées à la reconnexion.",
+  "offline.status.pending": "En attente de connexion",
+  "offline.status.processing": "Envoi",
+  "offline.status.complete": "Terminée",
+  "offline.status.failed": "Échec",
+  "offline.jobTitle": {
+    one: "{breed} · {count} aliment",
+    other: "{breed} · {count} aliments",
+  },
+  "offline.recommendation": "Recommandation",
+  "offline.queuedAt": "Mise en attente le {date}",
+  "offline.view": "Voir la recommandation",
+  "offline.retry": "Relancer la recommandation en attente",
+  "offline.remove": "Retirer la recommandation en attente",
+  "offline.retryFailed": "Impossible de relancer",
+  "offline.removeFailed": "Impossible de retirer la demande",
+  "offline.ready": "La recommandation en attente est prête",
+  "offline.readyAction": "Voir",
+
+  "herd.title": "Mon troupeau",
+  "herd.description": "Les animaux enregistrés conservent leurs informations d'une visite à l'autre",
+  "herd.add": "Ajouter un animal",
+  "herd.empty": "Aucun animal enregistré",
+  "herd.active": "Actif",
+  "herd.tag": "Boucle {tag}",
+  "herd.noDetails": "Aucun détail pour l'instant",
+  "herd.updatedOn": "Mis à jour le {date}",
+  "herd.startFormulation": "Commencer une formulation",
+  "herd.startFormulationFor": "Commencer une formulation pour {name}",
+  "herd.edit": "Modifier les détails",
+  "herd.editName": "Modifier {name}",
+  "herd.duplicate": "Dupliquer",
+  "herd.duplicateName": "Dupliquer {name}",
+  "herd.delete": "Supprimer",
+  "herd.deleteName": "Supprimer {name}",
+  "herd.duplicated": "{name} dupliqué",
+  "herd.deleted": "{name} supprimé",
+  "herd.deleteTitle": "Supprimer l'animal ?",
+  "herd.deleteDescription": "{name} et ses informations enregistrées seront retirés de cet appareil.",
+  "herd.picker.label": "Animal",
+  "herd.picker.placeholder": "Choisir un animal",
+  "herd.picker.unnamed": "Animal sans nom",
+  "herd.picker.new": "Nouveau",
+  "herd.dialog.editTitle": "Modifier l'animal",
+  "herd.dialog.newTitle": "Nouvel animal",
+  "herd.dialog.description": "Nommez et identifiez l'animal pour le retrouver lors de votre prochaine visite",
+  "herd.dialog.name": "Nom",
+  "herd.dialog.namePlaceholder": "ex. Marguerite",
+  "herd.dialog.earTag": "Numéro de boucle (facultatif)",
+  "herd.dialog.earTagPlaceholder": "ex. KE-0421",
+  "herd.dialog.farm": "Ferme (facultatif)",
+  "herd.dialog.farmPlaceholder": "ex. Ferme Wanjiru",
+  "herd.dialog.save": "Enregistrer",
+  "herd.dialog.create": "Créer",
+  "herd.dialog.updated": "Profil de l'animal mis à jour",
+  "herd.dialog.created": "Profil de l'animal créé",
+
+  "baskets.title": "Paniers d'aliments",
+  "baskets.description": "Ensembles d'aliments réutilisables avec les derniers prix saisis",
+  "baskets.empty": "Aucun panier enregistré",
+  "baskets.emptyHint": "Sélectionnez des aliments puis utilisez « Enregistrer comme panier » pour en créer un.",
+  "baskets.pricesUpdatedOn": "Prix mis à jour le {date}",
+  "baskets.load": "Charger dans la sélection d'aliments",
+  "baskets.loadName": "Charger {name}",
+  "baskets.updatePrices": "Mettre à jour les prix",
+  "baskets.updatePricesFor": "Mettre à jour les prix de {name}",
+  "baskets.delete": "Supprimer le panier",
+  "baskets.deleteName": "Supprimer {name}",
+  "baskets.loaded": "« {name} » chargé",
+  "baskets.deleted": "Panier « {name} » supprimé",
+  "baskets.deleteTitle": "Supprimer le panier ?",
+  "baskets.deleteDescription": "{name} sera retiré de cet appareil.",
+  "baskets.deleteConfirm": "Supprimer",
+  "baskets.replaceTitle": "Remplacer les aliments sélectionnés ?",
+  "baskets.replaceDescription": {
+    one: "Charger {name} remplace l'aliment sélectionné ({count}).",
+    other: "Charger {name} remplace les {count} aliments sélectionnés.",
+  },
+  "baskets.replaceConfirm": "Charger le panier",
+  "baskets.save.button": "Enregistrer comme panier",
+  "baskets.save.title": "Enregistrer le panier",
+  "baskets.save.description": {
+    one: "Conserver cet aliment et son prix pour votre prochaine visite",
+    other: "Conserver ces {count} aliments et leurs prix pour votre prochaine visite",
+  },
+  "baskets.save.target": "Enregistrer dans",
+  "baskets.save.new": "Nouveau panier",
+  "baskets.save.replace": "Remplacer « {name} »",
+  "baskets.save.name": "Nom du panier",
+  "baskets.save.namePlaceholder": "ex. Saison sèche - Kiambu",
+  "baskets.save.submit": "Enregistrer",
+  "baskets.save.nameRequired": "Veuillez saisir un nom de panier",
+  "baskets.save.saved": "Panier « {name} » enregistré",
+  "baskets.save.updated": "Panier « {name} » mis à jour",
+  "baskets.prices.title": "Mettre à jour les prix",
+  "baskets.prices.description": "{name} : saisissez les prix du marché du jour ({unit})",
+  "baskets.prices.perKg": "par kg",
+  "baskets.prices.percent": "Modifier tous les prix de %",
+  "baskets.prices.percentPlaceholder": "ex. 10 ou -5",
+  "baskets.prices.apply": "Appliquer",
+  "baskets.prices.submit": "Enregistrer les prix",
+  "baskets.prices.invalid": "Chaque prix doit être supérieur à zéro",
+  "baskets.prices.updated": "Prix mis à jour",
+
+  "compare.title": "Comparer les scénarios",
+  "compare.description": "Les meilleures valeurs sont en vert ; les quantités qui diffèrent de la référence en orange",
+  "compare.clearAll": "Tout effacer",
+  "compare.emptyTitle": "Aucun scénario à comparer",
+  "compare.emptyDescription": "Générez une recommandation et utilisez « Comparer » pour l'ajouter ici. Changez les aliments et recommencez pour comparer jusqu'à {max} formulations côte à côte.",
+  "compare.goToFeedSelection": "Aller à la sélection d'aliments",
+  "compare.saved": "Enregistré",
+  "compare.unknownBreed": "Race inconnue",
+  "compare.scenarioSummary": {
+    one: "{breed} · {count} aliment · {date}",
+    other: "{breed} · {count} aliments · {date}",
+  },
+  "compare.saveAsReport": "Enregistrer comme rapport",
+  "compare.saveNameAsReport": "Enregistrer {name} comme rapport",
+  "compare.remove": "Retirer de la comparaison",
+  "compare.removeName": "Retirer {name}",
+  "compare.savedToReports": "« {name} » enregistré dans vos rapports",
+  "compare.saveFailed": "Impossible d'enregistrer le rapport. Veuillez réessayer plus tard.",
+  "compare.clearTitle": "Effacer la comparaison ?",
+  "compare.clearDescription": {
+    one: "Le scénario sera retiré. Les rapports déjà enregistrés sont conservés.",
+    other: "Les {count} scénarios seront retirés. Les rapports déjà enregistrés sont conservés.",
+  },
+  "compare.clear": "Effacer",
+  "compare.add.button": "Comparer",
+  "compare.add.inComparison": "Dans la comparaison",
+  "compare.add.title": "Ajouter à la comparaison",
+  "compare.add.description": "Donnez un nom à cette formulation pour la distinguer des autres",
+  "compare.add.name": "Nom du scénario",
+  "compare.add.namePlaceholder": "ex. Avec tourteau de coton",
+  "compare.add.defaultName": "Scénario {number}",
+  "compare.add.limit": "Jusqu'à {max} scénarios peuvent être comparés. « {name} » sera remplacé.",
+  "compare.add.submit": "Ajouter",
+  "compare.add.nameRequired": "Veuillez saisir un nom de scénario",
+  "compare.add.added": "« {name} » ajouté à la comparaison",
+  "compare.add.viewAction": "Comparer",
+  "compare.table.metric": "Indicateur",
+  "compare.table.baseline": "Référence",
+  "compare.table.dailyCost": "Coût journalier",
+  "compare.table.costPerMilk": "Coût par {unit} de lait",
+  "compare.table.milkProduction": "Production de lait",
+  "compare.table.dryMatterIntake": "Ingestion de matière sèche",
+  "compare.table.methane": "Méthane",
+  "compare.table.methaneYield": "Rendement en CH₄",
+  "compare.table.methaneIntensity": "Intensité de CH₄",
+  "compare.table.perDay": "{unit}/jour",
+  "compare.table.leastCostDiet": "Ration au moindre coût ({unit}/jour)",
+
+  "feedback.title": "Donner votre avis",
+  "feedback.description": "Partagez vos remarques et suggestions",
+  "feedback.label": "Avis",
+  "feedback.placeholder": "Saisissez votre avis...",
+  "feedback.rating": "Note (facultative)",
+  "feedback.submit": "Envoyer l'avis",
+  "feedback.submitting": "Envoi...",
+  "feedback.success": "Avis envoyé",
+  "feedback.required": "Veuillez saisir votre avis",
+  "feedback.submitFailed": "Impossible d'envoyer l'avis",
+  "feedback.loadFailed": "Impossible de charger les avis",
+  "feedback.history": "Vos avis",
+
+  "reports.title": "Rapports enregistrés",
+  "reports.description": "Consultez et gérez vos rapports de formulation enregistrés",
+  "reports.empty": "Aucun rapport enregistré",
+  "reports.loadFailed": "Impossible de charger les rapports",
+  "reports.urlUnavailable": "Lien du rapport indisponible",
+  "reports.deleteComingSoon": "La suppression sera bientôt disponible",
+  "reports.download": "Télécharger le PDF",
+  "reports.downloadLabel": "Télécharger le rapport PDF",
+  "reports.delete": "Supprimer le rapport",
+
+  "forbidden.title": "Accès refusé",
+  "forbidden.description": "Cette page est réservée aux administrateurs.",
+  "forbidden.back": "Aller aux infos bovin",
+};
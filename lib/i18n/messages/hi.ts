@@ -0,0 +1,658 @@
+import type { Message, MessageKey } from "./en";
+
+export const hi: Record<MessageKey, Message> = {
+  "common.back": "वापस",
+  "common.continue": "जारी रखें",
+  "common.reset": "रीसेट करें",
+  "common.cancel": "रद्द करें",
+  "common.yes": "हाँ",
+  "common.no": "नहीं",
+  "common.notAvailable": "उपलब्ध नहीं",
+
+  "validation.breedRequired": "नस्ल आवश्यक है",
+  "validation.topographyRequired": "भू-आकृति आवश्यक है",
+  "validation.min": "कम से कम {min} होना चाहिए",
+  "validation.max": "अधिकतम {max} होना चाहिए",
+  "validation.requiredWhenLactating": "दुधारू गाय के लिए आवश्यक",
+  "validation.requiredWhenGrazing": "गाय के चरने पर आवश्यक",
+  "validation.milkWhenDry": "दूध उत्पादन दर्ज है, इसलिए गाय दुधारू होनी चाहिए",
+  "validation.pregnancyTooLong": "गर्भावस्था अधिकतम {max} दिन की होती है",
+  "validation.daysInMilkOverInterval": "ब्यांत अंतराल ({max} दिन) से अधिक नहीं होना चाहिए",
+  "validation.pregnancyOverDaysInMilk": "दुग्धकाल के दिनों ({max}) से अधिक नहीं होना चाहिए",
+  "validation.inconsistentCattleInfo": "पशु की जानकारी असंगत है। कृपया इसे जाँचकर फिर से प्रयास करें।",
+  "validation.emailInvalid": "अमान्य ईमेल पता",
+  "validation.pinLength": "पिन ठीक 4 अंकों का होना चाहिए",
+  "validation.pinDigits": "पिन में केवल अंक होने चाहिए",
+  "validation.pinsMismatch": "पिन मेल नहीं खाते",
+  "validation.nameRequired": "नाम आवश्यक है",
+  "validation.countryRequired": "देश आवश्यक है",
+  "validation.codeRequired": "अपने ईमेल में आया कोड दर्ज करें",
+  "validation.pinUnchanged": "नया पिन आपके वर्तमान पिन से अलग होना चाहिए",
+
+  "language.title": "भाषा",
+  "language.description": "ऐप और अपनी PDF रिपोर्ट की भाषा चुनें",
+  "language.automatic": "स्वचालित ({language})",
+
+  "units.title": "इकाइयाँ",
+  "units.description": "पशु डेटा दर्ज करने और रिपोर्ट पढ़ने के लिए इकाइयाँ चुनें",
+  "units.system": "माप प्रणाली",
+  "units.metric": "मीट्रिक (kg, km, °C)",
+  "units.imperial": "इंपीरियल (lb, mi, °F)",
+  "units.milk": "दूध",
+  "units.milkVolume": "आयतन से (L, gal)",
+  "units.milkMass": "वजन से (kg, lb)",
+
+  "cattleInfo.title": "पशु की जानकारी",
+  "cattleInfo.description": "चारे की सिफ़ारिशें पाने के लिए अपने पशु का विवरण दर्ज करें",
+  "cattleInfo.section.animal": "पशु की विशेषताएँ",
+  "cattleInfo.section.milk": "दूध उत्पादन",
+  "cattleInfo.section.reproduction": "प्रजनन संबंधी जानकारी",
+  "cattleInfo.section.environment": "पर्यावरण",
+  "cattleInfo.breed": "नस्ल",
+  "cattleInfo.selectBreed": "नस्ल चुनें",
+  "cattleInfo.breedOther": "अन्य",
+  "cattleInfo.bodyWeight": "शरीर का वजन ({unit})",
+  "cattleInfo.bcScore": "शारीरिक स्थिति स्कोर (1-5)",
+  "cattleInfo.bwGain": "दैनिक वजन वृद्धि ({unit})",
+  "cattleInfo.lactating": "दुधारू",
+  "cattleInfo.milkProduction": "दूध उत्पादन ({unit}/दिन)",
+  "cattleInfo.fatMilk": "दूध में वसा (%)",
+  "cattleInfo.tpMilk": "दूध में प्रोटीन (%)",
+  "cattleInfo.daysInMilk": "दुग्धकाल के दिन",
+  "cattleInfo.parity": "ब्यांत संख्या",
+  "cattleInfo.calvingInterval": "ब्यांत अंतराल (दिन)",
+  "cattleInfo.daysOfPregnancy": "गर्भावस्था के दिन",
+  "cattleInfo.grazing": "चराई",
+  "cattleInfo.distance": "दूरी ({unit})",
+  "cattleInfo.topography": "भू-आकृति",
+  "cattleInfo.selectTopography": "भू-आकृति चुनें",
+  "cattleInfo.topography.Flat": "समतल",
+  "cattleInfo.topography.Hilly": "पहाड़ी",
+  "cattleInfo.topography.Mountainous": "पर्वतीय",
+  "cattleInfo.temperature": "तापमान ({unit})",
+  "cattleInfo.mode.label": "दर्ज करने का तरीका",
+  "cattleInfo.mode.wizard": "चरण दर चरण",
+  "cattleInfo.mode.form": "पूरा फ़ॉर्म",
+
+  "wizard.progress": "प्रश्न {current} / {total}",
+  "wizard.next": "आगे",
+  "wizard.finish": "पूरा करें",
+  "wizard.autosaved": "आपके उत्तर साथ-साथ सहेजे जाते हैं",
+  "wizard.reviewTitle": "अपने उत्तर जाँचें",
+  "wizard.change": "बदलें",
+  "wizard.fixAnswers": "कुछ उत्तरों पर ध्यान देना ज़रूरी है",
+  "wizard.question.breed": "गाय किस नस्ल की है?",
+  "wizard.question.body_weight": "गाय का वज़न कितना है?",
+  "wizard.question.bc_score": "पीछे से देखने पर गाय किस चित्र जैसी दिखती है?",
+  "wizard.question.bw_gain": "वह हर दिन कितना वज़न बढ़ाती है?",
+  "wizard.question.lactating": "क्या गाय अभी दूध दे रही है?",
+  "wizard.question.milk_production": "वह हर दिन कितना दूध देती है?",
+  "wizard.question.fat_milk": "उसके दूध में कितना वसा है?",
+  "wizard.question.tp_milk": "उसके दूध में कितना प्रोटीन है?",
+  "wizard.question.days_in_milk": "उसने कितने दिन पहले बच्चा दिया?",
+  "wizard.question.parity": "उसने कितनी बार बच्चा दिया है?",
+  "wizard.question.calving_interval": "उसके ब्यांतों के बीच कितने दिन होते हैं?",
+  "wizard.question.days_of_pregnancy": "वह कितने दिनों से गर्भवती है?",
+  "wizard.question.grazing": "क्या गाय चरने जाती है?",
+  "wizard.question.distance": "वह हर दिन कितनी दूर चलती है?",
+  "wizard.question.topography": "जहाँ वह चलती है वहाँ की ज़मीन कैसी है?",
+  "wizard.question.temperature": "आम दिन में बाहर कितनी गर्मी होती है?",
+  "wizard.hint.breedTypical": "अगर आपको नहीं पता, तो नस्ल का सामान्य मान रहने दें",
+  "wizard.hint.notPregnant": "अगर वह गर्भवती नहीं है तो 0 लिखें",
+  "wizard.bcs.1": "बहुत दुबली",
+  "wizard.bcs.2": "दुबली",
+  "wizard.bcs.3": "अच्छी",
+  "wizard.bcs.4": "मोटी",
+  "wizard.bcs.5": "बहुत मोटी",
+
+  "weightEstimator.title": "तराज़ू नहीं है? नापने वाला फीता इस्तेमाल करें",
+  "weightEstimator.instructions": "फीते को अगले पैरों के ठीक पीछे छाती के चारों ओर लपेटें और साँस छोड़ते समय पढ़ें",
+  "weightEstimator.heartGirth": "छाती का घेरा ({unit})",
+  "weightEstimator.estimate": "अनुमानित वज़न: {weight}",
+  "weightEstimator.outOfRange": "माप जाँचें। यह {min} और {max} के बीच होना चाहिए",
+  "weightEstimator.use": "यह वज़न इस्तेमाल करें",
+  "weightEstimator.open": "फीते के माप से अनुमान लगाएँ",
+  "weightEstimator.bodyLength": "शरीर की लंबाई ({unit}, वैकल्पिक)",
+  "weightEstimator.bodyLengthHint": "कंधे के सिरे से पिन हड्डी तक। इसे जोड़ने से बेहतर अनुमान मिलता है",
+  "weightEstimator.lengthOutOfRange": "शरीर की लंबाई जाँचें। यह {min} और {max} के बीच होनी चाहिए",
+  "weightEstimator.formula.heinrichs": "Heinrichs et al. (1992), छाती का घेरा, होल्स्टीन पर बना",
+  "weightEstimator.formula.schaeffer": "शेफ़र का सूत्र, छाती का घेरा और शरीर की लंबाई",
+  "weightEstimator.formula.crevat": "क्रेवा का सूत्र, छाती का घेरा",
+  "weightEstimator.formula.quetelet": "केटले का सूत्र, छाती का घेरा और शरीर की लंबाई",
+  "weightEstimator.formulaUnits": "W किलो में वज़न, HG छाती का घेरा और L शरीर की लंबाई सेमी में",
+  "weightEstimator.confidence.good": "उच्च भरोसा: आमतौर पर तराज़ू के वज़न से लगभग 10% के भीतर",
+  "weightEstimator.confidence.fair": "मध्यम भरोसा: मोटा अनुमान, जो और दूर हो सकता है",
+  "weightEstimator.confidence.low": "कम भरोसा: तराज़ू के वज़न से काफ़ी अलग हो सकता है",
+  "weightEstimator.selectBreed": "नस्ल के अनुकूल सूत्रों के लिए नस्ल चुनें",
+
+  "feedSelection.title": "चारा चयन",
+  "feedSelection.description": "अपने पशु के आहार के लिए चारा चुनें",
+  "feedSelection.loadBasket": "सहेजी गई टोकरी लोड करें",
+  "feedSelection.basketOption": { one: "{name} ({count} चारा)", other: "{name} ({count} चारे)" },
+  "feedSelection.search": "चारा खोजें",
+  "feedSelection.browse": "या प्रकार और श्रेणी के अनुसार देखें",
+  "feedSelection.feedType": "चारे का प्रकार",
+  "feedSelection.selectFeedType": "चारे का प्रकार चुनें",
+  "feedSelection.feedCategory": "चारे की श्रेणी",
+  "feedSelection.selectFeedCategory": "चारे की श्रेणी चुनें",
+  "feedSelection.feedName": "चारे का नाम",
+  "feedSelection.selectFeedName": "चारे का नाम चुनें",
+  "feedSelection.pricePerKg": "प्रति kg कीमत",
+  "feedSelection.enterPrice": "कीमत दर्ज करें",
+  "feedSelection.addFeed": "चारा जोड़ें",
+  "feedSelection.selectedFeeds": "चुने गए चारे ({count})",
+  "feedSelection.evaluate": "वर्तमान आहार का मूल्यांकन करें",
+  "feedSelection.continue": "सिफारिश पर जाएँ",
+  "feedSelection.loadTypesFailed": "चारे के प्रकार लोड नहीं हो सके",
+  "feedSelection.loadCategoriesFailed": "चारे की श्रेणियाँ लोड नहीं हो सकीं",
+  "feedSelection.loadSubCategoriesFailed": "चारे की उप-श्रेणियाँ लोड नहीं हो सकीं",
+  "feedSelection.loadDetailsFailed": "चारे का विवरण लोड नहीं हो सका",
+  "feedSelection.selectFeedAndPrice": "कृपया चारा चुनें और कीमत दर्ज करें",
+  "feedSelection.alreadySelected": "{name} पहले से चुना गया है",
+  "feedSelection.feedsAdded": { one: "{count} चारा जोड़ा गया", other: "{count} चारे जोड़े गए" },
+  "feedSelection.feedsFailed": {
+    one: "{count} चारे का विवरण लोड नहीं हो सका",
+    other: "{count} चारों का विवरण लोड नहीं हो सका",
+  },
+  "feedSelection.basketLoaded": "\"{name}\" लोड किया गया",
+  "feedSelection.replaceTitle": "चुने गए चारे बदलें?",
+  "feedSelection.replaceDescription": {
+    one: "\"{name}\" लोड करने से आपका चुना गया {count} चारा बदल जाएगा।",
+    other: "\"{name}\" लोड करने से आपके चुने गए {count} चारे बदल जाएँगे।",
+  },
+  "feedSelection.replaceConfirm": "टोकरी लोड करें",
+  "feedSelection.addAtLeastOne": "कृपया कम से कम एक चारा जोड़ें",
+  "feedSelection.searchUnavailable": "चारा खोज अभी उपलब्ध नहीं है। इसके बजाय नीचे प्रकार के अनुसार देखें।",
+  "feedSelection.searchPlaceholder": "नाम या स्थानीय नाम से चारा खोजें",
+  "feedSelection.noMatches": "\"{query}\" से कोई चारा मेल नहीं खाता",
+  "feedSelection.matchesAlias": "\"{alias}\" से मेल खाता है",
+  "feedSelection.selected": "चुना गया",
+  "feedSelection.enterPrices": "कीमतें दर्ज करें ({unit})",
+  "feedSelection.perKg": "प्रति kg",
+  "feedSelection.price": "कीमत",
+  "feedSelection.priceFor": "{name} की कीमत",
+  "feedSelection.unselect": "{name} का चयन हटाएँ",
+  "feedSelection.addPicked": { one: "{count} चारा जोड़ें", other: "{count} चारे जोड़ें" },
+  "feedSelection.removeFeed": "{name} हटाएँ",
+  "feedSelection.nutrient.dm": "DM",
+  "feedSelection.nutrient.cp": "CP",
+  "feedSelection.nutrient.ndf": "NDF",
+  "feedSelection.nutrient.adf": "ADF",
+  "feedSelection.nutrient.ee": "EE",
+  "feedSelection.nutrient.ash": "राख",
+  "feedSelection.nutrientPercent": "{nutrient} %",
+  "feedSelection.pricePerKgIn": "प्रति kg कीमत ({currency})",
+
+  "recommendation.title": "आहार सिफारिश",
+  "recommendation.generatedOn": "{date} को तैयार किया गया",
+  "recommendation.reportId": "आईडी: {id}",
+  "recommendation.dailyCost": "दैनिक लागत",
+  "recommendation.milkProduction": "दूध उत्पादन",
+  "recommendation.dryMatterIntake": "शुष्क पदार्थ सेवन",
+  "recommendation.methanePerDay": "मीथेन/दिन",
+  "recommendation.animalInformation": "पशु की जानकारी",
+  "recommendation.breed": "नस्ल",
+  "recommendation.bodyWeight": "शरीर का वजन",
+  "recommendation.bodyCondition": "शारीरिक स्थिति",
+  "recommendation.daysInMilk": "दुग्धकाल के दिन",
+  "recommendation.parity": "ब्यांत संख्या",
+  "recommendation.temperature": "तापमान",
+  "recommendation.topography": "भू-आकृति",
+  "recommendation.grazing": "चराई",
+  "recommendation.recommendedDiet": "अनुशंसित आहार",
+  "recommendation.ingredientCount": {
+    one: "{count} चारा घटक अनुशंसित",
+    other: "{count} चारा घटक अनुशंसित",
+  },
+  "recommendation.noDietAvailable": "कोई विशेष आहार मिश्रण उपलब्ध नहीं",
+  "recommendation.feedName": "चारे का नाम",
+  "recommendation.quantity": "मात्रा ({unit})",
+  "recommendation.dmIntake": "DM सेवन ({unit})",
+  "recommendation.cost": "लागत",
+  "recommendation.feedFallback": "चारा {number}",
+  "recommendation.noOptimalDiet": "चुने गए चारों से एल्गोरिद्म उपयुक्त आहार नहीं ढूँढ सका।",
+  "recommendation.tryMoreFeeds": "अधिक प्रकार के चारे जोड़कर देखें (हरा/सूखा चारा और दाना दोनों)।",
+  "recommendation.environmentalImpact": "पर्यावरणीय प्रभाव",
+  "recommendation.methaneProduction": "CH₄ उत्पादन",
+  "recommendation.methaneYield": "CH₄ उपज",
+  "recommendation.methaneIntensity": "CH₄ तीव्रता",
+  "recommendation.conversionRate": "रूपांतरण दर",
+  "recommendation.saveReport": "रिपोर्ट सहेजें",
+  "recommendation.saved": "सहेजा गया",
+  "recommendation.downloadPdf": "PDF डाउनलोड करें",
+  "recommendation.queuedTitle": "सिफारिश कतार में है",
+  "recommendation.queuedFailedTitle": "कतार वाली सिफारिश विफल रही",
+  "recommendation.queuedProcessing": "आपकी सिफारिश तैयार की जा रही है...",
+  "recommendation.queuedPending": "ऑनलाइन आने पर यह अपने आप तैयार हो जाएगी।",
+  "recommendation.viewQueue": "कतार देखें",
+  "recommendation.emptyTitle": "कोई सिफारिश उपलब्ध नहीं",
+  "recommendation.emptyDescription": "कृपया पहले पशु की जानकारी पूरी करें और चारा चुनें।",
+  "recommendation.goToCattleInfo": "पशु जानकारी पर जाएँ",
+  "recommendation.queuedNotFound": "कतार वाली सिफारिश नहीं मिली",
+  "recommendation.offlineRetry": "आप ऑफ़लाइन हैं। कनेक्ट होने पर फिर से प्रयास करें।",
+  "recommendation.queuedOffline": "आप ऑफ़लाइन हैं। दोबारा कनेक्ट होने पर सिफारिश तैयार की जाएगी।",
+  "recommendation.queueFailed": "सिफारिश को कतार में नहीं डाला जा सका",
+  "recommendation.completeInputs": "कृपया पशु की जानकारी पूरी करें और चारा चुनें",
+  "recommendation.failed": "सिफारिश तैयार नहीं हो सकी",
+  "recommendation.unableToSave": "रिपोर्ट सहेजी नहीं जा सकी",
+  "recommendation.waitingForReport": "रिपोर्ट तैयार होने की प्रतीक्षा... (प्रयास {attempt}/{max})",
+  "recommendation.reportSaved": "रिपोर्ट आपके खाते में सहेजी गई!",
+  "recommendation.generatingLocally": "सर्वर पर सहेजना उपलब्ध नहीं। PDF डिवाइस पर बनाई जा रही है...",
+  "recommendation.pdfDownloaded": "PDF डाउनलोड हो गई!",
+  "recommendation.pdfFailed": "PDF नहीं बन सकी",
+  "recommendation.pdfFailedRetry": "PDF नहीं बन सकी। कृपया फिर से प्रयास करें।",
+
+  "evaluation.title": "मौजूदा आहार का मूल्यांकन करें",
+  "evaluation.description": "दर्ज करें कि आपके पशु आज हर चारा कितना खाते हैं (जैसा खिलाया गया, {unit}/दिन)",
+  "evaluation.quantity": "मात्रा ({unit}/दिन)",
+  "evaluation.editFeeds": "चारे बदलें",
+  "evaluation.run": "मूल्यांकन करें",
+  "evaluation.emptyTitle": "मूल्यांकन के लिए कुछ नहीं",
+  "evaluation.emptyDescription": "कृपया पशु की जानकारी पूरी करें और अभी इस्तेमाल हो रहे चारे चुनें।",
+  "evaluation.goToFeedSelection": "चारा चयन पर जाएँ",
+  "evaluation.quantitiesRequired": "कृपया हर चारे की दैनिक मात्रा दर्ज करें",
+  "evaluation.failed": "आहार का मूल्यांकन नहीं हो सका",
+  "evaluation.panelTitle": "मौजूदा आहार का मूल्यांकन",
+  "evaluation.panelDescription": "चुने गए चारे पशु की ज़रूरतें कितनी पूरी करते हैं",
+  "evaluation.overallStatus": "कुल स्थिति",
+  "evaluation.limitingFactor": "सीमित करने वाला कारक",
+  "evaluation.none": "कोई नहीं",
+  "evaluation.milkProduction": "दूध उत्पादन",
+  "evaluation.target": "लक्ष्य",
+  "evaluation.supported": "संभव",
+  "evaluation.byEnergy": "ऊर्जा से",
+  "evaluation.byProtein": "प्रोटीन से",
+  "evaluation.limitedBy": "सीमित करने वाला:",
+  "evaluation.dryMatterIntake": "शुष्क पदार्थ सेवन",
+  "evaluation.actual": "वास्तविक",
+  "evaluation.difference": "अंतर",
+  "evaluation.ofTarget": "लक्ष्य का",
+  "evaluation.status": "स्थिति:",
+  "evaluation.costAnalysis": "लागत विश्लेषण",
+  "evaluation.dailyDietCost": "आहार की दैनिक लागत",
+  "evaluation.costPerKgMilk": "प्रति किग्रा दूध लागत",
+  "evaluation.methaneEmissions": "मीथेन उत्सर्जन",
+  "evaluation.nutrientBalance": "पोषक संतुलन",
+  "evaluation.nutrientBalanceDescription": "आपूर्ति घटा ज़रूरत; ऋणात्मक मान कमी दर्शाते हैं",
+  "evaluation.energy": "ऊर्जा",
+  "evaluation.protein": "प्रोटीन",
+  "evaluation.calcium": "कैल्शियम",
+  "evaluation.phosphorus": "फ़ॉस्फ़ोरस",
+  "evaluation.ndf": "NDF",
+  "evaluation.feedBreakdown": "चारे का ब्योरा",
+  "evaluation.feedBreakdownDescription": "मौजूदा आहार में हर चारे का योगदान",
+  "evaluation.asFed": "जैसा खिलाया ({unit})",
+  "evaluation.dryMatter": "शुष्क पदार्थ ({unit})",
+  "evaluation.contribution": "योगदान",
+  "evaluation.noBreakdown": "इस मूल्यांकन के लिए चारे का ब्योरा उपलब्ध नहीं है।",
+
+  "sensitivity.title": "कीमत संवेदनशीलता",
+  "sensitivity.description": "देखें कि किसी एक चारे की कीमत बदलने पर आहार कैसे बदलता है",
+  "sensitivity.feed": "चारा",
+  "sensitivity.selectFeed": "चारा चुनें",
+  "sensitivity.feedOption": "{name} ({price}/किग्रा)",
+  "sensitivity.from": "से (%)",
+  "sensitivity.to": "तक (%)",
+  "sensitivity.steps": "चरण",
+  "sensitivity.run": "चलाएँ",
+  "sensitivity.running": "{done}/{total} फ़ॉर्मूलेशन चल रहे हैं...",
+  "sensitivity.breakEven": "{name} प्रति किग्रा {low} और {high} के बीच आहार से बाहर हो जाता है।",
+  "sensitivity.staysIncluded": "{name} इस पूरी कीमत सीमा में आहार में बना रहता है।",
+  "sensitivity.noBreakEven": "इस सीमा में कोई ब्रेक-ईवन कीमत नहीं मिली।",
+  "sensitivity.inclusionChart": "शामिल मात्रा ({unit}/दिन)",
+  "sensitivity.dailyCostChart": "कुल दैनिक लागत",
+  "sensitivity.pricePerKg": "कीमत/किग्रा",
+  "sensitivity.inclusion": "शामिल मात्रा",
+  "sensitivity.invalidRange": "मान्य कीमत सीमा दर्ज करें, जैसे -30% से 50%",
+  "sensitivity.invalidSteps": "{min} से {max} चरणों का उपयोग करें",
+  "sensitivity.failed": "कीमत विश्लेषण विफल रहा",
+  "sensitivity.failedRetry": "कीमत विश्लेषण विफल रहा। कृपया फिर से कोशिश करें।",
+  "sensitivity.cancelled": "कीमत विश्लेषण रद्द किया गया",
+
+  "nav.cattleInfo": "पशु जानकारी",
+  "nav.herd": "मेरा झुंड",
+  "nav.baskets": "चारा टोकरियाँ",
+  "nav.compare": "तुलना करें",
+  "nav.reports": "रिपोर्ट",
+  "nav.feedReports": "चारा रिपोर्ट",
+  "nav.feedback": "प्रतिक्रिया",
+  "nav.profile": "प्रोफ़ाइल",
+  "nav.admin": "एडमिन",
+  "nav.adminPanel": "एडमिन पैनल",
+  "nav.menu": "मेनू",
+  "nav.openMenu": "मेनू खोलें",
+  "nav.userMenu": "उपयोगकर्ता मेनू",
+  "nav.switchAccount": "खाता बदलें",
+  "nav.addAccount": "खाता जोड़ें",
+  "nav.help": "सहायता",
+  "nav.logout": "लॉग आउट",
+  "nav.toggleTheme": "थीम बदलें",
+
+  "auth.email": "ईमेल",
+  "auth.emailPlaceholder": "अपना ईमेल दर्ज करें",
+  "auth.pin": "पिन",
+  "auth.pinPlaceholder": "4 अंकों का पिन दर्ज करें",
+  "auth.error": "एक त्रुटि हुई",
+
+  "login.title": "लॉग इन",
+  "login.description": "अपने खाते में जाने के लिए ईमेल और पिन दर्ज करें",
+  "login.forgotPin": "पिन भूल गए?",
+  "login.noAccount": "खाता नहीं है?",
+  "login.register": "पंजीकरण करें",
+  "login.submit": "लॉग इन करें",
+  "login.submitting": "लॉग इन हो रहा है...",
+  "login.retryIn": "{time} में फिर से प्रयास करें",
+  "login.success": "लॉग इन सफल!",
+  "login.failed": "लॉग इन विफल",
+  "login.error": "लॉग इन के दौरान एक त्रुटि हुई",
+  "login.locked": "बहुत अधिक असफल प्रयास। लॉग इन {time} के लिए बंद है।",
+  "login.wait": "फिर से प्रयास करने से पहले कृपया {seconds} सेकंड प्रतीक्षा करें।",
+  "login.attemptsRemaining": {
+    one: "आपका खाता अस्थायी रूप से बंद होने से पहले {count} प्रयास बचा है।",
+    other: "आपका खाता अस्थायी रूप से बंद होने से पहले {count} प्रयास बचे हैं।",
+  },
+
+  "register.title": "पंजीकरण",
+  "register.description": "शुरू करने के लिए नया खाता बनाएँ",
+  "register.haveAccount": "पहले से खाता है?",
+  "register.login": "लॉग इन करें",
+  "register.name": "पूरा नाम",
+  "register.namePlaceholder": "अपना पूरा नाम दर्ज करें",
+  "register.country": "देश",
+  "register.countryPlaceholder": "अपना देश चुनें",
+  "register.pin": "पिन (4 अंक)",
+  "register.submit": "पंजीकरण करें",
+  "register.submitting": "पंजीकरण हो रहा है...",
+  "register.success": "पंजीकरण सफल!",
+  "register.failed": "पंजीकरण विफल",
+  "register.error": "पंजीकरण के दौरान एक त्रुटि हुई",
+  "register.loadCountriesFailed": "देश लोड नहीं हो सके",
+
+  "forgotPin.title": "पिन भूल गए",
+  "forgotPin.resetTitle": "पिन रीसेट करें",
+  "forgotPin.step.request": "पिन रीसेट कोड पाने के लिए अपना ईमेल दर्ज करें",
+  "forgotPin.step.verify": "हमारे द्वारा ईमेल किया गया कोड दर्ज करें",
+  "forgotPin.step.newPin": "4 अंकों का नया पिन चुनें",
+  "forgotPin.send": "रीसेट कोड भेजें",
+  "forgotPin.sending": "भेजा जा रहा है...",
+  "forgotPin.codeSent": "रीसेट कोड आपके ईमेल पर भेज दिया गया है",
+  "forgotPin.sendFailed": "रीसेट कोड नहीं भेजा जा सका",
+  "forgotPin.backToLogin": "लॉग इन पर वापस जाएँ",
+  "forgotPin.codeSentTo": "हमने {email} पर रीसेट कोड भेजा है।",
+  "forgotPin.expiresIn": "यह {time} में समाप्त हो जाएगा।",
+  "forgotPin.code": "रीसेट कोड",
+  "forgotPin.codePlaceholder": "अपने ईमेल में आया कोड दर्ज करें",
+  "forgotPin.verify": "कोड सत्यापित करें",
+  "forgotPin.verifying": "सत्यापित हो रहा है...",
+  "forgotPin.incorrectCode": "गलत कोड",
+  "forgotPin.attemptsLeft": {
+    one: "{message}। {count} प्रयास बचा है।",
+    other: "{message}। {count} प्रयास बचे हैं।",
+  },
+  "forgotPin.locked": "बहुत अधिक गलत प्रयास। फिर से प्रयास करने के लिए नया कोड माँगें।",
+  "forgotPin.expired": "यह कोड समाप्त हो गया है। जारी रखने के लिए नया कोड माँगें।",
+  "forgotPin.differentEmail": "दूसरा ईमेल उपयोग करें",
+  "forgotPin.resend": "कोड फिर से भेजें",
+  "forgotPin.resendIn": "{time} में कोड फिर से भेजें",
+  "forgotPin.newPin": "नया पिन",
+  "forgotPin.newPinPlaceholder": "4 अंकों का नया पिन दर्ज करें",
+  "forgotPin.confirmPin": "नए पिन की पुष्टि करें",
+  "forgotPin.confirmPinPlaceholder": "नया पिन फिर से दर्ज करें",
+  "forgotPin.resetSubmit": "पिन रीसेट करें और लॉग इन करें",
+  "forgotPin.resetting": "पिन रीसेट हो रहा है...",
+  "forgotPin.resetSuccess": "आपका पिन रीसेट हो गया है",
+  "forgotPin.resetFailed": "पिन रीसेट नहीं हो सका",
+  "forgotPin.resetExpired": "आपका रीसेट सत्र समाप्त हो गया है। कृपया नया कोड माँगें।",
+
+  "splash.tagline": "आहार निर्माण प्रणाली",
+
+  "welcome.subtitle": "डेयरी पशु पोषण अनुकूलन प्रणाली",
+  "welcome.description": "हमारी उन्नत पोषण अनुकूलन प्रणाली से अपने डेयरी पशुओं के लिए सर्वोत्तम आहार बनाएँ।",
+
+  "accounts.switchTo": "{name} पर जाएँ",
+  "accounts.add": "खाता जोड़ें",
+  "accounts.enterPinFor": "जारी रखने के लिए {email} का पिन दर्ज करें",
+  "accounts.addDescription": "किसी दूसरे खाते में साइन इन करें। यह इस डिवाइस पर याद रखा जाएगा।",
+  "accounts.emailPlaceholder": "ईमेल दर्ज करें",
+  "accounts.emailRequired": "कृपया ईमेल दर्ज करें",
+  "accounts.switched": "{name} पर बदला गया",
+  "accounts.incorrectPin": "गलत पिन",
+  "accounts.switchFailed": "खाता नहीं बदला जा सका",
+  "accounts.removed": "{name} को इस डिवाइस से हटाया गया",
+  "accounts.remove": "डिवाइस से हटाएँ",
+  "accounts.switch": "बदलें",
+  "accounts.signIn": "साइन इन करें",
+
+  "profile.title": "प्रोफ़ाइल",
+  "profile.description": "अपना नाम और देश बदलें",
+  "profile.save": "बदलाव सहेजें",
+  "profile.saving": "सहेजा जा रहा है...",
+  "profile.updated": "प्रोफ़ाइल अपडेट हो गई",
+  "profile.updatedCountry": "प्रोफ़ाइल अपडेट हो गई। आपके नए देश के लिए चारा सूची फिर से लोड होगी।",
+  "profile.updateFailed": "प्रोफ़ाइल अपडेट नहीं हो सकी",
+  "profile.changePin.title": "पिन बदलें",
+  "profile.changePin.description": "नया पिन चुनने के लिए अपना वर्तमान पिन दर्ज करें",
+  "profile.changePin.current": "वर्तमान पिन",
+  "profile.changePin.currentPlaceholder": "वर्तमान पिन दर्ज करें",
+  "profile.changePin.submit": "पिन बदलें",
+  "profile.changePin.submitting": "पिन बदला जा रहा है...",
+  "profile.changePin.success": "पिन सफलतापूर्वक बदल गया",
+  "profile.changePin.failed": "पिन नहीं बदला जा सका",
+  "profile.appLock.title": "ऐप लॉक",
+  "profile.appLock.description": "निष्क्रिय छोड़ने पर ऐप लॉक करें, साझा फ़ोन पर उपयोगी",
+  "profile.delete.title": "खाता हटाएँ",
+  "profile.delete.description": "अपना खाता और उसका सारा डेटा स्थायी रूप से हटाएँ",
+  "profile.delete.button": "खाता हटाएँ",
+  "profile.delete.confirmTitle": "खाता हटाएँ?",
+  "profile.delete.confirmDescription": "इससे आपका खाता, सहेजी गई रिपोर्ट और प्रतिक्रियाएँ स्थायी रूप से हट जाएँगी। इसे पूर्ववत नहीं किया जा सकता।",
+  "profile.delete.pinLabel": "पुष्टि के लिए अपना पिन दर्ज करें",
+  "profile.delete.pinPlaceholder": "4 अंकों का पिन",
+  "profile.delete.submit": "स्थायी रूप से हटाएँ",
+  "profile.delete.success": "आपका खाता हटा दिया गया है",
+  "profile.delete.failed": "खाता नहीं हटाया जा सका",
+
+  "appLock.title": "ऐप लॉक है",
+  "appLock.signedInAs": "{name} के रूप में साइन इन। जारी रखने के लिए अपना पिन दर्ज करें।",
+  "appLock.unlock": "अनलॉक करें",
+  "appLock.unlockWithPasskey": "पासकी से अनलॉक करें",
+  "appLock.notYou": "आप नहीं हैं? लॉग आउट करें",
+  "appLock.incorrectPin": "गलत पिन",
+  "appLock.verifyFailed": "पिन सत्यापित नहीं हो सका",
+  "appLock.passkeyRejected": "पासकी आपकी पहचान नहीं कर सकी। इसके बजाय अपना पिन उपयोग करें।",
+  "appLock.passkeyFailed": "पासकी से अनलॉक विफल",
+  "appLock.idleLabel": "निष्क्रियता के बाद लॉक करें",
+  "appLock.never": "कभी नहीं",
+  "appLock.minutes": {
+    one: "{count} मिनट",
+    other: "{count} मिनट",
+  },
+  "appLock.passkey": "पासकी",
+  "appLock.passkeyUnsupported": "यह डिवाइस पासकी का समर्थन नहीं करता। इसके बजाय अपने पिन से अनलॉक करें।",
+  "appLock.passkeyEnabled": "यह डिवाइस आपकी उंगली के निशान, चेहरे या स्क्रीन लॉक से अनलॉक हो सकता है।",
+  "appLock.removePasskey": "हटाएँ",
+  "appLock.addPasskey": "इस डिवाइस के लिए पासकी जोड़ें",
+  "appLock.passkeyAdded": "पासकी जोड़ी गई। अब आप इस डिवाइस से अनलॉक कर सकते हैं।",
+  "appLock.passkeyAddFailed": "पासकी नहीं जोड़ी जा सकी",
+  "appLock.passkeyRemoved": "पासकी इस डिवाइस से हटा दी गई",
+
+  "offline.title": "कतार में आहार योजनाएँ",
+  "offline.online": "ऑफ़लाइन रहते हुए माँगी गई सिफारिशें",
+  "offline.offline": "आप ऑफ़लाइन हैं। फिर से जुड़ने पर कतार के अनुरोध भेजे जाएँगे।",
+  "offline.status.pending": "कनेक्शन की प्रतीक्षा",
+  "offline.status.processing": "भेजा जा रहा है",
+  "offline.status.complete": "पूर्ण",
+  "offline.status.failed": "विफल",
+  "offline.jobTitle": {
+    one: "{breed} · {count} चारा",
+    other: "{breed} · {count} चारे",
+  },
+  "offline.recommendation": "सिफारिश",
+  "offline.queuedAt": "{date} को कतार में जोड़ा गया",
+  "offline.view": "सिफारिश देखें",
+  "offline.retry": "कतार की सिफारिश फिर से आज़माएँ",
+  "offline.remove": "कतार की सिफारिश हटाएँ",
+  "offline.retryFailed": "फिर से प्रयास नहीं हो सका",
+  "offline.removeFailed": "अनुरोध नहीं हटाया जा सका",
+  "offline.ready": "कतार की सिफारिश तैयार है",
+  "offline.readyAction": "देखें",
+
+  "herd.title": "मेरा झुंड",
+  "herd.description": "सहेजे गए पशुओं की जानकारी अगली बार तक बनी रहती है",
+  "herd.add": "पशु जोड़ें",
+  "herd.empty": "अभी तक कोई पशु सहेजा नहीं गया",
+  "herd.active": "सक्रिय",
+  "herd.tag": "टैग {tag}",
+  "herd.noDetails": "अभी कोई विवरण नहीं",
+  "herd.updatedOn": "{date} को अपडेट किया गया",
+  "herd.startFormulation": "आहार योजना शुरू करें",
+  "herd.startFormulationFor": "{name} के लिए आहार योजना शुरू करें",
+  "herd.edit": "विवरण संपादित करें",
+  "herd.editName": "{name} संपादित करें",
+  "herd.duplicate": "प्रतिलिपि बनाएँ",
+  "herd.duplicateName": "{name} की प्रतिलिपि बनाएँ",
+  "herd.delete": "हटाएँ",
+  "herd.deleteName": "{name} हटाएँ",
+  "herd.duplicated": "{name} की प्रतिलिपि बनाई गई",
+  "herd.deleted": "{name} हटाया गया",
+  "herd.deleteTitle": "पशु हटाएँ?",
+  "herd.deleteDescription": "{name} और उसकी सहेजी गई जानकारी इस डिवाइस से हटा दी जाएगी।",
+  "herd.picker.label": "पशु",
+  "herd.picker.placeholder": "पशु चुनें",
+  "herd.picker.unnamed": "बिना नाम का पशु",
+  "herd.picker.new": "नया",
+  "herd.dialog.editTitle": "पशु संपादित करें",
+  "herd.dialog.newTitle": "नया पशु",
+  "herd.dialog.description": "पशु को नाम और टैग दें ताकि अगली बार आप उसे ढूँढ सकें",
+  "herd.dialog.name": "नाम",
+  "herd.dialog.namePlaceholder": "जैसे गौरी",
+  "herd.dialog.earTag": "कान टैग आईडी (वैकल्पिक)",
+  "herd.dialog.earTagPlaceholder": "जैसे KE-0421",
+  "herd.dialog.farm": "फ़ार्म (वैकल्पिक)",
+  "herd.dialog.farmPlaceholder": "जैसे वंजीरू फ़ार्म",
+  "herd.dialog.save": "सहेजें",
+  "herd.dialog.create": "बनाएँ",
+  "herd.dialog.updated": "पशु प्रोफ़ाइल अपडेट हो गई",
+  "herd.dialog.created": "पशु प्रोफ़ाइल बनाई गई",
+
+  "baskets.title": "चारा टोकरियाँ",
+  "baskets.description": "आपकी पिछली दर्ज कीमतों के साथ दोबारा उपयोग होने वाले चारा समूह",
+  "baskets.empty": "अभी तक कोई टोकरी सहेजी नहीं गई",
+  "baskets.emptyHint": "चारे चुनें और एक बनाने के लिए \"टोकरी के रूप में सहेजें\" का उपयोग करें।",
+  "baskets.pricesUpdatedOn": "{date} को कीमतें अपडेट की गईं",
+  "baskets.load": "चारा चयन में लोड करें",
+  "baskets.loadName": "{name} लोड करें",
+  "baskets.updatePrices": "कीमतें अपडेट करें",
+  "baskets.updatePricesFor": "{name} की कीमतें अपडेट करें",
+  "baskets.delete": "टोकरी हटाएँ",
+  "baskets.deleteName": "{name} हटाएँ",
+  "baskets.loaded": "\"{name}\" लोड किया गया",
+  "baskets.deleted": "टोकरी \"{name}\" हटाई गई",
+  "baskets.deleteTitle": "टोकरी हटाएँ?",
+  "baskets.deleteDescription": "{name} इस डिवाइस से हटा दी जाएगी।",
+  "baskets.deleteConfirm": "हटाएँ",
+  "baskets.replaceTitle": "चुने गए चारे बदलें?",
+  "baskets.replaceDescription": {
+    one: "{name} लोड करने से आपका चुना गया {count} चारा बदल जाएगा।",
+    other: "{name} लोड करने से आपके चुने गए {count} चारे बदल जाएँगे।",
+  },
+  "baskets.replaceConfirm": "टोकरी लोड करें",
+  "baskets.save.button": "टोकरी के रूप में सहेजें",
+  "baskets.save.title": "चारा टोकरी सहेजें",
+  "baskets.save.description": {
+    one: "यह चारा और इसकी कीमत अगली बार के लिए रखें",
+    other: "ये {count} चारे और उनकी कीमतें अगली बार के लिए रखें",
+  },
+  "baskets.save.target": "यहाँ सहेजें",
+  "baskets.save.new": "नई टोकरी",
+  "baskets.save.replace": "\"{name}\" को बदलें",
+  "baskets.save.name": "टोकरी का नाम",
+  "baskets.save.namePlaceholder": "जैसे सूखा मौसम - कियाम्बु",
+  "baskets.save.submit": "सहेजें",
+  "baskets.save.nameRequired": "कृपया टोकरी का नाम दर्ज करें",
+  "baskets.save.saved": "टोकरी \"{name}\" सहेजी गई",
+  "baskets.save.updated": "टोकरी \"{name}\" अपडेट की गई",
+  "baskets.prices.title": "कीमतें अपडेट करें",
+  "baskets.prices.description": "{name}: आज की बाज़ार कीमतें दर्ज करें ({unit})",
+  "baskets.prices.perKg": "प्रति kg",
+  "baskets.prices.percent": "सभी कीमतें % से बदलें",
+  "baskets.prices.percentPlaceholder": "जैसे 10 या -5",
+  "baskets.prices.apply": "लागू करें",
+  "baskets.prices.submit": "कीमतें सहेजें",
+  "baskets.prices.invalid": "हर कीमत शून्य से अधिक होनी चाहिए",
+  "baskets.prices.updated": "कीमतें अपडेट हो गईं",
+
+  "compare.title": "परिदृश्यों की तुलना करें",
+  "compare.description": "सबसे अच्छे मान हरे रंग में हैं; आधार से अलग चारे की मात्राएँ पीले रंग में",
+  "compare.clearAll": "सब हटाएँ",
+  "compare.emptyTitle": "तुलना के लिए कोई परिदृश्य नहीं",
+  "compare.emptyDescription": "सिफारिश बनाएँ और उसे यहाँ जोड़ने के लिए \"तुलना करें\" का उपयोग करें। चारे बदलें और दोहराएँ ताकि {max} तक आहार योजनाएँ साथ-साथ देख सकें।",
+  "compare.goToFeedSelection": "चारा चयन पर जाएँ",
+  "compare.saved": "सहेजा गया",
+  "compare.unknownBreed": "अज्ञात नस्ल",
+  "compare.scenarioSummary": {
+    one: "{breed} · {count} चारा · {date}",
+    other: "{breed} · {count} चारे · {date}",
+  },
+  "compare.saveAsReport": "रिपोर्ट के रूप में सहेजें",
+  "compare.saveNameAsReport": "{name} को रिपोर्ट के रूप में सहेजें",
+  "compare.remove": "तुलना से हटाएँ",
+  "compare.removeName": "{name} हटाएँ",
+  "compare.savedToReports": "\"{name}\" आपकी रिपोर्ट में सहेजा गया",
+  "compare.saveFailed": "रिपोर्ट सहेजी नहीं जा सकी। कृपया बाद में फिर से प्रयास करें।",
+  "compare.clearTitle": "तुलना हटाएँ?",
+  "compare.clearDescription": {
+    one: "परिदृश्य हटा दिया जाएगा। पहले से सहेजी गई रिपोर्ट बनी रहेंगी।",
+    other: "सभी {count} परिदृश्य हटा दिए जाएँगे। पहले से सहेजी गई रिपोर्ट बनी रहेंगी।",
+  },
+  "compare.clear": "हटाएँ",
+  "compare.add.button": "तुलना करें",
+  "compare.add.inComparison": "तुलना में है",
+  "compare.add.title": "तुलना में जोड़ें",
+  "compare.add.description": "इस आहार योजना को नाम दें ताकि आप इसे दूसरों से अलग पहचान सकें",
+  "compare.add.name": "परिदृश्य का नाम",
+  "compare.add.namePlaceholder": "जैसे बिनौला खली के साथ",
+  "compare.add.defaultName": "परिदृश्य {number}",
+  "compare.add.limit": "{max} तक परिदृश्यों की तुलना की जा सकती है। \"{name}\" बदल दिया जाएगा।",
+  "compare.add.submit": "जोड़ें",
+  "compare.add.nameRequired": "कृपया परिदृश्य का नाम दर्ज करें",
+  "compare.add.added": "\"{name}\" तुलना में जोड़ा गया",
+  "compare.add.viewAction": "तुलना करें",
+  "compare.table.metric": "मापदंड",
+  "compare.table.baseline": "आधार",
+  "compare.table.dailyCost": "दैनिक लागत",
+  "compare.table.costPerMilk": "प्रति {unit} दूध लागत",
+  "compare.table.milkProduction": "दूध उत्पादन",
+  "compare.table.dryMatterIntake": "शुष्क पदार्थ सेवन",
+  "compare.table.methane": "मीथेन",
+  "compare.table.methaneYield": "CH₄ उपज",
+  "compare.table.methaneIntensity": "CH₄ तीव्रता",
+  "compare.table.perDay": "{unit}/दिन",
+  "compare.table.leastCostDiet": "न्यूनतम लागत आहार ({unit}/दिन)",
+
+  "feedback.title": "प्रतिक्रिया भेजें",
+  "feedback.description": "अपने विचार और सुझाव साझा करें",
+  "feedback.label": "प्रतिक्रिया",
+  "feedback.placeholder": "अपनी प्रतिक्रिया दर्ज करें...",
+  "feedback.rating": "रेटिंग (वैकल्पिक)",
+  "feedback.submit": "प्रतिक्रिया भेजें",
+  "feedback.submitting": "भेजा जा रहा है...",
+  "feedback.success": "प्रतिक्रिया सफलतापूर्वक भेजी गई",
+  "feedback.required": "कृपया अपनी प्रतिक्रिया दर्ज करें",
+  "feedback.submitFailed": "प्रतिक्रिया नहीं भेजी जा सकी",
+  "feedback.loadFailed": "प्रतिक्रियाएँ लोड नहीं हो सकीं",
+  "feedback.history": "आपकी प्रतिक्रियाएँ",
+
+  "reports.title": "सहेजी गई रिपोर्ट",
+  "reports.description": "अपनी सहेजी गई आहार योजना रिपोर्ट देखें और प्रबंधित करें",
+  "reports.empty": "अभी तक कोई रिपोर्ट सहेजी नहीं गई",
+  "reports.loadFailed": "रिपोर्ट लोड नहीं हो सकीं",
+  "reports.urlUnavailable": "रिपोर्ट का लिंक उपलब्ध नहीं है",
+  "reports.deleteComingSoon": "हटाने की सुविधा जल्द आ रही है",
+  "reports.download": "PDF डाउनलोड करें",
+  "reports.downloadLabel": "PDF रिपोर्ट डाउनलोड करें",
+  "reports.delete": "रिपोर्ट हटाएँ",
+
+  "forbidden.title": "पहुँच अस्वीकृत",
+  "forbidden.description": "यह पेज केवल व्यवस्थापकों के लिए उपलब्ध है।",
+  "forbidden.back": "पशु जानकारी पर जाएँ",
+};
@@ -0,0 +1,658 @@
+import type { Message, MessageKey } from "./en";
+
+export const sw: Record<MessageKey, Message> = {
+  "common.back": "Rudi",
+  "common.continue": "Endelea",
+  "common.reset": "Weka upya",
+  "common.cancel": "Ghairi",
+  "common.yes": "Ndiyo",
+  "common.no": "Hapana",
+  "common.notAvailable": "Haipatikani",
+
+  "validation.breedRequired": "Aina ya ng'ombe inahitajika",
+  "validation.topographyRequired": "Umbo la ardhi linahitajika",
+  "validation.min": "Lazima iwe angalau {min}",
+  "validation.max": "Lazima isizidi {max}",
+  "validation.requiredWhenLactating": "Inahitajika kwa ng'ombe anayekamuliwa",
+  "validation.requiredWhenGrazing": "Inahitajika ng'ombe anapochunga",
+  "validation.milkWhenDry": "Uzalishaji wa maziwa umewekwa, kwa hiyo ng'ombe lazima awe anakamuliwa",
+  "validation.pregnancyTooLong": "Mimba hudumu siku {max} au chini",
+  "validation.daysInMilkOverInterval": "Haipaswi kuzidi muda kati ya kuzaa (siku {max})",
+  "validation.pregnancyOverDaysInMilk": "Haipaswi kuzidi siku za kukamuliwa ({max})",
+  "validation.inconsistentCattleInfo": "Taarifa za ng'ombe hazilingani. Tafadhali zikague kisha ujaribu tena.",
+  "validation.emailInvalid": "Barua pepe si sahihi",
+  "validation.pinLength": "PIN lazima iwe na tarakimu 4 kamili",
+  "validation.pinDigits": "PIN lazima iwe na tarakimu pekee",
+  "validation.pinsMismatch": "PIN hazilingani",
+  "validation.nameRequired": "Jina linahitajika",
+  "validation.countryRequired": "Nchi inahitajika",
+  "validation.codeRequired": "Weka msimbo uliotumwa kwa barua pepe yako",
+  "validation.pinUnchanged": "PIN mpya lazima iwe tofauti na PIN yako ya sasa",
+
+  "language.title": "Lugha",
+  "language.description": "Chagua lugha ya programu na ripoti zako za PDF",
+  "language.automatic": "Otomatiki ({language})",
+
+  "units.title": "Vipimo",
+  "units.description": "Chagua vipimo vya kuingiza taarifa za ng'ombe na kusoma ripoti",
+  "units.system": "Mfumo wa vipimo",
+  "units.metric": "Metriki (kg, km, °C)",
+  "units.imperial": "Kiingereza (lb, mi, °F)",
+  "units.milk": "Maziwa",
+  "units.milkVolume": "Kwa ujazo (L, gal)",
+  "units.milkMass": "Kwa uzito (kg, lb)",
+
+  "cattleInfo.title": "Taarifa za Ng'ombe",
+  "cattleInfo.description": "Weka taarifa za ng'ombe wako ili upate mapendekezo ya chakula",
+  "cattleInfo.section.animal": "Sifa za Mnyama",
+  "cattleInfo.section.milk": "Uzalishaji wa Maziwa",
+  "cattleInfo.section.reproduction": "Taarifa za Uzazi",
+  "cattleInfo.section.environment": "Mazingira",
+  "cattleInfo.breed": "Aina",
+  "cattleInfo.selectBreed": "Chagua aina",
+  "cattleInfo.breedOther": "Nyingine",
+  "cattleInfo.bodyWeight": "Uzito wa Mwili ({unit})",
+  "cattleInfo.bcScore": "Alama ya Hali ya Mwili (1-5)",
+  "cattleInfo.bwGain": "Ongezeko la Uzito kwa Siku ({unit})",
+  "cattleInfo.lactating": "Anakamuliwa",
+  "cattleInfo.milkProduction": "Uzalishaji wa Maziwa ({unit}/siku)",
+  "cattleInfo.fatMilk": "Mafuta ya Maziwa (%)",
+  "cattleInfo.tpMilk": "Protini ya Maziwa (%)",
+  "cattleInfo.daysInMilk": "Siku za Kukamuliwa",
+  "cattleInfo.parity": "Idadi ya Kuzaa",
+  "cattleInfo.calvingInterval": "Muda kati ya Kuzaa (siku)",
+  "cattleInfo.daysOfPregnancy": "Siku za Mimba",
+  "cattleInfo.grazing": "Malisho",
+  "cattleInfo.distance": "Umbali ({unit})",
+  "cattleInfo.topography": "Umbo la Ardhi",
+  "cattleInfo.selectTopography": "Chagua umbo la ardhi",
+  "cattleInfo.topography.Flat": "Tambarare",
+  "cattleInfo.topography.Hilly": "Vilima",
+  "cattleInfo.topography.Mountainous": "Milima",
+  "cattleInfo.temperature": "Joto ({unit})",
+  "cattleInfo.mode.label": "Njia ya kuingiza",
+  "cattleInfo.mode.wizard": "Hatua kwa hatua",
+  "cattleInfo.mode.form": "Fomu kamili",
+
+  "wizard.progress": "Swali {current} kati ya {total}",
+  "wizard.next": "Endelea",
+  "wizard.finish": "Maliza",
+  "wizard.autosaved": "Majibu yako yanahifadhiwa unapoendelea",
+  "wizard.reviewTitle": "Kagua majibu yako",
+  "wizard.change": "Badilisha",
+  "wizard.fixAnswers": "Baadhi ya majibu yanahitaji kurekebishwa",
+  "wizard.question.breed": "Ng'ombe ni wa aina gani?",
+  "wizard.question.body_weight": "Ng'ombe ana uzito gani?",
+  "wizard.question.bc_score": "Picha ipi inafanana zaidi na ng'ombe akitazamwa kwa nyuma?",
+  "wizard.question.bw_gain": "Anaongeza uzito kiasi gani kila siku?",
+  "wizard.question.lactating": "Je, ng'ombe anatoa maziwa sasa?",
+  "wizard.question.milk_production": "Anatoa maziwa kiasi gani kila siku?",
+  "wizard.question.fat_milk": "Maziwa yake yana mafuta kiasi gani?",
+  "wizard.question.tp_milk": "Maziwa yake yana protini kiasi gani?",
+  "wizard.question.days_in_milk": "Alizaa siku ngapi zilizopita?",
+  "wizard.question.parity": "Amezaa mara ngapi?",
+  "wizard.question.calving_interval": "Kuna siku ngapi kati ya kuzaa kwake?",
+  "wizard.question.days_of_pregnancy": "Amekuwa na mimba kwa siku ngapi?",
+  "wizard.question.grazing": "Je, ng'ombe anakwenda kuchunga?",
+  "wizard.question.distance": "Anatembea umbali gani kila siku?",
+  "wizard.question.topography": "Ardhi anayotembea iko vipi?",
+  "wizard.question.temperature": "Kwa kawaida joto la nje ni kiasi gani?",
+  "wizard.hint.breedTypical": "Kama hujui, acha kiwango cha kawaida cha aina hii",
+  "wizard.hint.notPregnant": "Weka 0 kama hana mimba",
+  "wizard.bcs.1": "Amekonda sana",
+  "wizard.bcs.2": "Amekonda",
+  "wizard.bcs.3": "Hali nzuri",
+  "wizard.bcs.4": "Mnene",
+  "wizard.bcs.5": "Mnene sana",
+
+  "weightEstimator.title": "Huna mizani? Tumia utepe wa kupimia",
+  "weightEstimator.instructions": "Zungusha utepe kifuani, nyuma kidogo ya miguu ya mbele, na usome anapotoa pumzi",
+  "weightEstimator.heartGirth": "Mzunguko wa kifua ({unit})",
+  "weightEstimator.estimate": "Uzito unaokadiriwa: {weight}",
+  "weightEstimator.outOfRange": "Kagua kipimo. Kinapaswa kuwa kati ya {min} na {max}",
+  "weightEstimator.use": "Tumia uzito huu",
+  "weightEstimator.open": "Kadiria kwa vipimo vya utepe",
+  "weightEstimator.bodyLength": "Urefu wa mwili ({unit}, si lazima)",
+  "weightEstimator.bodyLengthHint": "Kutoka ncha ya bega hadi mfupa wa nyonga ya nyuma. Kuuongeza kunatoa makadirio bora",
+  "weightEstimator.lengthOutOfRange": "Angalia urefu wa mwili. Unapaswa kuwa kati ya {min} na {max}",
+  "weightEstimator.formula.heinrichs": "Heinrichs et al. (1992), mzunguko wa kifua, iliundwa kwa Holstein",
+  "weightEstimator.formula.schaeffer": "Fomula ya Schaeffer, mzunguko wa kifua na urefu wa mwili",
+  "weightEstimator.formula.crevat": "Fomula ya Crevat, mzunguko wa kifua",
+  "weightEstimator.formula.quetelet": "Fomula ya Quételet, mzunguko wa kifua na urefu wa mwili",
+  "weightEstimator.formulaUnits": "W ni uzito kwa kg, HG mzunguko wa kifua na L urefu wa mwili kwa cm",
+  "weightEstimator.confidence.good": "Uhakika mkubwa: kwa kawaida ndani ya takriban 10% ya uzito wa mizani",
+  "weightEstimator.confidence.fair": "Uhakika wa wastani: mwongozo wa takriban unaoweza kutofautiana zaidi",
+  "weightEstimator.confidence.low": "Uhakika mdogo: unaweza kutofautiana sana na uzito wa mizani",
+  "weightEstimator.selectBreed": "Chagua aina ili kutumia fomula zinazoifaa",
+
+  "feedSelection.title": "Uchaguzi wa Chakula",
+  "feedSelection.description": "Chagua vyakula vya kutengeneza lishe ya ng'ombe wako",
+  "feedSelection.loadBasket": "Pakia kikapu kilichohifadhiwa",
+  "feedSelection.basketOption": { one: "{name} (chakula {count})", other: "{name} (vyakula {count})" },
+  "feedSelection.search": "Tafuta Vyakula",
+  "feedSelection.browse": "Au vinjari kwa aina na kundi",
+  "feedSelection.feedType": "Aina ya Chakula",
+  "feedSelection.selectFeedType": "Chagua aina ya chakula",
+  "feedSelection.feedCategory": "Kundi la Chakula",
+  "feedSelection.selectFeedCategory": "Chagua kundi la chakula",
+  "feedSelection.feedName": "Jina la Chakula",
+  "feedSelection.selectFeedName": "Chagua jina la chakula",
+  "feedSelection.pricePerKg": "Bei kwa kg",
+  "feedSelection.enterPrice": "Weka bei",
+  "feedSelection.addFeed": "Ongeza Chakula",
+  "feedSelection.selectedFeeds": "Vyakula Vilivyochaguliwa ({count})",
+  "feedSelection.evaluate": "Tathmini Lishe ya Sasa",
+  "feedSelection.continue": "Endelea kwa Pendekezo",
+  "feedSelection.loadTypesFailed": "Imeshindwa kupakia aina za vyakula",
+  "feedSelection.loadCategoriesFailed": "Imeshindwa kupakia makundi ya vyakula",
+  "feedSelection.loadSubCategoriesFailed": "Imeshindwa kupakia makundi madogo ya vyakula",
+  "feedSelection.loadDetailsFailed": "Imeshindwa kupakia maelezo ya chakula",
+  "feedSelection.selectFeedAndPrice": "Tafadhali chagua chakula na uweke bei",
+  "feedSelection.alreadySelected": "{name} tayari kimechaguliwa",
+  "feedSelection.feedsAdded": { one: "Chakula {count} kimeongezwa", other: "Vyakula {count} vimeongezwa" },
+  "feedSelection.feedsFailed": {
+    one: "Imeshindwa kupakia maelezo ya chakula {count}",
+    other: "Imeshindwa kupakia maelezo ya vyakula {count}",
+  },
+  "feedSelection.basketLoaded": "\"{name}\" kimepakiwa",
+  "feedSelection.replaceTitle": "Badilisha vyakula vilivyochaguliwa?",
+  "feedSelection.replaceDescription": {
+    one: "Kupakia \"{name}\" kutabadilisha chakula {count} ulichochagua.",
+    other: "Kupakia \"{name}\" kutabadilisha vyakula {count} ulivyochagua.",
+  },
+  "feedSelection.replaceConfirm": "Pakia kikapu",
+  "feedSelection.addAtLeastOne": "Tafadhali ongeza angalau chakula kimoja",
+  "feedSelection.searchUnavailable": "Utafutaji wa vyakula haupatikani kwa sasa. Vinjari kwa aina hapa chini badala yake.",
+  "feedSelection.searchPlaceholder": "Tafuta vyakula kwa jina au jina la kienyeji",
+  "feedSelection.noMatches": "Hakuna chakula kinacholingana na \"{query}\"",
+  "feedSelection.matchesAlias": "kinalingana na \"{alias}\"",
+  "feedSelection.selected": "Kimechaguliwa",
+  "feedSelection.enterPrices": "Weka bei ({unit})",
+  "feedSelection.perKg": "kwa kg",
+  "feedSelection.price": "Bei",
+  "feedSelection.priceFor": "Bei ya {name}",
+  "feedSelection.unselect": "Ondoa chaguo la {name}",
+  "feedSelection.addPicked": { one: "Ongeza chakula {count}", other: "Ongeza vyakula {count}" },
+  "feedSelection.removeFeed": "Ondoa {name}",
+  "feedSelection.nutrient.dm": "DM",
+  "feedSelection.nutrient.cp": "CP",
+  "feedSelection.nutrient.ndf": "NDF",
+  "feedSelection.nutrient.adf": "ADF",
+  "feedSelection.nutrient.ee": "EE",
+  "feedSelection.nutrient.ash": "Majivu",
+  "feedSelection.nutrientPercent": "{nutrient} %",
+  "feedSelection.pricePerKgIn": "Bei kwa kg ({currency})",
+
+  "recommendation.title": "Pendekezo la Lishe",
+  "recommendation.generatedOn": "Imetolewa {date}",
+  "recommendation.reportId": "Kitambulisho: {id}",
+  "recommendation.dailyCost": "Gharama kwa Siku",
+  "recommendation.milkProduction": "Uzalishaji wa Maziwa",
+  "recommendation.dryMatterIntake": "Ulaji wa Makapi Makavu",
+  "recommendation.methanePerDay": "Methani/siku",
+  "recommendation.animalInformation": "Taarifa za Mnyama",
+  "recommendation.breed": "Aina",
+  "recommendation.bodyWeight": "Uzito wa Mwili",
+  "recommendation.bodyCondition": "Hali ya Mwili",
+  "recommendation.daysInMilk": "Siku za Kukamuliwa",
+  "recommendation.parity": "Idadi ya Kuzaa",
+  "recommendation.temperature": "Joto",
+  "recommendation.topography": "Umbo la Ardhi",
+  "recommendation.grazing": "Malisho",
+  "recommendation.recommendedDiet": "Lishe Inayopendekezwa",
+  "recommendation.ingredientCount": {
+    one: "Kiambato {count} cha chakula kinapendekezwa",
+    other: "Viambato {count} vya chakula vinapendekezwa",
+  },
+  "recommendation.noDietAvailable": "Hakuna mchanganyiko maalum wa lishe",
+  "recommendation.feedName": "Jina la Chakula",
+  "recommendation.quantity": "Kiasi ({unit})",
+  "recommendation.dmIntake": "Ulaji wa DM ({unit})",
+  "recommendation.cost": "Gharama",
+  "recommendation.feedFallback": "Chakula {number}",
+  "recommendation.noOptimalDiet": "Mfumo haukupata lishe bora kwa vyakula vilivyochaguliwa.",
+  "recommendation.tryMoreFeeds": "Jaribu kuongeza vyakula vya aina mbalimbali (malisho na vyakula vya nguvu).",
+  "recommendation.environmentalImpact": "Athari kwa Mazingira",
+  "recommendation.methaneProduction": "Uzalishaji wa CH₄",
+  "recommendation.methaneYield": "Kiwango cha CH₄",
+  "recommendation.methaneIntensity": "Ukali wa CH₄",
+  "recommendation.conversionRate": "Kiwango cha Ubadilishaji",
+  "recommendation.saveReport": "Hifadhi Ripoti",
+  "recommendation.saved": "Imehifadhiwa",
+  "recommendation.downloadPdf": "Pakua PDF",
+  "recommendation.queuedTitle": "Pendekezo Limewekwa Foleni",
+  "recommendation.queuedFailedTitle": "Pendekezo la Foleni Limeshindwa",
+  "recommendation.queuedProcessing": "Tunatengeneza pendekezo lako...",
+  "recommendation.queuedPending": "Litatengenezwa moja kwa moja utakaporudi mtandaoni.",
+  "recommendation.viewQueue": "Angalia Foleni",
+  "recommendation.emptyTitle": "Hakuna Pendekezo",
+  "recommendation.emptyDescription": "Tafadhali kamilisha taarifa za ng'ombe na uchague vyakula kwanza.",
+  "recommendation.goToCattleInfo": "Nenda kwa Taarifa za Ng'ombe",
+  "recommendation.queuedNotFound": "Pendekezo la foleni halikupatikana",
+  "recommendation.offlineRetry": "Huko mtandaoni. Tafadhali jaribu tena ukiunganishwa.",
+  "recommendation.queuedOffline": "Huko mtandaoni. Pendekezo litatengenezwa utakapounganishwa tena.",
+  "recommendation.queueFailed": "Imeshindwa kuweka pendekezo kwenye foleni",
+  "recommendation.completeInputs": "Tafadhali kamilisha taarifa za ng'ombe na uchague vyakula",
+  "recommendation.failed": "Imeshindwa kutoa pendekezo",
+  "recommendation.unableToSave": "Imeshindwa kuhifadhi ripoti",
+  "recommendation.waitingForReport": "Tunasubiri ripoti iwe tayari... (jaribio {attempt}/{max})",
+  "recommendation.reportSaved": "Ripoti imehifadhiwa kwenye akaunti yako!",
+  "recommendation.generatingLocally": "Seva haipatikani. Tunatengeneza PDF kwenye kifaa...",
+  "recommendation.pdfDownloaded": "PDF imepakuliwa!",
+  "recommendation.pdfFailed": "Imeshindwa kutengeneza PDF",
+  "recommendation.pdfFailedRetry": "Imeshindwa kutengeneza PDF. Tafadhali jaribu tena.",
+
+  "evaluation.title": "Tathmini Lishe ya Sasa",
+  "evaluation.description": "Weka kiasi cha kila chakula ambacho ng'ombe wako hula leo (kama kinavyolishwa, {unit}/siku)",
+  "evaluation.quantity": "Kiasi ({unit}/siku)",
+  "evaluation.editFeeds": "Badilisha Vyakula",
+  "evaluation.run": "Fanya Tathmini",
+  "evaluation.emptyTitle": "Hakuna cha Kutathmini",
+  "evaluation.emptyDescription": "Tafadhali kamilisha taarifa za ng'ombe na uchague vyakula unavyotumia sasa.",
+  "evaluation.goToFeedSelection": "Nenda kwenye Uchaguzi wa Chakula",
+  "evaluation.quantitiesRequired": "Tafadhali weka kiasi cha kila siku kwa kila chakula",
+  "evaluation.failed": "Imeshindwa kutathmini lishe",
+  "evaluation.panelTitle": "Tathmini ya Lishe ya Sasa",
+  "evaluation.panelDescription": "Jinsi vyakula vilivyochaguliwa vinavyokidhi mahitaji ya mnyama",
+  "evaluation.overallStatus": "Hali ya Jumla",
+  "evaluation.limitingFactor": "Kizuizi Kikuu",
+  "evaluation.none": "Hakuna",
+  "evaluation.milkProduction": "Uzalishaji wa Maziwa",
+  "evaluation.target": "Lengo",
+  "evaluation.supported": "Inayowezeshwa",
+  "evaluation.byEnergy": "Kwa Nishati",
+  "evaluation.byProtein": "Kwa Protini",
+  "evaluation.limitedBy": "Imezuiwa na:",
+  "evaluation.dryMatterIntake": "Ulaji wa Chakula Kikavu",
+  "evaluation.actual": "Halisi",
+  "evaluation.difference": "Tofauti",
+  "evaluation.ofTarget": "Ya Lengo",
+  "evaluation.status": "Hali:",
+  "evaluation.costAnalysis": "Uchambuzi wa Gharama",
+  "evaluation.dailyDietCost": "Gharama ya Lishe kwa Siku",
+  "evaluation.costPerKgMilk": "Gharama kwa kg ya Maziwa",
+  "evaluation.methaneEmissions": "Utoaji wa Methani",
+  "evaluation.nutrientBalance": "Uwiano wa Virutubisho",
+  "evaluation.nutrientBalanceDescription": "Kinachotolewa kutoa mahitaji; thamani hasi ni upungufu",
+  "evaluation.energy": "Nishati",
+  "evaluation.protein": "Protini",
+  "evaluation.calcium": "Kalsiamu",
+  "evaluation.phosphorus": "Fosforasi",
+  "evaluation.ndf": "NDF",
+  "evaluation.feedBreakdown": "Mchanganuo wa Vyakula",
+  "evaluation.feedBreakdownDescription": "Mchango wa kila chakula katika lishe ya sasa",
+  "evaluation.asFed": "Kama Kinavyolishwa ({unit})",
+  "evaluation.dryMatter": "DM ({unit})",
+  "evaluation.contribution": "Mchango",
+  "evaluation.noBreakdown": "Hakuna mchanganuo wa vyakula kwa tathmini hii.",
+
+  "sensitivity.title": "Athari ya Bei",
+  "sensitivity.description": "Ona jinsi lishe inavyobadilika bei ya chakula kimoja ikibadilika",
+  "sensitivity.feed": "Chakula",
+  "sensitivity.selectFeed": "Chagua chakula",
+  "sensitivity.feedOption": "{name} ({price}/kg)",
+  "sensitivity.from": "Kuanzia (%)",
+  "sensitivity.to": "Hadi (%)",
+  "sensitivity.steps": "Hatua",
+  "sensitivity.run": "Endesha",
+  "sensitivity.running": "Inaendesha michanganyiko {done}/{total}...",
+  "sensitivity.breakEven": "{name} kinaondoka kwenye lishe kati ya {low} na {high} kwa kg.",
+  "sensitivity.staysIncluded": "{name} kinabaki kwenye lishe katika bei hizi zote.",
+  "sensitivity.noBreakEven": "Hakuna bei ya kikomo iliyopatikana katika kipindi hiki.",
+  "sensitivity.inclusionChart": "Kiasi Kilichojumuishwa ({unit}/siku)",
+  "sensitivity.dailyCostChart": "Jumla ya Gharama kwa Siku",
+  "sensitivity.pricePerKg": "Bei/kg",
+  "sensitivity.inclusion": "Kiasi",
+  "sensitivity.invalidRange": "Weka kiwango sahihi cha bei, k.m. -30% hadi 50%",
+  "sensitivity.invalidSteps": "Tumia hatua kati ya {min} na {max}",
+  "sensitivity.failed": "Uchambuzi wa bei umeshindwa",
+  "sensitivity.failedRetry": "Uchambuzi wa bei umeshindwa. Tafadhali jaribu tena.",
+  "sensitivity.cancelled": "Uchambuzi wa bei umesitishwa",
+
+  "nav.cattleInfo": "Taarifa za Ng'ombe",
+  "nav.herd": "Kundi Langu",
+  "nav.baskets": "Vikapu vya Chakula",
+  "nav.compare": "Linganisha",
+  "nav.reports": "Ripoti",
+  "nav.feedReports": "Ripoti za Chakula",
+  "nav.feedback": "Maoni",
+  "nav.profile": "Wasifu",
+  "nav.admin": "Msimamizi",
+  "nav.adminPanel": "Paneli ya Msimamizi",
+  "nav.menu": "Menyu",
+  "nav.openMenu": "Fungua menyu",
+  "nav.userMenu": "Menyu ya mtumiaji",
+  "nav.switchAccount": "Badilisha akaunti",
+  "nav.addAccount": "Ongeza Akaunti",
+  "nav.help": "Msaada",
+  "nav.logout": "Toka",
+  "nav.toggleTheme": "Badilisha mandhari",
+
+  "auth.email": "Barua pepe",
+  "auth.emailPlaceholder": "Weka barua pepe yako",
+  "auth.pin": "PIN",
+  "auth.pinPlaceholder": "Weka PIN ya tarakimu 4",
+  "auth.error": "Hitilafu imetokea",
+
+  "login.title": "Ingia",
+  "login.description": "Weka barua pepe na PIN yako ili kuingia kwenye akaunti yako",
+  "login.forgotPin": "Umesahau PIN?",
+  "login.noAccount": "Huna akaunti?",
+  "login.register": "Jisajili",
+  "login.submit": "Ingia",
+  "login.submitting": "Inaingia...",
+  "login.retryIn": "Jaribu tena baada ya {time}",
+  "login.success": "Umeingia!",
+  "login.failed": "Kuingia kumeshindikana",
+  "login.error": "Hitilafu imetokea wakati wa kuingia",
+  "login.locked": "Majaribio mengi yameshindikana. Kuingia kumefungwa kwa {time}.",
+  "login.wait": "Tafadhali subiri sekunde {seconds} kabla ya kujaribu tena.",
+  "login.attemptsRemaining": {
+    one: "Limebaki jaribio {count} kabla akaunti yako haijafungwa kwa muda.",
+    other: "Yamebaki majaribio {count} kabla akaunti yako haijafungwa kwa muda.",
+  },
+
+  "register.title": "Jisajili",
+  "register.description": "Fungua akaunti mpya ili kuanza",
+  "register.haveAccount": "Una akaunti tayari?",
+  "register.login": "Ingia",
+  "register.name": "Jina Kamili",
+  "register.namePlaceholder": "Weka jina lako kamili",
+  "register.country": "Nchi",
+  "register.countryPlaceholder": "Chagua nchi yako",
+  "register.pin": "PIN (tarakimu 4)",
+  "register.submit": "Jisajili",
+  "register.submitting": "Inasajili...",
+  "register.success": "Usajili umefanikiwa!",
+  "register.failed": "Usajili umeshindikana",
+  "register.error": "Hitilafu imetokea wakati wa usajili",
+  "register.loadCountriesFailed": "Imeshindwa kupakia nchi",
+
+  "forgotPin.title": "Umesahau PIN",
+  "forgotPin.resetTitle": "Weka PIN Upya",
+  "forgotPin.step.request": "Weka barua pepe yako ili kupokea msimbo wa kuweka PIN upya",
+  "forgotPin.step.verify": "Weka msimbo tuliokutumia kwa barua pepe",
+  "forgotPin.step.newPin": "Chagua PIN mpya ya tarakimu 4",
+  "forgotPin.send": "Tuma Msimbo",
+  "forgotPin.sending": "Inatuma...",
+  "forgotPin.codeSent": "Msimbo wa kuweka upya umetumwa kwa barua pepe yako",
+  "forgotPin.sendFailed": "Imeshindwa kutuma msimbo",
+  "forgotPin.backToLogin": "Rudi Kuingia",
+  "forgotPin.codeSentTo": "Tumetuma msimbo wa kuweka upya kwa {email}.",
+  "forgotPin.expiresIn": "Unaisha baada ya {time}.",
+  "forgotPin.code": "Msimbo wa Kuweka Upya",
+  "forgotPin.codePlaceholder": "Weka msimbo kutoka kwa barua pepe yako",
+  "forgotPin.verify": "Thibitisha Msimbo",
+  "forgotPin.verifying": "Inathibitisha...",
+  "forgotPin.incorrectCode": "Msimbo si sahihi",
+  "forgotPin.attemptsLeft": {
+    one: "{message}. Limebaki jaribio {count}.",
+    other: "{message}. Yamebaki majaribio {count}.",
+  },
+  "forgotPin.locked": "Majaribio mengi yasiyo sahihi. Omba msimbo mpya ili kujaribu tena.",
+  "forgotPin.expired": "Msimbo huu umeisha muda. Omba msimbo mpya ili kuendelea.",
+  "forgotPin.differentEmail": "Tumia barua pepe nyingine",
+  "forgotPin.resend": "Tuma msimbo tena",
+  "forgotPin.resendIn": "Tuma msimbo tena baada ya {time}",
+  "forgotPin.newPin": "PIN Mpya",
+  "forgotPin.newPinPlaceholder": "Weka PIN mpya ya tarakimu 4",
+  "forgotPin.confirmPin": "Thibitisha PIN Mpya",
+  "forgotPin.confirmPinPlaceholder": "Weka PIN mpya tena",
+  "forgotPin.resetSubmit": "Weka PIN Upya na Uingie",
+  "forgotPin.resetting": "Inaweka PIN upya...",
+  "forgotPin.resetSuccess": "PIN yako imewekwa upya",
+  "forgotPin.resetFailed": "Imeshindwa kuweka PIN upya",
+  "forgotPin.resetExpired": "Muda wa kuweka upya umeisha. Tafadhali omba msimbo mpya.",
+
+  "splash.tagline": "Mfumo wa Kutengeneza Lishe",
+
+  "welcome.subtitle": "Mfumo wa Kuboresha Lishe ya Ng'ombe wa Maziwa",
+  "welcome.description": "Tengeneza mchanganyiko bora wa chakula kwa ng'ombe wako wa maziwa kwa mfumo wetu wa kisasa wa kuboresha lishe.",
+
+  "accounts.switchTo": "Badili kwenda {name}",
+  "accounts.add": "Ongeza Akaunti",
+  "accounts.enterPinFor": "Weka PIN ya {email} ili kuendelea",
+  "accounts.addDescription": "Ingia kwenye akaunti nyingine. Itakumbukwa kwenye kifaa hiki.",
+  "accounts.emailPlaceholder": "Weka barua pepe",
+  "accounts.emailRequired": "Tafadhali weka barua pepe",
+  "accounts.switched": "Umebadili kwenda {name}",
+  "accounts.incorrectPin": "PIN si sahihi",
+  "accounts.switchFailed": "Imeshindwa kubadilisha akaunti",
+  "accounts.removed": "{name} ameondolewa kwenye kifaa hiki",
+  "accounts.remove": "Ondoa kwenye Kifaa",
+  "accounts.switch": "Badili",
+  "accounts.signIn": "Ingia",
+
+  "profile.title": "Wasifu",
+  "profile.description": "Badilisha jina na nchi yako",
+  "profile.save": "Hifadhi Mabadiliko",
+  "profile.saving": "Inahifadhi...",
+  "profile.updated": "Wasifu umesasishwa",
+  "profile.updatedCountry": "Wasifu umesasishwa. Orodha ya vyakula itasasishwa kwa nchi yako mpya.",
+  "profile.updateFailed": "Imeshindwa kusasisha wasifu",
+  "profile.changePin.title": "Badilisha PIN",
+  "profile.changePin.description": "Weka PIN yako ya sasa ili kuchagua mpya",
+  "profile.changePin.current": "PIN ya Sasa",
+  "profile.changePin.currentPlaceholder": "Weka PIN ya sasa",
+  "profile.changePin.submit": "Badilisha PIN",
+  "profile.changePin.submitting": "Inabadilisha PIN...",
+  "profile.changePin.success": "PIN imebadilishwa",
+  "profile.changePin.failed": "Imeshindwa kubadilisha PIN",
+  "profile.appLock.title": "Kufunga Programu",
+  "profile.appLock.description": "Funga programu ikiachwa bila kutumika, inafaa kwa simu zinazotumiwa na watu wengi",
+  "profile.delete.title": "Futa Akaunti",
+  "profile.delete.description": "Ondoa akaunti yako na data yake yote milele",
+  "profile.delete.button": "Futa Akaunti",
+  "profile.delete.confirmTitle": "Futa Akaunti?",
+  "profile.delete.confirmDescription": "Hii itafuta akaunti yako, ripoti zilizohifadhiwa na maoni milele. Haiwezi kutenduliwa.",
+  "profile.delete.pinLabel": "Weka PIN yako ili kuthibitisha",
+  "profile.delete.pinPlaceholder": "PIN ya tarakimu 4",
+  "profile.delete.submit": "Futa Milele",
+  "profile.delete.success": "Akaunti yako imefutwa",
+  "profile.delete.failed": "Imeshindwa kufuta akaunti",
+
+  "appLock.title": "Programu Imefungwa",
+  "appLock.signedInAs": "Umeingia kama {name}. Weka PIN yako ili kuendelea.",
+  "appLock.unlock": "Fungua",
+  "appLock.unlockWithPasskey": "Fungua kwa Passkey",
+  "appLock.notYou": "Si wewe? Toka",
+  "appLock.incorrectPin": "PIN si sahihi",
+  "appLock.verifyFailed": "Imeshindwa kuthibitisha PIN",
+  "appLock.passkeyRejected": "Passkey haikuweza kukuthibitisha. Tumia PIN yako badala yake.",
+  "appLock.passkeyFailed": "Kufungua kwa passkey kumeshindikana",
+  "appLock.idleLabel": "Funga baada ya kutotumika",
+  "appLock.never": "Kamwe",
+  "appLock.minutes": {
+    one: "dakika {count}",
+    other: "dakika {count}",
+  },
+  "appLock.passkey": "Passkey",
+  "appLock.passkeyUnsupported": "Kifaa hiki hakitumii passkey. Fungua kwa PIN yako badala yake.",
+  "appLock.passkeyEnabled": "Kifaa hiki kinaweza kufungua kwa alama ya kidole, uso au kufuli ya skrini.",
+  "appLock.removePasskey": "Ondoa",
+  "appLock.addPasskey": "Ongeza Passkey kwa Kifaa Hiki",
+  "appLock.passkeyAdded": "Passkey imeongezwa. Sasa unaweza kufungua kwa kifaa hiki.",
+  "appLock.passkeyAddFailed": "Imeshindwa kuongeza passkey",
+  "appLock.passkeyRemoved": "Passkey imeondolewa kwenye kifaa hiki",
+
+  "offline.title": "Michanganyiko Inayosubiri",
+  "offline.online": "Mapendekezo yaliyoombwa bila mtandao",
+  "offline.offline": "Huna mtandao. Maombi yanayosubiri yatatumwa utakapounganishwa tena.",
+  "offline.status.pending": "Inasubiri mtandao",
+  "offline.status.processing": "Inatuma",
+  "offline.status.complete": "Imekamilika",
+  "offline.status.failed": "Imeshindikana",
+  "offline.jobTitle": {
+    one: "{breed} · chakula {count}",
+    other: "{breed} · vyakula {count}",
+  },
+  "offline.recommendation": "Pendekezo",
+  "offline.queuedAt": "Liliwekwa {date}",
+  "offline.view": "Angalia pendekezo",
+  "offline.retry": "Jaribu tena pendekezo linalosubiri",
+  "offline.remove": "Ondoa pendekezo linalosubiri",
+  "offline.retryFailed": "Imeshindwa kujaribu tena",
+  "offline.removeFailed": "Imeshindwa kuondoa ombi",
+  "offline.ready": "Pendekezo lililokuwa likisubiri liko tayari",
+  "offline.readyAction": "Angalia",
+
+  "herd.title": "Kundi Langu",
+  "herd.description": "Wanyama waliohifadhiwa hubaki na taarifa zao kati ya ziara",
+  "herd.add": "Ongeza Mnyama",
+  "herd.empty": "Bado hakuna wanyama waliohifadhiwa",
+  "herd.active": "Anatumika",
+  "herd.tag": "Hereni {tag}",
+  "herd.noDetails": "Bado hakuna maelezo",
+  "herd.updatedOn": "Imesasishwa {date}",
+  "herd.startFormulation": "Anza kutengeneza lishe",
+  "herd.startFormulationFor": "Anza kutengeneza lishe ya {name}",
+  "herd.edit": "Hariri maelezo",
+  "herd.editName": "Hariri {name}",
+  "herd.duplicate": "Nakili",
+  "herd.duplicateName": "Nakili {name}",
+  "herd.delete": "Futa",
+  "herd.deleteName": "Futa {name}",
+  "herd.duplicated": "{name} amenakiliwa",
+  "herd.deleted": "{name} amefutwa",
+  "herd.deleteTitle": "Futa Mnyama?",
+  "herd.deleteDescription": "{name} na taarifa zake zilizohifadhiwa zitaondolewa kwenye kifaa hiki.",
+  "herd.picker.label": "Mnyama",
+  "herd.picker.placeholder": "Chagua mnyama",
+  "herd.picker.unnamed": "Mnyama asiye na jina",
+  "herd.picker.new": "Mpya",
+  "herd.dialog.editTitle": "Hariri Mnyama",
+  "herd.dialog.newTitle": "Mnyama Mpya",
+  "herd.dialog.description": "Mpe mnyama jina na namba ili umpate kwenye ziara yako ijayo",
+  "herd.dialog.name": "Jina",
+  "herd.dialog.namePlaceholder": "mf. Daisy",
+  "herd.dialog.earTag": "Namba ya Hereni (si lazima)",
+  "herd.dialog.earTagPlaceholder": "mf. KE-0421",
+  "herd.dialog.farm": "Shamba (si lazima)",
+  "herd.dialog.farmPlaceholder": "mf. Shamba la Wanjiru",
+  "herd.dialog.save": "Hifadhi",
+  "herd.dialog.create": "Unda",
+  "herd.dialog.updated": "Wasifu wa mnyama umesasishwa",
+  "herd.dialog.created": "Wasifu wa mnyama umeundwa",
+
+  "baskets.title": "Vikapu vya Chakula",
+  "baskets.description": "Seti za vyakula zinazoweza kutumika tena pamoja na bei ulizoweka mwisho",
+  "baskets.empty": "Bado hakuna vikapu vilivyohifadhiwa",
+  "baskets.emptyHint": "Chagua vyakula kisha tumia \"Hifadhi kama Kikapu\" ili kuunda kimoja.",
+  "baskets.pricesUpdatedOn": "Bei zilisasishwa {date}",
+  "baskets.load": "Pakia kwenye uchaguzi wa chakula",
+  "baskets.loadName": "Pakia {name}",
+  "baskets.updatePrices": "Sasisha bei",
+  "baskets.updatePricesFor": "Sasisha bei za {name}",
+  "baskets.delete": "Futa kikapu",
+  "baskets.deleteName": "Futa {name}",
+  "baskets.loaded": "\"{name}\" kimepakiwa",
+  "baskets.deleted": "Kikapu \"{name}\" kimefutwa",
+  "baskets.deleteTitle": "Futa Kikapu?",
+  "baskets.deleteDescription": "{name} kitaondolewa kwenye kifaa hiki.",
+  "baskets.deleteConfirm": "Futa",
+  "baskets.replaceTitle": "Badilisha Vyakula Vilivyochaguliwa?",
+  "baskets.replaceDescription": {
+    one: "Kupakia {name} kutachukua nafasi ya chakula {count} ulichochagua.",
+    other: "Kupakia {name} kutachukua nafasi ya vyakula {count} ulivyochagua.",
+  },
+  "baskets.replaceConfirm": "Pakia Kikapu",
+  "baskets.save.button": "Hifadhi kama Kikapu",
+  "baskets.save.title": "Hifadhi Kikapu cha Chakula",
+  "baskets.save.description": {
+    one: "Hifadhi chakula hiki na bei yake kwa ziara yako ijayo",
+    other: "Hifadhi vyakula hivi {count} na bei zake kwa ziara yako ijayo",
+  },
+  "baskets.save.target": "Hifadhi kwenye",
+  "baskets.save.new": "Kikapu kipya",
+  "baskets.save.replace": "Badilisha \"{name}\"",
+  "baskets.save.name": "Jina la Kikapu",
+  "baskets.save.namePlaceholder": "mf. Kiangazi - Kiambu",
+  "baskets.save.submit": "Hifadhi",
+  "baskets.save.nameRequired": "Tafadhali weka jina la kikapu",
+  "baskets.save.saved": "Kikapu \"{name}\" kimehifadhiwa",
+  "baskets.save.updated": "Kikapu \"{name}\" kimesasishwa",
+  "baskets.prices.title": "Sasisha Bei",
+  "baskets.prices.description": "{name}: weka bei za soko za leo ({unit})",
+  "baskets.prices.perKg": "kwa kg",
+  "baskets.prices.percent": "Badilisha bei zote kwa %",
+  "baskets.prices.percentPlaceholder": "mf. 10 au -5",
+  "baskets.prices.apply": "Tumia",
+  "baskets.prices.submit": "Hifadhi Bei",
+  "baskets.prices.invalid": "Kila bei lazima iwe zaidi ya sifuri",
+  "baskets.prices.updated": "Bei zimesasishwa",
+
+  "compare.title": "Linganisha Chaguo",
+  "compare.description": "Thamani bora zimeangaziwa kwa kijani; kiasi cha chakula kinachotofautiana na msingi kwa rangi ya machungwa",
+  "compare.clearAll": "Futa Zote",
+  "compare.emptyTitle": "Hakuna Chaguo za Kulinganisha",
+  "compare.emptyDescription": "Tengeneza pendekezo na utumie \"Linganisha\" kuliongeza hapa. Badilisha vyakula na urudie ili kuona hadi michanganyiko {max} kando kwa kando.",
+  "compare.goToFeedSelection": "Nenda kwa Uchaguzi wa Chakula",
+  "compare.saved": "Imehifadhiwa",
+  "compare.unknownBreed": "Aina haijulikani",
+  "compare.scenarioSummary": {
+    one: "{breed} · chakula {count} · {date}",
+    other: "{breed} · vyakula {count} · {date}",
+  },
+  "compare.saveAsReport": "Hifadhi kama ripoti",
+  "compare.saveNameAsReport": "Hifadhi {name} kama ripoti",
+  "compare.remove": "Ondoa kwenye ulinganisho",
+  "compare.removeName": "Ondoa {name}",
+  "compare.savedToReports": "\"{name}\" imehifadhiwa kwenye ripoti zako",
+  "compare.saveFailed": "Imeshindwa kuhifadhi ripoti. Tafadhali jaribu tena baadaye.",
+  "compare.clearTitle": "Futa Ulinganisho?",
+  "compare.clearDescription": {
+    one: "Chaguo hili litaondolewa. Ripoti ulizohifadhi tayari zitabaki.",
+    other: "Chaguo zote {count} zitaondolewa. Ripoti ulizohifadhi tayari zitabaki.",
+  },
+  "compare.clear": "Futa",
+  "compare.add.button": "Linganisha",
+  "compare.add.inComparison": "Kwenye Ulinganisho",
+  "compare.add.title": "Ongeza kwenye Ulinganisho",
+  "compare.add.description": "Upe mchanganyiko huu jina ili uutofautishe na mingine",
+  "compare.add.name": "Jina la Chaguo",
+  "compare.add.namePlaceholder": "mf. Pamoja na mashudu ya pamba",
+  "compare.add.defaultName": "Chaguo {number}",
+  "compare.add.limit": "Hadi chaguo {max} zinaweza kulinganishwa. \"{name}\" itabadilishwa.",
+  "compare.add.submit": "Ongeza",
+  "compare.add.nameRequired": "Tafadhali weka jina la chaguo",
+  "compare.add.added": "\"{name}\" imeongezwa kwenye ulinganisho",
+  "compare.add.viewAction": "Linganisha",
+  "compare.table.metric": "Kipimo",
+  "compare.table.baseline": "Msingi",
+  "compare.table.dailyCost": "Gharama ya Kila Siku",
+  "compare.table.costPerMilk": "Gharama kwa {unit} ya Maziwa",
+  "compare.table.milkProduction": "Uzalishaji wa Maziwa",
+  "compare.table.dryMatterIntake": "Ulaji wa Mada Kavu",
+  "compare.table.methane": "Methane",
+  "compare.table.methaneYield": "Mavuno ya CH₄",
+  "compare.table.methaneIntensity": "Ukali wa CH₄",
+  "compare.table.perDay": "{unit}/siku",
+  "compare.table.leastCostDiet": "Lishe ya Gharama Nafuu ({unit}/siku)",
+
+  "feedback.title": "Tuma Maoni",
+  "feedback.description": "Shiriki mawazo na mapendekezo yako",
+  "feedback.label": "Maoni",
+  "feedback.placeholder": "Weka maoni yako...",
+  "feedback.rating": "Ukadiriaji (si lazima)",
+  "feedback.submit": "Tuma Maoni",
+  "feedback.submitting": "Inatuma...",
+  "feedback.success": "Maoni yametumwa",
+  "feedback.required": "Tafadhali weka maoni yako",
+  "feedback.submitFailed": "Imeshindwa kutuma maoni",
+  "feedback.loadFailed": "Imeshindwa kupakia maoni",
+  "feedback.history": "Maoni Yako",
+
+  "reports.title": "Ripoti Zilizohifadhiwa",
+  "reports.description": "Angalia na usimamie ripoti zako za lishe zilizohifadhiwa",
+  "reports.empty": "Bado hakuna ripoti zilizohifadhiwa",
+  "reports.loadFailed": "Imeshindwa kupakia ripoti",
+  "reports.urlUnavailable": "Kiungo cha ripoti hakipatikani",
+  "reports.deleteComingSoon": "Kufuta kutapatikana hivi karibuni",
+  "reports.download": "Pakua PDF",
+  "reports.downloadLabel": "Pakua ripoti ya PDF",
+  "reports.delete": "Futa ripoti",
+
+  "forbidden.title": "Ufikiaji Umekataliwa",
+  "forbidden.description": "Ukurasa huu unapatikana kwa wasimamizi pekee.",
+  "forbidden.back": "Nenda kwa Taarifa za Ng'ombe",
+};
@@ -0,0 +1,172 @@
+import { recommendationApi } from "@/lib/api/endpoints";
+import { ApiError, FeedRecommendationRequest, QueuedRecommendationJob } from "@/lib/types";
+
+const DB_NAME = "feed-formulation-offline";
+const DB_VERSION = 1;
+const STORE_NAME = "recommendation-jobs";
+
+/** Dispatched on window whenever a queued job is added, updated or removed */
+export const QUEUE_CHANGE_EVENT = "recommendation-queue-change";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+// One replay at a time per user
+const activeRuns = new Map<string, Promise<QueuedRecommendationJob[]>>();
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+        store.createIndex("status", "status");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function notifyChange() {
+  window.dispatchEvent(new Event(QUEUE_CHANGE_EVENT));
+}
+
+async function putJob(job: QueuedRecommendationJob) {
+  await withStore("readwrite", (store) => store.put(job));
+  notifyChange();
+}
+
+/** True when a request failed before reaching the server (offline, DNS, timeout) */
+export function isNetworkError(error: unknown): boolean {
+  return !!error && (error as ApiError).status === undefined;
+}
+
+export function isQueueSupported(): boolean {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+/**
+ * Store a recommendation request to be sent once the device is back online.
+ * @returns The queued job
+ */
+export async function enqueueRecommendation(
+  request: FeedRecommendationRequest,
+  userId: string
+): Promise<QueuedRecommendationJob> {
+  const now = new Date().toISOString();
+  const job: QueuedRecommendationJob = {
+    id: request.simulation_id,
+    user_id: userId,
+    request,
+    status: "pending",
+    attempts: 0,
+    created_at: now,
+    updated_at: now,
+  };
+  await putJob(job);
+  return job;
+}
+
+/** A user's queued jobs, newest first */
+export async function listQueuedJobs(userId: string): Promise<QueuedRecommendationJob[]> {
+  const jobs = await withStore<QueuedRecommendationJob[]>("readonly", (store) => store.getAll());
+  return jobs
+    .filter((job) => !job.user_id || job.user_id === userId)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+export async function getQueuedJob(id: string): Promise<QueuedRecommendationJob | undefined> {
+  return withStore<QueuedRecommendationJob | undefined>("readonly", (store) => store.get(id));
+}
+
+export async function deleteQueuedJob(id: string) {
+  await withStore("readwrite", (store) => store.delete(id));
+  notifyChange();
+}
+
+/** Move a failed job back to pending so the next sync picks it up */
+export async function retryQueuedJob(id: string) {
+  const job = await getQueuedJob(id);
+  if (!job || job.status !== "failed") return;
+  await putJob({ ...job, status: "pending", error: undefined, updated_at: new Date().toISOString() });
+}
+
+async function runQueue(userId: string): Promise<QueuedRecommendationJob[]> {
+  const completed: QueuedRecommendationJob[] = [];
+  // Jobs left "processing" by a closed tab never finished - send them again
+  const jobs = (await listQueuedJobs(userId))
+    .filter((job) => job.status === "pending" || job.status === "processing")
+    .reverse();
+
+  for (const job of jobs) {
+    await putJob({ ...job, status: "processing", updated_at: new Date().toISOString() });
+
+    try {
+      const [result, evaluation] = await Promise.all([
+        recommendationApi.getRecommendation(job.request),
+        // The evaluation is supplementary - a failure should not fail the job
+        recommendationApi.getEvaluation(job.request).catch(() => undefined),
+      ]);
+      const done: QueuedRecommendationJob = {
+        ...job,
+        status: "complete",
+        result,
+        evaluation,
+        error: undefined,
+        attempts: job.attempts + 1,
+        updated_at: new Date().toISOString(),
+      };
+      await putJob(done);
+      completed.push(done);
+    } catch (error: any) {
+      if (isNetworkError(error)) {
+        // Still offline - leave the rest for the next sync
+        await putJob({ ...job, status: "pending", updated_at: new Date().toISOString() });
+        break;
+      }
+      await putJob({
+        ...job,
+        status: "failed",
+        error: error.message || "Failed to generate recommendation",
+        attempts: job.attempts + 1,
+        updated_at: new Date().toISOString(),
+      });
+    }
+  }
+
+  return completed;
+}
+
+/**
+ * Replay a user's pending jobs in the order they were queued.
+ * Requests go out with the current session, so only pass the signed-in user.
+ * Concurrent callers share a single run.
+ * @returns Jobs that completed during this run
+ */
+export function processQueue(userId: string): Promise<QueuedRecommendationJob[]> {
+  let run = activeRuns.get(userId);
+  if (!run) {
+    run = runQueue(userId).finally(() => {
+      activeRuns.delete(userId);
+    });
+    activeRuns.set(userId, run);
+  }
+  return run;
+}
@@ -0,0 +1,178 @@
+import { describe, expect, it } from "vitest";
+import { createRateLimiter, MemoryRateLimitStore, RateLimiterOptions } from "./rate-limit";
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+function setup(overrides: Partial<RateLimiterOptions> = {}) {
+  let time = 0;
+  const now = () => time;
+  const limiter = createRateLimiter({
+    maxFailures: 5,
+    lockoutMs: 15 * MINUTE,
+    baseDelayMs: SECOND,
+    maxDelayMs: 4 * SECOND,
+    windowMs: 15 * MINUTE,
+    store: new MemoryRateLimitStore(15 * MINUTE, now),
+    now,
+    ...overrides,
+  });
+  return {
+    limiter,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+describe("createRateLimiter", () => {
+  it("allows a fresh key without counting a check", async () => {
+    const { limiter } = setup();
+
+    await limiter.check("k");
+    const decision = await limiter.check("k");
+
+    expect(decision).toEqual({ allowed: true, locked: false, attemptsRemaining: 5, retryAfterMs: 0 });
+  });
+
+  it("counts an attempt up front and delays the next one", async () => {
+    const { limiter, advance } = setup();
+
+    const first = await limiter.consume("k");
+    expect(first).toMatchObject({ allowed: true, attemptsRemaining: 4 });
+
+    const second = await limiter.consume("k");
+    expect(second).toMatchObject({ allowed: false, locked: false, retryAfterMs: SECOND });
+
+    advance(SECOND);
+    expect(await limiter.consume("k")).toMatchObject({ allowed: true, attemptsRemaining: 3 });
+  });
+
+  it("lets only one of several concurrent attempts through", async () => {
+    const { limiter } = setup();
+
+    const decisions = await Promise.all(Array.from({ length: 10 }, () => limiter.consume("k")));
+
+    expect(decisions.filter((decision) => decision.allowed)).toHaveLength(1);
+  });
+
+  it("doubles the delay up to the ceiling", async () => {
+    const { limiter, advance } = setup({ maxFailures: 10 });
+    const delays: number[] = [];
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await limiter.consume("k");
+      const { retryAfterMs } = await limiter.check("k");
+      delays.push(retryAfterMs);
+      advance(retryAfterMs);
+    }
+
+    expect(delays).toEqual([SECOND, 2 * SECOND, 4 * SECOND, 4 * SECOND, 4 * SECOND]);
+  });
+
+  it("locks the key out at the failure limit until the lockout ends", async () => {
+    const { limiter, advance } = setup();
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      expect((await limiter.consume("k")).allowed).toBe(true);
+      advance(4 * SECOND);
+    }
+
+    const locked = await limiter.consume("k");
+    expect(locked).toMatchObject({ allowed: false, locked: true, attemptsRemaining: 0 });
+    expect(locked.retryAfterMs).toBe(15 * MINUTE - 4 * SECOND);
+
+    advance(15 * MINUTE);
+    expect(await limiter.check("k")).toMatchObject({ allowed: true, attemptsRemaining: 5 });
+  });
+
+  it("does not extend the lockout while refusing attempts", async () => {
+    const { limiter, advance } = setup({ maxFailures: 1 });
+
+    await limiter.consume("k");
+    advance(10 * MINUTE);
+    await limiter.consume("k");
+    advance(5 * MINUTE);
+
+    expect((await limiter.consume("k")).allowed).toBe(true);
+  });
+
+  it("forgets failures once the window has passed", async () => {
+    const { limiter, advance } = setup();
+
+    await limiter.consume("k");
+    advance(5 * SECOND);
+    await limiter.consume("k");
+    expect((await limiter.check("k")).attemptsRemaining).toBe(3);
+
+    advance(15 * MINUTE - 1);
+    expect((await limiter.check("k")).attemptsRemaining).toBe(3);
+
+    advance(1);
+    expect(await limiter.check("k")).toMatchObject({ allowed: true, attemptsRemaining: 5 });
+  });
+
+  it("clears failures and lockouts on reset after a success", async () => {
+    const { limiter, advance } = setup();
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await limiter.consume("k");
+      advance(4 * SECOND);
+    }
+    expect((await limiter.check("k")).locked).toBe(true);
+
+    await limiter.reset("k");
+    expect(await limiter.consume("k")).toMatchObject({ allowed: true, attemptsRemaining: 4 });
+  });
+
+  it("gives back a single attempt on release", async () => {
+    const { limiter, advance } = setup();
+
+    await limiter.consume("k");
+    advance(SECOND);
+    await limiter.consume("k");
+    await limiter.release("k");
+    expect((await limiter.check("k")).attemptsRemaining).toBe(4);
+
+    await limiter.release("k");
+    expect(await limiter.check("k")).toMatchObject({ allowed: true, attemptsRemaining: 5 });
+  });
+
+  it("keeps keys apart", async () => {
+    const { limiter } = setup();
+
+    await limiter.consume("a");
+
+    expect(await limiter.check("b")).toMatchObject({ allowed: true, attemptsRemaining: 5 });
+  });
+});
+
+describe("MemoryRateLimitStore", () => {
+  const record = { failures: 1, lastFailureAt: 0, lockedUntil: null };
+
+  it("makes room by dropping the least recently written entry when full", async () => {
+    const store = new MemoryRateLimitStore(15 * MINUTE, () => 0, 2);
+
+    await store.set("a", record);
+    await store.set("b", record);
+    await store.set("a", { ...record, failures: 2 });
+    await store.set("c", record);
+
+    expect(await store.get("a")).toEqual({ ...record, failures: 2 });
+    expect(await store.get("b")).toBeUndefined();
+    expect(await store.get("c")).toEqual(record);
+  });
+
+  it("drops stale entries before live ones", async () => {
+    let time = 0;
+    const store = new MemoryRateLimitStore(MINUTE, () => time, 2);
+
+    await store.set("a", record);
+    time = 2 * MINUTE;
+    await store.set("b", { ...record, lastFailureAt: time });
+    await store.set("c", { ...record, lastFailureAt: time });
+
+    expect(await store.get("b")).toBeDefined();
+    expect(await store.get("c")).toBeDefined();
+  });
+});
@@ -0,0 +1,203 @@
+// Failed-attempt limiter for the login and PIN reset routes in the API proxy.
+// Every attempt after a failure waits progressively longer, and the key is
+// locked out once it reaches the failure limit. Attempts are counted before the
+// request is forwarded and given back once it succeeds, so concurrent requests
+// cannot all slip past the check. Time comes from an injectable clock and state
+// from a pluggable store, so it can be driven by a fake clock.
+
+export interface AttemptRecord {
+  failures: number;
+  // Unix milliseconds
+  lastFailureAt: number;
+  lockedUntil: number | null;
+}
+
+/**
+ * Where attempt records live. Use a shared store (e.g. Redis) when running several
+ * instances; updates are only serialised within one process.
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<AttemptRecord | undefined>;
+  set(key: string, record: AttemptRecord): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  // True while the key is locked out, as opposed to waiting out a delay
+  locked: boolean;
+  attemptsRemaining: number;
+  // 0 when allowed
+  retryAfterMs: number;
+}
+
+export interface RateLimiterOptions {
+  // Failures before the key is locked out
+  maxFailures: number;
+  lockoutMs: number;
+  // Delay after the first failure; doubles with each further failure
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Failures older than this are forgotten
+  windowMs: number;
+  store: RateLimitStore;
+  now?: () => number;
+}
+
+export interface RateLimiter {
+  // Whether an attempt would be allowed, without counting one
+  check(key: string): Promise<RateLimitDecision>;
+  // Count an attempt as failed up front if it is allowed
+  consume(key: string): Promise<RateLimitDecision>;
+  // Give back one consumed attempt, e.g. when the backend could not be reached
+  release(key: string): Promise<void>;
+  // Forget the key's failures after a successful attempt
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * In-process store. Entries are dropped once they can no longer affect a decision,
+ * and the least recently written one makes room when the store is full.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private records = new Map<string, AttemptRecord>();
+
+  constructor(
+    private ttlMs: number,
+    private now: () => number = Date.now,
+    private maxEntries: number = 10000
+  ) {}
+
+  async get(key: string) {
+    const record = this.records.get(key);
+    if (record && this.isStale(record)) {
+      this.records.delete(key);
+      return undefined;
+    }
+    return record;
+  }
+
+  async set(key: string, record: AttemptRecord) {
+    // Re-inserted so the map stays ordered by last write, oldest first
+    this.records.delete(key);
+    if (this.records.size >= this.maxEntries) {
+      this.records.forEach((value, storedKey) => {
+        if (this.isStale(value)) this.records.delete(storedKey);
+      });
+    }
+    // Still full of live entries (e.g. a flood of distinct keys)
+    if (this.records.size >= this.maxEntries) {
+      const oldest = this.records.keys().next().value;
+      if (oldest !== undefined) this.records.delete(oldest);
+    }
+    this.records.set(key, record);
+  }
+
+  async delete(key: string) {
+    this.records.delete(key);
+  }
+
+  private isStale(record: AttemptRecord) {
+    const expiresAt = Math.max(record.lastFailureAt + this.ttlMs, record.lockedUntil ?? 0);
+    return this.now() >= expiresAt;
+  }
+}
+
+export function createRateLimiter({
+  maxFailures,
+  lockoutMs,
+  baseDelayMs,
+  maxDelayMs,
+  windowMs,
+  store,
+  now = Date.now,
+}: RateLimiterOptions): RateLimiter {
+  // Tail of the pending operations per key, so reads and writes do not interleave
+  const pending = new Map<string, Promise<unknown>>();
+  const serialised = <T>(key: string, task: () => Promise<T>): Promise<T> => {
+    const result = (pending.get(key) ?? Promise.resolve()).then(task);
+    const tail = result.catch(() => undefined);
+    pending.set(key, tail);
+    tail.then(() => {
+      if (pending.get(key) === tail) pending.delete(key);
+    });
+    return result;
+  };
+
+  const delayAfter = (failures: number) =>
+    failures > 0 ? Math.min(baseDelayMs * 2 ** (failures - 1), maxDelayMs) : 0;
+
+  // The record still in force, or null once it has expired
+  const current = async (key: string, time: number) => {
+    const record = await store.get(key);
+    if (!record) return null;
+    const expired = record.lockedUntil !== null
+      ? time >= record.lockedUntil
+      : time - record.lastFailureAt >= windowMs;
+    if (expired) {
+      await store.delete(key);
+      return null;
+    }
+    return record;
+  };
+
+  const decide = (record: AttemptRecord | null, time: number): RateLimitDecision => {
+    if (!record) {
+      return { allowed: true, locked: false, attemptsRemaining: maxFailures, retryAfterMs: 0 };
+    }
+    const attemptsRemaining = Math.max(0, maxFailures - record.failures);
+    if (record.lockedUntil !== null) {
+      return { allowed: false, locked: true, attemptsRemaining, retryAfterMs: record.lockedUntil - time };
+    }
+    const retryAfterMs = Math.max(0, record.lastFailureAt + delayAfter(record.failures) - time);
+    return { allowed: retryAfterMs === 0, locked: false, attemptsRemaining, retryAfterMs };
+  };
+
+  return {
+    check(key) {
+      return serialised(key, async () => {
+        const time = now();
+        return decide(await current(key, time), time);
+      });
+    },
+
+    consume(key) {
+      return serialised(key, async () => {
+        const time = now();
+        const existing = await current(key, time);
+        const decision = decide(existing, time);
+        if (!decision.allowed) return decision;
+
+        const failures = (existing?.failures ?? 0) + 1;
+        const record: AttemptRecord = {
+          failures,
+          lastFailureAt: time,
+          lockedUntil: failures >= maxFailures ? time + lockoutMs : null,
+        };
+        await store.set(key, record);
+        return { ...decide(record, time), allowed: true, retryAfterMs: 0 };
+      });
+    },
+
+    release(key) {
+      return serialised(key, async () => {
+        const record = await current(key, now());
+        if (!record) return;
+        if (record.failures <= 1) {
+          await store.delete(key);
+          return;
+        }
+        const failures = record.failures - 1;
+        await store.set(key, {
+          ...record,
+          failures,
+          lockedUntil: failures >= maxFailures ? record.lockedUntil : null,
+        });
+      });
+    },
+
+    reset(key) {
+      return serialised(key, () => store.delete(key));
+    },
+  };
+}
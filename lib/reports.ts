@@ -0,0 +1,43 @@
+import { reportApi } from "@/lib/api/endpoints";
+
+interface SaveReportOptions {
+  maxRetries?: number;
+  retryDelay?: number;
+  onRetry?: (attempt: number, maxRetries: number) => void;
+}
+
+/**
+ * Save a generated report to the user's account.
+ * The backend builds the PDF asynchronously after a recommendation, so a
+ * "not found" response is retried a few times before giving up.
+ * @returns Whether the backend saved the report
+ */
+export async function saveReportWithRetry(
+  reportId: string,
+  { maxRetries = 3, retryDelay = 5000, onRetry }: SaveReportOptions = {}
+): Promise<boolean> {
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      if (attempt > 1) {
+        onRetry?.(attempt, maxRetries);
+        await new Promise((resolve) => setTimeout(resolve, retryDelay));
+      }
+
+      const response = await reportApi.saveReport({
+        report_id: reportId,
+      });
+
+      if (response.success) {
+        return true;
+      } else if (response.message?.includes("not found") && attempt < maxRetries) {
+        // Report not ready yet - will retry
+        continue;
+      } else {
+        return false;
+      }
+    } catch (error) {
+      console.error(`Save report attempt ${attempt} failed:`, error);
+    }
+  }
+  return false;
+}
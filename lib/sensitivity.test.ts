@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { recommendationApi } from "@/lib/api/endpoints";
+import { FeedRecommendationRequest } from "@/lib/types";
+import { dietLineFeedId, runPriceSweep } from "./sensitivity";
+
+vi.mock("@/lib/api/endpoints", () => ({
+  recommendationApi: { getRecommendation: vi.fn() },
+}));
+
+const getRecommendation = vi.mocked(recommendationApi.getRecommendation);
+
+const line = (feed_name: string, feed_id?: string) => ({
+  feed_id,
+  feed_name,
+  quantity_kg_per_day: 2,
+  price_per_kg: 0.5,
+  daily_cost: 1,
+});
+
+describe("dietLineFeedId", () => {
+  const feedNames = { maize: "Maize bran", napier: "Napier grass", napier2: "Napier grass" };
+
+  it("uses the feed id on the line", () => {
+    expect(dietLineFeedId(line("Napier grass", "napier2"), feedNames)).toBe("napier2");
+  });
+
+  it("matches a line without an id to the requested feed with its name", () => {
+    expect(dietLineFeedId(line("Maize bran"), feedNames)).toBe("maize");
+  });
+
+  it("leaves lines with an unknown or shared name unmatched", () => {
+    expect(dietLineFeedId(line("Cotton seed cake"), feedNames)).toBeUndefined();
+    expect(dietLineFeedId(line("Napier grass"), feedNames)).toBeUndefined();
+  });
+});
+
+describe("runPriceSweep", () => {
+  const request = {
+    cattle_info: {},
+    feed_selection: [
+      { feed_id: "maize", price_per_kg: 0.3 },
+      { feed_id: "napier", price_per_kg: 0.1 },
+    ],
+    simulation_id: "sim_1",
+  } as unknown as FeedRecommendationRequest;
+
+  beforeEach(() => {
+    getRecommendation.mockReset();
+  });
+
+  it("changes only the swept feed's price in the originating request", async () => {
+    getRecommendation.mockResolvedValue({ least_cost_diet: [] });
+
+    await runPriceSweep({ request, feedId: "maize", feedNames: {}, prices: [0.2, 0.4], concurrency: 1 });
+
+    expect(getRecommendation.mock.calls.map(([sent]) => sent.feed_selection)).toEqual([
+      [
+        { feed_id: "maize", price_per_kg: 0.2 },
+        { feed_id: "napier", price_per_kg: 0.1 },
+      ],
+      [
+        { feed_id: "maize", price_per_kg: 0.4 },
+        { feed_id: "napier", price_per_kg: 0.1 },
+      ],
+    ]);
+  });
+
+  it("reads the swept feed's inclusion by feed id", async () => {
+    getRecommendation.mockResolvedValue({
+      least_cost_diet: [
+        { ...line("Napier grass", "napier"), quantity_kg_per_day: 8 },
+        { ...line("Napier grass", "maize"), quantity_kg_per_day: 3 },
+      ],
+      total_diet_cost: 2,
+    });
+
+    const [point] = await runPriceSweep({ request, feedId: "maize", feedNames: {}, prices: [0.3] });
+
+    expect(point).toEqual({ price: 0.3, inclusionKg: 3, dailyCost: 2 });
+  });
+});
@@ -0,0 +1,161 @@
+import { recommendationApi } from "@/lib/api/endpoints";
+import { FeedRecommendationRequest, FeedRecommendationResponse } from "@/lib/types";
+
+// Inclusion below this (kg/day) counts as the feed having left the ration
+const INCLUSION_THRESHOLD = 0.01;
+
+export interface SensitivityPoint {
+  price: number;
+  inclusionKg?: number;
+  dailyCost?: number;
+  error?: string;
+}
+
+export type DietLine = NonNullable<FeedRecommendationResponse["least_cost_diet"]>[number];
+
+export interface BreakEven {
+  // Highest swept price at which the feed is still in the ration
+  lastIncludedPrice: number;
+  // Lowest swept price above that at which it has dropped out
+  firstExcludedPrice: number;
+}
+
+interface PriceSweepOptions {
+  request: FeedRecommendationRequest;
+  feedId: string;
+  // Names of the requested feeds by feed id, for diet lines without one
+  feedNames: Record<string, string>;
+  prices: number[];
+  concurrency?: number;
+  signal?: AbortSignal;
+  onPoint?: (point: SensitivityPoint) => void;
+}
+
+/**
+ * Evenly spaced prices around a base price.
+ * @param basePrice - Current price per kg
+ * @param minPercent - Lowest change, e.g. -30
+ * @param maxPercent - Highest change, e.g. 50
+ * @param steps - Number of prices, including both ends
+ */
+export function buildPriceSteps(
+  basePrice: number,
+  minPercent: number,
+  maxPercent: number,
+  steps: number
+): number[] {
+  const count = Math.max(2, Math.round(steps));
+  const increment = (maxPercent - minPercent) / (count - 1);
+  return Array.from({ length: count }, (_, i) => {
+    const price = basePrice * (1 + (minPercent + increment * i) / 100);
+    return Math.max(0, Math.round(price * 100) / 100);
+  });
+}
+
+/**
+ * Run async tasks with at most `limit` in flight.
+ * No new task starts once the signal is aborted; tasks already running are
+ * expected to honour the same signal. Tasks that never started have no result.
+ */
+export async function runWithConcurrency<T>(
+  tasks: Array<() => Promise<T>>,
+  limit: number,
+  signal?: AbortSignal
+): Promise<PromiseSettledResult<T>[]> {
+  const results: PromiseSettledResult<T>[] = new Array(tasks.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < tasks.length && !signal?.aborted) {
+      const index = next++;
+      try {
+        results[index] = { status: "fulfilled", value: await tasks[index]() };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), tasks.length) }, worker));
+  return results;
+}
+
+/**
+ * Feed id of a line in a recommended diet. Lines that only name their feed are
+ * matched to the one requested feed with that name, and left unmatched when no
+ * requested feed, or more than one, has it.
+ * @param feedNames - Names of the requested feeds by feed id
+ */
+export function dietLineFeedId(line: DietLine, feedNames: Record<string, string>): string | undefined {
+  if (line.feed_id) return line.feed_id;
+  const matches = Object.keys(feedNames).filter((feedId) => feedNames[feedId] === line.feed_name);
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+const inclusionOf = (response: FeedRecommendationResponse, feedId: string, feedNames: Record<string, string>) =>
+  response.least_cost_diet?.find((line) => dietLineFeedId(line, feedNames) === feedId)?.quantity_kg_per_day ?? 0;
+
+/**
+ * Re-run the recommendation with one feed's price swept across `prices`.
+ * Points are reported through `onPoint` as they arrive and returned sorted by price.
+ */
+export async function runPriceSweep({
+  request,
+  feedId,
+  feedNames,
+  prices,
+  concurrency = 2,
+  signal,
+  onPoint,
+}: PriceSweepOptions): Promise<SensitivityPoint[]> {
+  const points: SensitivityPoint[] = [];
+
+  const tasks = prices.map((price, index) => async () => {
+    const point: SensitivityPoint = { price };
+    try {
+      const response = await recommendationApi.getRecommendation(
+        {
+          ...request,
+          simulation_id: `${request.simulation_id}_${index}`,
+          feed_selection: request.feed_selection.map((f) =>
+            f.feed_id === feedId ? { ...f, price_per_kg: price } : f
+          ),
+        },
+        signal
+      );
+      point.inclusionKg = inclusionOf(response, feedId, feedNames);
+      point.dailyCost = response.total_diet_cost ?? response.solution_summary?.daily_cost;
+    } catch (error: any) {
+      if (signal?.aborted) throw error;
+      point.error = error.message || "Recommendation failed";
+    }
+    points.push(point);
+    onPoint?.(point);
+  });
+
+  await runWithConcurrency(tasks, concurrency, signal);
+  return points.sort((a, b) => a.price - b.price);
+}
+
+/**
+ * Where the feed drops out of the ration as its price rises.
+ * @returns undefined when the feed stays in (or out) across the whole sweep
+ */
+export function findBreakEven(points: SensitivityPoint[]): BreakEven | undefined {
+  const solved = points
+    .filter((p) => p.inclusionKg !== undefined)
+    .sort((a, b) => a.price - b.price);
+
+  for (let i = 1; i < solved.length; i++) {
+    const included = solved[i - 1].inclusionKg! > INCLUSION_THRESHOLD;
+    const excluded = solved[i].inclusionKg! <= INCLUSION_THRESHOLD;
+    if (included && excluded) {
+      return { lastIncludedPrice: solved[i - 1].price, firstExcludedPrice: solved[i].price };
+    }
+  }
+  return undefined;
+}
+
+export function isIncluded(point: SensitivityPoint): boolean {
+  return (point.inclusionKg ?? 0) > INCLUSION_THRESHOLD;
+}
@@ -0,0 +1,109 @@
+// Signed session cookie shared by the API proxy and middleware.
+// Uses Web Crypto only so it also runs in the edge runtime.
+
+export const SESSION_COOKIE = "ff_session";
+export const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60; // 7 days
+
+// Path segment the API proxy replaces with the signed-in user (their email for auth/user routes)
+export const CURRENT_USER = "me";
+
+export interface Session {
+  userId: string;
+  email?: string;
+  isAdmin: boolean;
+  // Unix seconds
+  expiresAt: number;
+}
+
+const encoder = new TextEncoder();
+let keyPromise: Promise<CryptoKey> | null = null;
+
+function getSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  return "development-only-session-secret";
+}
+
+function getKey(): Promise<CryptoKey> {
+  if (!keyPromise) {
+    keyPromise = crypto.subtle.importKey(
+      "raw",
+      encoder.encode(getSecret()),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign", "verify"]
+    );
+  }
+  return keyPromise;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+/**
+ * Create a signed session token for a signed-in user.
+ * @returns `<payload>.<signature>`, both base64url encoded
+ */
+export async function createSessionToken(
+  user: { id: string; email_id?: string; is_admin?: boolean },
+  now: number = Date.now()
+): Promise<string> {
+  const session: Session = {
+    userId: user.id,
+    email: user.email_id,
+    isAdmin: !!user.is_admin,
+    expiresAt: Math.floor(now / 1000) + SESSION_MAX_AGE_SECONDS,
+  };
+  const payload = toBase64Url(encoder.encode(JSON.stringify(session)));
+  const signature = await crypto.subtle.sign("HMAC", await getKey(), encoder.encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verify a session token.
+ * @returns The session, or null when the token is missing, tampered with or expired
+ */
+export async function verifySessionToken(
+  token: string | undefined,
+  now: number = Date.now()
+): Promise<Session | null> {
+  if (!token) return null;
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await getKey(),
+      fromBase64Url(signature),
+      encoder.encode(payload)
+    );
+    if (!valid) return null;
+
+    const session = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as Session;
+    if (!session.userId || session.expiresAt * 1000 <= now) return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+export const sessionCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+  path: "/",
+  maxAge: SESSION_MAX_AGE_SECONDS,
+};
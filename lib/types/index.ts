@@ -25,6 +25,10 @@ export interface UserAuthResponse {
   message?: string;
   success: boolean;
   user: User;
+  // Set by the API proxy after a failed login
+  attempts_remaining?: number;
+  retry_after?: number;
+  locked?: boolean;
 }
 
 export interface UserLoginRequest {
@@ -46,6 +50,50 @@ export interface ResetPinRequest {
 export interface ResetPinResponse {
   success: boolean;
   message: string;
+  // Seconds until the emailed code expires
+  expires_in?: number;
+  // Seconds before another code can be requested
+  resend_after?: number;
+}
+
+export interface VerifyResetCodeRequest {
+  email_id: string;
+  // OTP typed by the user, or the token from the emailed reset link
+  code: string;
+}
+
+export interface VerifyResetCodeResponse {
+  success: boolean;
+  message: string;
+  // Short-lived token that authorises setting the new PIN
+  reset_token?: string;
+  attempts_remaining?: number;
+}
+
+export interface CompletePinResetRequest {
+  email_id: string;
+  reset_token: string;
+  new_pin: string;
+}
+
+export interface UpdateProfileRequest {
+  name?: string;
+  country_id?: string;
+}
+
+export interface ChangePinRequest {
+  current_pin: string;
+  new_pin: string;
+}
+
+export interface DeleteAccountRequest {
+  pin: string;
+}
+
+export interface AccountResponse {
+  success: boolean;
+  message?: string;
+  user?: User;
 }
 
 // Feed Types
@@ -68,16 +116,74 @@ export interface CattleInfo {
   topography: string;
 }
 
+// European dairy breeds, or zebu breeds and their crosses
+export type BreedGroup = "taurine" | "indicine";
+
+// Breed catalogue entry. Weights are in kg, milk fat and protein in %
+export interface Breed {
+  id: string;
+  name: string;
+  // Picks the tape-measure weight formulas (lib/body-weight.ts); missing on breeds
+  // added before groups existed
+  breed_group?: BreedGroup;
+  // ISO 3166 country codes the breed is offered in; empty means every country
+  country_codes: string[];
+  mature_weight_kg: number;
+  min_body_weight_kg: number;
+  max_body_weight_kg: number;
+  fat_milk: number;
+  tp_milk: number;
+  sort_order?: number;
+  is_active?: boolean;
+}
+
+export type BreedRequest = Omit<Breed, "id">;
+
+export interface AnimalProfile {
+  id: string;
+  name: string;
+  ear_tag?: string;
+  farm?: string;
+  cattle_info: Partial<CattleInfo>;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface FeedRecommendation {
   feed_id: string;
   price_per_kg: number;
 }
 
+export interface FeedBasket {
+  id: string;
+  name: string;
+  feeds: FeedRecommendation[];
+  feed_details: Record<string, FeedDetails>;
+  created_at: string;
+  updated_at: string;
+}
+
+// user_id is filled in by the API proxy from the session
 export interface FeedRecommendationRequest {
   cattle_info: CattleInfo;
   feed_selection: FeedRecommendation[];
   simulation_id: string;
-  user_id: string;
+}
+
+export type QueuedJobStatus = "pending" | "processing" | "complete" | "failed";
+
+export interface QueuedRecommendationJob {
+  id: string;
+  // Owner of the job; missing on jobs queued before accounts were kept apart
+  user_id?: string;
+  request: FeedRecommendationRequest;
+  status: QueuedJobStatus;
+  result?: FeedRecommendationResponse;
+  evaluation?: FeedEvaluationResponse;
+  error?: string;
+  attempts: number;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface FeedRecommendationResponse {
@@ -94,6 +200,8 @@ export interface FeedRecommendationResponse {
   };
   animal_information?: any;
   least_cost_diet?: Array<{
+    // Missing from backends that only name the feed
+    feed_id?: string;
     feed_name: string;
     quantity_kg_per_day: number;
     price_per_kg: number;
@@ -108,11 +216,86 @@ export interface FeedRecommendationResponse {
   [key: string]: any;
 }
 
+export interface FormulationScenario {
+  id: string;
+  name: string;
+  recommendation: FeedRecommendationResponse;
+  evaluation?: FeedEvaluationResponse;
+  cattle_info: Partial<CattleInfo>;
+  feeds: FeedRecommendation[];
+  // Set once the scenario's report has been saved to the user's account
+  saved_at?: string;
+  created_at: string;
+}
+
+export interface FeedEvaluationItem extends FeedRecommendation {
+  // As-fed kg/day the farmer currently feeds; omitted when evaluating alongside a recommendation
+  quantity_as_fed?: number;
+}
+
 export interface FeedEvaluationRequest {
   cattle_info: CattleInfo;
-  feed_selection: FeedRecommendation[];
+  feed_selection: FeedEvaluationItem[];
   simulation_id: string;
-  user_id: string;
+}
+
+export interface EvaluationSummary {
+  overall_status: string;
+  limiting_factor: string;
+}
+
+export interface MilkProductionAnalysis {
+  target_production_kg_day?: number;
+  milk_supported_by_energy_kg_day?: number;
+  milk_supported_by_protein_kg_day?: number;
+  actual_milk_supported_kg_day?: number;
+  limiting_nutrient?: string;
+  [key: string]: string | number | undefined;
+}
+
+export interface IntakeEvaluation {
+  intake_status?: string;
+  actual_intake_kg_day?: number;
+  target_intake_kg_day?: number;
+  intake_difference_kg_day?: number;
+  intake_percentage?: number;
+  [key: string]: string | number | undefined;
+}
+
+export interface CostAnalysis {
+  total_diet_cost_as_fed?: number;
+  feed_cost_per_kg_milk?: number;
+  currency?: string;
+  [key: string]: string | number | undefined;
+}
+
+export interface MethaneAnalysis {
+  methane_emission_mj_per_day?: number;
+  methane_production_g_per_day?: number;
+  methane_yield_g_per_kg_dmi?: number;
+  methane_intensity_g_per_kg_ecm?: number;
+  methane_conversion_rate_percent?: number;
+  [key: string]: string | number | undefined;
+}
+
+export interface NutrientBalance {
+  energy_balance_mcal?: number;
+  protein_balance_kg?: number;
+  calcium_balance_kg?: number;
+  phosphorus_balance_kg?: number;
+  ndf_balance_kg?: number;
+  [key: string]: string | number | undefined;
+}
+
+export interface FeedBreakdownItem {
+  feed_id: string;
+  feed_name: string;
+  feed_type: string;
+  quantity_as_fed_kg_per_day: number;
+  quantity_dm_kg_per_day: number;
+  price_per_kg: number;
+  total_cost: number;
+  contribution_percent: number;
 }
 
 export interface FeedEvaluationResponse {
@@ -120,26 +303,13 @@ export interface FeedEvaluationResponse {
   report_id: string;
   currency: string;
   country: string;
-  evaluation_summary?: {
-    overall_status: string;
-    limiting_factor: string;
-  };
-  milk_production_analysis?: any;
-  intake_evaluation?: any;
-  cost_analysis?: any;
-  methane_analysis?: any;
-  nutrient_balance?: any;
-  feed_breakdown?: Array<{
-    feed_id: string;
-    feed_name: string;
-    feed_type: string;
-    quantity_as_fed_kg_per_day: number;
-    quantity_dm_kg_per_day: number;
-    price_per_kg: number;
-    total_cost: number;
-    contribution_percent: number;
-  }>;
-  [key: string]: any;
+  evaluation_summary?: EvaluationSummary;
+  milk_production_analysis?: MilkProductionAnalysis;
+  intake_evaluation?: IntakeEvaluation;
+  cost_analysis?: CostAnalysis;
+  methane_analysis?: MethaneAnalysis;
+  nutrient_balance?: NutrientBalance;
+  feed_breakdown?: FeedBreakdownItem[];
 }
 
 // Feed Classification Types
@@ -198,7 +368,6 @@ export interface FeedDetails {
 
 export interface CheckInsertUpdateRequest {
   feed_id: string;
-  user_id: string;
   country_id: string;
 }
 
@@ -249,7 +418,6 @@ export interface FeedReportResponse {
 
 export interface SaveReportRequest {
   report_id: string;
-  user_id: string;
 }
 
 export interface SavedReportResponse {
@@ -427,5 +595,9 @@ export interface ApiError {
   message: string;
   status?: number;
   errors?: Record<string, string[]>;
+  attempts_remaining?: number;
+  // Seconds until the action may be retried
+  retry_after?: number;
+  locked?: boolean;
 }
 
@@ -0,0 +1,82 @@
+// Unit preferences and conversion to and from the canonical units of CattleInfo
+// and the API: kg, km, °C and litres of milk, plus cm for tape measurements. Values are converted at the edges -
+// form input on the way in, display on the way out - and stored canonically.
+
+export type UnitSystem = "metric" | "imperial";
+// Whether milk is reported by volume or by weight
+export type MilkMeasure = "volume" | "mass";
+
+export interface UnitPreferences {
+  system: UnitSystem;
+  milk: MilkMeasure;
+}
+
+export const DEFAULT_UNITS: UnitPreferences = { system: "metric", milk: "volume" };
+
+// Canonical units: weight kg, distance km, temperature °C, milk L, length cm
+export type Quantity = "weight" | "distance" | "temperature" | "milk" | "length";
+
+interface Unit {
+  symbol: string;
+  fromCanonical: (value: number) => number;
+  toCanonical: (value: number) => number;
+}
+
+export const KG_PER_LB = 0.45359237;
+export const KM_PER_MILE = 1.609344;
+export const CM_PER_INCH = 2.54;
+export const LITRES_PER_US_GALLON = 3.785411784;
+// Average density of whole cow's milk
+export const MILK_KG_PER_LITRE = 1.032;
+
+const scale = (symbol: string, canonicalPerUnit: number): Unit => ({
+  symbol,
+  fromCanonical: (value) => value / canonicalPerUnit,
+  toCanonical: (value) => value * canonicalPerUnit,
+});
+
+const UNITS: Record<Exclude<Quantity, "milk">, Record<UnitSystem, Unit>> = {
+  weight: { metric: scale("kg", 1), imperial: scale("lb", KG_PER_LB) },
+  distance: { metric: scale("km", 1), imperial: scale("mi", KM_PER_MILE) },
+  length: { metric: scale("cm", 1), imperial: scale("in", CM_PER_INCH) },
+  temperature: {
+    metric: scale("°C", 1),
+    imperial: {
+      symbol: "°F",
+      fromCanonical: (value) => (value * 9) / 5 + 32,
+      toCanonical: (value) => ((value - 32) * 5) / 9,
+    },
+  },
+};
+
+const MILK_UNITS: Record<MilkMeasure, Record<UnitSystem, Unit>> = {
+  volume: { metric: scale("L", 1), imperial: scale("gal", LITRES_PER_US_GALLON) },
+  mass: {
+    metric: scale("kg", 1 / MILK_KG_PER_LITRE),
+    imperial: scale("lb", KG_PER_LB / MILK_KG_PER_LITRE),
+  },
+};
+
+/** The unit a quantity is shown and entered in for the given preferences */
+export function getUnit(quantity: Quantity, preferences: UnitPreferences): Unit {
+  return quantity === "milk"
+    ? MILK_UNITS[preferences.milk][preferences.system]
+    : UNITS[quantity][preferences.system];
+}
+
+/** Convert a value entered in the preferred unit to the canonical unit */
+export function toCanonical(quantity: Quantity, value: number, preferences: UnitPreferences): number {
+  return getUnit(quantity, preferences).toCanonical(value);
+}
+
+/** Convert a canonical value to the preferred unit */
+export function fromCanonical(quantity: Quantity, value: number, preferences: UnitPreferences): number {
+  return getUnit(quantity, preferences).fromCanonical(value);
+}
+
+/** Milk reported by weight (e.g. evaluation results in kg/day) as canonical litres */
+export const milkKgToLitres = (kg: number) => kg / MILK_KG_PER_LITRE;
+
+/** Round a converted value to drop float noise (e.g. 1102.3113 lb) */
+export const roundConverted = (value: number, digits: number = 2) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
@@ -0,0 +1,114 @@
+// Per-user persistence for zustand stores, so several accounts can share a device.
+// Each store is saved under "<name>:<user id>" and reloaded when the signed-in user changes.
+
+import { StoreApi } from "zustand";
+import { createJSONStorage, StateStorage } from "zustand/middleware";
+import { useAuthStore } from "@/store/auth-store";
+
+interface UserScopedStore {
+  reset: () => void;
+  rehydrate: () => Promise<void> | void;
+}
+
+const userStores: UserScopedStore[] = [];
+let writesSuspended = false;
+
+// Service worker caches holding the signed-in user's responses (see runtimeCaching in
+// next.config.ts). Their URLs do not name the user, so they are emptied when a
+// different user signs in on this device.
+const USER_SERVICE_WORKER_CACHES = ["feed-catalogue"];
+// User whose responses those caches hold
+const CACHE_OWNER_KEY = "service-worker-cache-owner";
+let cachesCleared: Promise<unknown> = Promise.resolve();
+
+const activeUserId = () => useAuthStore.getState().user?.id ?? null;
+
+const scopedKey = (name: string, userId: string) => `${name}:${userId}`;
+
+const userScopedStorage: StateStorage = {
+  getItem: (name) => {
+    const userId = activeUserId();
+    if (!userId) return null;
+    const key = scopedKey(name, userId);
+    const value = localStorage.getItem(key);
+    if (value !== null) return value;
+
+    // Data saved before accounts were kept apart goes to the first user who loads it
+    const legacy = localStorage.getItem(name);
+    if (legacy !== null) {
+      localStorage.setItem(key, legacy);
+      localStorage.removeItem(name);
+    }
+    return legacy;
+  },
+  setItem: (name, value) => {
+    const userId = activeUserId();
+    // Nothing is kept for signed-out visitors
+    if (!userId || writesSuspended) return;
+    localStorage.setItem(scopedKey(name, userId), value);
+  },
+  removeItem: (name) => {
+    const userId = activeUserId();
+    if (userId) localStorage.removeItem(scopedKey(name, userId));
+  },
+};
+
+/** `storage` option for persist() in stores that hold one user's data */
+export const userStorage = createJSONStorage(() => userScopedStorage);
+
+/** Reload a store whenever the signed-in user changes. Call once after create(). */
+export function registerUserStore<T>(
+  store: StoreApi<T> & { persist: { rehydrate: () => Promise<void> | void } }
+) {
+  userStores.push({
+    reset: () => store.setState(store.getInitialState(), true),
+    rehydrate: () => store.persist.rehydrate(),
+  });
+}
+
+/** Remove everything saved for a user on this device, including cached responses */
+export function clearUserStorage(userId: string) {
+  const suffix = `:${userId}`;
+  Object.keys(localStorage)
+    .filter((key) => key.endsWith(suffix))
+    .forEach((key) => localStorage.removeItem(key));
+
+  if (localStorage.getItem(CACHE_OWNER_KEY) === userId) {
+    localStorage.removeItem(CACHE_OWNER_KEY);
+    deleteServiceWorkerCaches();
+  }
+}
+
+/** Settles once another user's service worker caches have been emptied */
+export const userCachesCleared = () => cachesCleared;
+
+function deleteServiceWorkerCaches() {
+  if (typeof caches === "undefined") return;
+  cachesCleared = Promise.all(
+    USER_SERVICE_WORKER_CACHES.map((name) => caches.delete(name).catch(() => false))
+  );
+}
+
+function claimServiceWorkerCaches(userId: string) {
+  if (localStorage.getItem(CACHE_OWNER_KEY) === userId) return;
+  localStorage.setItem(CACHE_OWNER_KEY, userId);
+  deleteServiceWorkerCaches();
+}
+
+if (typeof window !== "undefined") {
+  const userId = activeUserId();
+  if (userId) claimServiceWorkerCaches(userId);
+}
+
+useAuthStore.subscribe((state, previous) => {
+  if (state.user?.id === previous.user?.id) return;
+  // Signing out keeps the caches in case the same user signs back in
+  if (state.user) claimServiceWorkerCaches(state.user.id);
+
+  // Clear the previous user's data from memory without saving it under the new user
+  writesSuspended = true;
+  userStores.forEach((store) => store.reset());
+  writesSuspended = false;
+
+  userStores.forEach((store) => store.rehydrate());
+});
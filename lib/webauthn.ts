@@ -0,0 +1,90 @@
+// Device passkeys for unlocking the app lock.
+// This is a local check: the platform authenticator verifies the user (fingerprint,
+// face, device PIN) and the app trusts that result. The session itself is still
+// protected by the server-side session cookie.
+
+import { User } from "@/lib/types";
+
+const RP_NAME = "Feed Formulation";
+
+function toBase64Url(buffer: ArrayBuffer): string {
+  let binary = "";
+  new Uint8Array(buffer).forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+// The challenge is not checked by a server, but WebAuthn still requires one
+const randomChallenge = () => crypto.getRandomValues(new Uint8Array(32));
+
+/**
+ * Whether this device has a built-in authenticator that can verify the user
+ */
+export async function isPasskeySupported(): Promise<boolean> {
+  if (typeof window === "undefined" || !window.PublicKeyCredential) return false;
+  try {
+    return await PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Register a platform passkey for the user on this device
+ * @returns The credential ID (base64url) to unlock with later
+ */
+export async function registerPasskey(user: User): Promise<string> {
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      challenge: randomChallenge(),
+      rp: { name: RP_NAME, id: window.location.hostname },
+      user: {
+        id: new TextEncoder().encode(user.id),
+        name: user.email_id || user.id,
+        displayName: user.name || user.email_id || "Farmer",
+      },
+      pubKeyCredParams: [
+        { type: "public-key", alg: -7 }, // ES256
+        { type: "public-key", alg: -257 }, // RS256
+      ],
+      authenticatorSelection: {
+        authenticatorAttachment: "platform",
+        userVerification: "required",
+        residentKey: "discouraged",
+      },
+      timeout: 60000,
+    },
+  })) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error("Passkey registration was cancelled");
+  }
+  return toBase64Url(credential.rawId);
+}
+
+/**
+ * Ask the platform authenticator to verify the user with a registered passkey
+ * @returns True when the user was verified
+ */
+export async function verifyPasskey(credentialId: string): Promise<boolean> {
+  const assertion = (await navigator.credentials.get({
+    publicKey: {
+      challenge: randomChallenge(),
+      rpId: window.location.hostname,
+      allowCredentials: [{ type: "public-key", id: fromBase64Url(credentialId) }],
+      userVerification: "required",
+      timeout: 60000,
+    },
+  })) as PublicKeyCredential | null;
+
+  const flags = assertion
+    ? new Uint8Array((assertion.response as AuthenticatorAssertionResponse).authenticatorData)[32]
+    : 0;
+  // Bit 2 of the authenticator data flags is "user verified"
+  return !!assertion && (flags & 0x04) !== 0;
+}
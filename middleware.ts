@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE, verifySessionToken } from "@/lib/session";
+
+// Pages in the (auth) route group - signed-in users have no business here
+const AUTH_PAGES = ["/login", "/register", "/forgot-pin", "/splash", "/welcome"];
+const HOME_PAGE = "/cattle-info";
+
+const matchesPage = (pathname: string, page: string) =>
+  pathname === page || pathname.startsWith(`${page}/`);
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+
+  if (AUTH_PAGES.some((page) => matchesPage(pathname, page))) {
+    return session
+      ? NextResponse.redirect(new URL(HOME_PAGE, request.url))
+      : NextResponse.next();
+  }
+
+  // The root page only forwards to the splash screen
+  if (pathname === "/") {
+    return NextResponse.next();
+  }
+
+  if (!session) {
+    const loginUrl = new URL("/login", request.url);
+    loginUrl.searchParams.set("next", `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (matchesPage(pathname, "/admin") && !session.isAdmin) {
+    // Render the 403 page in place so the admin page itself is never sent
+    return NextResponse.rewrite(new URL("/forbidden", request.url), { status: 403 });
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  // Skip API routes, build output, the service worker and static files
+  matcher: [
+    "/((?!api|_next/static|_next/image|favicon.ico|manifest.json|manifest.webmanifest|sw.js|workbox-.*|icons/|.*\\.(?:png|jpg|jpeg|svg|ico|webp)$).*)",
+  ],
+};
@@ -1,7 +1,37 @@
 import type { NextConfig } from "next";
+import withPWAInit from "next-pwa";
+import defaultCache from "next-pwa/cache";
+
+const withPWA = withPWAInit({
+  dest: "public",
+  // The service worker is registered from the root layout
+  register: false,
+  disable: process.env.NODE_ENV === "development",
+  runtimeCaching: [
+    {
+      // Feed catalogue lookups change rarely - serve from cache and refresh in the background.
+      // Responses include the user's custom feeds; lib/user-storage.ts empties the
+      // cache when a different user signs in.
+      urlPattern: /\/api\/proxy\/(unique-feed-type|unique-feed-category|feed-name|feed-classification|auth\/countries)/,
+      handler: "StaleWhileRevalidate",
+      method: "GET",
+      options: {
+        cacheName: "feed-catalogue",
+        expiration: {
+          maxEntries: 200,
+          maxAgeSeconds: 7 * 24 * 60 * 60, // 7 days
+        },
+        cacheableResponse: { statuses: [0, 200] },
+      },
+    },
+    ...defaultCache,
+  ],
+});
 
 const nextConfig: NextConfig = {
   reactStrictMode: true,
+  // The API proxy forwards paths verbatim and the backend expects trailing slashes
+  skipTrailingSlashRedirect: true,
 };
 
-export default nextConfig;
+export default withPWA(nextConfig);
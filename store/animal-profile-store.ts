@@ -0,0 +1,81 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { AnimalProfile, CattleInfo } from "@/lib/types";
+import { registerUserStore, userStorage } from "@/lib/user-storage";
+
+type AnimalProfileInput = Pick<AnimalProfile, "name" | "ear_tag" | "farm"> & {
+  cattle_info?: Partial<CattleInfo>;
+};
+
+interface AnimalProfileState {
+  profiles: AnimalProfile[];
+  activeProfileId: string | null;
+  addProfile: (input: AnimalProfileInput) => string;
+  updateProfile: (id: string, changes: Partial<AnimalProfileInput>) => void;
+  duplicateProfile: (id: string) => string | null;
+  deleteProfile: (id: string) => void;
+  selectProfile: (id: string | null) => void;
+}
+
+const generateProfileId = () =>
+  `animal_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const useAnimalProfileStore = create<AnimalProfileState>()(
+  persist(
+    (set, get) => ({
+      profiles: [],
+      activeProfileId: null,
+      addProfile: (input) => {
+        const now = new Date().toISOString();
+        const profile: AnimalProfile = {
+          id: generateProfileId(),
+          name: input.name,
+          ear_tag: input.ear_tag,
+          farm: input.farm,
+          cattle_info: input.cattle_info || {},
+          created_at: now,
+          updated_at: now,
+        };
+        set((state) => ({ profiles: [...state.profiles, profile] }));
+        return profile.id;
+      },
+      updateProfile: (id, changes) =>
+        set((state) => ({
+          profiles: state.profiles.map((p) =>
+            p.id === id
+              ? {
+                  ...p,
+                  ...changes,
+                  cattle_info: changes.cattle_info
+                    ? { ...p.cattle_info, ...changes.cattle_info }
+                    : p.cattle_info,
+                  updated_at: new Date().toISOString(),
+                }
+              : p
+          ),
+        })),
+      duplicateProfile: (id) => {
+        const source = get().profiles.find((p) => p.id === id);
+        if (!source) return null;
+        return get().addProfile({
+          name: `${source.name} (copy)`,
+          ear_tag: undefined,
+          farm: source.farm,
+          cattle_info: { ...source.cattle_info },
+        });
+      },
+      deleteProfile: (id) =>
+        set((state) => ({
+          profiles: state.profiles.filter((p) => p.id !== id),
+          activeProfileId: state.activeProfileId === id ? null : state.activeProfileId,
+        })),
+      selectProfile: (id) => set({ activeProfileId: id }),
+    }),
+    {
+      name: "animal-profile-storage",
+      storage: userStorage,
+    }
+  )
+);
+
+registerUserStore(useAnimalProfileStore);
@@ -0,0 +1,71 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { useAuthStore } from "./auth-store";
+
+export const IDLE_LOCK_OPTIONS = [0, 1, 5, 15, 30, 60];
+
+interface AppLockState {
+  // Minutes of inactivity before the app locks; 0 turns the lock off
+  idleMinutes: number;
+  lastActiveAt: number | null;
+  lockedAt: number | null;
+  // WebAuthn credential ID per user ID
+  passkeys: Record<string, string>;
+  setIdleMinutes: (minutes: number) => void;
+  markActive: () => void;
+  lock: () => void;
+  unlock: () => void;
+  lockIfIdle: () => void;
+  setPasskey: (userId: string, credentialId: string | null) => void;
+}
+
+/** A lock from before the current sign-in (e.g. a previous session) no longer applies */
+export const isLockActive = (lockedAt: number | null, signedInAt: number | null) =>
+  lockedAt !== null && lockedAt >= (signedInAt ?? 0);
+
+export const useAppLockStore = create<AppLockState>()(
+  persist(
+    (set, get) => ({
+      idleMinutes: 15,
+      lastActiveAt: null,
+      lockedAt: null,
+      passkeys: {},
+      setIdleMinutes: (minutes) =>
+        set({ idleMinutes: minutes, lastActiveAt: Date.now() }),
+      markActive: () =>
+        set({ lastActiveAt: Date.now() }),
+      lock: () =>
+        set({ lockedAt: Date.now() }),
+      unlock: () =>
+        set({ lockedAt: null, lastActiveAt: Date.now() }),
+      lockIfIdle: () => {
+        const { idleMinutes, lastActiveAt, lockedAt } = get();
+        const { user, signedInAt } = useAuthStore.getState();
+        if (!idleMinutes || !user || isLockActive(lockedAt, signedInAt)) return;
+
+        // Activity before this sign-in belongs to someone else's session
+        const activeSince = Math.max(lastActiveAt ?? 0, signedInAt ?? 0);
+        if (activeSince && Date.now() - activeSince >= idleMinutes * 60 * 1000) {
+          set({ lockedAt: Date.now() });
+        }
+      },
+      setPasskey: (userId, credentialId) =>
+        set((state) => {
+          const passkeys = { ...state.passkeys };
+          if (credentialId) {
+            passkeys[userId] = credentialId;
+          } else {
+            delete passkeys[userId];
+          }
+          return { passkeys };
+        }),
+    }),
+    {
+      name: "app-lock-storage",
+      // Lock before the first render when the app is reopened after a long break
+      onRehydrateStorage: () => (state) => {
+        state?.lockIfIdle();
+      },
+    }
+  )
+);
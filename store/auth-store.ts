@@ -2,14 +2,20 @@ import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import { User } from "@/lib/types";
 
+// Accounts remembered on this device for quick switching
+export const MAX_ACCOUNTS = 5;
+
 interface AuthState {
   user: User | null;
-  token: string | null;
   isAuthenticated: boolean;
+  // When the current user signed in, in Unix milliseconds
+  signedInAt: number | null;
   hasHydrated: boolean;
+  // Recently used accounts, most recent first
+  accounts: User[];
   setUser: (user: User | null) => void;
-  setToken: (token: string | null) => void;
   logout: () => void;
+  removeAccount: (userId: string) => void;
   setHasHydrated: (state: boolean) => void;
 }
 
@@ -17,15 +23,27 @@ export const useAuthStore = create<AuthState>()(
   persist(
     (set) => ({
       user: null,
-      token: null,
       isAuthenticated: false,
+      signedInAt: null,
       hasHydrated: false,
+      accounts: [],
       setUser: (user) =>
-        set({ user, isAuthenticated: !!user }),
-      setToken: (token) =>
-        set({ token }),
+        set((state) => ({
+          user,
+          isAuthenticated: !!user,
+          // Profile updates keep the same user and must not count as a new sign-in
+          signedInAt: user && user.id !== state.user?.id ? Date.now() : state.signedInAt,
+          accounts: user
+            ? [user, ...state.accounts.filter((a) => a.id !== user.id)].slice(0, MAX_ACCOUNTS)
+            : state.accounts,
+        })),
+      // Signing out keeps the account in the switcher
       logout: () =>
-        set({ user: null, token: null, isAuthenticated: false }),
+        set({ user: null, isAuthenticated: false, signedInAt: null }),
+      removeAccount: (userId) =>
+        set((state) => ({
+          accounts: state.accounts.filter((a) => a.id !== userId),
+        })),
       setHasHydrated: (state) =>
         set({ hasHydrated: state }),
     }),
@@ -0,0 +1,40 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { CattleInfo } from "@/lib/types";
+import { registerUserStore, userStorage } from "@/lib/user-storage";
+
+// The full form, or one question per screen for less experienced users
+export type CattleEntryMode = "form" | "wizard";
+
+export type WizardStep = keyof CattleInfo | "review";
+
+// Where the wizard was left, so it resumes on the same question
+export interface WizardProgress {
+  step: WizardStep;
+  // Animal profile the autosaved answers belong to
+  profileId: string | null;
+}
+
+interface CattleEntryState {
+  mode: CattleEntryMode;
+  wizardProgress: WizardProgress | null;
+  setMode: (mode: CattleEntryMode) => void;
+  setWizardProgress: (progress: WizardProgress | null) => void;
+}
+
+export const useCattleEntryStore = create<CattleEntryState>()(
+  persist(
+    (set) => ({
+      mode: "form",
+      wizardProgress: null,
+      setMode: (mode) => set({ mode }),
+      setWizardProgress: (wizardProgress) => set({ wizardProgress }),
+    }),
+    {
+      name: "cattle-entry-storage",
+      storage: userStorage,
+    }
+  )
+);
+
+registerUserStore(useCattleEntryStore);
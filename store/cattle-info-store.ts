@@ -1,6 +1,7 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import { CattleInfo } from "@/lib/types";
+import { registerUserStore, userStorage } from "@/lib/user-storage";
 
 interface CattleInfoState {
   cattleInfo: Partial<CattleInfo>;
@@ -37,7 +38,9 @@ export const useCattleInfoStore = create<CattleInfoState>()(
     }),
     {
       name: "cattle-info-storage",
+      storage: userStorage,
     }
   )
 );
 
+registerUserStore(useCattleInfoStore);
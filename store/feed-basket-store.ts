@@ -0,0 +1,114 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { FeedBasket, FeedDetails, FeedRecommendation } from "@/lib/types";
+import { registerUserStore, userStorage } from "@/lib/user-storage";
+
+interface FeedBasketState {
+  baskets: FeedBasket[];
+  // Last price_per_kg the user entered for each feed, across all baskets
+  lastPrices: Record<string, number>;
+  saveBasket: (
+    name: string,
+    feeds: FeedRecommendation[],
+    feedDetails: Record<string, FeedDetails>
+  ) => string;
+  replaceBasketFeeds: (
+    id: string,
+    feeds: FeedRecommendation[],
+    feedDetails: Record<string, FeedDetails>
+  ) => void;
+  updateBasketPrices: (id: string, prices: Record<string, number>) => void;
+  rememberPrices: (feeds: FeedRecommendation[]) => void;
+  deleteBasket: (id: string) => void;
+}
+
+const generateBasketId = () =>
+  `basket_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Keep only the details of feeds that are in the basket
+const pickDetails = (feeds: FeedRecommendation[], feedDetails: Record<string, FeedDetails>) =>
+  Object.fromEntries(
+    feeds
+      .filter((f) => feedDetails[f.feed_id])
+      .map((f) => [f.feed_id, feedDetails[f.feed_id]])
+  );
+
+const pricesOf = (feeds: FeedRecommendation[]) =>
+  Object.fromEntries(feeds.map((f) => [f.feed_id, f.price_per_kg]));
+
+/** A basket's feeds priced at the user's last entered prices, where they have one */
+export const withLastPrices = (basket: FeedBasket, lastPrices: Record<string, number>) =>
+  basket.feeds.map((f) =>
+    lastPrices[f.feed_id] > 0 ? { ...f, price_per_kg: lastPrices[f.feed_id] } : { ...f }
+  );
+
+export const useFeedBasketStore = create<FeedBasketState>()(
+  persist(
+    (set) => ({
+      baskets: [],
+      lastPrices: {},
+      saveBasket: (name, feeds, feedDetails) => {
+        const now = new Date().toISOString();
+        const basket: FeedBasket = {
+          id: generateBasketId(),
+          name,
+          feeds: feeds.map((f) => ({ ...f })),
+          feed_details: pickDetails(feeds, feedDetails),
+          created_at: now,
+          updated_at: now,
+        };
+        set((state) => ({
+          baskets: [...state.baskets, basket],
+          lastPrices: { ...state.lastPrices, ...pricesOf(feeds) },
+        }));
+        return basket.id;
+      },
+      replaceBasketFeeds: (id, feeds, feedDetails) =>
+        set((state) => ({
+          baskets: state.baskets.map((b) =>
+            b.id === id
+              ? {
+                  ...b,
+                  feeds: feeds.map((f) => ({ ...f })),
+                  feed_details: pickDetails(feeds, { ...b.feed_details, ...feedDetails }),
+                  updated_at: new Date().toISOString(),
+                }
+              : b
+          ),
+          lastPrices: { ...state.lastPrices, ...pricesOf(feeds) },
+        })),
+      updateBasketPrices: (id, prices) =>
+        set((state) => ({
+          baskets: state.baskets.map((b) =>
+            b.id === id
+              ? {
+                  ...b,
+                  feeds: b.feeds.map((f) =>
+                    prices[f.feed_id] > 0 ? { ...f, price_per_kg: prices[f.feed_id] } : f
+                  ),
+                  updated_at: new Date().toISOString(),
+                }
+              : b
+          ),
+          lastPrices: {
+            ...state.lastPrices,
+            ...Object.fromEntries(Object.entries(prices).filter(([, price]) => price > 0)),
+          },
+        })),
+      rememberPrices: (feeds) =>
+        set((state) => ({
+          lastPrices: { ...state.lastPrices, ...pricesOf(feeds) },
+        })),
+      deleteBasket: (id) =>
+        set((state) => ({
+          baskets: state.baskets.filter((b) => b.id !== id),
+        })),
+    }),
+    {
+      name: "feed-basket-storage",
+      storage: userStorage,
+    }
+  )
+);
+
+registerUserStore(useFeedBasketStore);
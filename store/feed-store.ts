@@ -1,11 +1,17 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
-import { FeedRecommendation } from "@/lib/types";
+import { FeedDetails, FeedRecommendation } from "@/lib/types";
+import { registerUserStore, userStorage } from "@/lib/user-storage";
 
 interface FeedState {
   selectedFeeds: FeedRecommendation[];
-  addFeed: (feed: FeedRecommendation) => void;
+  feedDetails: Record<string, FeedDetails>;
+  feedQuantities: Record<string, number>;
+  addFeed: (feed: FeedRecommendation, details?: FeedDetails) => void;
+  loadFeeds: (feeds: FeedRecommendation[], details: Record<string, FeedDetails>) => void;
   removeFeed: (feedId: string) => void;
+  updateFeedPrice: (feedId: string, pricePerKg: number) => void;
+  setFeedQuantity: (feedId: string, quantity: number) => void;
   clearFeeds: () => void;
 }
 
@@ -13,19 +19,50 @@ export const useFeedStore = create<FeedState>()(
   persist(
     (set) => ({
       selectedFeeds: [],
-      addFeed: (feed) =>
+      feedDetails: {},
+      feedQuantities: {},
+      addFeed: (feed, details) =>
         set((state) => ({
           selectedFeeds: [...state.selectedFeeds, feed],
+          feedDetails: details
+            ? { ...state.feedDetails, [feed.feed_id]: details }
+            : state.feedDetails,
         })),
+      loadFeeds: (feeds, details) =>
+        set({
+          selectedFeeds: feeds.map((f) => ({ ...f })),
+          feedDetails: { ...details },
+          feedQuantities: {},
+        }),
       removeFeed: (feedId) =>
+        set((state) => {
+          const feedDetails = { ...state.feedDetails };
+          const feedQuantities = { ...state.feedQuantities };
+          delete feedDetails[feedId];
+          delete feedQuantities[feedId];
+          return {
+            selectedFeeds: state.selectedFeeds.filter((f) => f.feed_id !== feedId),
+            feedDetails,
+            feedQuantities,
+          };
+        }),
+      updateFeedPrice: (feedId, pricePerKg) =>
         set((state) => ({
-          selectedFeeds: state.selectedFeeds.filter((f) => f.feed_id !== feedId),
+          selectedFeeds: state.selectedFeeds.map((f) =>
+            f.feed_id === feedId ? { ...f, price_per_kg: pricePerKg } : f
+          ),
         })),
-      clearFeeds: () => set({ selectedFeeds: [] }),
+      setFeedQuantity: (feedId, quantity) =>
+        set((state) => ({
+          feedQuantities: { ...state.feedQuantities, [feedId]: quantity },
+        })),
+      clearFeeds: () => set({ selectedFeeds: [], feedDetails: {}, feedQuantities: {} }),
     }),
     {
       name: "feed-storage",
+      storage: userStorage,
     }
   )
 );
 
+registerUserStore(useFeedStore);
@@ -0,0 +1,21 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { Locale } from "@/lib/i18n";
+
+interface LocaleState {
+  // Language chosen by hand; null follows the user's country
+  locale: Locale | null;
+  setLocale: (locale: Locale | null) => void;
+}
+
+export const useLocaleStore = create<LocaleState>()(
+  persist(
+    (set) => ({
+      locale: null,
+      setLocale: (locale) => set({ locale }),
+    }),
+    {
+      name: "locale-storage",
+    }
+  )
+);
@@ -0,0 +1,59 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { FormulationScenario } from "@/lib/types";
+import { registerUserStore, userStorage } from "@/lib/user-storage";
+
+// Columns stop being readable side by side beyond this
+export const MAX_SCENARIOS = 4;
+
+interface ScenarioState {
+  scenarios: FormulationScenario[];
+  addScenario: (scenario: Omit<FormulationScenario, "id" | "created_at">) => string;
+  renameScenario: (id: string, name: string) => void;
+  markScenarioSaved: (id: string) => void;
+  removeScenario: (id: string) => void;
+  clearScenarios: () => void;
+}
+
+const generateScenarioId = () =>
+  `scenario_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const useScenarioStore = create<ScenarioState>()(
+  persist(
+    (set) => ({
+      scenarios: [],
+      addScenario: (scenario) => {
+        const id = generateScenarioId();
+        set((state) => ({
+          // Drop the oldest scenario once the comparison is full
+          scenarios: [
+            ...state.scenarios,
+            { ...scenario, id, created_at: new Date().toISOString() },
+          ].slice(-MAX_SCENARIOS),
+        }));
+        return id;
+      },
+      renameScenario: (id, name) =>
+        set((state) => ({
+          scenarios: state.scenarios.map((s) => (s.id === id ? { ...s, name } : s)),
+        })),
+      markScenarioSaved: (id) =>
+        set((state) => ({
+          scenarios: state.scenarios.map((s) =>
+            s.id === id ? { ...s, saved_at: new Date().toISOString() } : s
+          ),
+        })),
+      removeScenario: (id) =>
+        set((state) => ({
+          scenarios: state.scenarios.filter((s) => s.id !== id),
+        })),
+      clearScenarios: () => set({ scenarios: [] }),
+    }),
+    {
+      name: "scenario-storage",
+      storage: userStorage,
+    }
+  )
+);
+
+registerUserStore(useScenarioStore);
@@ -0,0 +1,25 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { DEFAULT_UNITS, UnitPreferences } from "@/lib/units";
+import { registerUserStore, userStorage } from "@/lib/user-storage";
+
+interface UnitState {
+  units: UnitPreferences;
+  setUnits: (units: Partial<UnitPreferences>) => void;
+}
+
+export const useUnitStore = create<UnitState>()(
+  persist(
+    (set) => ({
+      units: DEFAULT_UNITS,
+      setUnits: (units) =>
+        set((state) => ({ units: { ...state.units, ...units } })),
+    }),
+    {
+      name: "unit-storage",
+      storage: userStorage,
+    }
+  )
+);
+
+registerUserStore(useUnitStore);
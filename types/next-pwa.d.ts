@@ -0,0 +1,39 @@
+declare module "next-pwa" {
+  import type { NextConfig } from "next";
+
+  export interface RuntimeCachingEntry {
+    urlPattern: RegExp | string | ((context: { url: URL; request: Request }) => boolean);
+    handler: "CacheFirst" | "CacheOnly" | "NetworkFirst" | "NetworkOnly" | "StaleWhileRevalidate";
+    method?: "GET" | "POST" | "PUT" | "DELETE" | "PATCH";
+    options?: {
+      cacheName?: string;
+      networkTimeoutSeconds?: number;
+      expiration?: { maxEntries?: number; maxAgeSeconds?: number };
+      cacheableResponse?: { statuses?: number[]; headers?: Record<string, string> };
+    };
+  }
+
+  interface PWAConfig {
+    dest?: string;
+    disable?: boolean;
+    register?: boolean;
+    scope?: string;
+    sw?: string;
+    skipWaiting?: boolean;
+    clientsClaim?: boolean;
+    reloadOnOnline?: boolean;
+    cacheOnFrontEndNav?: boolean;
+    buildExcludes?: Array<string | RegExp>;
+    fallbacks?: Record<string, string>;
+    runtimeCaching?: RuntimeCachingEntry[];
+  }
+
+  export default function withPWAInit(config?: PWAConfig): (nextConfig: NextConfig) => NextConfig;
+}
+
+declare module "next-pwa/cache" {
+  import type { RuntimeCachingEntry } from "next-pwa";
+
+  const defaultCache: RuntimeCachingEntry[];
+  export default defaultCache;
+}
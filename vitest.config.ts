@@ -0,0 +1,14 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+// Unit tests for the pure modules in lib/ and the API route handlers. The
+// browser flows are covered by the Playwright suite in e2e/.
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL(".", import.meta.url)) },
+  },
+  test: {
+    include: ["lib/**/*.test.ts", "app/api/**/*.test.ts"],
+    environment: "node",
+  },
+});